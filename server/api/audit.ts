@@ -0,0 +1,349 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth, requirePermission, matchOrganizationParam } from '../middleware/auth';
+import { isAuditAction } from '../lib/audit';
+import { toCsv } from '../lib/csv';
+import {
+  verifyAuditChain,
+  verifyCheckpointSignature,
+  toCheckpoint,
+  AuditCheckpoint,
+  CHECKPOINT_ALGORITHM,
+  CHECKPOINT_PUBLIC_KEY
+} from '../lib/auditChain';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const MAX_EXPORT_ROWS = 10000;
+
+router.use(requireAuth, requirePermission('view_audit_log'));
+router.param('organizationId', matchOrganizationParam);
+
+interface AuditFilters {
+  action?: string;
+  userId?: string;
+  from?: string;
+  to?: string;
+}
+
+const parseFilters = (query: express.Request['query']): AuditFilters | string => {
+  const { action, userId, from, to } = query;
+  const filters: AuditFilters = {};
+
+  if (action !== undefined && action !== '') {
+    if (!isAuditAction(action)) {
+      return 'Unknown audit action';
+    }
+    filters.action = action;
+  }
+
+  if (typeof userId === 'string' && userId) {
+    filters.userId = userId;
+  }
+
+  for (const [key, value] of [['from', from], ['to', to]] as const) {
+    if (typeof value === 'string' && value) {
+      if (isNaN(Date.parse(value))) {
+        return `Invalid ${key} date`;
+      }
+      filters[key] = new Date(value).toISOString();
+    }
+  }
+
+  return filters;
+};
+
+const auditQuery = (organizationId: string, filters: AuditFilters, count = false) => {
+  let query = supabase
+    .from('audit_logs')
+    .select(`
+      id,
+      sequence,
+      entry_hash,
+      action,
+      details,
+      ip_address,
+      user_agent,
+      created_at,
+      auth_users (
+        id,
+        name,
+        email
+      )
+    `, count ? { count: 'exact' } : undefined)
+    .eq('organization_id', organizationId);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.userId) query = query.eq('user_id', filters.userId);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  return query.order('created_at', { ascending: false });
+};
+
+interface AuditActor {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface AuditLogRow {
+  id: string;
+  sequence: number;
+  entry_hash: string;
+  action: string;
+  details: Record<string, unknown> | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  auth_users: AuditActor | AuditActor[] | null;
+}
+
+const toEntry = (log: AuditLogRow) => {
+  const actor = Array.isArray(log.auth_users) ? log.auth_users[0] : log.auth_users;
+  return {
+    id: log.id,
+    sequence: log.sequence,
+    entry_hash: log.entry_hash,
+    action: log.action,
+    details: log.details || {},
+    ip_address: log.ip_address,
+    user_agent: log.user_agent,
+    created_at: log.created_at,
+    actor: actor ? { id: actor.id, name: actor.name, email: actor.email } : null
+  };
+};
+
+router.get('/:organizationId', async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const filters = parseFilters(req.query);
+
+    if (typeof filters === 'string') {
+      return res.status(400).json({
+        success: false,
+        message: filters
+      });
+    }
+
+    const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.pageSize || DEFAULT_PAGE_SIZE), 10) || DEFAULT_PAGE_SIZE));
+    const offset = (page - 1) * pageSize;
+
+    const { data: logs, count, error } = await auditQuery(organizationId, filters, true)
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('Get audit log error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get audit log',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        entries: (logs || []).map(toEntry),
+        total: count || 0,
+        page,
+        pageSize
+      }
+    });
+
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:organizationId/export', async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const filters = parseFilters(req.query);
+
+    if (typeof filters === 'string') {
+      return res.status(400).json({
+        success: false,
+        message: filters
+      });
+    }
+
+    const { data: logs, error } = await auditQuery(organizationId, filters)
+      .range(0, MAX_EXPORT_ROWS - 1);
+
+    if (error) {
+      console.error('Export audit log error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to export audit log',
+        error: error.message
+      });
+    }
+
+    const rows = [
+      ['Sequence', 'Time', 'Action', 'Actor', 'Actor Email', 'IP Address', 'User Agent', 'Details', 'Entry Hash'],
+      ...(logs || []).map(toEntry).map(entry => [
+        entry.sequence,
+        entry.created_at,
+        entry.action,
+        entry.actor?.name,
+        entry.actor?.email,
+        entry.ip_address,
+        entry.user_agent,
+        JSON.stringify(entry.details),
+        entry.entry_hash
+      ])
+    ];
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log-${organizationId}.csv"`);
+    return res.status(200).send(toCsv(rows));
+
+  } catch (error) {
+    console.error('Export audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const getCheckpoints = async (organizationId: string) => {
+  const { data, error } = await supabase
+    .from('audit_checkpoints')
+    .select('organization_id, sequence, head_hash, signature, created_at')
+    .eq('organization_id', organizationId)
+    .order('sequence', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get audit checkpoints: ${error.message}`);
+  }
+
+  return (data || []).map(toCheckpoint);
+};
+
+// Each checkpoint must carry a valid signature and still match the entry at
+// its position; a checkpoint past the head means entries were truncated.
+const compareCheckpoint = (checkpoint: AuditCheckpoint, chainHashes: Map<number, string>) => ({
+  sequence: checkpoint.sequence,
+  headHash: checkpoint.headHash,
+  createdAt: checkpoint.createdAt,
+  signatureValid: verifyCheckpointSignature(checkpoint),
+  matchesChain: chainHashes.get(checkpoint.sequence) === checkpoint.headHash
+});
+
+router.get('/:organizationId/verify', async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const checkpoints = await getCheckpoints(organizationId);
+    const { verification, collected } = await verifyAuditChain(
+      organizationId,
+      undefined,
+      new Set(checkpoints.map(checkpoint => checkpoint.sequence))
+    );
+
+    const checkpointResults = checkpoints.map(checkpoint => compareCheckpoint(checkpoint, collected));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        valid: verification.valid && checkpointResults.every(result => result.signatureValid && result.matchesChain),
+        chain: verification,
+        checkpoints: checkpointResults
+      }
+    });
+
+  } catch (error) {
+    console.error('Verify audit log error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.get('/:organizationId/checkpoints/export', async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const checkpoints = await getCheckpoints(organizationId);
+
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-checkpoints-${organizationId}.json"`);
+    return res.status(200).send(JSON.stringify({
+      organizationId,
+      algorithm: CHECKPOINT_ALGORITHM,
+      publicKey: CHECKPOINT_PUBLIC_KEY,
+      exportedAt: new Date().toISOString(),
+      checkpoints
+    }, null, 2));
+
+  } catch (error) {
+    console.error('Export audit checkpoints error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Checks a previously exported checkpoint against the chain as it is now.
+router.post('/:organizationId/checkpoints/compare', async (req, res) => {
+  try {
+    const { organizationId } = req.params;
+    const { sequence, headHash, createdAt, signature } = req.body?.checkpoint || {};
+
+    if (!Number.isInteger(sequence) || sequence < 1 || typeof headHash !== 'string' ||
+        typeof createdAt !== 'string' || isNaN(Date.parse(createdAt)) || typeof signature !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'A checkpoint with sequence, headHash, createdAt and signature is required'
+      });
+    }
+
+    const checkpoint: AuditCheckpoint = { organizationId, sequence, headHash, createdAt, signature };
+    const { verification, collected } = await verifyAuditChain(organizationId, undefined, new Set([sequence]));
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...compareCheckpoint(checkpoint, collected),
+        chain: verification
+      }
+    });
+
+  } catch (error) {
+    console.error('Compare audit checkpoint error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
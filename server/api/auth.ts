@@ -1,6 +1,27 @@
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import crypto from 'crypto';
+import sgMail from '@sendgrid/mail';
+import rateLimit from 'express-rate-limit';
+import { hashPassword, verifyPassword } from '../lib/passwords';
+import { sealSecret, openSecret } from '../lib/ballots';
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  generateMfaToken,
+  hashMfaValue,
+  isStepUpAction,
+  MFA_TOKEN_TTL_MS,
+  STEP_UP_ACTIONS
+} from '../lib/mfa';
+import { lockoutAfter, describeLockout, Lockout } from '../lib/lockout';
+import { recordAudit, AuditAction } from '../lib/audit';
+import { setMemberGroups } from '../lib/memberGroups';
+import { checkJoinCode, claimJoinCode, releaseJoinCode } from '../lib/joinCodes';
+import { requireAuth } from '../middleware/auth';
 
 dotenv.config({ path: '.env' });
 const router = express.Router();
@@ -8,6 +29,823 @@ const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdw
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
 
+sgMail.setApiKey(process.env.SENDGRID_API_KEY || '');
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Per-IP brake on credential guessing across many accounts. Only failed
+// attempts count, so a shared office IP is not blocked by normal sign-ins.
+const loginRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 20, // Limit each IP to 20 failed attempts per windowMs
+  skipSuccessfulRequests: true,
+  message: {
+    error: 'Too many failed sign-in attempts from this network. Please try again in 15 minutes.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const passwordResetRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 5, // Limit each IP to 5 requests per windowMs
+  message: {
+    error: 'Too many password reset requests. Please try again in 15 minutes.'
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+interface UserRow {
+  id: string;
+  email: string;
+  name: string;
+  role: string;
+  is_verified: boolean;
+}
+
+interface OrganizationRow {
+  id: string;
+  name: string;
+  slug: string;
+  admin_email: string;
+}
+
+const toPublicUser = (user: UserRow) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  is_verified: user.is_verified
+});
+
+const toPublicOrganization = (organization: OrganizationRow) => ({
+  id: organization.id,
+  name: organization.name,
+  slug: organization.slug,
+  admin_email: organization.admin_email
+});
+
+const getEnabledMfa = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('user_mfa')
+    .select('secret, recovery_codes, last_used_step')
+    .eq('user_id', userId)
+    .not('enabled_at', 'is', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get MFA settings: ${error.message}`);
+  }
+
+  return data;
+};
+
+// Accepts a current TOTP code or an unused recovery code. A TOTP step or
+// recovery code is spent as soon as it is accepted.
+const checkMfaCode = async (userId: string, code: unknown) => {
+  const mfa = await getEnabledMfa(userId);
+  if (!mfa || typeof code !== 'string') {
+    return false;
+  }
+
+  const step = verifyTotp(openSecret(mfa.secret), code, mfa.last_used_step);
+  if (step !== null) {
+    const { error } = await supabase
+      .from('user_mfa')
+      .update({ last_used_step: step, updated_at: new Date().toISOString() })
+      .eq('user_id', userId);
+    return !error;
+  }
+
+  const codeHash = hashMfaValue(code);
+  const recoveryCodes: string[] = mfa.recovery_codes || [];
+  if (!recoveryCodes.includes(codeHash)) {
+    return false;
+  }
+
+  const { error } = await supabase
+    .from('user_mfa')
+    .update({
+      recovery_codes: recoveryCodes.filter(hash => hash !== codeHash),
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+  return !error;
+};
+
+// Challenges are single use and expire after a few minutes. Only their hash
+// is stored, so a database read does not hand out usable tokens.
+const issueMfaToken = async (userId: string, action: string) => {
+  const token = generateMfaToken();
+
+  const { error } = await supabase
+    .from('mfa_tokens')
+    .insert({
+      user_id: userId,
+      token: hashMfaValue(token),
+      action,
+      expires_at: new Date(Date.now() + MFA_TOKEN_TTL_MS).toISOString()
+    });
+
+  if (error) {
+    throw new Error(`Failed to issue MFA token: ${error.message}`);
+  }
+
+  return token;
+};
+
+const sendAccountLockedEmail = async (email: string, lockout: Lockout) => {
+  const baseUrl = process.env.VITE_APP_URL || process.env.FRONTEND_URL || 'https://ematdaan.vercel.app';
+
+  try {
+    await sgMail.send({
+      to: email,
+      from: process.env.SENDGRID_FROM_EMAIL || 'noreply@example.com',
+      subject: 'Your E-Matdaan account has been locked',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #dc2626;">Account Locked</h2>
+          <p>There have been too many failed sign-in attempts on your E-Matdaan account.</p>
+          <p>${describeLockout(lockout)}</p>
+          <p style="color: #6b7280;">If this wasn't you, someone may be trying to guess your password. ${lockout.hardLocked
+            ? 'Resetting your password will not unlock the account; an organization admin has to unlock it first.'
+            : `You can choose a new one at <a href="${baseUrl}/reset-password">${baseUrl}/reset-password</a>.`}</p>
+        </div>
+      `
+    });
+  } catch (error) {
+    console.error('Failed to send account locked email:', error);
+  }
+};
+
+// Sign-in events happen before there is a session, so the audit entry is filed
+// under the user's organization directly.
+const auditSignIn = async (req: express.Request, userId: string, action: AuditAction, details: Record<string, unknown>) => {
+  const { data: membership } = await supabase
+    .from('user_organizations')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle();
+
+  await recordAudit(req, action, details, {
+    organizationId: membership?.organization_id || null,
+    userId
+  });
+};
+
+// Counts a failed password and locks the account when a threshold is reached.
+const recordFailedLogin = async (req: express.Request, userId: string, email: string) => {
+  const { data: attempts, error } = await supabase.rpc('record_failed_login', { p_user_id: userId });
+
+  if (error || typeof attempts !== 'number') {
+    console.error('Error recording failed login:', error);
+    return;
+  }
+
+  await auditSignIn(req, userId, 'login_failed', { reason: 'password', attempts });
+
+  const lockout = lockoutAfter(attempts);
+  if (!lockout) {
+    return;
+  }
+
+  const { error: lockError } = await supabase
+    .from('auth_users')
+    .update(lockout.hardLocked
+      ? { is_locked: true, locked_until: null }
+      : { locked_until: lockout.lockedUntil!.toISOString() })
+    .eq('id', userId);
+
+  if (lockError) {
+    console.error('Error locking account:', lockError);
+    return;
+  }
+
+  await auditSignIn(req, userId, 'account_locked', {
+    hardLocked: lockout.hardLocked,
+    lockedUntil: lockout.lockedUntil
+  });
+  await sendAccountLockedEmail(email, lockout);
+};
+
+// Opens a session in the user's organization and sends the login response.
+const openSession = async (req: express.Request, res: express.Response, userData: UserRow, mfa = false) => {
+  const { data: userOrgData, error: userOrgError } = await supabase
+    .from('user_organizations')
+    .select(`
+      organization_id,
+      role,
+      organization:organizations(*)
+    `)
+    .eq('user_id', userData.id)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle();
+
+  if (userOrgError || !userOrgData) {
+    return res.status(403).json({ error: 'User is not associated with any organization' });
+  }
+
+  const { data: sessionToken, error: sessionError } = await supabase.rpc('create_user_session', {
+    p_user_id: userData.id,
+    p_organization_id: userOrgData.organization_id,
+    p_ip_address: req.ip || null,
+    p_user_agent: req.get('User-Agent') || null
+  });
+
+  if (sessionError || !sessionToken) {
+    console.error('Error creating session:', sessionError);
+    return res.status(500).json({ error: 'Failed to create session' });
+  }
+
+  await supabase
+    .from('auth_users')
+    .update({ last_login: new Date().toISOString() })
+    .eq('id', userData.id);
+
+  await recordAudit(req, 'login', { mfa }, {
+    organizationId: userOrgData.organization_id,
+    userId: userData.id
+  });
+
+  const organization = Array.isArray(userOrgData.organization)
+    ? userOrgData.organization[0]
+    : userOrgData.organization;
+
+  return res.json({
+    success: true,
+    sessionToken,
+    role: userOrgData.role,
+    user: toPublicUser(userData),
+    organization: toPublicOrganization(organization)
+  });
+};
+
+router.post('/login', loginRateLimit, async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ error: 'Email and password are required' });
+    }
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Email and password must be text' });
+    }
+
+    const normalizedEmail = email.trim();
+
+    const { data: userData, error: userError } = await supabase
+      .from('auth_users')
+      .select('id, email, name, role, is_verified, password_hash, login_attempts, is_locked, locked_until')
+      .in('email', Array.from(new Set([normalizedEmail, normalizedEmail.toLowerCase()])))
+      .limit(1)
+      .maybeSingle();
+
+    if (userError) {
+      console.error('Error looking up user:', userError);
+      return res.status(500).json({ error: 'Failed to log in' });
+    }
+
+    // A locked account gets the same answer whatever password is sent, so the
+    // lock cannot be used to test guesses.
+    if (userData?.is_locked) {
+      return res.status(423).json({ error: describeLockout({ hardLocked: true, lockedUntil: null }), locked: true });
+    }
+
+    if (userData?.locked_until && new Date(userData.locked_until) > new Date()) {
+      const lockedUntil = new Date(userData.locked_until);
+      return res.status(423).json({ error: describeLockout({ hardLocked: false, lockedUntil }), locked: true, lockedUntil });
+    }
+
+    const { valid, needsRehash } = await verifyPassword(password, userData?.password_hash || '');
+
+    if (!userData || !valid) {
+      if (userData) {
+        await recordFailedLogin(req, userData.id, userData.email);
+      }
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+
+    if (userData.login_attempts || userData.locked_until) {
+      await supabase
+        .from('auth_users')
+        .update({ login_attempts: 0, locked_until: null })
+        .eq('id', userData.id);
+    }
+
+    if (needsRehash) {
+      const upgradedHash = await hashPassword(password);
+
+      const { error: rehashError } = await supabase
+        .from('auth_users')
+        .update({ password_hash: upgradedHash })
+        .eq('id', userData.id);
+
+      if (rehashError) {
+        console.error('Error upgrading password hash:', rehashError);
+      }
+
+      await supabase
+        .from('organizations')
+        .update({ admin_password_hash: upgradedHash })
+        .eq('admin_email', userData.email);
+    }
+
+    // With MFA on, the password only earns a challenge; the session is opened
+    // by /mfa/verify-login once a code is supplied.
+    if (await getEnabledMfa(userData.id)) {
+      return res.json({
+        success: true,
+        mfaRequired: true,
+        mfaToken: await issueMfaToken(userData.id, 'login')
+      });
+    }
+
+    return openSession(req, res, userData);
+
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// A wrong code spends the challenge, so guessing costs a password entry each time.
+router.post('/mfa/verify-login', loginRateLimit, async (req, res) => {
+  try {
+    const { mfaToken, code } = req.body;
+
+    if (!mfaToken || !code) {
+      return res.status(400).json({ error: 'MFA token and code are required' });
+    }
+
+    const { data: challenges, error: challengeError } = await supabase
+      .from('mfa_tokens')
+      .update({ used: true })
+      .eq('token', hashMfaValue(String(mfaToken)))
+      .eq('action', 'login')
+      .eq('used', false)
+      .gt('expires_at', new Date().toISOString())
+      .select('user_id');
+
+    if (challengeError || !challenges || challenges.length === 0) {
+      return res.status(401).json({ error: 'Sign-in has expired. Please log in again.' });
+    }
+
+    const userId = challenges[0].user_id;
+
+    if (!(await checkMfaCode(userId, code))) {
+      await auditSignIn(req, userId, 'login_failed', { reason: 'mfa' });
+      return res.status(401).json({ error: 'Invalid authentication code. Please log in again.' });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('auth_users')
+      .select('id, email, name, role, is_verified')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !userData) {
+      return res.status(401).json({ error: 'User not found' });
+    }
+
+    return openSession(req, res, userData, true);
+
+  } catch (error) {
+    console.error('Error verifying MFA login:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.get('/mfa/status', requireAuth, async (req, res) => {
+  try {
+    const mfa = await getEnabledMfa(req.auth!.userId);
+
+    res.json({
+      success: true,
+      enabled: !!mfa,
+      recoveryCodesRemaining: mfa ? (mfa.recovery_codes || []).length : 0
+    });
+
+  } catch (error) {
+    console.error('Error getting MFA status:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Starts enrollment with a fresh secret. It only takes effect once /mfa/activate
+// confirms the authenticator app produces matching codes.
+router.post('/mfa/enroll', requireAuth, async (req, res) => {
+  try {
+    const userId = req.auth!.userId;
+
+    if (await getEnabledMfa(userId)) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('auth_users')
+      .select('email')
+      .eq('id', userId)
+      .single();
+
+    if (userError || !userData) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const secret = generateTotpSecret();
+
+    const { error: enrollError } = await supabase
+      .from('user_mfa')
+      .upsert({
+        user_id: userId,
+        secret: sealSecret(secret),
+        enabled_at: null,
+        recovery_codes: [],
+        last_used_step: null,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'user_id' });
+
+    if (enrollError) {
+      console.error('Error starting MFA enrollment:', enrollError);
+      return res.status(500).json({ error: 'Failed to start two-factor enrollment' });
+    }
+
+    res.json({
+      success: true,
+      secret,
+      otpauthUri: buildOtpauthUri(secret, userData.email)
+    });
+
+  } catch (error) {
+    console.error('Error enrolling MFA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Recovery codes are returned only here, once; the server keeps their hashes.
+router.post('/mfa/activate', requireAuth, async (req, res) => {
+  try {
+    const userId = req.auth!.userId;
+    const { code } = req.body;
+
+    const { data: pending, error: pendingError } = await supabase
+      .from('user_mfa')
+      .select('secret')
+      .eq('user_id', userId)
+      .is('enabled_at', null)
+      .maybeSingle();
+
+    if (pendingError || !pending) {
+      return res.status(400).json({ error: 'No two-factor enrollment is in progress' });
+    }
+
+    const step = verifyTotp(openSecret(pending.secret), code, null);
+    if (step === null) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    const { error: activateError } = await supabase
+      .from('user_mfa')
+      .update({
+        enabled_at: new Date().toISOString(),
+        recovery_codes: recoveryCodes.map(hashMfaValue),
+        last_used_step: step,
+        updated_at: new Date().toISOString()
+      })
+      .eq('user_id', userId);
+
+    if (activateError) {
+      console.error('Error activating MFA:', activateError);
+      return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+    }
+
+    res.json({ success: true, recoveryCodes });
+
+  } catch (error) {
+    console.error('Error activating MFA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/mfa/disable', requireAuth, async (req, res) => {
+  try {
+    const userId = req.auth!.userId;
+
+    if (!(await checkMfaCode(userId, req.body.code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    const { error } = await supabase
+      .from('user_mfa')
+      .delete()
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error disabling MFA:', error);
+      return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+    }
+
+    res.json({ success: true });
+
+  } catch (error) {
+    console.error('Error disabling MFA:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Trades a fresh code for a single-use token that authorizes one sensitive
+// action (see requireStepUp).
+router.post('/mfa/step-up', requireAuth, async (req, res) => {
+  try {
+    const userId = req.auth!.userId;
+    const { action, code } = req.body;
+
+    if (!isStepUpAction(action)) {
+      return res.status(400).json({ error: `Action must be one of: ${STEP_UP_ACTIONS.join(', ')}` });
+    }
+
+    if (!(await getEnabledMfa(userId))) {
+      return res.status(403).json({
+        error: 'Set up two-factor authentication on your profile before performing this action',
+        mfaEnrollmentRequired: true
+      });
+    }
+
+    if (!(await checkMfaCode(userId, code))) {
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+
+    res.json({ success: true, mfaToken: await issueMfaToken(userId, action) });
+
+  } catch (error) {
+    console.error('Error verifying MFA step-up:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Reset tokens are stored as a SHA-256 hash, like MFA challenges.
+const hashResetToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const sendPasswordResetEmail = async (email: string, token: string) => {
+  const baseUrl = process.env.VITE_APP_URL || process.env.FRONTEND_URL || 'https://ematdaan.vercel.app';
+  const resetLink = `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sgMail.send({
+    to: email,
+    from: process.env.SENDGRID_FROM_EMAIL || 'noreply@example.com',
+    subject: 'Reset your E-Matdaan password',
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #2563eb;">Reset Your Password</h2>
+        <p>We received a request to reset the password for your E-Matdaan account.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resetLink}" style="background-color: #6B21E8; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">Reset Password</a>
+        </div>
+        <p style="color: #6b7280;">This link expires in 1 hour and can only be used once.</p>
+        <p style="color: #6b7280;">If you didn't request a password reset, you can ignore this email.</p>
+      </div>
+    `
+  });
+};
+
+// Always answers the same way so the route cannot be used to find out which
+// emails have accounts.
+router.post('/forgot-password', passwordResetRateLimit, async (req, res) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+
+    const normalizedEmail = email.trim();
+    const response = {
+      success: true,
+      message: 'If an account exists for that email, a password reset link has been sent.'
+    };
+
+    const { data: userData, error: userError } = await supabase
+      .from('auth_users')
+      .select('id, email')
+      .in('email', Array.from(new Set([normalizedEmail, normalizedEmail.toLowerCase()])))
+      .limit(1)
+      .maybeSingle();
+
+    if (userError) {
+      console.error('Error looking up user for password reset:', userError);
+      return res.status(500).json({ error: 'Failed to request password reset' });
+    }
+
+    if (!userData) {
+      return res.json(response);
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    const { error: updateError } = await supabase
+      .from('auth_users')
+      .update({
+        reset_token: hashResetToken(token),
+        reset_token_expires: new Date(Date.now() + RESET_TOKEN_TTL_MS).toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', userData.id);
+
+    if (updateError) {
+      console.error('Error storing password reset token:', updateError);
+      return res.status(500).json({ error: 'Failed to request password reset' });
+    }
+
+    try {
+      await sendPasswordResetEmail(userData.email, token);
+    } catch (emailError) {
+      console.error('Failed to send password reset email:', emailError);
+    }
+
+    res.json(response);
+
+  } catch (error) {
+    console.error('Error requesting password reset:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.post('/reset-password', passwordResetRateLimit, async (req, res) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({ error: 'Token and password are required' });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // Clearing the token in the same conditional update makes it single use.
+    const { data: updated, error: updateError } = await supabase
+      .from('auth_users')
+      .update({
+        password_hash: passwordHash,
+        reset_token: null,
+        reset_token_expires: null,
+        login_attempts: 0,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('reset_token', hashResetToken(token))
+      .gt('reset_token_expires', new Date().toISOString())
+      .select('id, email');
+
+    if (updateError) {
+      console.error('Error resetting password:', updateError);
+      return res.status(500).json({ error: 'Failed to reset password' });
+    }
+
+    if (!updated || updated.length === 0) {
+      return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    }
+
+    const userData = updated[0];
+
+    await supabase
+      .from('organizations')
+      .update({ admin_password_hash: passwordHash })
+      .eq('admin_email', userData.email);
+
+    const { error: sessionError } = await supabase
+      .from('user_sessions')
+      .update({ is_active: false })
+      .eq('user_id', userData.id)
+      .eq('is_active', true);
+
+    if (sessionError) {
+      console.error('Error invalidating sessions after password reset:', sessionError);
+    }
+
+    res.json({ success: true, message: 'Password has been reset. Please log in with your new password.' });
+
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Join codes are not tied to an email address, so whoever registers with one
+// has not shown that they own the address they give.
+const registerWithJoinCode = async (
+  res: express.Response,
+  { token, name, email, password }: { token: string; name: string; email: string; password: string }
+) => {
+  const joinCode = await checkJoinCode(token);
+
+  if (!joinCode) {
+    return res.status(400).json({ error: 'Invalid or expired invitation token' });
+  }
+
+  if (!joinCode.is_valid) {
+    return res.status(400).json({ error: joinCode.reason });
+  }
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return res.status(400).json({ error: 'Enter a valid email address' });
+  }
+
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+  }
+
+  const { data: existingUser } = await supabase
+    .from('auth_users')
+    .select('id')
+    .eq('email', email.toLowerCase())
+    .single();
+
+  if (existingUser) {
+    return res.status(400).json({ error: 'User already exists with this email' });
+  }
+
+  const claimed = await claimJoinCode(token);
+  if (!claimed) {
+    return res.status(400).json({ error: 'Token usage limit exceeded' });
+  }
+
+  const passwordHash = await hashPassword(password);
+
+  const { data: userData, error: userError } = await supabase
+    .from('auth_users')
+    .insert({
+      email: email.toLowerCase(),
+      password_hash: passwordHash,
+      name: name,
+      role: claimed.role,
+      is_verified: false
+    })
+    .select()
+    .single();
+
+  if (userError) {
+    console.error('Error creating user:', userError);
+    await releaseJoinCode(claimed.token_id);
+    return res.status(500).json({ error: 'Failed to create user account' });
+  }
+
+  const { error: userOrgError } = await supabase
+    .from('user_organizations')
+    .insert({
+      user_id: userData.id,
+      organization_id: claimed.organization_id,
+      role: claimed.role,
+      joined_via: 'invitation',
+      access_token_id: claimed.token_id,
+      is_active: true
+    });
+
+  if (userOrgError) {
+    console.error('Error creating user-organization relationship:', userOrgError);
+    await releaseJoinCode(claimed.token_id);
+    return res.status(500).json({ error: 'Failed to associate user with organization' });
+  }
+
+  // Elections open to every member need no roll entry.
+  if (claimed.election_id) {
+    const { data: election } = await supabase
+      .from('elections')
+      .select('voter_roll')
+      .eq('id', claimed.election_id)
+      .single();
+
+    if (election?.voter_roll === 'list') {
+      const { error: rollError } = await supabase
+        .from('election_roll_entries')
+        .upsert(
+          { election_id: claimed.election_id, user_id: userData.id, entry_type: 'include' },
+          { onConflict: 'election_id,user_id', ignoreDuplicates: true }
+        );
+
+      if (rollError) {
+        console.error('Error adding member to voter roll:', rollError);
+      }
+    }
+  }
+
+  return res.json({
+    success: true,
+    user: toPublicUser(userData)
+  });
+};
+
 router.post('/register-with-invitation', async (req, res) => {
   try {
     const { token, name, email, password } = req.body;
@@ -23,7 +861,7 @@ router.post('/register-with-invitation', async (req, res) => {
       .single();
 
     if (invitationError || !invitationData) {
-      return res.status(400).json({ error: 'Invalid or expired invitation token' });
+      return await registerWithJoinCode(res, { token, name, email, password });
     }
 
     const now = new Date();
@@ -35,6 +873,10 @@ router.post('/register-with-invitation', async (req, res) => {
       return res.status(400).json({ error: 'Invitation has already been used' });
     }
 
+    if (invitationData.revoked_at) {
+      return res.status(400).json({ error: 'Invitation has been revoked' });
+    }
+
     if (isExpired) {
       return res.status(400).json({ error: 'Invitation has expired' });
     }
@@ -55,11 +897,7 @@ router.post('/register-with-invitation', async (req, res) => {
       return res.status(400).json({ error: 'User already exists with this email' });
     }
 
-    const encoder = new TextEncoder();
-    const data = encoder.encode(password);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const passwordHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+    const passwordHash = await hashPassword(password);
 
     const { data: userData, error: userError } = await supabase
       .from('auth_users')
@@ -93,6 +931,14 @@ router.post('/register-with-invitation', async (req, res) => {
       return res.status(500).json({ error: 'Failed to associate user with organization' });
     }
 
+    if (invitationData.group_ids?.length) {
+      try {
+        await setMemberGroups(invitationData.organization_id, userData.id, invitationData.group_ids);
+      } catch (groupError) {
+        console.error('Error adding invited member to groups:', groupError);
+      }
+    }
+
     const { error: markError } = await supabase
       .from('student_invitations')
       .update({ 
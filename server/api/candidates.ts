@@ -1,6 +1,9 @@
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { requireAuth, requirePermission, requireStepUp, matchElectionParam, matchCandidateParam } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { isBallotEditable, BALLOT_LOCKED_MESSAGE } from '../lib/lifecycle';
 
 
 dotenv.config({ path: '.env' });
@@ -19,10 +22,59 @@ if (!serviceRoleKey) {
 
 const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
 
+router.use(requireAuth);
+router.param('electionId', matchElectionParam);
+router.param('candidateId', matchCandidateParam);
 
-router.post('/create', async (req, res) => {
+
+// Elections that have contests need every candidate assigned to one of them.
+const checkContest = async (electionId: string, contestId: unknown): Promise<string | null> => {
+  const { data: contests, error } = await supabase
+    .from('contests')
+    .select('id')
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to get contests: ${error.message}`);
+  }
+
+  if (!contests || contests.length === 0) {
+    return contestId ? 'This election has no contests' : null;
+  }
+
+  if (!contestId) {
+    return 'Contest is required for elections with several contests';
+  }
+
+  return contests.some(contest => contest.id === contestId) ? null : 'Contest does not belong to this election';
+};
+
+// Referendum options are created with the election and must stay as they are.
+const isReferendumOption = async (candidateId: string) => {
+  const { data: candidate } = await supabase
+    .from('candidates')
+    .select('ballot_option')
+    .eq('id', candidateId)
+    .single();
+
+  return !!candidate?.ballot_option;
+};
+
+// Candidates are part of the ballot, which is locked once voting opens.
+const isCandidateLocked = async (candidateId: string) => {
+  const { data: candidate } = await supabase
+    .from('candidates')
+    .select('elections (status)')
+    .eq('id', candidateId)
+    .single();
+
+  const election = Array.isArray(candidate?.elections) ? candidate?.elections[0] : candidate?.elections;
+  return !!election && !isBallotEditable(election.status);
+};
+
+router.post('/create', requirePermission('manage_candidates'), async (req, res) => {
   try {
-    const { name, party, symbol, electionId } = req.body;
+    const { name, party, symbol, electionId, contestId } = req.body;
 
 
     if (!name || !party || !symbol || !electionId) {
@@ -35,8 +87,9 @@ router.post('/create', async (req, res) => {
 
     const { data: existingElection, error: electionCheckError } = await supabase
       .from('elections')
-      .select('id')
+      .select('id, voting_method, status')
       .eq('id', electionId)
+      .eq('organization_id', req.auth!.organizationId)
       .single();
 
     if (electionCheckError || !existingElection) {
@@ -46,6 +99,28 @@ router.post('/create', async (req, res) => {
       });
     }
 
+    if (existingElection.voting_method === 'referendum') {
+      return res.status(400).json({
+        success: false,
+        message: 'Referendums have fixed For, Against and Abstain options'
+      });
+    }
+
+    if (!isBallotEditable(existingElection.status)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+
+    const contestError = await checkContest(electionId, contestId);
+    if (contestError) {
+      return res.status(400).json({
+        success: false,
+        message: contestError
+      });
+    }
 
     const { data: candidateData, error: candidateError } = await supabase
       .from('candidates')
@@ -53,7 +128,8 @@ router.post('/create', async (req, res) => {
         name: name,
         party: party,
         symbol: symbol,
-        election_id: electionId
+        election_id: electionId,
+        contest_id: contestId || null
       })
       .select()
       .single();
@@ -67,6 +143,12 @@ router.post('/create', async (req, res) => {
       });
     }
 
+    await recordAudit(req, 'candidate_created', {
+      candidateId: candidateData.id,
+      electionId,
+      name: candidateData.name
+    });
+
     return res.status(201).json({
       success: true,
       message: 'Candidate created successfully',
@@ -126,10 +208,10 @@ router.get('/election/:electionId', async (req, res) => {
 });
 
 
-router.put('/:candidateId', async (req, res) => {
+router.put('/:candidateId', requirePermission('manage_candidates'), async (req, res) => {
   try {
     const { candidateId } = req.params;
-    const { name, party, symbol } = req.body;
+    const { name, party, symbol, contestId } = req.body;
 
     if (!candidateId) {
       return res.status(400).json({
@@ -145,13 +227,47 @@ router.put('/:candidateId', async (req, res) => {
       });
     }
 
+    if (await isReferendumOption(candidateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Referendum options cannot be changed'
+      });
+    }
+
+    if (await isCandidateLocked(candidateId)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    const updateData: { name: string; party: string; symbol: string; contest_id?: string | null } = {
+      name: name,
+      party: party,
+      symbol: symbol
+    };
+
+    if (contestId !== undefined) {
+      const { data: candidate } = await supabase
+        .from('candidates')
+        .select('election_id')
+        .eq('id', candidateId)
+        .single();
+
+      const contestError = candidate ? await checkContest(candidate.election_id, contestId) : 'Candidate not found';
+      if (contestError) {
+        return res.status(400).json({
+          success: false,
+          message: contestError
+        });
+      }
+
+      updateData.contest_id = contestId || null;
+    }
+
     const { data: candidateData, error } = await supabase
       .from('candidates')
-      .update({
-        name: name,
-        party: party,
-        symbol: symbol
-      })
+      .update(updateData)
       .eq('id', candidateId)
       .select()
       .single();
@@ -165,6 +281,12 @@ router.put('/:candidateId', async (req, res) => {
       });
     }
 
+    await recordAudit(req, 'candidate_updated', {
+      candidateId,
+      electionId: candidateData.election_id,
+      name: candidateData.name
+    });
+
     return res.status(200).json({
       success: true,
       message: 'Candidate updated successfully',
@@ -182,7 +304,7 @@ router.put('/:candidateId', async (req, res) => {
 });
 
 
-router.delete('/:candidateId', async (req, res) => {
+router.delete('/:candidateId', requirePermission('manage_candidates'), requireStepUp('delete_candidate'), async (req, res) => {
   try {
     const { candidateId } = req.params;
 
@@ -193,10 +315,25 @@ router.delete('/:candidateId', async (req, res) => {
       });
     }
 
-    const { error } = await supabase
+    if (await isReferendumOption(candidateId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Referendum options cannot be deleted'
+      });
+    }
+
+    if (await isCandidateLocked(candidateId)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    const { data: deleted, error } = await supabase
       .from('candidates')
       .delete()
-      .eq('id', candidateId);
+      .eq('id', candidateId)
+      .select('id, name, election_id');
 
     if (error) {
       console.error('Delete candidate error:', error);
@@ -207,6 +344,12 @@ router.delete('/:candidateId', async (req, res) => {
       });
     }
 
+    await recordAudit(req, 'candidate_deleted', {
+      candidateId,
+      electionId: deleted?.[0]?.election_id || null,
+      name: deleted?.[0]?.name || null
+    });
+
     return res.status(200).json({
       success: true,
       message: 'Candidate deleted successfully'
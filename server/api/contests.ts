@@ -0,0 +1,296 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth, requirePermission, matchElectionParam, matchContestParam } from '../middleware/auth';
+import { isBallotEditable, BALLOT_LOCKED_MESSAGE } from '../lib/lifecycle';
+
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+router.use(requireAuth);
+router.param('electionId', matchElectionParam);
+router.param('contestId', matchContestParam);
+
+// Contests cannot be reshaped once ballots reference them.
+const hasVotes = async (electionId: string) => {
+  const { count, error } = await supabase
+    .from('votes')
+    .select('id', { count: 'exact', head: true })
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to check existing votes: ${error.message}`);
+  }
+
+  return !!count;
+};
+
+
+// Contests are part of the ballot, which is locked once voting opens.
+const isContestLocked = async (contestId: string) => {
+  const { data: contest } = await supabase
+    .from('contests')
+    .select('elections (status)')
+    .eq('id', contestId)
+    .single();
+
+  const election = Array.isArray(contest?.elections) ? contest?.elections[0] : contest?.elections;
+  return !!election && !isBallotEditable(election.status);
+};
+
+router.post('/create', requirePermission('manage_candidates'), async (req, res) => {
+  try {
+    const { name, electionId } = req.body;
+
+    if (!name || !electionId) {
+      return res.status(400).json({
+        success: false,
+        message: 'All fields are required: name, electionId'
+      });
+    }
+
+    const { data: existingElection, error: electionCheckError } = await supabase
+      .from('elections')
+      .select('id, voting_method, status')
+      .eq('id', electionId)
+      .eq('organization_id', req.auth!.organizationId)
+      .single();
+
+    if (electionCheckError || !existingElection) {
+      return res.status(400).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    if (existingElection.voting_method === 'referendum') {
+      return res.status(400).json({
+        success: false,
+        message: 'Referendums have a single motion and cannot have contests'
+      });
+    }
+
+    if (!isBallotEditable(existingElection.status)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    if (await hasVotes(electionId)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Contests cannot be added after votes have been cast'
+      });
+    }
+
+    const { count: contestCount } = await supabase
+      .from('contests')
+      .select('id', { count: 'exact', head: true })
+      .eq('election_id', electionId);
+
+    const { data: contestData, error: contestError } = await supabase
+      .from('contests')
+      .insert({
+        name: name,
+        election_id: electionId,
+        position: contestCount || 0
+      })
+      .select()
+      .single();
+
+    if (contestError) {
+      console.error('Contest creation error:', contestError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create contest',
+        error: contestError.message
+      });
+    }
+
+    // Candidates added before the first contest existed move into it, so the
+    // ballot never mixes grouped and ungrouped candidates.
+    if (!contestCount) {
+      await supabase
+        .from('candidates')
+        .update({ contest_id: contestData.id })
+        .eq('election_id', electionId)
+        .is('contest_id', null);
+    }
+
+    return res.status(201).json({
+      success: true,
+      message: 'Contest created successfully',
+      data: contestData
+    });
+
+  } catch (error) {
+    console.error('Contest creation error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+router.get('/election/:electionId', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+
+    const { data: contests, error } = await supabase
+      .from('contests')
+      .select('*')
+      .eq('election_id', electionId)
+      .order('position', { ascending: true });
+
+    if (error) {
+      console.error('Get contests error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get contests',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: contests
+    });
+
+  } catch (error) {
+    console.error('Get contests error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+router.put('/:contestId', requirePermission('manage_candidates'), async (req, res) => {
+  try {
+    const { contestId } = req.params;
+    const { name, position } = req.body;
+
+    if (await isContestLocked(contestId)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    const updateData: { name?: string; position?: number } = {};
+    if (name !== undefined) updateData.name = name;
+    if (position !== undefined) updateData.position = position;
+
+    const { data: contestData, error } = await supabase
+      .from('contests')
+      .update(updateData)
+      .eq('id', contestId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Update contest error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update contest',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Contest updated successfully',
+      data: contestData
+    });
+
+  } catch (error) {
+    console.error('Update contest error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+router.delete('/:contestId', requirePermission('manage_candidates'), async (req, res) => {
+  try {
+    const { contestId } = req.params;
+
+    const { data: contest, error: contestError } = await supabase
+      .from('contests')
+      .select('election_id')
+      .eq('id', contestId)
+      .single();
+
+    if (contestError || !contest) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contest not found'
+      });
+    }
+
+    if (await isContestLocked(contestId)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    if (await hasVotes(contest.election_id)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Contests cannot be deleted after votes have been cast'
+      });
+    }
+
+    const { error } = await supabase
+      .from('contests')
+      .delete()
+      .eq('id', contestId);
+
+    if (error) {
+      console.error('Delete contest error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to delete contest',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Contest deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Delete contest error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
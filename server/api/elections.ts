@@ -1,6 +1,43 @@
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { requireAuth, requirePermission, requireStepUp, matchOrganizationParam, matchElectionParam } from '../middleware/auth';
+import {
+  isVotingMethod,
+  isPassThreshold,
+  isTallyMode,
+  VOTING_METHODS,
+  PASS_THRESHOLDS,
+  TALLY_MODES,
+  REFERENDUM_OPTIONS,
+  TallyMode,
+  VotingMethod,
+  PassThreshold
+} from '../lib/tally';
+import { generateTrusteeKeys, sealSecret, hashShare } from '../lib/ballots';
+import { recordAudit } from '../lib/audit';
+import { hasPermission } from '../lib/permissions';
+import {
+  isElectionStatus,
+  canTransition,
+  isBallotEditable,
+  isPublished,
+  ElectionStatus,
+  BALLOT_LOCKED_MESSAGE
+} from '../lib/lifecycle';
+import {
+  isVoterRollMode,
+  getVotingMembers,
+  getRollEntries,
+  listEligibleVoters,
+  getEligibleElectionIds,
+  getRollGroups,
+  RollEntryType,
+  RollMember,
+  VoterRollMode
+} from '../lib/voterRoll';
+import { filterGroupIds } from '../lib/memberGroups';
+import { buildResults } from './votes';
 
 
 dotenv.config({ path: '.env' });
@@ -19,10 +56,142 @@ if (!serviceRoleKey) {
 
 const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
 
+router.use(requireAuth);
+router.param('organizationId', matchOrganizationParam);
+router.param('electionId', matchElectionParam);
 
-router.post('/create', async (req, res) => {
+
+interface BallotConfig {
+  votingMethod: unknown;
+  seats: unknown;
+  minSelections: unknown;
+  maxSelections: unknown;
+  quorumPercent: unknown;
+  passThreshold: unknown;
+  tallyMode: unknown;
+}
+
+// The columns an admin may change with PUT /:electionId.
+interface ElectionUpdate {
+  name?: string;
+  voting_method?: VotingMethod;
+  seats?: number;
+  min_selections?: number;
+  max_selections?: number;
+  quorum_percent?: number | null;
+  pass_threshold?: PassThreshold;
+  start_time?: string;
+  end_time?: string;
+}
+
+const validateBallotConfig = ({
+  votingMethod,
+  seats,
+  minSelections,
+  maxSelections,
+  quorumPercent,
+  passThreshold,
+  tallyMode
+}: BallotConfig): string | null => {
+  if (!isVotingMethod(votingMethod)) {
+    return `Voting method must be one of: ${VOTING_METHODS.join(', ')}`;
+  }
+
+  const limits = [seats, minSelections, maxSelections];
+  if (!limits.every(limit => Number.isInteger(limit) && (limit as number) >= 1)) {
+    return 'Seats and selection limits must be positive whole numbers';
+  }
+
+  if (votingMethod !== 'approval' && limits.some(limit => limit !== 1)) {
+    return 'Only approval elections can fill several seats or accept several selections';
+  }
+
+  if ((minSelections as number) > (maxSelections as number)) {
+    return 'Minimum selections cannot exceed maximum selections';
+  }
+
+  if (quorumPercent !== null &&
+      !(Number.isInteger(quorumPercent) && (quorumPercent as number) >= 1 && (quorumPercent as number) <= 100)) {
+    return 'Quorum must be a whole percentage between 1 and 100';
+  }
+
+  if (!isPassThreshold(passThreshold)) {
+    return `Pass threshold must be one of: ${Object.keys(PASS_THRESHOLDS).join(', ')}`;
+  }
+
+  if (votingMethod !== 'referendum' && (quorumPercent !== null || passThreshold !== 'simple')) {
+    return 'Quorum and pass thresholds only apply to referendums';
+  }
+
+  if (!isTallyMode(tallyMode)) {
+    return `Tally mode must be one of: ${TALLY_MODES.join(', ')}`;
+  }
+
+  if (tallyMode === 'homomorphic' && votingMethod === 'ranked_choice') {
+    return 'Ranked-choice elections cannot use homomorphic tallying';
+  }
+
+  return null;
+};
+
+const validateTrustees = (trustees: unknown, trusteeThreshold: unknown): string | null => {
+  if (!Array.isArray(trustees) || !trustees.every(id => typeof id === 'string') || new Set(trustees).size !== trustees.length) {
+    return 'Trustees must be a list of distinct member IDs';
+  }
+
+  if (trustees.length === 0) {
+    return trusteeThreshold === null ? null : 'A trustee threshold needs trustees to share the election key';
+  }
+
+  if (trustees.length < 2) {
+    return 'At least two trustees are needed to share the election key';
+  }
+
+  if (!(Number.isInteger(trusteeThreshold) && (trusteeThreshold as number) >= 2 && (trusteeThreshold as number) <= trustees.length)) {
+    return `Trustee threshold must be a whole number between 2 and ${trustees.length}`;
+  }
+
+  return null;
+};
+
+// Generates the election key and splits its lock among the trustees. Each
+// share stays wrapped on the server until its trustee confirms they have
+// stored it, so trustees should collect theirs before voting opens.
+const runKeyCeremony = async (electionId: string, trustees: string[], threshold: number, tallyMode: TallyMode) => {
+  const { publicKey, encryptedPrivateKey, shares } = await generateTrusteeKeys(trustees.length, threshold, tallyMode);
+
+  const { error: keyError } = await supabase
+    .from('election_keys')
+    .insert({
+      election_id: electionId,
+      public_key: publicKey,
+      encrypted_private_key: encryptedPrivateKey
+    });
+
+  if (keyError) {
+    throw new Error(`Failed to store election key: ${keyError.message}`);
+  }
+
+  const { error: trusteesError } = await supabase
+    .from('election_trustees')
+    .insert(trustees.map((userId, i) => ({
+      election_id: electionId,
+      user_id: userId,
+      share_index: i + 1,
+      share_hash: hashShare(shares[i]),
+      pending_share: sealSecret(shares[i])
+    })));
+
+  if (trusteesError) {
+    throw new Error(`Failed to store trustee shares: ${trusteesError.message}`);
+  }
+};
+
+router.post('/create', requirePermission('create_election'), async (req, res) => {
   try {
-    const { name, startTime, endTime, organizationId } = req.body;
+    const { name, startTime, endTime, organizationId, votingMethod = 'plurality', seats = 1, minSelections = 1 } = req.body;
+    const { maxSelections = seats, quorumPercent = null, passThreshold = 'simple', tallyMode = 'decrypt' } = req.body;
+    const { trustees = [], trusteeThreshold = null } = req.body;
 
     if (!name || !startTime || !endTime || !organizationId) {
       return res.status(400).json({
@@ -31,6 +200,30 @@ router.post('/create', async (req, res) => {
       });
     }
 
+    const ballotError = validateBallotConfig({
+      votingMethod,
+      seats,
+      minSelections,
+      maxSelections,
+      quorumPercent,
+      passThreshold,
+      tallyMode
+    });
+    if (ballotError) {
+      return res.status(400).json({
+        success: false,
+        message: ballotError
+      });
+    }
+
+    const trusteeError = validateTrustees(trustees, trusteeThreshold);
+    if (trusteeError) {
+      return res.status(400).json({
+        success: false,
+        message: trusteeError
+      });
+    }
+
     const { data: existingOrg, error: orgCheckError } = await supabase
       .from('organizations')
       .select('id')
@@ -44,6 +237,22 @@ router.post('/create', async (req, res) => {
       });
     }
 
+    if (trustees.length > 0) {
+      const { count: memberCount, error: membersError } = await supabase
+        .from('user_organizations')
+        .select('*', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .eq('is_active', true)
+        .in('user_id', trustees);
+
+      if (membersError || memberCount !== trustees.length) {
+        return res.status(400).json({
+          success: false,
+          message: 'Every trustee must be an active member of the organization'
+        });
+      }
+    }
+
     const { data: electionData, error: electionError } = await supabase
       .from('elections')
       .insert({
@@ -51,7 +260,16 @@ router.post('/create', async (req, res) => {
         start_time: startTime,
         end_time: endTime,
         organization_id: organizationId,
-        is_active: true
+        voting_method: votingMethod,
+        seats,
+        min_selections: minSelections,
+        max_selections: maxSelections,
+        quorum_percent: quorumPercent,
+        pass_threshold: passThreshold,
+        tally_mode: tallyMode,
+        trustee_threshold: trustees.length > 0 ? trusteeThreshold : null,
+        status: 'draft',
+        is_active: false
       })
       .select()
       .single();
@@ -65,6 +283,47 @@ router.post('/create', async (req, res) => {
       });
     }
 
+    if (votingMethod === 'referendum') {
+      const { error: optionsError } = await supabase
+        .from('candidates')
+        .insert(REFERENDUM_OPTIONS.map(({ option, name: optionName }) => ({
+          name: optionName,
+          election_id: electionData.id,
+          ballot_option: option
+        })));
+
+      if (optionsError) {
+        console.error('Referendum options creation error:', optionsError);
+        await supabase.from('elections').delete().eq('id', electionData.id);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to create election',
+          error: optionsError.message
+        });
+      }
+    }
+
+    if (trustees.length > 0) {
+      try {
+        await runKeyCeremony(electionData.id, trustees, trusteeThreshold, tallyMode);
+      } catch (ceremonyError) {
+        console.error('Key ceremony error:', ceremonyError);
+        await supabase.from('elections').delete().eq('id', electionData.id);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to create election',
+          error: ceremonyError instanceof Error ? ceremonyError.message : 'Unknown error'
+        });
+      }
+    }
+
+    await recordAudit(req, 'election_created', {
+      electionId: electionData.id,
+      name: electionData.name,
+      votingMethod: electionData.voting_method,
+      tallyMode: electionData.tally_mode
+    });
+
     return res.status(201).json({
       success: true,
       message: 'Election created successfully',
@@ -81,6 +340,17 @@ router.post('/create', async (req, res) => {
   }
 });
 
+// Members who do not run elections only see the ones whose voter roll they
+// are on.
+const filterVisibleElections = async <T extends { id: string }>(req: express.Request, elections: T[]) => {
+  if (hasPermission(req.auth!.role, 'access_admin_panel')) {
+    return elections;
+  }
+
+  const eligible = await getEligibleElectionIds(req.auth!, elections.map(election => election.id));
+  return elections.filter(election => eligible.has(election.id));
+};
+
 router.get('/organization/:organizationId', async (req, res) => {
   try {
     const { organizationId } = req.params;
@@ -92,7 +362,7 @@ router.get('/organization/:organizationId', async (req, res) => {
       });
     }
 
-    const { data: elections, error } = await supabase
+    let query = supabase
       .from('elections')
       .select(`
         *,
@@ -103,8 +373,14 @@ router.get('/organization/:organizationId', async (req, res) => {
           symbol
         )
       `)
-      .eq('organization_id', organizationId)
-      .order('start_time', { ascending: false });
+      .eq('organization_id', organizationId);
+
+    // Drafts are only visible to the people preparing them.
+    if (!hasPermission(req.auth!.role, 'access_admin_panel')) {
+      query = query.neq('status', 'draft');
+    }
+
+    const { data: elections, error } = await query.order('start_time', { ascending: false });
 
     if (error) {
       console.error('Get elections error:', error);
@@ -117,7 +393,7 @@ router.get('/organization/:organizationId', async (req, res) => {
 
     return res.status(200).json({
       success: true,
-      data: elections
+      data: await filterVisibleElections(req, elections || [])
     });
 
   } catch (error) {
@@ -150,6 +426,7 @@ router.get('/active/:organizationId', async (req, res) => {
         start_time,
         end_time,
         is_active,
+        status,
         candidates (
           id,
           name,
@@ -158,7 +435,7 @@ router.get('/active/:organizationId', async (req, res) => {
         )
       `)
       .eq('organization_id', organizationId)
-      .eq('is_active', true)
+      .in('status', ['scheduled', 'open'])
       .gte('end_time', now)
       .order('start_time', { ascending: true });
 
@@ -173,7 +450,7 @@ router.get('/active/:organizationId', async (req, res) => {
 
     return res.status(200).json({
       success: true,
-      data: elections
+      data: await filterVisibleElections(req, elections || [])
     });
 
   } catch (error) {
@@ -187,10 +464,13 @@ router.get('/active/:organizationId', async (req, res) => {
 });
 
 
-router.put('/:electionId', async (req, res) => {
+router.put('/:electionId', requirePermission('manage_elections'), async (req, res) => {
   try {
     const { electionId } = req.params;
-    const { name, startTime, endTime, isActive } = req.body;
+    const { name, startTime, endTime, votingMethod, seats, minSelections, maxSelections, quorumPercent, passThreshold } = req.body;
+    const changesBallot = [votingMethod, seats, minSelections, maxSelections, quorumPercent, passThreshold]
+      .some(value => value !== undefined);
+    const changesSchedule = startTime !== undefined || endTime !== undefined;
 
     if (!electionId) {
       return res.status(400).json({
@@ -199,11 +479,102 @@ router.put('/:electionId', async (req, res) => {
       });
     }
 
-    const updateData: any = {};
+    const { data: current, error: currentError } = await supabase
+      .from('elections')
+      .select('status, start_time, end_time, voting_method, seats, min_selections, max_selections, quorum_percent, pass_threshold, tally_mode')
+      .eq('id', electionId)
+      .single();
+
+    if (currentError || !current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    if (current.status === 'certified') {
+      return res.status(400).json({
+        success: false,
+        message: 'A certified election cannot be changed'
+      });
+    }
+
+    if ((changesBallot || changesSchedule) && !isBallotEditable(current.status)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    if (changesSchedule) {
+      const start = new Date(startTime ?? current.start_time);
+      const end = new Date(endTime ?? current.end_time);
+      if (isNaN(start.getTime()) || isNaN(end.getTime()) || start >= end) {
+        return res.status(400).json({
+          success: false,
+          message: 'Voting must end after it starts'
+        });
+      }
+    }
+
+    if (changesBallot) {
+      // The For/Against/Abstain options only exist on elections created as referendums.
+      if (votingMethod !== undefined && (votingMethod === 'referendum') !== (current.voting_method === 'referendum')) {
+        return res.status(400).json({
+          success: false,
+          message: 'An election cannot be converted to or from a referendum'
+        });
+      }
+
+      const ballotError = validateBallotConfig({
+        votingMethod: votingMethod ?? current.voting_method,
+        seats: seats ?? current.seats,
+        minSelections: minSelections ?? current.min_selections,
+        maxSelections: maxSelections ?? current.max_selections,
+        quorumPercent: quorumPercent === undefined ? current.quorum_percent : quorumPercent,
+        passThreshold: passThreshold ?? current.pass_threshold,
+        tallyMode: current.tally_mode
+      });
+
+      if (ballotError) {
+        return res.status(400).json({
+          success: false,
+          message: ballotError
+        });
+      }
+
+      const { count: voteCount, error: voteCountError } = await supabase
+        .from('votes')
+        .select('id', { count: 'exact', head: true })
+        .eq('election_id', electionId);
+
+      if (voteCountError) {
+        console.error('Count votes error:', voteCountError);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to check existing votes',
+          error: voteCountError.message
+        });
+      }
+
+      if (voteCount) {
+        return res.status(400).json({
+          success: false,
+          message: 'Ballot settings cannot be changed after votes have been cast'
+        });
+      }
+    }
+
+    const updateData: ElectionUpdate = {};
     if (name !== undefined) updateData.name = name;
+    if (votingMethod !== undefined) updateData.voting_method = votingMethod;
+    if (seats !== undefined) updateData.seats = seats;
+    if (minSelections !== undefined) updateData.min_selections = minSelections;
+    if (maxSelections !== undefined) updateData.max_selections = maxSelections;
+    if (quorumPercent !== undefined) updateData.quorum_percent = quorumPercent;
+    if (passThreshold !== undefined) updateData.pass_threshold = passThreshold;
     if (startTime !== undefined) updateData.start_time = startTime;
     if (endTime !== undefined) updateData.end_time = endTime;
-    if (isActive !== undefined) updateData.is_active = isActive;
 
     const { data: electionData, error } = await supabase
       .from('elections')
@@ -221,6 +592,12 @@ router.put('/:electionId', async (req, res) => {
       });
     }
 
+    await recordAudit(req, 'election_updated', {
+      electionId,
+      name: electionData.name,
+      fields: Object.keys(updateData).filter(field => field !== 'updated_at')
+    });
+
     return res.status(200).json({
       success: true,
       message: 'Election updated successfully',
@@ -238,7 +615,7 @@ router.put('/:electionId', async (req, res) => {
 });
 
 
-router.delete('/:electionId', async (req, res) => {
+router.delete('/:electionId', requirePermission('manage_elections'), requireStepUp('delete_election'), async (req, res) => {
   try {
     const { electionId } = req.params;
 
@@ -249,10 +626,33 @@ router.delete('/:electionId', async (req, res) => {
       });
     }
 
-    const { error } = await supabase
+    const { data: election, error: electionError } = await supabase
+      .from('elections')
+      .select('status')
+      .eq('id', electionId)
+      .single();
+
+    if (electionError || !election) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    if (election.status === 'open' || election.status === 'certified') {
+      return res.status(400).json({
+        success: false,
+        message: election.status === 'open'
+          ? 'Close the election before deleting it'
+          : 'A certified election cannot be deleted'
+      });
+    }
+
+    const { data: deleted, error } = await supabase
       .from('elections')
       .delete()
-      .eq('id', electionId);
+      .eq('id', electionId)
+      .select('id, name');
 
     if (error) {
       console.error('Delete election error:', error);
@@ -263,6 +663,11 @@ router.delete('/:electionId', async (req, res) => {
       });
     }
 
+    await recordAudit(req, 'election_deleted', {
+      electionId,
+      name: deleted?.[0]?.name || null
+    });
+
     return res.status(200).json({
       success: true,
       message: 'Election deleted successfully'
@@ -278,6 +683,501 @@ router.delete('/:electionId', async (req, res) => {
   }
 });
 
+interface LifecycleElection {
+  id: string;
+  organization_id: string;
+  name: string;
+  status: ElectionStatus;
+  voter_roll: VoterRollMode;
+  start_time: string;
+  end_time: string;
+  voting_method: string;
+  trustee_threshold: number | null;
+}
+
+const getLifecycleElection = async (electionId: string) => {
+  const { data, error } = await supabase
+    .from('elections')
+    .select('id, organization_id, name, status, voter_roll, start_time, end_time, voting_method, trustee_threshold')
+    .eq('id', electionId)
+    .single();
+
+  if (error || !data) {
+    return null;
+  }
+
+  return data as LifecycleElection;
+};
+
+// Checks the preconditions of a move and returns the fields it changes.
+// Opening early or closing early moves the voting window to now, so the
+// window always matches when ballots were actually accepted.
+// Until a trustee acknowledges collecting their key share, the server holds
+// the only copy of it, so voting does not start while any share is waiting.
+const hasUncollectedShares = async (election: LifecycleElection) => {
+  if (election.trustee_threshold === null) {
+    return false;
+  }
+
+  const { count, error } = await supabase
+    .from('election_trustees')
+    .select('id', { count: 'exact', head: true })
+    .eq('election_id', election.id)
+    .or('pending_share.not.is.null,collected_at.is.null');
+
+  if (error) {
+    throw new Error(`Failed to check trustee shares: ${error.message}`);
+  }
+
+  return (count || 0) > 0;
+};
+
+const UNCOLLECTED_SHARES_ERROR = {
+  error: 'Every trustee must collect and acknowledge their key share before voting can start',
+  status: 409
+};
+
+const planTransition = async (
+  election: LifecycleElection,
+  to: ElectionStatus
+): Promise<{ error: string; status?: number } | { changes: Record<string, unknown> }> => {
+  const now = new Date();
+
+  if (to === 'scheduled') {
+    if (new Date(election.end_time) <= now) {
+      return { error: 'The voting window has already ended; set a new end time first' };
+    }
+
+    const { count, error } = await supabase
+      .from('candidates')
+      .select('id', { count: 'exact', head: true })
+      .eq('election_id', election.id);
+
+    if (error) {
+      throw new Error(`Failed to count candidates: ${error.message}`);
+    }
+
+    if (!count) {
+      return { error: 'Add at least one candidate before scheduling the election' };
+    }
+
+    if ((await listEligibleVoters(election)).length === 0) {
+      return { error: 'No members are on the voter roll for this election' };
+    }
+
+    if (await hasUncollectedShares(election)) {
+      return UNCOLLECTED_SHARES_ERROR;
+    }
+
+    return { changes: {} };
+  }
+
+  if (to === 'open') {
+    if (new Date(election.end_time) <= now) {
+      return { error: 'The voting window has already ended; set a new end time first' };
+    }
+    if (await hasUncollectedShares(election)) {
+      return UNCOLLECTED_SHARES_ERROR;
+    }
+    return { changes: new Date(election.start_time) > now ? { start_time: now.toISOString() } : {} };
+  }
+
+  if (to === 'closed') {
+    return { changes: new Date(election.end_time) > now ? { end_time: now.toISOString() } : {} };
+  }
+
+  if (to === 'certified') {
+    if (election.trustee_threshold !== null) {
+      const { count, error } = await supabase
+        .from('election_trustees')
+        .select('id', { count: 'exact', head: true })
+        .eq('election_id', election.id)
+        .not('submitted_share', 'is', null);
+
+      if (error) {
+        throw new Error(`Failed to count trustee shares: ${error.message}`);
+      }
+
+      if ((count || 0) < election.trustee_threshold) {
+        return { error: `Results cannot be certified until ${election.trustee_threshold} trustees submit their key shares` };
+      }
+    }
+    return { changes: {} };
+  }
+
+  return { changes: {} };
+};
+
+// The update only applies while the election is still in the state it was
+// read in, so two admins cannot both move it.
+const moveElection = async (req: express.Request, res: express.Response, to: ElectionStatus) => {
+  const { electionId } = req.params;
+  const election = await getLifecycleElection(electionId);
+
+  if (!election) {
+    return res.status(404).json({
+      success: false,
+      message: 'Election not found'
+    });
+  }
+
+  if (!canTransition(election.status, to)) {
+    return res.status(400).json({
+      success: false,
+      message: `A ${election.status} election cannot be moved to ${to}`
+    });
+  }
+
+  const plan = await planTransition(election, to);
+  if ('error' in plan) {
+    return res.status(plan.status || 400).json({
+      success: false,
+      message: plan.error
+    });
+  }
+
+  // Results are frozen in the same update that certifies the election, so a
+  // certified election always carries the results it was certified with.
+  let certification = {};
+  if (to === 'certified') {
+    const { status, body } = await buildResults(electionId);
+    if (status !== 200 || body.sealed) {
+      return res.status(status === 200 ? 400 : status).json({
+        success: false,
+        message: status === 200 ? 'Results are not available to certify yet' : body.message
+      });
+    }
+
+    const certifiedAt = new Date().toISOString();
+    certification = {
+      certified_at: certifiedAt,
+      certified_by: req.auth!.userId,
+      certified_results: { ...body, certifiedAt }
+    };
+  }
+
+  const { data: updated, error } = await supabase
+    .from('elections')
+    .update({
+      ...plan.changes,
+      ...certification,
+      status: to,
+      is_active: isPublished(to)
+    })
+    .eq('id', electionId)
+    .eq('status', election.status)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Election status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to update election status',
+      error: error.message
+    });
+  }
+
+  if (!updated) {
+    return res.status(409).json({
+      success: false,
+      message: 'The election was changed by someone else; reload and try again'
+    });
+  }
+
+  await recordAudit(req, to === 'certified' ? 'election_certified' : 'election_status_changed', {
+    electionId,
+    name: election.name,
+    from: election.status,
+    to
+  });
+
+  return res.status(200).json({
+    success: true,
+    message: `Election ${to === 'open' ? 'opened' : to}`,
+    data: updated
+  });
+};
+
+router.post('/:electionId/status', requirePermission('manage_elections'), async (req, res) => {
+  try {
+    const { status } = req.body;
+
+    if (!isElectionStatus(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Status must be one of: draft, scheduled, open, closed'
+      });
+    }
+
+    if (status === 'certified') {
+      return res.status(400).json({
+        success: false,
+        message: 'Use the certify action to certify results'
+      });
+    }
+
+    return await moveElection(req, res, status);
+
+  } catch (error) {
+    console.error('Election status error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Certification is permanent: the election, its ballot and its votes can no
+// longer change, and the results are frozen as they stand when it is certified.
+router.post('/:electionId/certify', requirePermission('certify_results'), requireStepUp('certify_election'), async (req, res) => {
+  try {
+    return await moveElection(req, res, 'certified');
+
+  } catch (error) {
+    console.error('Certify election error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const MAX_ROLL_ENTRIES = 10000;
+
+const isEmailList = (value: unknown): value is string[] => {
+  return Array.isArray(value) &&
+    value.length <= MAX_ROLL_ENTRIES &&
+    value.every(email => typeof email === 'string');
+};
+
+const normalizeEmails = (emails: string[]) => {
+  return [...new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean))];
+};
+
+const describeRoll = async (election: LifecycleElection, mode: VoterRollMode = election.voter_roll) => {
+  const [members, entries, rollGroups, eligible] = await Promise.all([
+    getVotingMembers(election.organization_id),
+    getRollEntries(election.id),
+    getRollGroups([election.id]),
+    listEligibleVoters({ ...election, voter_roll: mode })
+  ]);
+  const withEntry = (entryType: RollEntryType) => members.filter(member => entries.get(member.id) === entryType);
+
+  return {
+    mode,
+    included: withEntry('include'),
+    excluded: withEntry('exclude'),
+    groupIds: (rollGroups.get(election.id) || []).map(group => group.id),
+    eligibleCount: eligible.length,
+    votingMembers: members.length
+  };
+};
+
+router.get('/:electionId/roll', requirePermission('manage_elections'), async (req, res) => {
+  try {
+    const election = await getLifecycleElection(req.params.electionId);
+
+    if (!election) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: await describeRoll(election)
+    });
+
+  } catch (error) {
+    console.error('Get voter roll error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Replaces the roll. Members are given by email so uploaded lists can be
+// used as they are; emails that match no voting member are sent back.
+router.put('/:electionId/roll', requirePermission('manage_elections'), async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const { mode, include = [], exclude = [], groups = [] } = req.body;
+
+    if (!isVoterRollMode(mode)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Voter roll must be one of: all, list, groups'
+      });
+    }
+
+    if (!isEmailList(include) || !isEmailList(exclude)) {
+      return res.status(400).json({
+        success: false,
+        message: `Included and excluded members must be lists of at most ${MAX_ROLL_ENTRIES} emails`
+      });
+    }
+
+    if (!Array.isArray(groups) || !groups.every(groupId => typeof groupId === 'string')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Groups must be a list of member group IDs'
+      });
+    }
+
+    const election = await getLifecycleElection(electionId);
+
+    if (!election) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    if (!isBallotEditable(election.status)) {
+      return res.status(400).json({
+        success: false,
+        message: BALLOT_LOCKED_MESSAGE
+      });
+    }
+
+    const includedEmails = mode === 'list' ? normalizeEmails(include) : [];
+    const excludedEmails = normalizeEmails(exclude);
+
+    if (mode === 'list' && includedEmails.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Add at least one member to the voter list'
+      });
+    }
+
+    const groupIds = mode === 'groups' ? await filterGroupIds(election.organization_id, groups) : [];
+    if (mode === 'groups' && groupIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Select at least one member group'
+      });
+    }
+
+    const overlap = includedEmails.find(email => excludedEmails.includes(email));
+    if (overlap) {
+      return res.status(400).json({
+        success: false,
+        message: `${overlap} is both included and excluded`
+      });
+    }
+
+    const membersByEmail = new Map<string, RollMember>(
+      (await getVotingMembers(election.organization_id)).map(member => [member.email.toLowerCase(), member])
+    );
+    const unmatched = [...includedEmails, ...excludedEmails].filter(email => !membersByEmail.has(email));
+    const toEntries = (emails: string[], entryType: RollEntryType) => emails
+      .filter(email => membersByEmail.has(email))
+      .map(email => ({ election_id: electionId, user_id: membersByEmail.get(email)!.id, entry_type: entryType }));
+    const entries = [...toEntries(includedEmails, 'include'), ...toEntries(excludedEmails, 'exclude')];
+
+    const { error: deleteError } = await supabase
+      .from('election_roll_entries')
+      .delete()
+      .eq('election_id', electionId);
+
+    if (deleteError) {
+      console.error('Update voter roll error:', deleteError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update voter roll',
+        error: deleteError.message
+      });
+    }
+
+    if (entries.length > 0) {
+      const { error: insertError } = await supabase
+        .from('election_roll_entries')
+        .insert(entries);
+
+      if (insertError) {
+        console.error('Update voter roll error:', insertError);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to update voter roll',
+          error: insertError.message
+        });
+      }
+    }
+
+    const { error: groupsDeleteError } = await supabase
+      .from('election_roll_groups')
+      .delete()
+      .eq('election_id', electionId);
+
+    if (groupsDeleteError) {
+      console.error('Update voter roll error:', groupsDeleteError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update voter roll',
+        error: groupsDeleteError.message
+      });
+    }
+
+    if (groupIds.length > 0) {
+      const { error: groupsInsertError } = await supabase
+        .from('election_roll_groups')
+        .insert(groupIds.map(groupId => ({ election_id: electionId, group_id: groupId })));
+
+      if (groupsInsertError) {
+        console.error('Update voter roll error:', groupsInsertError);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to update voter roll',
+          error: groupsInsertError.message
+        });
+      }
+    }
+
+    const { error: updateError } = await supabase
+      .from('elections')
+      .update({ voter_roll: mode })
+      .eq('id', electionId);
+
+    if (updateError) {
+      console.error('Update voter roll error:', updateError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update voter roll',
+        error: updateError.message
+      });
+    }
+
+    await recordAudit(req, 'voter_roll_updated', {
+      electionId,
+      name: election.name,
+      mode,
+      included: entries.filter(entry => entry.entry_type === 'include').length,
+      excluded: entries.filter(entry => entry.entry_type === 'exclude').length,
+      groups: groupIds.length
+    });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Voter roll updated',
+      data: { ...(await describeRoll(election, mode)), unmatched }
+    });
+
+  } catch (error) {
+    console.error('Update voter roll error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 router.get('/:electionId', async (req, res) => {
   try {
     const { electionId } = req.params;
@@ -297,13 +1197,20 @@ router.get('/:electionId', async (req, res) => {
           id,
           name,
           party,
-          symbol
+          symbol,
+          contest_id,
+          ballot_option
+        ),
+        contests (
+          id,
+          name,
+          position
         )
       `)
       .eq('id', electionId)
       .single();
 
-    if (error || !election) {
+    if (error || !election || (election.status === 'draft' && !hasPermission(req.auth!.role, 'access_admin_panel'))) {
       return res.status(404).json({
         success: false,
         message: 'Election not found'
@@ -0,0 +1,186 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth, requirePermission, matchGroupParam } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { isBallotEditable } from '../lib/lifecycle';
+import { getGroups, isGroupLabel, MAX_CATEGORY_LENGTH, MAX_GROUP_NAME_LENGTH } from '../lib/memberGroups';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+router.use(requireAuth);
+router.param('groupId', matchGroupParam);
+
+// Election officers read groups to build voter rolls; only member managers
+// change them.
+router.get('/', requirePermission('access_admin_panel'), async (req, res) => {
+  try {
+    const groups = await getGroups(req.auth!.organizationId);
+
+    const { data: memberships, error } = groups.length > 0
+      ? await supabase
+        .from('member_group_memberships')
+        .select('group_id, user_id')
+        .in('group_id', groups.map(group => group.id))
+      : { data: [], error: null };
+
+    if (error) {
+      console.error('Get member groups error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get member groups',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: groups.map(group => ({
+        ...group,
+        memberIds: (memberships || [])
+          .filter(membership => membership.group_id === group.id)
+          .map(membership => membership.user_id)
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get member groups error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/', requirePermission('manage_members'), async (req, res) => {
+  try {
+    if (!isGroupLabel(req.body)) {
+      return res.status(400).json({
+        success: false,
+        message: `Category (up to ${MAX_CATEGORY_LENGTH} characters) and name (up to ${MAX_GROUP_NAME_LENGTH} characters) are required`
+      });
+    }
+
+    const category = req.body.category.trim();
+    const name = req.body.name.trim();
+
+    const { data: group, error } = await supabase
+      .from('member_groups')
+      .insert({ organization_id: req.auth!.organizationId, category, name })
+      .select('id, category, name')
+      .single();
+
+    if (error) {
+      // 23505: unique_violation on (organization, category, name).
+      if (error.code === '23505') {
+        return res.status(409).json({
+          success: false,
+          message: `${category}: ${name} already exists`
+        });
+      }
+
+      console.error('Create member group error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to create member group',
+        error: error.message
+      });
+    }
+
+    await recordAudit(req, 'member_group_created', { groupId: group.id, category, name });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Member group created',
+      data: { ...group, memberIds: [] }
+    });
+
+  } catch (error) {
+    console.error('Create member group error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// A group cannot be removed while it decides who may vote in an election
+// that has already opened.
+router.delete('/:groupId', requirePermission('manage_members'), async (req, res) => {
+  try {
+    const { groupId } = req.params;
+
+    const { data: rolls, error: rollsError } = await supabase
+      .from('election_roll_groups')
+      .select('elections (name, status)')
+      .eq('group_id', groupId);
+
+    if (rollsError) {
+      console.error('Delete member group error:', rollsError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to delete member group',
+        error: rollsError.message
+      });
+    }
+
+    const lockedElection = (rolls || [])
+      .map(roll => Array.isArray(roll.elections) ? roll.elections[0] : roll.elections)
+      .find(election => election && !isBallotEditable(election.status));
+
+    if (lockedElection) {
+      return res.status(400).json({
+        success: false,
+        message: `This group is on the voter roll of ${lockedElection.name}, which has already opened`
+      });
+    }
+
+    const { data: group, error } = await supabase
+      .from('member_groups')
+      .delete()
+      .eq('id', groupId)
+      .select('id, category, name')
+      .single();
+
+    if (error) {
+      console.error('Delete member group error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to delete member group',
+        error: error.message
+      });
+    }
+
+    await recordAudit(req, 'member_group_deleted', { groupId, category: group.category, name: group.name });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member group deleted'
+    });
+
+  } catch (error) {
+    console.error('Delete member group error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
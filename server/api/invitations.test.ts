@@ -0,0 +1,86 @@
+// @vitest-environment node
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+
+const ORGANIZATION_ID = 'org-1';
+const SESSION_TOKEN = 'admin-session';
+
+// Table queries find nothing; sessions and stats come from rpc.
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => {
+    const query: Record<string, unknown> = new Proxy({}, {
+      get: (_target, property) => property === 'then'
+        ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+        : () => query
+    });
+
+    return {
+      from: () => query,
+      rpc: async (name: string, params: Record<string, string>) => {
+        if (name === 'validate_session') {
+          const isValid = params.p_session_token === SESSION_TOKEN;
+          return { data: [{ is_valid: isValid, user_id: 'user-1', organization_id: ORGANIZATION_ID, role: 'admin' }], error: null };
+        }
+        if (name === 'get_invitation_stats') {
+          return { data: [{ total_invitations: 3 }], error: null };
+        }
+        return { data: null, error: null };
+      }
+    };
+  }
+}));
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const { default: invitationsRouter } = await import('./invitations');
+  const app = express();
+  app.use(express.json());
+  app.use('/api/invitations', invitationsRouter);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/invitations`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+const get = (path: string, sessionToken?: string) => fetch(`${baseUrl}${path}`, {
+  headers: sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {}
+});
+
+describe('organization routes', () => {
+  it('serves the caller\'s own organization', async () => {
+    const list = await get(`/organization/${ORGANIZATION_ID}`, SESSION_TOKEN);
+    expect(list.status).toBe(200);
+    expect(await list.json()).toEqual({ invitations: [] });
+
+    const stats = await get(`/stats/${ORGANIZATION_ID}`, SESSION_TOKEN);
+    expect(stats.status).toBe(200);
+    expect(await stats.json()).toEqual({ total_invitations: 3 });
+  });
+
+  it('refuses another organization', async () => {
+    expect((await get('/organization/org-2', SESSION_TOKEN)).status).toBe(403);
+    expect((await get('/stats/org-2', SESSION_TOKEN)).status).toBe(403);
+  });
+
+  it('asks for a session before checking the organization', async () => {
+    expect((await get(`/organization/${ORGANIZATION_ID}`)).status).toBe(401);
+    expect((await get(`/stats/${ORGANIZATION_ID}`, 'expired-session')).status).toBe(401);
+  });
+});
+
+describe('GET /validate/:token', () => {
+  it('needs no session', async () => {
+    const response = await get('/validate/unknown-token');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ is_valid: false, reason: 'Invalid invitation link' });
+  });
+});
@@ -2,6 +2,19 @@ import express from 'express';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
 import sgMail from '@sendgrid/mail';
+import { requireAuth, requirePermission, requireStepUp, matchOrganizationParam } from '../middleware/auth';
+import { recordAudit } from '../lib/audit';
+import { filterGroupIds, resolveGroupLabels } from '../lib/memberGroups';
+import { parseCsv, RosterRow } from '../lib/csv';
+import {
+  buildRoster,
+  isRosterColumns,
+  isRosterRecords,
+  summarizeRoster,
+  MAX_ROSTER_ROWS
+} from '../lib/roster';
+import { checkJoinCode, generateJoinCode, JOIN_CODE_ROLE, MAX_JOIN_CODE_USES } from '../lib/joinCodes';
+import { isClosed } from '../lib/lifecycle';
 
 dotenv.config({ path: '.env' });
 const router = express.Router();
@@ -12,20 +25,245 @@ const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdw
 const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
 
-
 const generateInvitationToken = async (): Promise<string> => {
   const { data, error } = await supabase.rpc('generate_invitation_token');
   if (error) throw error;
   return data;
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_INVITATION_DAYS = 7;
+const MAX_INVITATION_DAYS = 90;
+// Bulk changes name every invitation in the request query, so they are capped.
+const MAX_BULK_INVITATIONS = 500;
+
+const INVITATION_STATUSES = ['pending', 'used', 'expired', 'revoked'];
+
+// How many days new or renewed invitations stay valid; a week unless set.
+const readExpiryDays = (value: unknown): number | null => {
+  if (value === undefined || value === null) {
+    return DEFAULT_INVITATION_DAYS;
+  }
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_INVITATION_DAYS
+    ? value as number
+    : null;
+};
+
+const isInvitationIdList = (value: unknown): value is string[] => {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    value.length <= MAX_BULK_INVITATIONS &&
+    value.every(id => typeof id === 'string');
+};
+
+
+interface RosterBody {
+  csv?: unknown;
+  rows?: unknown;
+  columns?: unknown;
+  hasHeader?: unknown;
+  emails?: unknown;
+}
+
+interface NewInvitation {
+  organization_id: string;
+  email: string;
+  name: string | null;
+  invitation_token: string;
+  expires_at: string;
+  group_ids: string[];
+}
+
+type InvitationEmail = Pick<NewInvitation, 'email' | 'invitation_token' | 'expires_at'>;
+
+// Invitations come either as a roster, given as CSV text or as spreadsheet
+// rows read with the chosen columns, or as a plain list of emails.
+const readRoster = (body: RosterBody): { rows: RosterRow[] } | { error: string } => {
+  const { csv, rows, columns, hasHeader = true, emails } = body;
+
+  if (csv !== undefined || rows !== undefined) {
+    if (!isRosterColumns(columns)) {
+      return { error: 'Choose which columns hold the email, name and groups' };
+    }
+
+    const records = typeof csv === 'string' ? parseCsv(csv) : rows;
+    if (!isRosterRecords(records)) {
+      return { error: 'Roster rows must be lists of text' };
+    }
+
+    if (records.length > MAX_ROSTER_ROWS + 1) {
+      return { error: `A roster can have at most ${MAX_ROSTER_ROWS} rows` };
+    }
+
+    return { rows: buildRoster(records, columns, hasHeader !== false) };
+  }
+
+  if (!Array.isArray(emails) || emails.length === 0) {
+    return { error: 'Emails array is required' };
+  }
+
+  if (emails.length > MAX_ROSTER_ROWS) {
+    return { error: `At most ${MAX_ROSTER_ROWS} emails can be invited at once` };
+  }
+
+  const records = emails.map((email: unknown) => [typeof email === 'string' ? email : '']);
+  return { rows: buildRoster(records, { email: 0, name: null, groups: [] }, false) };
+};
+
+// Rows for people who already belong to the organization, or who hold an
+// invitation they can still use, are duplicates too.
+const markExisting = async (organizationId: string, rows: RosterRow[]) => {
+  const [
+    { data: members, error: membersError },
+    { data: pending, error: pendingError }
+  ] = await Promise.all([
+    supabase.from('user_organizations').select('auth_users (email)').eq('organization_id', organizationId),
+    supabase.from('student_invitations').select('email')
+      .eq('organization_id', organizationId)
+      .eq('is_used', false)
+      .gt('expires_at', new Date().toISOString())
+  ]);
+
+  if (membersError || pendingError) {
+    throw new Error(`Failed to check existing members: ${(membersError || pendingError)!.message}`);
+  }
+
+  const memberEmails = new Set((members || []).map(member =>
+    (Array.isArray(member.auth_users) ? member.auth_users[0] : member.auth_users)?.email?.toLowerCase()
+  ));
+  const invitedEmails = new Set((pending || []).map(invitation => invitation.email.toLowerCase()));
+
+  return rows.map(row => {
+    if (row.status !== 'valid') {
+      return row;
+    }
+    if (memberEmails.has(row.email)) {
+      return { ...row, status: 'duplicate' as const, reason: 'Already a member' };
+    }
+    if (invitedEmails.has(row.email)) {
+      return { ...row, status: 'duplicate' as const, reason: 'Already invited' };
+    }
+    return row;
+  });
+};
+
+// Validate invitation token. Invitees open their link before they have an
+// account, so this is the one route that runs without a session.
+router.get('/validate/:token', async (req, res) => {
+  try {
+    const { token } = req.params;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Token is required' });
+    }
+
+    
+    const { data, error } = await supabase
+      .from('student_invitations')
+      .select('*')
+      .eq('invitation_token', token)
+      .single();
+
+    if (error || !data) {
+      // Not an emailed invitation; it may be a join code.
+      const joinCode = await checkJoinCode(token);
+      if (joinCode) {
+        return res.json({
+          invitation_id: '',
+          email: '',
+          ...joinCode
+        });
+      }
+
+      return res.json({
+        invitation_id: '',
+        email: '',
+        organization_id: '',
+        is_valid: false,
+        reason: 'Invalid invitation link'
+      });
+    }
+
+    
+    const now = new Date();
+    const expiresAt = new Date(data.expires_at);
+    const isExpired = expiresAt < now;
+    const isUsed = data.is_used;
+
+    let is_valid = false;
+    let reason = '';
+
+    if (isUsed) {
+      reason = 'Invitation has already been used';
+    } else if (data.revoked_at) {
+      reason = 'Invitation has been revoked';
+    } else if (isExpired) {
+      reason = 'Invitation has expired';
+    } else {
+      is_valid = true;
+      reason = 'Valid invitation';
+    }
+
+    res.json({
+      invitation_id: data.id,
+      email: data.email,
+      name: data.name || '',
+      organization_id: data.organization_id,
+      is_valid: is_valid,
+      reason: reason
+    });
 
-router.post('/create-from-csv', async (req, res) => {
+  } catch (error) {
+    console.error('Error validating invitation token:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+router.use(requireAuth);
+router.param('organizationId', matchOrganizationParam);
+
+// Checks a roster without sending anything, so admins can fix it first.
+router.post('/preview', requirePermission('manage_members'), async (req, res) => {
   try {
-    const { emails, organizationId } = req.body;
+    const roster = readRoster(req.body);
 
-    if (!emails || !Array.isArray(emails) || emails.length === 0) {
-      return res.status(400).json({ error: 'Emails array is required' });
+    if ('error' in roster) {
+      return res.status(400).json({ error: roster.error });
+    }
+
+    const rows = await markExisting(req.auth!.organizationId, roster.rows);
+
+    res.json({
+      success: true,
+      rows,
+      summary: summarizeRoster(rows)
+    });
+
+  } catch (error) {
+    console.error('Error previewing roster:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Sends invitations to the valid rows and returns the rest as `skipped`.
+// `groupIds` apply to every invitation, on top of any roster group columns,
+// and `expiresInDays` sets how long the whole batch stays valid.
+router.post('/create-from-csv', requirePermission('manage_members'), requireStepUp('send_invitations'), async (req, res) => {
+  try {
+    const { organizationId, groupIds = [] } = req.body;
+
+    const roster = readRoster(req.body);
+    if ('error' in roster) {
+      return res.status(400).json({ error: roster.error });
+    }
+
+    const expiresInDays = readExpiryDays(req.body.expiresInDays);
+    if (expiresInDays === null) {
+      return res.status(400).json({ error: `Invitations can last from 1 to ${MAX_INVITATION_DAYS} days` });
+    }
+
+    if (!Array.isArray(groupIds) || !groupIds.every(groupId => typeof groupId === 'string')) {
+      return res.status(400).json({ error: 'Group IDs must be a list' });
     }
 
     if (!organizationId) {
@@ -44,22 +282,30 @@ router.post('/create-from-csv', async (req, res) => {
     }
 
     
-    const invitations: any[] = [];
-    for (const email of emails) {
-      if (email && isValidEmail(email)) {
-        const invitationToken = await generateInvitationToken();
-        
-        invitations.push({
-          organization_id: organizationId,
-          email: email.toLowerCase(),
-          invitation_token: invitationToken,
-          expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
-        });
-      }
+    const rows = await markExisting(organizationId, roster.rows);
+    const entries = rows.filter(row => row.status === 'valid');
+    const skipped = rows.filter(row => row.status !== 'valid');
+
+    if (entries.length === 0) {
+      return res.status(400).json({ error: 'No valid emails provided', skipped });
     }
 
-    if (invitations.length === 0) {
-      return res.status(400).json({ error: 'No valid emails provided' });
+    const sharedGroupIds = await filterGroupIds(organizationId, groupIds);
+    const groupIdFor = await resolveGroupLabels(organizationId, entries.flatMap(entry => entry.groups));
+
+    const expiresAt = new Date(Date.now() + expiresInDays * DAY_MS).toISOString();
+    const invitations: NewInvitation[] = [];
+    for (const { email, name, groups } of entries) {
+      const invitationToken = await generateInvitationToken();
+      
+      invitations.push({
+        organization_id: organizationId,
+        email,
+        name: name || null,
+        invitation_token: invitationToken,
+        expires_at: expiresAt,
+        group_ids: [...new Set([...sharedGroupIds, ...groups.map(groupIdFor)])]
+      });
     }
 
     
@@ -76,10 +322,16 @@ router.post('/create-from-csv', async (req, res) => {
     
     await sendInvitationEmails(invitationData);
 
+    await recordAudit(req, 'invitations_sent', {
+      count: invitationData.length,
+      emails: invitationData.map(invitation => invitation.email)
+    });
+
     res.json({ 
       success: true, 
       count: invitationData.length,
-      invitations: invitationData 
+      invitations: invitationData,
+      skipped
     });
 
   } catch (error) {
@@ -89,19 +341,38 @@ router.post('/create-from-csv', async (req, res) => {
 });
 
 
-router.get('/organization/:organizationId', async (req, res) => {
+// `?status=pending|used|expired|revoked` narrows the list. Revoked
+// invitations have also expired, so they are left out of `expired`.
+router.get('/organization/:organizationId', requirePermission('manage_members'), async (req, res) => {
   try {
     const { organizationId } = req.params;
+    const { status } = req.query;
 
     if (!organizationId) {
       return res.status(400).json({ error: 'Organization ID is required' });
     }
 
-    const { data: invitations, error } = await supabase
+    if (status !== undefined && !INVITATION_STATUSES.includes(status as string)) {
+      return res.status(400).json({ error: `Status must be one of ${INVITATION_STATUSES.join(', ')}` });
+    }
+
+    let query = supabase
       .from('student_invitations')
       .select('*')
-      .eq('organization_id', organizationId)
-      .order('created_at', { ascending: false });
+      .eq('organization_id', organizationId);
+
+    const now = new Date().toISOString();
+    if (status === 'used') {
+      query = query.eq('is_used', true);
+    } else if (status === 'pending') {
+      query = query.eq('is_used', false).is('revoked_at', null).gt('expires_at', now);
+    } else if (status === 'expired') {
+      query = query.eq('is_used', false).is('revoked_at', null).lte('expires_at', now);
+    } else if (status === 'revoked') {
+      query = query.eq('is_used', false).not('revoked_at', 'is', null);
+    }
+
+    const { data: invitations, error } = await query.order('created_at', { ascending: false });
 
     if (error) {
       console.error('Error fetching invitations:', error);
@@ -116,117 +387,150 @@ router.get('/organization/:organizationId', async (req, res) => {
   }
 });
 
-// Validate invitation token
-router.get('/validate/:token', async (req, res) => {
+// Join codes can be used by anyone who has them, up to their usage limit.
+router.get('/codes', requirePermission('manage_members'), async (req, res) => {
   try {
-    const { token } = req.params;
-
-    if (!token) {
-      return res.status(400).json({ error: 'Token is required' });
-    }
-
-    
-    const { data, error } = await supabase
-      .from('student_invitations')
-      .select('*')
-      .eq('invitation_token', token)
-      .single();
-
-    if (error || !data) {
-      return res.json({
-        invitation_id: '',
-        email: '',
-        organization_id: '',
-        is_valid: false,
-        reason: 'Invalid invitation link'
-      });
-    }
-
-    
-    const now = new Date();
-    const expiresAt = new Date(data.expires_at);
-    const isExpired = expiresAt < now;
-    const isUsed = data.is_used;
-
-    let is_valid = false;
-    let reason = '';
+    const { data: codes, error } = await supabase
+      .from('access_tokens')
+      .select('id, token, election_id, usage_limit, used_count, expires_at, is_active, created_at, elections (name)')
+      .eq('organization_id', req.auth!.organizationId)
+      .order('created_at', { ascending: false });
 
-    if (isUsed) {
-      reason = 'Invitation has already been used';
-    } else if (isExpired) {
-      reason = 'Invitation has expired';
-    } else {
-      is_valid = true;
-      reason = 'Valid invitation';
+    if (error) {
+      console.error('Error fetching join codes:', error);
+      return res.status(500).json({ error: 'Failed to fetch join codes' });
     }
 
     res.json({
-      invitation_id: data.id,
-      email: data.email,
-      organization_id: data.organization_id,
-      is_valid: is_valid,
-      reason: reason
+      codes: (codes || []).map(({ elections, ...code }) => ({
+        ...code,
+        election_name: (Array.isArray(elections) ? elections[0] : elections)?.name || null,
+        link: generateInvitationLink(code.token)
+      }))
     });
 
   } catch (error) {
-    console.error('Error validating invitation token:', error);
+    console.error('Error getting join codes:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Debug endpoint to test invitation link generation
-router.get('/debug/test-link/:token', async (req, res) => {
+// A code issued for an election puts everyone who joins with it on that
+// election's voter list.
+router.post('/codes', requirePermission('manage_members'), requireStepUp('send_invitations'), async (req, res) => {
   try {
-    const { token } = req.params;
-    const testLink = generateInvitationLink(token);
-    
-    res.json({
-      token: token,
-      generatedLink: testLink,
-      baseUrl: process.env.VITE_APP_URL || process.env.FRONTEND_URL || 'https://ematdaan.vercel.app',
-      envVars: {
-        VITE_APP_URL: process.env.VITE_APP_URL || 'not set',
-        FRONTEND_URL: process.env.FRONTEND_URL || 'not set',
-        NODE_ENV: process.env.NODE_ENV
+    const { electionId = null, usageLimit, expiresAt } = req.body;
+
+    if (!Number.isInteger(usageLimit) || usageLimit < 1 || usageLimit > MAX_JOIN_CODE_USES) {
+      return res.status(400).json({ error: `Usage limit must be a whole number from 1 to ${MAX_JOIN_CODE_USES}` });
+    }
+
+    const expiry = new Date(expiresAt);
+    if (typeof expiresAt !== 'string' || isNaN(expiry.getTime()) || expiry <= new Date()) {
+      return res.status(400).json({ error: 'Expiry must be a date in the future' });
+    }
+
+    let electionName: string | null = null;
+    if (electionId !== null) {
+      const { data: election } = typeof electionId === 'string'
+        ? await supabase
+          .from('elections')
+          .select('name, status, voter_roll')
+          .eq('id', electionId)
+          .eq('organization_id', req.auth!.organizationId)
+          .single()
+        : { data: null };
+
+      if (!election) {
+        return res.status(404).json({ error: 'Election not found' });
+      }
+
+      if (isClosed(election.status)) {
+        return res.status(400).json({ error: 'This election has closed' });
+      }
+
+      if (election.voter_roll === 'groups') {
+        return res.status(400).json({ error: 'Election codes add members to a voter list; this election admits members by group' });
       }
+
+      electionName = election.name;
+    }
+
+    const { data: code, error } = await supabase
+      .from('access_tokens')
+      .insert({
+        token: generateJoinCode(),
+        organization_id: req.auth!.organizationId,
+        role: JOIN_CODE_ROLE,
+        election_id: electionId,
+        expires_at: expiry.toISOString(),
+        usage_limit: usageLimit,
+        created_by: req.auth!.userId
+      })
+      .select('id, token, election_id, usage_limit, used_count, expires_at, is_active, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating join code:', error);
+      return res.status(500).json({ error: 'Failed to create join code' });
+    }
+
+    await recordAudit(req, 'join_code_created', {
+      codeId: code.id,
+      electionId,
+      usageLimit,
+      expiresAt: code.expires_at
     });
+
+    res.status(201).json({
+      success: true,
+      code: { ...code, election_name: electionName, link: generateInvitationLink(code.token) }
+    });
+
   } catch (error) {
-    res.status(500).json({ error: error instanceof Error ? error.message : 'Unknown error' });
+    console.error('Error creating join code:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Test endpoint to check table structure
-router.get('/test', async (req, res) => {
+// Revoked codes are kept so members who joined with them still show where
+// they came from.
+router.delete('/codes/:codeId', requirePermission('manage_members'), async (req, res) => {
   try {
-    
+    const { codeId } = req.params;
+
     const { data, error } = await supabase
-      .from('student_invitations')
-      .select('*')
-      .limit(5);
+      .from('access_tokens')
+      .update({ is_active: false })
+      .eq('id', codeId)
+      .eq('organization_id', req.auth!.organizationId)
+      .select('id, election_id, used_count');
 
     if (error) {
-      console.error('Table check error:', error);
-      return res.json({ 
-        tableExists: false, 
-        error: error.message,
-        tableName: 'student_invitations'
-      });
+      console.error('Error revoking join code:', error);
+      return res.status(500).json({ error: 'Failed to revoke join code' });
     }
 
-    res.json({ 
-      tableExists: true, 
-      count: data?.length || 0,
-      sampleData: data?.slice(0, 2) || []
+    if (!data || data.length === 0) {
+      return res.status(404).json({ error: 'Join code not found' });
+    }
+
+    await recordAudit(req, 'join_code_revoked', {
+      codeId,
+      electionId: data[0].election_id,
+      usedCount: data[0].used_count
     });
 
+    res.json({ success: true, message: 'Join code revoked' });
+
   } catch (error) {
-    console.error('Test endpoint error:', error);
+    console.error('Error revoking join code:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
 // Get invitation statistics
-router.get('/stats/:organizationId', async (req, res) => {
+router.get('/stats/:organizationId', requirePermission('manage_members'), async (req, res) => {
   try {
     const { organizationId } = req.params;
 
@@ -257,12 +561,12 @@ router.get('/stats/:organizationId', async (req, res) => {
 });
 
 
-const sendInvitationEmails = async (invitations: any[]) => {
+const sendInvitationEmails = async (invitations: InvitationEmail[]) => {
   for (const invitation of invitations) {
     const invitationLink = generateInvitationLink(invitation.invitation_token);
     
     
-    await sendInvitationEmail(invitation.email, invitationLink);
+    await sendInvitationEmail(invitation.email, invitationLink, invitation.expires_at);
   }
 };
 
@@ -274,7 +578,8 @@ const generateInvitationLink = (token: string): string => {
 };
 
 
-const sendInvitationEmail = async (email: string, invitationLink: string) => {
+const sendInvitationEmail = async (email: string, invitationLink: string, expiresAt: string) => {
+  const daysLeft = Math.max(1, Math.round((new Date(expiresAt).getTime() - Date.now()) / DAY_MS));
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
       <h2 style="color: #6B21E8;">You're Invited to Vote!</h2>
@@ -289,7 +594,7 @@ const sendInvitationEmail = async (email: string, invitationLink: string) => {
         <li>This invitation link can only be used once</li>
         <li>The link will work until you complete registration</li>
         <li>If you close the page without registering, you can use the link again</li>
-        <li>Link expires in 7 days</li>
+        <li>Link expires in ${daysLeft} ${daysLeft === 1 ? 'day' : 'days'}</li>
       </ul>
       <p>If the button doesn't work, copy and paste this link:</p>
       <p style="word-break: break-all; color: #6B21E8;">${invitationLink}</p>
@@ -315,13 +620,7 @@ const sendInvitationEmail = async (email: string, invitationLink: string) => {
 };
 
 
-const isValidEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-};
-
-
-router.delete('/delete/:invitationId', async (req, res) => {
+router.delete('/delete/:invitationId', requirePermission('manage_members'), async (req, res) => {
   try {
     const { invitationId } = req.params;
 
@@ -334,6 +633,7 @@ router.delete('/delete/:invitationId', async (req, res) => {
       .from('student_invitations')
       .delete()
       .eq('id', invitationId)
+      .eq('organization_id', req.auth!.organizationId)
       .select();
 
     if (error) {
@@ -344,6 +644,11 @@ router.delete('/delete/:invitationId', async (req, res) => {
       return res.status(404).json({ error: 'Invitation not found' });
     }
 
+    await recordAudit(req, 'invitation_deleted', {
+      invitationId,
+      email: data[0].email
+    });
+
     res.json({ 
       success: true, 
       message: 'Invitation deleted successfully',
@@ -356,8 +661,151 @@ router.delete('/delete/:invitationId', async (req, res) => {
 });
 
 
-router.get('/test-delete', (req, res) => {
-  res.json({ message: 'Delete route is working' });
+// Sends an unused invitation again with a new link, which also revives it if
+// it had expired or been revoked. The old link stops working.
+router.post('/resend/:invitationId', requirePermission('manage_members'), requireStepUp('send_invitations'), async (req, res) => {
+  try {
+    const { invitationId } = req.params;
+
+    const expiresInDays = readExpiryDays(req.body.expiresInDays);
+    if (expiresInDays === null) {
+      return res.status(400).json({ error: `Invitations can last from 1 to ${MAX_INVITATION_DAYS} days` });
+    }
+
+    const { data: invitation, error: fetchError } = await supabase
+      .from('student_invitations')
+      .select('id, email, is_used')
+      .eq('id', invitationId)
+      .eq('organization_id', req.auth!.organizationId)
+      .single();
+
+    if (fetchError || !invitation) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    if (invitation.is_used) {
+      return res.status(400).json({ error: 'Invitation has already been used' });
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('student_invitations')
+      .update({
+        invitation_token: await generateInvitationToken(),
+        expires_at: new Date(Date.now() + expiresInDays * DAY_MS).toISOString(),
+        revoked_at: null
+      })
+      .eq('id', invitation.id)
+      .eq('is_used', false)
+      .select()
+      .single();
+
+    if (updateError || !updated) {
+      console.error('Error renewing invitation:', updateError);
+      return res.status(500).json({ error: 'Failed to resend invitation' });
+    }
+
+    await sendInvitationEmails([updated]);
+
+    await recordAudit(req, 'invitation_resent', {
+      invitationId: updated.id,
+      email: updated.email,
+      expiresAt: updated.expires_at
+    });
+
+    res.json({ success: true, invitation: updated });
+
+  } catch (error) {
+    console.error('Error resending invitation:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Stops unused invitations from being used. Already revoked or used ones
+// are left alone and not counted.
+router.post('/revoke', requirePermission('manage_members'), requireStepUp('send_invitations'), async (req, res) => {
+  try {
+    const { invitationIds } = req.body;
+
+    if (!isInvitationIdList(invitationIds)) {
+      return res.status(400).json({ error: `Select between 1 and ${MAX_BULK_INVITATIONS} invitations` });
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('student_invitations')
+      .update({ revoked_at: now, expires_at: now })
+      .eq('organization_id', req.auth!.organizationId)
+      .in('id', invitationIds)
+      .eq('is_used', false)
+      .is('revoked_at', null)
+      .select('id, email');
+
+    if (error) {
+      console.error('Error revoking invitations:', error);
+      return res.status(500).json({ error: 'Failed to revoke invitations' });
+    }
+
+    if (data.length > 0) {
+      await recordAudit(req, 'invitations_revoked', {
+        count: data.length,
+        emails: data.map(invitation => invitation.email)
+      });
+    }
+
+    res.json({ success: true, count: data.length });
+
+  } catch (error) {
+    console.error('Error revoking invitations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Keeps unused invitations valid until `expiresInDays` from now, reviving
+// expired ones with their existing links. Invitations that already last
+// longer, and revoked ones, are left alone.
+router.post('/extend', requirePermission('manage_members'), requireStepUp('send_invitations'), async (req, res) => {
+  try {
+    const { invitationIds } = req.body;
+
+    if (!isInvitationIdList(invitationIds)) {
+      return res.status(400).json({ error: `Select between 1 and ${MAX_BULK_INVITATIONS} invitations` });
+    }
+
+    const expiresInDays = readExpiryDays(req.body.expiresInDays);
+    if (expiresInDays === null) {
+      return res.status(400).json({ error: `Invitations can last from 1 to ${MAX_INVITATION_DAYS} days` });
+    }
+
+    const expiresAt = new Date(Date.now() + expiresInDays * DAY_MS).toISOString();
+    const { data, error } = await supabase
+      .from('student_invitations')
+      .update({ expires_at: expiresAt })
+      .eq('organization_id', req.auth!.organizationId)
+      .in('id', invitationIds)
+      .eq('is_used', false)
+      .is('revoked_at', null)
+      .lt('expires_at', expiresAt)
+      .select('id, email');
+
+    if (error) {
+      console.error('Error extending invitations:', error);
+      return res.status(500).json({ error: 'Failed to extend invitations' });
+    }
+
+    if (data.length > 0) {
+      await recordAudit(req, 'invitations_extended', {
+        count: data.length,
+        emails: data.map(invitation => invitation.email),
+        expiresAt
+      });
+    }
+
+    res.json({ success: true, count: data.length, expiresAt });
+
+  } catch (error) {
+    console.error('Error extending invitations:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,237 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth, requirePermission } from '../middleware/auth';
+import { isRole, ROLES } from '../lib/permissions';
+import { recordAudit } from '../lib/audit';
+import { setMemberGroups } from '../lib/memberGroups';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+router.use(requireAuth, requirePermission('manage_members'));
+
+const isOrganizationMember = async (memberId: string, organizationId: string) => {
+  const { data: membership, error } = await supabase
+    .from('user_organizations')
+    .select('user_id')
+    .eq('user_id', memberId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get member: ${error.message}`);
+  }
+
+  return !!membership;
+};
+
+router.put('/:memberId/role', async (req, res) => {
+  try {
+    const { memberId } = req.params;
+    const { role } = req.body;
+
+    if (!isRole(role)) {
+      return res.status(400).json({
+        success: false,
+        message: `Role must be one of: ${ROLES.join(', ')}`
+      });
+    }
+
+    if (memberId === req.auth!.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot change your own role'
+      });
+    }
+
+    const { data: membership, error } = await supabase
+      .from('user_organizations')
+      .update({ role })
+      .eq('user_id', memberId)
+      .eq('organization_id', req.auth!.organizationId)
+      .select('user_id, role')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Update member role error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to update member role',
+        error: error.message
+      });
+    }
+
+    if (!membership) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    await recordAudit(req, 'member_role_changed', { memberId, role });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member role updated successfully',
+      data: membership
+    });
+
+  } catch (error) {
+    console.error('Update member role error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/:memberId/unlock', async (req, res) => {
+  try {
+    const { memberId } = req.params;
+
+    if (!(await isOrganizationMember(memberId, req.auth!.organizationId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    const { error } = await supabase
+      .from('auth_users')
+      .update({ is_locked: false, locked_until: null, login_attempts: 0 })
+      .eq('id', memberId);
+
+    if (error) {
+      console.error('Unlock member error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to unlock member',
+        error: error.message
+      });
+    }
+
+    await recordAudit(req, 'member_unlocked', { memberId });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member account unlocked successfully'
+    });
+
+  } catch (error) {
+    console.error('Unlock member error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.put('/:memberId/groups', async (req, res) => {
+  try {
+    const { memberId } = req.params;
+    const { groupIds } = req.body;
+
+    if (!Array.isArray(groupIds) || !groupIds.every(groupId => typeof groupId === 'string')) {
+      return res.status(400).json({
+        success: false,
+        message: 'Group IDs must be a list'
+      });
+    }
+
+    if (!(await isOrganizationMember(memberId, req.auth!.organizationId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    const kept = await setMemberGroups(req.auth!.organizationId, memberId, groupIds);
+
+    await recordAudit(req, 'member_groups_changed', { memberId, groupIds: kept });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member groups updated successfully',
+      data: { groupIds: kept }
+    });
+
+  } catch (error) {
+    console.error('Update member groups error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Ends the member's sessions in this organization, forcing them to sign in again.
+router.post('/:memberId/logout', async (req, res) => {
+  try {
+    const { memberId } = req.params;
+
+    if (memberId === req.auth!.userId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Use sign out everywhere on your profile to end your own sessions'
+      });
+    }
+
+    if (!(await isOrganizationMember(memberId, req.auth!.organizationId))) {
+      return res.status(404).json({
+        success: false,
+        message: 'Member not found'
+      });
+    }
+
+    const { data: revoked, error } = await supabase
+      .from('user_sessions')
+      .update({ is_active: false })
+      .eq('user_id', memberId)
+      .eq('organization_id', req.auth!.organizationId)
+      .eq('is_active', true)
+      .select('id');
+
+    if (error) {
+      console.error('Force logout member error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to sign out member',
+        error: error.message
+      });
+    }
+
+    await recordAudit(req, 'member_signed_out', { memberId, revokedSessions: (revoked || []).length });
+
+    return res.status(200).json({
+      success: true,
+      message: 'Member signed out successfully',
+      data: { revokedSessions: (revoked || []).length }
+    });
+
+  } catch (error) {
+    console.error('Force logout member error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -1,9 +1,9 @@
 import express from 'express';
 import { createClient } from '@supabase/supabase-js';
-import crypto from 'crypto';
 import dotenv from 'dotenv';
 import path from 'path';
 import sgMail from '@sendgrid/mail';
+import { hashPassword } from '../lib/passwords';
 
 
 dotenv.config({ path: '.env' });
@@ -74,7 +74,7 @@ router.post('/create', async (req, res) => {
     }
 
 
-    const adminPasswordHash = crypto.createHash('sha256').update(ownerPassword).digest('hex');
+    const adminPasswordHash = await hashPassword(ownerPassword);
 
   
     const { data: orgData, error: orgError } = await supabase
@@ -306,7 +306,7 @@ router.post('/verify-otp', async (req, res) => {
       .replace(/^-|-$/g, '');
 
     // Hash the password
-    const adminPasswordHash = crypto.createHash('sha256').update(ownerPassword).digest('hex');
+    const adminPasswordHash = await hashPassword(ownerPassword);
 
     // Check if organization name or email already exists
     const { data: existingOrg } = await supabase
@@ -0,0 +1,189 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth } from '../middleware/auth';
+import { renewedExpiry, SESSION_COLUMNS } from '../lib/sessions';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+router.use(requireAuth);
+
+// Active sessions of the signed-in user, with the one making the request
+// marked as current.
+router.get('/', async (req, res) => {
+  try {
+    const { data: sessions, error } = await supabase
+      .from('user_sessions')
+      .select(`${SESSION_COLUMNS}, session_token`)
+      .eq('user_id', req.auth!.userId)
+      .eq('is_active', true)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      console.error('Get sessions error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get sessions',
+        error: error.message
+      });
+    }
+
+    const data = (sessions || []).map(({ session_token, ...session }) => ({
+      ...session,
+      current: session_token === req.auth!.sessionToken
+    }));
+
+    return res.status(200).json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Sliding expiry: called periodically by the client while the user is active.
+router.post('/refresh', async (req, res) => {
+  try {
+    const { data: session, error: sessionError } = await supabase
+      .from('user_sessions')
+      .select('id, created_at')
+      .eq('session_token', req.auth!.sessionToken)
+      .single();
+
+    if (sessionError || !session) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session is invalid or has expired'
+      });
+    }
+
+    const now = new Date();
+    const expiresAt = renewedExpiry(session.created_at, now.getTime());
+
+    const { error } = await supabase
+      .from('user_sessions')
+      .update({ expires_at: expiresAt.toISOString(), last_seen_at: now.toISOString() })
+      .eq('id', session.id)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Refresh session error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to refresh session',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: { expiresAt }
+    });
+
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Signs out every device, including the one making the request.
+router.post('/revoke-all', async (req, res) => {
+  try {
+    const { error } = await supabase
+      .from('user_sessions')
+      .update({ is_active: false })
+      .eq('user_id', req.auth!.userId)
+      .eq('is_active', true);
+
+    if (error) {
+      console.error('Revoke all sessions error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to sign out everywhere',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Signed out of all devices'
+    });
+
+  } catch (error) {
+    console.error('Revoke all sessions error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.delete('/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    const { data: revoked, error } = await supabase
+      .from('user_sessions')
+      .update({ is_active: false })
+      .eq('id', sessionId)
+      .eq('user_id', req.auth!.userId)
+      .select('id');
+
+    if (error) {
+      console.error('Revoke session error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to revoke session',
+        error: error.message
+      });
+    }
+
+    if (!revoked || revoked.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Session not found'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -25,7 +25,7 @@ router.get('/platform', async (req, res) => {
     const { count: activeElections } = await supabase
       .from('elections')
       .select('id', { count: 'exact', head: true })
-      .eq('is_active', true)
+      .in('status', ['scheduled', 'open'])
       .gte('end_time', now);
 
     
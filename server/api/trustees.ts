@@ -0,0 +1,360 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { requireAuth, requirePermission, matchElectionParam } from '../middleware/auth';
+import { sealSecret, openSecret, hashShare } from '../lib/ballots';
+import { isClosed } from '../lib/lifecycle';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+router.use(requireAuth);
+router.param('electionId', matchElectionParam);
+
+const getTrusteeRow = async (electionId: string, userId: string) => {
+  const { data: trustee, error } = await supabase
+    .from('election_trustees')
+    .select(`
+      id,
+      share_hash,
+      pending_share,
+      collected_at,
+      submitted_at,
+      elections (
+        status
+      )
+    `)
+    .eq('election_id', electionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get trustee: ${error.message}`);
+  }
+
+  return trustee;
+};
+
+router.get('/my', async (req, res) => {
+  try {
+    const { data: trusteeships, error } = await supabase
+      .from('election_trustees')
+      .select(`
+        election_id,
+        share_index,
+        collected_at,
+        submitted_at,
+        elections!inner (
+          id,
+          name,
+          start_time,
+          end_time,
+          status,
+          trustee_threshold,
+          organization_id
+        )
+      `)
+      .eq('user_id', req.auth!.userId)
+      .eq('elections.organization_id', req.auth!.organizationId);
+
+    if (error) {
+      console.error('Get trusteeships error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get trustee elections',
+        error: error.message
+      });
+    }
+
+    const electionIds = (trusteeships || []).map(trusteeship => trusteeship.election_id);
+    const { data: submissions, error: submissionsError } = await supabase
+      .from('election_trustees')
+      .select('election_id')
+      .in('election_id', electionIds)
+      .not('submitted_at', 'is', null);
+
+    if (submissionsError) {
+      console.error('Get trustee submissions error:', submissionsError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get trustee elections',
+        error: submissionsError.message
+      });
+    }
+
+    const data = (trusteeships || []).map(trusteeship => {
+      const election = Array.isArray(trusteeship.elections) ? trusteeship.elections[0] : trusteeship.elections;
+      return {
+        election: {
+          id: election.id,
+          name: election.name,
+          start_time: election.start_time,
+          end_time: election.end_time,
+          status: election.status
+        },
+        shareIndex: trusteeship.share_index,
+        collectedAt: trusteeship.collected_at,
+        submittedAt: trusteeship.submitted_at,
+        threshold: election.trustee_threshold,
+        submittedCount: (submissions || []).filter(submission => submission.election_id === trusteeship.election_id).length
+      };
+    });
+
+    return res.status(200).json({
+      success: true,
+      data
+    });
+
+  } catch (error) {
+    console.error('Get trusteeships error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Key ceremony progress for election managers. Shares are never included.
+router.get('/election/:electionId', requirePermission('manage_elections'), async (req, res) => {
+  try {
+    const { electionId } = req.params;
+
+    const { data: trustees, error } = await supabase
+      .from('election_trustees')
+      .select(`
+        share_index,
+        collected_at,
+        submitted_at,
+        auth_users (
+          id,
+          name,
+          email
+        )
+      `)
+      .eq('election_id', electionId)
+      .order('share_index', { ascending: true });
+
+    if (error) {
+      console.error('Get election trustees error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to get trustees',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: (trustees || []).map(trustee => ({
+        user: Array.isArray(trustee.auth_users) ? trustee.auth_users[0] : trustee.auth_users,
+        shareIndex: trustee.share_index,
+        collectedAt: trustee.collected_at,
+        submittedAt: trustee.submitted_at
+      }))
+    });
+
+  } catch (error) {
+    console.error('Get election trustees error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Shows the trustee their key share. It can be shown again until the trustee
+// confirms they have stored it, so a response lost on the way does not lose
+// the share.
+router.post('/:electionId/collect', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const trustee = await getTrusteeRow(electionId, req.auth!.userId);
+
+    if (!trustee) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a trustee of this election'
+      });
+    }
+
+    if (!trustee.pending_share) {
+      return res.status(409).json({
+        success: false,
+        message: 'Your key share has already been collected'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Store your key share safely, then confirm you have it.',
+      data: { share: openSecret(trustee.pending_share) }
+    });
+
+  } catch (error) {
+    console.error('Collect trustee share error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The trustee sends back the share they stored. Once it matches, the server
+// deletes its copy and keeps only the hash, so a lost share cannot be
+// recovered and the server can no longer rebuild the key from it.
+router.post('/:electionId/acknowledge', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const { share } = req.body;
+
+    if (typeof share !== 'string' || !share.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Key share is required'
+      });
+    }
+
+    const trustee = await getTrusteeRow(electionId, req.auth!.userId);
+
+    if (!trustee) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a trustee of this election'
+      });
+    }
+
+    if (!trustee.pending_share) {
+      return res.status(409).json({
+        success: false,
+        message: 'Your key share has already been collected'
+      });
+    }
+
+    if (hashShare(share) !== trustee.share_hash) {
+      return res.status(400).json({
+        success: false,
+        message: 'This is not the key share issued to you for this election'
+      });
+    }
+
+    const { error } = await supabase
+      .from('election_trustees')
+      .update({ pending_share: null, collected_at: new Date().toISOString() })
+      .eq('id', trustee.id)
+      .not('pending_share', 'is', null);
+
+    if (error) {
+      console.error('Acknowledge trustee share error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to confirm key share',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Key share confirmed. The server no longer holds a copy.'
+    });
+
+  } catch (error) {
+    console.error('Acknowledge trustee share error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+router.post('/:electionId/submit', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const { share } = req.body;
+
+    if (typeof share !== 'string' || !share.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Key share is required'
+      });
+    }
+
+    const trustee = await getTrusteeRow(electionId, req.auth!.userId);
+
+    if (!trustee) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not a trustee of this election'
+      });
+    }
+
+    const election = Array.isArray(trustee.elections) ? trustee.elections[0] : trustee.elections;
+    if (!election || !isClosed(election.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Key shares can only be submitted after the election closes'
+      });
+    }
+
+    if (trustee.submitted_at) {
+      return res.status(409).json({
+        success: false,
+        message: 'You have already submitted your key share'
+      });
+    }
+
+    if (hashShare(share) !== trustee.share_hash) {
+      return res.status(400).json({
+        success: false,
+        message: 'This is not the key share issued to you for this election'
+      });
+    }
+
+    const { error } = await supabase
+      .from('election_trustees')
+      .update({
+        submitted_share: sealSecret(share.trim().toLowerCase()),
+        submitted_at: new Date().toISOString()
+      })
+      .eq('id', trustee.id);
+
+    if (error) {
+      console.error('Submit trustee share error:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to submit key share',
+        error: error.message
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: 'Key share submitted successfully'
+    });
+
+  } catch (error) {
+    console.error('Submit trustee share error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,217 @@
+import express from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { buildMerkleTree, isReceipt, MERKLE_ALGORITHM } from '../lib/merkle';
+import { isClosed } from '../lib/lifecycle';
+
+dotenv.config({ path: '.env' });
+
+const router = express.Router();
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required. Please set it in your environment variables.');
+  console.error('You can get it from your Supabase Dashboard > Settings > API > service_role key');
+  throw new Error('Missing SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+// Roots the election's ballot receipts in a Merkle tree the first time the
+// board is requested after voting closes, and stores an inclusion proof for
+// every ballot. Later requests read the stored tree, so the root never moves.
+const getBulletinBoard = async (electionId: string) => {
+  const { data: existing, error } = await supabase
+    .from('merkle_trees')
+    .select('root_hash, tree_data, proof_data, created_at')
+    .eq('election_id', electionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get bulletin board: ${error.message}`);
+  }
+
+  if (existing) {
+    return existing;
+  }
+
+  const { data: ballots, error: ballotsError } = await supabase
+    .from('encrypted_votes')
+    .select('id, ballot_hash')
+    .eq('election_id', electionId)
+    .not('ballot_hash', 'is', null);
+
+  if (ballotsError) {
+    throw new Error(`Failed to get ballots: ${ballotsError.message}`);
+  }
+
+  const { root, leaves, proofs } = buildMerkleTree((ballots || []).map(ballot => ballot.ballot_hash));
+  const proofByReceipt = new Map(proofs.map(({ receipt, proof }) => [receipt, proof]));
+
+  if (ballots && ballots.length > 0) {
+    const { error: proofsError } = await supabase
+      .from('vote_verifications')
+      .upsert(ballots.map(ballot => ({
+        vote_id: ballot.id,
+        election_id: electionId,
+        verification_hash: ballot.ballot_hash,
+        merkle_proof: proofByReceipt.get(ballot.ballot_hash),
+        verified: true
+      })), { onConflict: 'vote_id', ignoreDuplicates: true });
+
+    if (proofsError) {
+      throw new Error(`Failed to store inclusion proofs: ${proofsError.message}`);
+    }
+  }
+
+  const { error: insertError } = await supabase
+    .from('merkle_trees')
+    .upsert({
+      election_id: electionId,
+      root_hash: root,
+      tree_data: { leaves },
+      proof_data: { algorithm: MERKLE_ALGORITHM, leafCount: leaves.length }
+    }, { onConflict: 'election_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to store bulletin board: ${insertError.message}`);
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('merkle_trees')
+    .select('root_hash, tree_data, proof_data, created_at')
+    .eq('election_id', electionId)
+    .single();
+
+  if (storedError || !stored) {
+    throw new Error(`Failed to get bulletin board: ${storedError?.message}`);
+  }
+
+  return stored;
+};
+
+// The board is only published once no more ballots can be cast.
+const checkElectionClosed = async (electionId: string) => {
+  const { data: election, error } = await supabase
+    .from('elections')
+    .select('status')
+    .eq('id', electionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get election: ${error.message}`);
+  }
+
+  if (!election) {
+    return { status: 404, message: 'Election not found' };
+  }
+
+  if (!isClosed(election.status)) {
+    return { status: 403, message: 'The bulletin board is published when the election closes' };
+  }
+
+  return null;
+};
+
+// Public: anyone may audit the list of receipts and recompute the root.
+router.get('/:electionId', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const notClosed = await checkElectionClosed(electionId);
+    if (notClosed) {
+      return res.status(notClosed.status).json({
+        success: false,
+        message: notClosed.message
+      });
+    }
+
+    const board = await getBulletinBoard(electionId);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        electionId,
+        root: board.root_hash,
+        algorithm: board.proof_data.algorithm,
+        leafCount: board.proof_data.leafCount,
+        receipts: board.tree_data.leaves,
+        publishedAt: board.created_at
+      }
+    });
+
+  } catch (error) {
+    console.error('Get bulletin board error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Public: a receipt is only known to the voter who cast the ballot, so the
+// proof reveals nothing that the published receipt list does not.
+router.get('/:electionId/proof/:receipt', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const receipt = req.params.receipt.toLowerCase();
+
+    if (!isReceipt(receipt)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Receipt must be a 64-character hex hash'
+      });
+    }
+
+    const notClosed = await checkElectionClosed(electionId);
+    if (notClosed) {
+      return res.status(notClosed.status).json({
+        success: false,
+        message: notClosed.message
+      });
+    }
+
+    const board = await getBulletinBoard(electionId);
+
+    const { data: verification, error } = await supabase
+      .from('vote_verifications')
+      .select('merkle_proof')
+      .eq('election_id', electionId)
+      .eq('verification_hash', receipt)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to get inclusion proof: ${error.message}`);
+    }
+
+    if (!verification) {
+      return res.status(404).json({
+        success: false,
+        message: 'No ballot with this receipt was recorded in this election'
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        electionId,
+        receipt,
+        root: board.root_hash,
+        algorithm: board.proof_data.algorithm,
+        proof: verification.merkle_proof
+      }
+    });
+
+  } catch (error) {
+    console.error('Get inclusion proof error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,110 @@
+// @vitest-environment node
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { generateElGamalKeys } from '../lib/elgamal';
+import { encryptHomomorphicBallot } from '../../src/lib/homomorphic';
+
+const ELECTION_ID = 'election-1';
+const SESSION_TOKEN = 'voter-session';
+const { publicKey } = generateElGamalKeys();
+
+// Rows each table answers with, whatever the query; inserts are recorded.
+const tables: Record<string, unknown> = {
+  elections: {
+    id: ELECTION_ID,
+    status: 'open',
+    tally_mode: 'homomorphic',
+    voting_method: 'plurality',
+    start_time: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    end_time: new Date(Date.now() + 60 * 60 * 1000).toISOString()
+  },
+  election_keys: { public_key: publicKey, encrypted_private_key: 'sealed' },
+  contests: [],
+  candidates: [{ id: 'alice', contest_id: null }, { id: 'bob', contest_id: null }]
+};
+const inserts: { table: string; row: Record<string, unknown> }[] = [];
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: (table: string) => {
+      let inserted: Record<string, unknown> | null = null;
+      const result = () => ({
+        data: inserted ? { id: `${table}-1`, ...inserted } : tables[table] ?? null,
+        error: null
+      });
+      const query: Record<string, unknown> = new Proxy({}, {
+        get: (_target, property) => {
+          if (property === 'then') {
+            return (resolve: (value: unknown) => void) => resolve(result());
+          }
+          if (property === 'single' || property === 'maybeSingle') {
+            return async () => result();
+          }
+          if (property === 'insert') {
+            return (row: Record<string, unknown>) => {
+              inserted = row;
+              inserts.push({ table, row });
+              return query;
+            };
+          }
+          return () => query;
+        }
+      });
+      return query;
+    },
+    rpc: async (name: string, params: Record<string, string>) => {
+      if (name === 'validate_session') {
+        const isValid = params.p_session_token === SESSION_TOKEN;
+        return { data: [{ is_valid: isValid, user_id: 'user-1', organization_id: 'org-1', role: 'student' }], error: null };
+      }
+      return { data: null, error: null };
+    }
+  })
+}));
+
+vi.mock('../lib/voterRoll', () => ({
+  listEligibleVoters: async () => [],
+  getEligibleElectionIds: async (_auth: unknown, electionIds: string[]) => new Set(electionIds)
+}));
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'service-role';
+  process.env.BALLOT_KEY_SECRET = 'ballot-key-secret';
+  const { default: votesRouter } = await import('./votes');
+  const app = express();
+  app.use(express.json({ limit: '10mb' }));
+  app.use('/api/votes', votesRouter);
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/votes`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('POST /cast', () => {
+  it('stores the ballot and its proof with the same hour-rounded time', async () => {
+    const groups = [{ contestId: null, candidateIds: ['alice', 'bob'], minSelections: 1, maxSelections: 1 }];
+    const { encryptedBallot, validityProof } = await encryptHomomorphicBallot(publicKey, ELECTION_ID, groups, ['alice']);
+
+    const response = await fetch(`${baseUrl}/cast`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${SESSION_TOKEN}` },
+      body: JSON.stringify({ electionId: ELECTION_ID, encryptedBallot, validityProof })
+    });
+    expect(response.status).toBe(201);
+
+    const ballot = inserts.find(entry => entry.table === 'encrypted_votes')!.row;
+    const proof = inserts.find(entry => entry.table === 'zk_proofs')!.row;
+
+    expect(new Date(ballot.created_at as string).getUTCMinutes()).toBe(0);
+    expect(proof.created_at).toBe(ballot.created_at);
+  }, 60000);
+});
@@ -1,6 +1,34 @@
 import express from 'express';
+import crypto from 'crypto';
 import { createClient } from '@supabase/supabase-js';
 import dotenv from 'dotenv';
+import { requireAuth, requirePermission, matchUserParam, matchElectionParam } from '../middleware/auth';
+import { hasPermission } from '../lib/permissions';
+import { recordAudit } from '../lib/audit';
+import { toCsv } from '../lib/csv';
+import { assignSeats, runInstantRunoff, decideReferendum, ReferendumOption, TallyMode } from '../lib/tally';
+import {
+  addCiphertexts,
+  decryptSum,
+  isCiphertext,
+  verifyValidityProof,
+  Ciphertext,
+  DecryptionProof,
+  ValidityProof
+} from '../lib/elgamal';
+import {
+  generateElectionKeys,
+  unwrapPrivateKey,
+  unlockPrivateKey,
+  openSecret,
+  isEncryptedBallot,
+  hashBallot,
+  decryptBallot,
+  coarseTimestamp
+} from '../lib/ballots';
+import { isClosed } from '../lib/lifecycle';
+import { listEligibleVoters, getEligibleElectionIds } from '../lib/voterRoll';
+import { getGroups, getMembershipsByUser } from '../lib/memberGroups';
 
 dotenv.config({ path: '.env' });
 
@@ -17,15 +45,312 @@ if (!serviceRoleKey) {
 
 const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
 
+router.use(requireAuth);
+router.param('userId', matchUserParam);
+router.param('electionId', matchElectionParam);
 
-router.post('/cast', async (req, res) => {
+
+const isDistinctIdList = (value: unknown): value is string[] => {
+  return Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(id => typeof id === 'string') &&
+    new Set(value).size === value.length;
+};
+
+interface ContestBallot {
+  contestId?: string;
+  candidateId?: unknown;
+  ranking?: unknown;
+  selections?: unknown;
+}
+
+interface BallotRules {
+  voting_method: string;
+  min_selections: number;
+  max_selections: number;
+}
+
+// Reads the candidate IDs a ballot chooses, in the form the voting method expects.
+const readChoices = (rules: BallotRules, ballot: ContestBallot): { choices?: string[]; error?: string } => {
+  if (rules.voting_method === 'ranked_choice') {
+    return isDistinctIdList(ballot.ranking)
+      ? { choices: ballot.ranking }
+      : { error: 'Ranking must list one or more distinct candidates in order of preference' };
+  }
+
+  if (rules.voting_method === 'approval') {
+    const { selections } = ballot;
+    if (!isDistinctIdList(selections) ||
+        selections.length < rules.min_selections || selections.length > rules.max_selections) {
+      return {
+        error: rules.min_selections === rules.max_selections
+          ? `Select exactly ${rules.max_selections} distinct candidates`
+          : `Select between ${rules.min_selections} and ${rules.max_selections} distinct candidates`
+      };
+    }
+    return { choices: selections };
+  }
+
+  return typeof ballot.candidateId === 'string' && ballot.candidateId
+    ? { choices: [ballot.candidateId] }
+    : { error: 'Candidate ID is required' };
+};
+
+interface CastBallot {
+  contestId: string | null;
+  choices: string[];
+}
+
+// Checks a decrypted ballot against the election it claims to belong to.
+// Elections with contests need one entry per contest; the others hold a
+// single entry. Returns null when any part of the ballot is invalid.
+const validateBallot = (
+  payload: unknown,
+  electionId: string,
+  rules: BallotRules,
+  contests: { id: string }[],
+  candidates: { id: string; contest_id: string | null }[]
+): CastBallot[] | null => {
+  const decrypted = payload as { electionId?: unknown; ballots?: unknown } | null;
+  if (!decrypted || typeof decrypted !== 'object' || decrypted.electionId !== electionId || !Array.isArray(decrypted.ballots)) {
+    return null;
+  }
+
+  const ballots: ContestBallot[] = decrypted.ballots;
+  const hasContests = contests.length > 0;
+  const expected = hasContests ? contests.length : 1;
+
+  if (ballots.length !== expected ||
+      (hasContests && contests.some(contest => !ballots.some(ballot => ballot?.contestId === contest.id)))) {
+    return null;
+  }
+
+  const castBallots: CastBallot[] = [];
+  for (const ballot of ballots) {
+    const contestId = hasContests ? ballot.contestId! : null;
+    const { choices } = readChoices(rules, ballot);
+
+    if (!choices || !choices.every(choice =>
+      candidates.some(candidate => candidate.id === choice && candidate.contest_id === contestId)
+    )) {
+      return null;
+    }
+
+    castBallots.push({ contestId, choices });
+  }
+
+  return castBallots;
+};
+
+// Keys are created on first use, so elections that predate ballot encryption
+// get one as well.
+const getElectionKey = async (electionId: string) => {
+  const { data: existing, error } = await supabase
+    .from('election_keys')
+    .select('public_key, encrypted_private_key')
+    .eq('election_id', electionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to get election key: ${error.message}`);
+  }
+
+  if (existing) {
+    return existing;
+  }
+
+  const { data: election, error: electionError } = await supabase
+    .from('elections')
+    .select('tally_mode')
+    .eq('id', electionId)
+    .single();
+
+  if (electionError || !election) {
+    throw new Error(`Failed to get election: ${electionError?.message}`);
+  }
+
+  const { publicKey, encryptedPrivateKey } = await generateElectionKeys(election.tally_mode as TallyMode);
+  const { error: insertError } = await supabase
+    .from('election_keys')
+    .upsert({
+      election_id: electionId,
+      public_key: publicKey,
+      encrypted_private_key: encryptedPrivateKey
+    }, { onConflict: 'election_id', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to store election key: ${insertError.message}`);
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('election_keys')
+    .select('public_key, encrypted_private_key')
+    .eq('election_id', electionId)
+    .single();
+
+  if (storedError || !stored) {
+    throw new Error(`Failed to get election key: ${storedError?.message}`);
+  }
+
+  return stored;
+};
+
+// A homomorphic ballot maps every candidate ID to an encryption of 1 (chosen)
+// or 0. Checking group membership is costly, so it is done once when the
+// ballot is cast and skipped when the stored ballot is read back for the tally.
+const readHomomorphicBallot = (encryptedData: string, checkSubgroup: boolean): Record<string, Ciphertext> | null => {
   try {
-    const { candidateId, electionId, userId } = req.body;
+    const { ciphertexts } = JSON.parse(encryptedData);
+    if (!ciphertexts || typeof ciphertexts !== 'object' || Array.isArray(ciphertexts)) {
+      return null;
+    }
+    return Object.values(ciphertexts).every(value => isCiphertext(value, checkSubgroup)) ? ciphertexts : null;
+  } catch {
+    return null;
+  }
+};
+
+interface SelectionGroup {
+  contestId: string | null;
+  candidateIds: string[];
+  minSelections: number;
+  maxSelections: number;
+}
 
-    if (!candidateId || !electionId || !userId) {
+// The candidates a homomorphic ballot chooses among, one group per contest (or
+// a single group), with how many of them a valid ballot may choose.
+const getSelectionGroups = async (electionId: string) => {
+  const [
+    { data: election, error: electionError },
+    { data: contests, error: contestsError },
+    { data: candidates, error: candidatesError }
+  ] = await Promise.all([
+    supabase.from('elections').select('tally_mode, voting_method, min_selections, max_selections').eq('id', electionId).single(),
+    supabase.from('contests').select('id').eq('election_id', electionId),
+    supabase.from('candidates').select('id, contest_id').eq('election_id', electionId)
+  ]);
+
+  const loadError = electionError || contestsError || candidatesError;
+  if (loadError || !election) {
+    throw new Error(`Failed to load ballot rules: ${loadError?.message}`);
+  }
+
+  const isApproval = election.voting_method === 'approval';
+  const groupIds = contests && contests.length > 0 ? contests.map(contest => contest.id as string) : [null];
+  const groups: SelectionGroup[] = groupIds.map(contestId => ({
+    contestId,
+    candidateIds: (candidates || [])
+      .filter(candidate => !contestId || candidate.contest_id === contestId)
+      .map(candidate => candidate.id),
+    minSelections: isApproval ? election.min_selections : 1,
+    maxSelections: isApproval ? election.max_selections : 1
+  }));
+
+  return { tallyMode: election.tally_mode as TallyMode, groups };
+};
+
+// Fingerprints the statement a validity proof was checked against, so a stored
+// proof can be matched to the ballot rules in force when it was cast.
+const hashProofStatement = (publicKey: string, groups: SelectionGroup[]) => {
+  return crypto.createHash('sha256')
+    .update(JSON.stringify({ scheme: 'exp-elgamal-cds-rfc3526-sha256', publicKey, groups }))
+    .digest('hex');
+};
+
+const range = (min: number, max: number) => Array.from({ length: Math.max(0, max - min + 1) }, (_, i) => min + i);
+
+// What a homomorphic ballot proves: one proof per candidate's choice, and one
+// per contest for the number of choices made.
+interface BallotProof {
+  choices: Record<string, ValidityProof>;
+  contests: { contestId: string | null; proof: ValidityProof }[];
+}
+
+const isBallotProof = (value: unknown): value is BallotProof => {
+  const proof = value as BallotProof;
+  return !!proof &&
+    typeof proof === 'object' &&
+    typeof proof.choices === 'object' &&
+    proof.choices !== null &&
+    !Array.isArray(proof.choices) &&
+    Array.isArray(proof.contests);
+};
+
+// Every choice must encrypt 0 or 1, and the product of each contest's choices
+// must encrypt a count the ballot rules allow. Neither proof reveals a choice.
+const verifyBallotProofs = (
+  ciphertexts: Record<string, Ciphertext>,
+  validityProof: unknown,
+  groups: SelectionGroup[],
+  publicKey: string,
+  electionId: string
+): boolean => {
+  if (!isBallotProof(validityProof)) {
+    return false;
+  }
+
+  const { choices, contests } = validityProof;
+
+  return groups.every(group => {
+    const contestProof = contests.find(entry => entry?.contestId === group.contestId);
+    const allowed = range(group.minSelections, Math.min(group.maxSelections, group.candidateIds.length));
+
+    return !!contestProof &&
+      group.candidateIds.every(id =>
+        Object.prototype.hasOwnProperty.call(choices, id) &&
+        verifyValidityProof(ciphertexts[id], publicKey, [0, 1], electionId, choices[id])
+      ) &&
+      verifyValidityProof(
+        addCiphertexts(group.candidateIds.map(id => ciphertexts[id])),
+        publicKey,
+        allowed,
+        electionId,
+        contestProof.proof
+      );
+  });
+};
+
+router.get('/ballot-key/:electionId', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const { public_key } = await getElectionKey(electionId);
+    const { tallyMode, groups } = await getSelectionGroups(electionId);
+
+    // Homomorphic ballots carry one ciphertext for every candidate, with
+    // proofs against these groups that the choices follow the ballot rules.
+    return res.status(200).json({
+      success: true,
+      data: {
+        publicKey: public_key,
+        tallyMode,
+        ...(tallyMode === 'homomorphic' ? { contests: groups } : {})
+      }
+    });
+
+  } catch (error) {
+    console.error('Get ballot key error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// The ballot arrives encrypted to the election key, so its choices are only
+// checked when it is decrypted at tally time, except in homomorphic elections,
+// where it is never decrypted and carries zero-knowledge validity proofs
+// instead. The voter's participation and the sealed ballot are stored in
+// separate tables with nothing linking the two.
+router.post('/cast', requirePermission('cast_vote'), async (req, res) => {
+  try {
+    const { electionId, encryptedBallot, validityProof } = req.body;
+    const userId = req.auth!.userId;
+
+    if (!electionId || !isEncryptedBallot(encryptedBallot)) {
       return res.status(400).json({
         success: false,
-        message: 'All fields are required: candidateId, electionId, userId'
+        message: 'All fields are required: electionId, encryptedBallot'
       });
     }
 
@@ -34,9 +359,10 @@ router.post('/cast', async (req, res) => {
       .select('id')
       .eq('user_id', userId)
       .eq('election_id', electionId)
-      .single();
+      .limit(1)
+      .maybeSingle();
 
-    if (checkError && checkError.code !== 'PGRST116') {
+    if (checkError) {
       console.error('Check existing vote error:', checkError);
       return res.status(500).json({
         success: false,
@@ -52,24 +378,11 @@ router.post('/cast', async (req, res) => {
       });
     }
 
-    const { data: candidate, error: candidateError } = await supabase
-      .from('candidates')
-      .select('id')
-      .eq('id', candidateId)
-      .eq('election_id', electionId)
-      .single();
-
-    if (candidateError || !candidate) {
-      return res.status(400).json({
-        success: false,
-        message: 'Invalid candidate or candidate does not belong to this election'
-      });
-    }
-
     const { data: election, error: electionError } = await supabase
       .from('elections')
-      .select('id, start_time, end_time, is_active')
+      .select('id, start_time, end_time, status, tally_mode')
       .eq('id', electionId)
+      .eq('organization_id', req.auth!.organizationId)
       .single();
 
     if (electionError || !election) {
@@ -79,10 +392,12 @@ router.post('/cast', async (req, res) => {
       });
     }
 
-    if (!election.is_active) {
+    if (election.status !== 'open') {
       return res.status(400).json({
         success: false,
-        message: 'Election is not active'
+        message: election.status === 'closed' || election.status === 'certified'
+          ? 'Voting has ended'
+          : 'Voting has not opened yet'
       });
     }
 
@@ -104,20 +419,61 @@ router.post('/cast', async (req, res) => {
       });
     }
 
-    const voteHash = `${userId}-${electionId}-${Date.now()}`;
+    if (!(await getEligibleElectionIds(req.auth!, [electionId])).has(electionId)) {
+      return res.status(403).json({
+        success: false,
+        message: 'You are not on the voter roll for this election'
+      });
+    }
+
+    let ballotProof: { proofData: unknown; verificationKey: string; circuitHash: string } | null = null;
+
+    if (election.tally_mode === 'homomorphic') {
+      const ciphertexts = readHomomorphicBallot(encryptedBallot.encryptedData, true);
+      const { groups } = await getSelectionGroups(electionId);
+      const candidateIds = groups.flatMap(group => group.candidateIds);
+      if (!ciphertexts ||
+          Object.keys(ciphertexts).length !== candidateIds.length ||
+          !candidateIds.every(id => ciphertexts[id])) {
+        return res.status(400).json({
+          success: false,
+          message: 'Ballot must hold one encrypted choice for every candidate'
+        });
+      }
+
+      const { public_key } = await getElectionKey(electionId);
+      if (!verifyBallotProofs(ciphertexts, validityProof, groups, public_key, electionId)) {
+        return res.status(400).json({
+          success: false,
+          message: 'Ballot validity proof is invalid'
+        });
+      }
+
+      ballotProof = {
+        proofData: validityProof,
+        verificationKey: public_key,
+        circuitHash: hashProofStatement(public_key, groups)
+      };
+    }
 
     const { data: voteData, error: voteError } = await supabase
       .from('votes')
-      .insert([{
-        candidate_id: candidateId,
+      .insert({
         user_id: userId,
         election_id: electionId,
-        vote_hash: voteHash
-      }])
-      .select()
+        vote_hash: crypto.randomBytes(32).toString('hex')
+      })
+      .select('id, vote_hash, created_at')
       .single();
 
     if (voteError) {
+      if (voteError.code === '23505') {
+        return res.status(400).json({
+          success: false,
+          message: 'You have already voted in this election'
+        });
+      }
+
       console.error('Vote casting error:', voteError);
       return res.status(500).json({
         success: false,
@@ -126,10 +482,66 @@ router.post('/cast', async (req, res) => {
       });
     }
 
+    const ballotHash = hashBallot(encryptedBallot.encryptedData);
+    const castAt = coarseTimestamp(now);
+
+    const { data: ballotData, error: ballotError } = await supabase
+      .from('encrypted_votes')
+      .insert({
+        election_id: electionId,
+        encrypted_data: encryptedBallot.encryptedData,
+        ballot_hash: ballotHash,
+        timestamp: castAt,
+        created_at: castAt
+      })
+      .select('id')
+      .single();
+
+    if (ballotError || !ballotData) {
+      // Without the ballot the participation record would block a retry.
+      await supabase.from('votes').delete().eq('id', voteData.id);
+
+      console.error('Ballot storage error:', ballotError);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to cast vote',
+        error: ballotError?.message
+      });
+    }
+
+    if (ballotProof) {
+      const { error: proofError } = await supabase
+        .from('zk_proofs')
+        .insert({
+          vote_id: ballotData.id,
+          election_id: electionId,
+          proof_data: ballotProof.proofData,
+          verification_key: ballotProof.verificationKey,
+          circuit_hash: ballotProof.circuitHash,
+          verified: true,
+          created_at: castAt
+        });
+
+      if (proofError) {
+        await supabase.from('encrypted_votes').delete().eq('id', ballotData.id);
+        await supabase.from('votes').delete().eq('id', voteData.id);
+
+        console.error('Ballot proof storage error:', proofError);
+        return res.status(500).json({
+          success: false,
+          message: 'Failed to cast vote',
+          error: proofError.message
+        });
+      }
+    }
+
+    // Only that a ballot was cast; the receipt would tie the voter to it.
+    await recordAudit(req, 'vote_cast', { electionId });
+
     return res.status(201).json({
       success: true,
       message: 'Vote cast successfully',
-      data: voteData
+      data: { ...voteData, receipt: ballotHash }
     });
 
   } catch (error) {
@@ -158,9 +570,10 @@ router.get('/has-voted/:userId/:electionId', async (req, res) => {
       .select('id')
       .eq('user_id', userId)
       .eq('election_id', electionId)
-      .single();
+      .limit(1)
+      .maybeSingle();
 
-    if (error && error.code !== 'PGRST116') {
+    if (error) {
       console.error('Check has voted error:', error);
       return res.status(500).json({
         success: false,
@@ -187,15 +600,18 @@ router.get('/has-voted/:userId/:electionId', async (req, res) => {
 
 router.post('/bulk-voting-status', async (req, res) => {
   try {
-    const { userId, electionIds } = req.body;
+    const { electionIds } = req.body;
+    const userId = req.auth!.userId;
 
-    if (!userId || !electionIds || !Array.isArray(electionIds)) {
+    if (!electionIds || !Array.isArray(electionIds) || !electionIds.every(id => typeof id === 'string')) {
       return res.status(400).json({
         success: false,
-        message: 'User ID and array of Election IDs are required'
+        message: 'Array of Election IDs is required'
       });
     }
 
+    const eligibleElectionIds = await getEligibleElectionIds(req.auth!, electionIds);
+
     const { data: votes, error } = await supabase
       .from('votes')
       .select('election_id')
@@ -214,7 +630,8 @@ router.post('/bulk-voting-status', async (req, res) => {
     const votedElectionIds = new Set(votes?.map(vote => vote.election_id) || []);
     const votingStatus = electionIds.map(electionId => ({
       electionId,
-      hasVoted: votedElectionIds.has(electionId)
+      hasVoted: votedElectionIds.has(electionId),
+      eligible: eligibleElectionIds.has(electionId)
     }));
 
     return res.status(200).json({
@@ -232,6 +649,393 @@ router.post('/bulk-voting-status', async (req, res) => {
   }
 });
 
+// Unwraps the election's private key, from the trustees' shares when the
+// election has a key ceremony.
+const openElectionKey = async (electionId: string) => {
+  const { public_key, encrypted_private_key } = await getElectionKey(electionId);
+  const trusteeShares = await getTrusteeShares(electionId);
+  if (awaitingTrustees(trusteeShares)) {
+    throw new Error(describeTrusteeWait(trusteeShares));
+  }
+
+  const privateKey = trusteeShares.threshold === null
+    ? unwrapPrivateKey(encrypted_private_key)
+    : unlockPrivateKey(encrypted_private_key, trusteeShares.shares.slice(0, trusteeShares.threshold).map(openSecret));
+
+  return { publicKey: public_key, privateKey };
+};
+
+// Decrypts the sealed ballots of a closed election. Rows cast before ballot
+// encryption still hold their choices in plaintext and are read as they are.
+const loadBallots = async (electionId: string) => {
+  const [
+    { data: election, error: electionError },
+    { data: contests, error: contestsError },
+    { data: candidates, error: candidatesError },
+    { data: legacyVotes, error: legacyError },
+    { data: sealedBallots, error: sealedError }
+  ] = await Promise.all([
+    supabase.from('elections').select('voting_method, min_selections, max_selections').eq('id', electionId).single(),
+    supabase.from('contests').select('id').eq('election_id', electionId),
+    supabase.from('candidates').select('id, contest_id').eq('election_id', electionId),
+    supabase.from('votes').select('contest_id, candidate_id, ranking, selections')
+      .eq('election_id', electionId).not('candidate_id', 'is', null),
+    supabase.from('encrypted_votes').select('encrypted_data').eq('election_id', electionId)
+  ]);
+
+  const loadError = electionError || contestsError || candidatesError || legacyError || sealedError;
+  if (loadError || !election) {
+    throw new Error(`Failed to load ballots: ${loadError?.message}`);
+  }
+
+  const ballots: CastBallot[] = (legacyVotes || []).map(vote => ({
+    contestId: vote.contest_id,
+    choices: vote.ranking || vote.selections || [vote.candidate_id]
+  }));
+  let invalidBallots = 0;
+
+  if (sealedBallots && sealedBallots.length > 0) {
+    const { privateKey } = await openElectionKey(electionId);
+
+    sealedBallots.forEach(({ encrypted_data }) => {
+      let castBallots: CastBallot[] | null = null;
+      try {
+        castBallots = validateBallot(
+          decryptBallot(encrypted_data, privateKey),
+          electionId,
+          election,
+          contests || [],
+          candidates || []
+        );
+      } catch {
+        castBallots = null;
+      }
+
+      if (castBallots) {
+        ballots.push(...castBallots);
+      } else {
+        invalidBallots += 1;
+      }
+    });
+  }
+
+  return { ballots, votingMethod: election.voting_method as string, invalidBallots };
+};
+
+// Turnout comes from participation records, which are readable while the
+// ballots themselves are still sealed.
+const countVoters = async (electionId: string) => {
+  const { data: votes, error } = await supabase
+    .from('votes')
+    .select('user_id')
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to get votes: ${error.message}`);
+  }
+
+  return new Set(votes?.map(vote => vote.user_id)).size;
+};
+
+// Trustee elections hold their key shares wrapped; they are only opened when
+// the ballots are decrypted.
+const getTrusteeShares = async (electionId: string) => {
+  const [
+    { data: election, error: electionError },
+    { data: trustees, error: trusteesError }
+  ] = await Promise.all([
+    supabase.from('elections').select('trustee_threshold').eq('id', electionId).single(),
+    supabase.from('election_trustees').select('submitted_share')
+      .eq('election_id', electionId).not('submitted_share', 'is', null)
+  ]);
+
+  if (electionError || trusteesError || !election) {
+    throw new Error(`Failed to get trustee shares: ${(electionError || trusteesError)?.message}`);
+  }
+
+  return {
+    threshold: election.trustee_threshold as number | null,
+    shares: (trustees || []).map(trustee => trustee.submitted_share as string)
+  };
+};
+
+const awaitingTrustees = ({ threshold, shares }: { threshold: number | null; shares: string[] }) => {
+  return threshold !== null && shares.length < threshold;
+};
+
+const describeTrusteeWait = ({ threshold, shares }: { threshold: number | null; shares: string[] }) => {
+  return `Ballots stay sealed until ${threshold} trustees submit their key shares (${shares.length} submitted)`;
+};
+
+// Returns why the ballots cannot be decrypted yet, or null once they can.
+const getSealedReason = async (electionId: string) => {
+  const { data: election, error } = await supabase
+    .from('elections')
+    .select('status')
+    .eq('id', electionId)
+    .single();
+
+  if (error || !election) {
+    throw new Error('Election not found');
+  }
+
+  if (!isClosed(election.status)) {
+    return 'Ballots are sealed until the election closes';
+  }
+
+  const trusteeShares = await getTrusteeShares(electionId);
+  return awaitingTrustees(trusteeShares) ? describeTrusteeWait(trusteeShares) : null;
+};
+
+// Multiplies each candidate's ciphertexts together and decrypts only the
+// totals, each with a proof that anyone holding the public key can check.
+const tallyHomomorphic = async (electionId: string, candidateIds: string[]) => {
+  const { data: sealedBallots, error } = await supabase
+    .from('encrypted_votes')
+    .select('encrypted_data')
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to load ballots: ${error.message}`);
+  }
+
+  const { publicKey, privateKey } = await openElectionKey(electionId);
+
+  const ciphertextsByCandidate: { [candidateId: string]: Ciphertext[] } = {};
+  candidateIds.forEach(id => {
+    ciphertextsByCandidate[id] = [];
+  });
+
+  let invalidBallots = 0;
+  (sealedBallots || []).forEach(({ encrypted_data }) => {
+    const ciphertexts = readHomomorphicBallot(encrypted_data, false);
+    if (!ciphertexts) {
+      invalidBallots += 1;
+      return;
+    }
+    // A candidate added after this ballot was cast simply receives nothing from it.
+    candidateIds.forEach(id => {
+      if (ciphertexts[id]) {
+        ciphertextsByCandidate[id].push(ciphertexts[id]);
+      }
+    });
+  });
+
+  const counts: { [candidateId: string]: number } = {};
+  const proofs: { [candidateId: string]: DecryptionProof } = {};
+  candidateIds.forEach(id => {
+    const ciphertexts = ciphertextsByCandidate[id];
+    const { count, proof } = decryptSum(addCiphertexts(ciphertexts), publicKey, privateKey, ciphertexts.length);
+    counts[id] = count;
+    proofs[id] = proof;
+  });
+
+  return { counts, proofs, invalidBallots, publicKey };
+};
+
+const tallyVotes = async (electionId: string) => {
+  const { data: candidates, error: candidatesError } = await supabase
+    .from('candidates')
+    .select(`
+      id,
+      name,
+      party,
+      symbol,
+      contest_id,
+      ballot_option
+    `)
+    .eq('election_id', electionId);
+
+  if (candidatesError) {
+    throw new Error(`Failed to get candidates: ${candidatesError.message}`);
+  }
+
+  const { data: election, error: electionError } = await supabase
+    .from('elections')
+    .select('tally_mode')
+    .eq('id', electionId)
+    .single();
+
+  if (electionError || !election) {
+    throw new Error('Election not found');
+  }
+
+  if (election.tally_mode === 'homomorphic') {
+    const { counts, proofs, invalidBallots, publicKey } = await tallyHomomorphic(
+      electionId,
+      (candidates || []).map(candidate => candidate.id)
+    );
+
+    const results = candidates?.map(candidate => ({
+      candidate: candidate,
+      votes: counts[candidate.id],
+      proof: proofs[candidate.id] as DecryptionProof | undefined
+    })) || [];
+
+    return { results, totalBallots: await countVoters(electionId), invalidBallots, publicKey };
+  }
+
+  const { ballots, votingMethod, invalidBallots } = await loadBallots(electionId);
+
+  // Approval ballots count once for every selected candidate; the others
+  // count their first choice.
+  const voteCounts: { [key: string]: number } = {};
+  ballots.forEach(ballot => {
+    const counted = votingMethod === 'approval' ? ballot.choices : ballot.choices.slice(0, 1);
+    counted.forEach(candidateId => {
+      voteCounts[candidateId] = (voteCounts[candidateId] || 0) + 1;
+    });
+  });
+
+  const results = candidates?.map(candidate => ({
+    candidate: candidate,
+    votes: voteCounts[candidate.id] || 0,
+    proof: undefined as DecryptionProof | undefined
+  })) || [];
+
+  return { results, totalBallots: await countVoters(electionId), invalidBallots, publicKey: null };
+};
+
+// Tallies of a running election are live turnout, which only some roles may see.
+const canViewResults = async (req: express.Request, electionId: string) => {
+  if (hasPermission(req.auth!.role, 'view_live_turnout')) {
+    return true;
+  }
+
+  const { data: election, error } = await supabase
+    .from('elections')
+    .select('status')
+    .eq('id', electionId)
+    .single();
+
+  if (error || !election) {
+    return false;
+  }
+
+  return isClosed(election.status);
+};
+
+// Builds the response for GET /results/:electionId, and the snapshot that is
+// frozen into the election when it is certified.
+export const buildResults = async (electionId: string): Promise<{ status: number; body: Record<string, unknown> }> => {
+  const { data: election, error: electionError } = await supabase
+    .from('elections')
+    .select('id, organization_id, status, voter_roll, voting_method, seats, quorum_percent, pass_threshold')
+    .eq('id', electionId)
+    .single();
+
+  if (electionError || !election) {
+    return {
+      status: 404,
+      body: {
+        success: false,
+        message: 'Election not found'
+      }
+    };
+  }
+
+  // Ballots stay encrypted until the election closes; until then only turnout is known.
+  if (!isClosed(election.status)) {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: [],
+        contests: [],
+        seats: election.seats,
+        totalBallots: await countVoters(electionId),
+        sealed: true
+      }
+    };
+  }
+
+  const trusteeShares = await getTrusteeShares(electionId);
+  if (awaitingTrustees(trusteeShares)) {
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: [],
+        contests: [],
+        seats: election.seats,
+        totalBallots: await countVoters(electionId),
+        sealed: true,
+        trustees: { submitted: trusteeShares.shares.length, threshold: trusteeShares.threshold }
+      }
+    };
+  }
+
+  if (election.voting_method === 'referendum') {
+    const { results, totalBallots, invalidBallots, publicKey } = await tallyVotes(electionId);
+    const counts = { for: 0, against: 0, abstain: 0 };
+    results.forEach(result => {
+      if (result.candidate.ballot_option) {
+        counts[result.candidate.ballot_option as ReferendumOption] += result.votes;
+      }
+    });
+
+    // Quorum is measured against the members on the election's voter roll.
+    const eligibleVoters = (await listEligibleVoters(election)).length;
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        data: results,
+        contests: [],
+        seats: election.seats,
+        totalBallots,
+        invalidBallots,
+        ...(publicKey ? { tallyPublicKey: publicKey } : {}),
+        referendum: decideReferendum(counts, eligibleVoters, election.quorum_percent, election.pass_threshold)
+      }
+    };
+  }
+
+  const { data: contests, error: contestsError } = await supabase
+    .from('contests')
+    .select('id, name, position')
+    .eq('election_id', electionId)
+    .order('position', { ascending: true });
+
+  if (contestsError) {
+    console.error('Get contests error:', contestsError);
+    return {
+      status: 500,
+      body: {
+        success: false,
+        message: 'Failed to get contests',
+        error: contestsError.message
+      }
+    };
+  }
+
+  const { results, totalBallots, invalidBallots, publicKey } = await tallyVotes(electionId);
+
+  // Seats are filled per contest. Ranked-choice winners come from the runoff
+  // rounds, not first preferences.
+  const groups = contests && contests.length > 0
+    ? contests.map(contest => results.filter(result => result.candidate.contest_id === contest.id))
+    : [results];
+  const data = election.voting_method === 'ranked_choice'
+    ? results
+    : groups.flatMap(group => assignSeats(group, election.seats));
+
+  return {
+    status: 200,
+    body: {
+      success: true,
+      data,
+      contests: contests || [],
+      seats: election.seats,
+      totalBallots,
+      invalidBallots,
+      // Homomorphic totals come with decryption proofs checked against this key.
+      ...(publicKey ? { tallyPublicKey: publicKey } : {})
+    }
+  };
+};
+
 router.get('/results/:electionId', async (req, res) => {
   try {
     const { electionId } = req.params;
@@ -243,16 +1047,87 @@ router.get('/results/:electionId', async (req, res) => {
       });
     }
 
+    if (!(await canViewResults(req, electionId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Results are available once the election has closed'
+      });
+    }
+
+    // Certified results are served from the snapshot taken when the election
+    // was certified, whatever happens to memberships or keys afterwards.
+    const { data: certification } = await supabase
+      .from('elections')
+      .select('status, certified_results')
+      .eq('id', electionId)
+      .single();
+
+    if (certification?.status === 'certified' && certification.certified_results) {
+      return res.status(200).json(certification.certified_results);
+    }
+
+    const { status, body } = await buildResults(electionId);
+    return res.status(status).json(body);
+
+  } catch (error) {
+    console.error('Get vote results error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+router.get('/results/:electionId/rounds', async (req, res) => {
+  try {
+    const { electionId } = req.params;
+    const contestId = typeof req.query.contestId === 'string' ? req.query.contestId : null;
+
+    if (!(await canViewResults(req, electionId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'Results are available once the election has closed'
+      });
+    }
+
+    const { data: election, error: electionError } = await supabase
+      .from('elections')
+      .select('voting_method')
+      .eq('id', electionId)
+      .single();
+
+    if (electionError || !election) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
+
+    if (election.voting_method !== 'ranked_choice') {
+      return res.status(400).json({
+        success: false,
+        message: 'Election does not use ranked-choice voting'
+      });
+    }
+
+    const sealedReason = await getSealedReason(electionId);
+    if (sealedReason) {
+      return res.status(403).json({
+        success: false,
+        message: sealedReason
+      });
+    }
 
-    const { data: candidates, error: candidatesError } = await supabase
+    let candidatesQuery = supabase
       .from('candidates')
-      .select(`
-        id,
-        name,
-        party,
-        symbol
-      `)
-      .eq('election_id', electionId);
+      .select('id, name, party, symbol')
+      .eq('election_id', electionId)
+      .order('created_at', { ascending: true });
+    candidatesQuery = contestId ? candidatesQuery.eq('contest_id', contestId) : candidatesQuery.is('contest_id', null);
+
+    const { data: candidates, error: candidatesError } = await candidatesQuery;
 
     if (candidatesError) {
       console.error('Get candidates error:', candidatesError);
@@ -263,14 +1138,124 @@ router.get('/results/:electionId', async (req, res) => {
       });
     }
 
+    const { ballots } = await loadBallots(electionId);
+    const rankings = ballots
+      .filter(ballot => ballot.contestId === contestId)
+      .map(ballot => ballot.choices);
+    const { rounds, winner } = runInstantRunoff((candidates || []).map(candidate => candidate.id), rankings);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        candidates: candidates || [],
+        totalBallots: rankings.length,
+        rounds,
+        winner
+      }
+    });
+
+  } catch (error) {
+    console.error('Get runoff rounds error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+router.get('/results/:electionId/export', requirePermission('export_results'), async (req, res) => {
+  try {
+    const { electionId } = req.params;
+
+    // A certified election exports the results it was certified with, like
+    // the results route serves them.
+    const { data: certification } = await supabase
+      .from('elections')
+      .select('status, certified_results')
+      .eq('id', electionId)
+      .single();
+
+    const snapshot = certification?.status === 'certified' ? certification.certified_results : null;
+
+    let results: Awaited<ReturnType<typeof tallyVotes>>['results'];
+    let contests: { id: string; name: string }[] | null;
+
+    if (snapshot) {
+      results = snapshot.data;
+      contests = snapshot.contests;
+    } else {
+      const sealedReason = await getSealedReason(electionId);
+      if (sealedReason) {
+        return res.status(403).json({
+          success: false,
+          message: sealedReason
+        });
+      }
+
+      results = (await tallyVotes(electionId)).results;
+
+      const { data } = await supabase
+        .from('contests')
+        .select('id, name')
+        .eq('election_id', electionId);
+      contests = data;
+    }
+
+    const contestName = (contestId: string | null) => contests?.find(contest => contest.id === contestId)?.name || '';
+
+    const rows = [
+      ['Contest', 'Candidate', 'Party', 'Votes'],
+      ...results.map(result => [
+        contestName(result.candidate.contest_id),
+        result.candidate.name,
+        result.candidate.party,
+        result.votes
+      ])
+    ];
+    const csv = toCsv(rows);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="results-${electionId}.csv"`);
+    return res.status(200).send(csv);
+
+  } catch (error) {
+    console.error('Export vote results error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error',
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+
+// Turnout broken down by member group, counting only members on the voter roll.
+router.get('/turnout/:electionId/groups', requirePermission('view_live_turnout'), async (req, res) => {
+  try {
+    const { electionId } = req.params;
+
+    const { data: election, error: electionError } = await supabase
+      .from('elections')
+      .select('id, organization_id, voter_roll')
+      .eq('id', electionId)
+      .single();
+
+    if (electionError || !election) {
+      return res.status(404).json({
+        success: false,
+        message: 'Election not found'
+      });
+    }
 
     const { data: votes, error: votesError } = await supabase
       .from('votes')
-      .select('candidate_id')
+      .select('user_id')
       .eq('election_id', electionId);
 
     if (votesError) {
-      console.error('Get votes error:', votesError);
+      console.error('Get group turnout error:', votesError);
       return res.status(500).json({
         success: false,
         message: 'Failed to get votes',
@@ -278,25 +1263,29 @@ router.get('/results/:electionId', async (req, res) => {
       });
     }
 
-
-    const voteCounts: { [key: string]: number } = {};
-    votes?.forEach(vote => {
-      voteCounts[vote.candidate_id] = (voteCounts[vote.candidate_id] || 0) + 1;
+    const [eligibleVoters, groups] = await Promise.all([
+      listEligibleVoters(election),
+      getGroups(election.organization_id)
+    ]);
+    const memberships = await getMembershipsByUser(groups.map(group => group.id));
+    const voted = new Set(votes?.map(vote => vote.user_id));
+
+    const data = groups.map(group => {
+      const members = eligibleVoters.filter(member => memberships.get(member.id)?.has(group.id));
+      return {
+        ...group,
+        eligible: members.length,
+        voted: members.filter(member => voted.has(member.id)).length
+      };
     });
 
-
-    const results = candidates?.map(candidate => ({
-      candidate: candidate,
-      votes: voteCounts[candidate.id] || 0
-    })) || [];
-
     return res.status(200).json({
       success: true,
-      data: results
+      data
     });
 
   } catch (error) {
-    console.error('Get vote results error:', error);
+    console.error('Get group turnout error:', error);
     return res.status(500).json({
       success: false,
       message: 'Internal server error',
@@ -318,7 +1307,7 @@ router.get('/user-vote/:userId/:electionId', async (req, res) => {
     }
 
 
-    const { data: vote, error } = await supabase
+    const { data: votes, error } = await supabase
       .from('votes')
       .select(`
         id,
@@ -328,11 +1317,15 @@ router.get('/user-vote/:userId/:electionId', async (req, res) => {
           id,
           name,
           party
+        ),
+        contests (
+          id,
+          name,
+          position
         )
       `)
       .eq('user_id', userId)
-      .eq('election_id', electionId)
-      .single();
+      .eq('election_id', electionId);
 
     if (error) {
       console.error('Get user vote error:', error);
@@ -343,19 +1336,27 @@ router.get('/user-vote/:userId/:electionId', async (req, res) => {
       });
     }
 
-    if (!vote) {
+    if (!votes || votes.length === 0) {
       return res.status(404).json({
         success: false,
         message: 'Vote not found'
       });
     }
 
-      
+    // Encrypted ballots are not linked to the voter, so only votes cast before
+    // ballot encryption can show what was chosen.
+    const first = <T>(relation: T | T[] | null) => Array.isArray(relation) ? relation[0] : relation;
+    const choices = votes
+      .filter(vote => first(vote.candidates))
+      .map(vote => ({ contest: first(vote.contests) || null, candidate: first(vote.candidates) }))
+      .sort((a, b) => (a.contest?.position ?? 0) - (b.contest?.position ?? 0));
+
     const voteData = {
-      id: vote.id,
-      vote_hash: vote.vote_hash,
-      created_at: vote.created_at,
-      candidate: Array.isArray(vote.candidates) ? vote.candidates[0] : vote.candidates
+      id: votes[0].id,
+      vote_hash: votes[0].vote_hash,
+      created_at: votes[0].created_at,
+      candidate: choices[0]?.candidate || null,
+      choices
     };
 
     return res.status(200).json({
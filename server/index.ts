@@ -6,18 +6,30 @@ import rateLimit from 'express-rate-limit';
 import organizationsRouter from './api/organizations';
 import electionsRouter from './api/elections';
 import candidatesRouter from './api/candidates';
+import contestsRouter from './api/contests';
 import invitationsRouter from './api/invitations';
 import authRouter from './api/auth';
 import statsRouter from './api/stats';
 import votesRouter from './api/votes';
+import membersRouter from './api/members';
+import verificationRouter from './api/verification';
+import trusteesRouter from './api/trustees';
+import sessionsRouter from './api/sessions';
+import auditRouter from './api/audit';
+import groupsRouter from './api/groups';
+import { requireAuth, requirePermission } from './middleware/auth';
+import { scheduleAuditCheckpoints } from './lib/auditChain';
+import { scheduleElectionJobs } from './lib/electionJobs';
 
 dotenv.config({ path: '.env' });
 
 const app = express();
 
 // Configure trust proxy for deployment platforms like Render, Heroku, etc.
+// Only the given number of proxy hops is trusted, so a client cannot choose
+// its own IP for rate limiting and the audit log with X-Forwarded-For.
 if (process.env.NODE_ENV === 'production') {
-  app.set('trust proxy', true);
+  app.set('trust proxy', Number(process.env.TRUST_PROXY_HOPS) || 1);
 }
 
 app.use(cors({
@@ -119,7 +131,7 @@ app.post('/api/send-otp', emailRateLimit, async (req, res) => {
 });
 
 
-app.post('/send-invitation', emailRateLimit, async (req, res) => {
+app.post('/send-invitation', emailRateLimit, requireAuth, requirePermission('manage_members'), async (req, res) => {
   try {
     const { to, subject, html } = req.body;
 
@@ -179,6 +191,8 @@ app.use('/api/elections', electionsRouter);
 
 app.use('/api/candidates', candidatesRouter);
 
+app.use('/api/contests', contestsRouter);
+
 app.use('/api/invitations', invitationsRouter);
 
 app.use('/api/auth', authRouter);
@@ -187,6 +201,18 @@ app.use('/api/stats', statsRouter);
 
 app.use('/api/votes', votesRouter);
 
+app.use('/api/members', membersRouter);
+
+app.use('/api/verification', verificationRouter);
+
+app.use('/api/trustees', trusteesRouter);
+
+app.use('/api/sessions', sessionsRouter);
+
+app.use('/api/audit', auditRouter);
+
+app.use('/api/groups', groupsRouter);
+
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok' });
 });
@@ -240,4 +266,6 @@ app.get('/api/test-sendgrid', async (req, res) => {
 const PORT = process.env.SERVER_PORT || 5000;
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+  scheduleAuditCheckpoints();
+  scheduleElectionJobs();
 }); 
\ No newline at end of file
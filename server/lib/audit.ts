@@ -0,0 +1,100 @@
+import { Request } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+export const AUDIT_ACTIONS = [
+  'login',
+  'login_failed',
+  'account_locked',
+  'election_created',
+  'election_updated',
+  'election_deleted',
+  'election_status_changed',
+  'election_certified',
+  'election_notice_sent',
+  'voter_roll_updated',
+  'candidate_created',
+  'candidate_updated',
+  'candidate_deleted',
+  'invitations_sent',
+  'invitation_deleted',
+  'invitation_resent',
+  'invitations_revoked',
+  'invitations_extended',
+  'join_code_created',
+  'join_code_revoked',
+  'vote_cast',
+  'member_role_changed',
+  'member_unlocked',
+  'member_signed_out',
+  'member_group_created',
+  'member_group_deleted',
+  'member_groups_changed'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const isAuditAction = (value: unknown): value is AuditAction => {
+  return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+};
+
+interface AuditActor {
+  organizationId: string | null;
+  userId: string | null;
+}
+
+const writeAuditEvent = async (
+  action: AuditAction,
+  details: Record<string, unknown>,
+  actor: AuditActor,
+  ipAddress: string | null,
+  userAgent: string | null
+) => {
+  try {
+    const { error } = await supabase.rpc('log_audit_event', {
+      p_organization_id: actor.organizationId,
+      p_user_id: actor.userId,
+      p_action: action,
+      p_details: details,
+      p_ip_address: ipAddress,
+      p_user_agent: userAgent
+    });
+
+    if (error) {
+      console.error(`Failed to record audit event ${action}:`, error);
+    }
+  } catch (error) {
+    console.error(`Failed to record audit event ${action}:`, error);
+  }
+};
+
+// Records an audit entry for the request. Failures are logged rather than
+// thrown so that a completed action is never reported as failed because its
+// audit entry could not be written. Details must never include ballot choices.
+export const recordAudit = async (
+  req: Request,
+  action: AuditAction,
+  details: Record<string, unknown> = {},
+  actor: AuditActor = {
+    organizationId: req.auth?.organizationId || null,
+    userId: req.auth?.userId || null
+  }
+) => {
+  await writeAuditEvent(action, details, actor, req.ip || null, req.get('User-Agent') || null);
+};
+
+// Records an audit entry for work the server does on its own, such as the
+// scheduled election jobs. These entries have no actor, address or client.
+export const recordSystemAudit = async (
+  organizationId: string,
+  action: AuditAction,
+  details: Record<string, unknown> = {}
+) => {
+  await writeAuditEvent(action, details, { organizationId, userId: null }, null, null);
+};
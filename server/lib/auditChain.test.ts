@@ -0,0 +1,147 @@
+// @vitest-environment node
+import crypto from 'crypto';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
+
+// The chain is read from audit_logs; the tests serve it from memory.
+let rows: Record<string, unknown>[] = [];
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    from: () => {
+      let after = 0;
+      const query = {
+        select: () => query,
+        eq: () => query,
+        gt: (_column: string, sequence: number) => {
+          after = sequence;
+          return query;
+        },
+        order: () => query,
+        range: async () => ({ data: rows.filter(row => (row.sequence as number) > after), error: null })
+      };
+      return query;
+    }
+  })
+}));
+
+const { privateKey } = crypto.generateKeyPairSync('ed25519');
+
+let auditChain: typeof import('./auditChain');
+
+beforeAll(async () => {
+  process.env.AUDIT_SIGNING_KEY = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+  auditChain = await import('./auditChain');
+});
+
+const ORGANIZATION_ID = '6f1c2a8e-4d1b-4c5e-9a7f-2b3c4d5e6f70';
+const GENESIS_HASH = '0'.repeat(64);
+
+// audit_entry_hash from the hash chain migration: every field is prefixed with
+// its length in bytes, addresses lose their netmask and times are epoch ms.
+const sqlEntryHash = (fields: (string | null)[]) => {
+  const payload = fields.map(value => `${Buffer.byteLength(value ?? '', 'utf8')}:${value ?? ''}`).join('');
+  return crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
+};
+
+const buildChain = (actions: string[]) => {
+  let prevHash = GENESIS_HASH;
+  return actions.map((action, index) => {
+    const sequence = index + 1;
+    const createdAt = new Date(Date.UTC(2025, 0, 1, 12, 0, sequence)).toISOString();
+    const details = JSON.stringify({ note: `Entrée ${sequence}` });
+    const entryHash = sqlEntryHash([
+      prevHash, String(sequence), ORGANIZATION_ID, null, action, details, '10.0.0.1', 'test-agent', String(Date.parse(createdAt))
+    ]);
+    const row = {
+      id: `entry-${sequence}`,
+      sequence,
+      prev_hash: prevHash,
+      entry_hash: entryHash,
+      organization_id: ORGANIZATION_ID,
+      actor_id: null,
+      action,
+      details_text: details,
+      ip_address: '10.0.0.1/32',
+      user_agent: 'test-agent',
+      created_at: createdAt
+    };
+    prevHash = entryHash;
+    return row;
+  });
+};
+
+describe('verifyAuditChain', () => {
+  beforeEach(() => {
+    rows = buildChain(['login', 'election_created', 'vote_cast', 'logout']);
+  });
+
+  it('accepts a chain hashed the way the database hashes it', async () => {
+    const { verification } = await auditChain.verifyAuditChain(ORGANIZATION_ID);
+
+    expect(verification).toEqual({
+      valid: true,
+      checkedEntries: 4,
+      head: { sequence: 4, hash: rows[3].entry_hash },
+      firstBreak: null
+    });
+  });
+
+  it('reports an edited entry', async () => {
+    rows[1] = { ...rows[1], action: 'election_deleted' };
+    const { verification } = await auditChain.verifyAuditChain(ORGANIZATION_ID);
+
+    expect(verification.valid).toBe(false);
+    expect(verification.checkedEntries).toBe(1);
+    expect(verification.firstBreak).toEqual({ sequence: 2, entryId: 'entry-2', reason: 'altered_entry' });
+  });
+
+  it('reports a removed entry', async () => {
+    rows.splice(2, 1);
+    const { verification } = await auditChain.verifyAuditChain(ORGANIZATION_ID);
+
+    expect(verification.firstBreak).toEqual({ sequence: 3, entryId: 'entry-4', reason: 'missing_entry' });
+  });
+
+  it('reports an entry re-linked to a different predecessor', async () => {
+    rows[2] = { ...rows[2], prev_hash: rows[0].entry_hash };
+    const { verification } = await auditChain.verifyAuditChain(ORGANIZATION_ID);
+
+    expect(verification.firstBreak).toEqual({ sequence: 3, entryId: 'entry-3', reason: 'broken_link' });
+  });
+
+  it('starts from a trusted link and collects the requested hashes', async () => {
+    const from = { sequence: 2, hash: rows[1].entry_hash as string };
+    const { verification, collected } = await auditChain.verifyAuditChain(ORGANIZATION_ID, from, new Set([3]));
+
+    expect(verification.checkedEntries).toBe(2);
+    expect(collected).toEqual(new Map([[3, rows[2].entry_hash]]));
+  });
+});
+
+describe('verifyCheckpointSignature', () => {
+  const sign = (checkpoint: { organizationId: string; sequence: number; headHash: string; createdAt: string }) => {
+    const payload = ['ematdaan-audit-checkpoint:v1', checkpoint.organizationId, checkpoint.sequence, checkpoint.headHash, checkpoint.createdAt].join('\n');
+    return crypto.sign(null, Buffer.from(payload, 'utf8'), privateKey).toString('base64');
+  };
+
+  const unsigned = {
+    organizationId: ORGANIZATION_ID,
+    sequence: 4,
+    headHash: 'ab'.repeat(32),
+    createdAt: '2025-01-01T13:00:00.000Z'
+  };
+
+  it('accepts a checkpoint signed with the server key', () => {
+    expect(auditChain.verifyCheckpointSignature({ ...unsigned, signature: sign(unsigned) })).toBe(true);
+  });
+
+  it('rejects a checkpoint whose head was changed after signing', () => {
+    const signature = sign(unsigned);
+    expect(auditChain.verifyCheckpointSignature({ ...unsigned, headHash: 'cd'.repeat(32), signature })).toBe(false);
+    expect(auditChain.verifyCheckpointSignature({ ...unsigned, sequence: 5, signature })).toBe(false);
+  });
+
+  it('rejects a signature that is not base64 of the right length', () => {
+    expect(auditChain.verifyCheckpointSignature({ ...unsigned, signature: 'not a signature' })).toBe(false);
+  });
+});
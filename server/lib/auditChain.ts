@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { scheduleJob } from './jobs';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+const auditSigningKey = process.env.AUDIT_SIGNING_KEY;
+
+if (!auditSigningKey) {
+  console.error('AUDIT_SIGNING_KEY is required. Please set it in your environment variables.');
+  console.error('It is an Ed25519 private key (PEM) that signs audit log checkpoints: openssl genpkey -algorithm ed25519');
+  throw new Error('Missing AUDIT_SIGNING_KEY');
+}
+
+// Hosting dashboards often store PEM keys on one line with escaped newlines.
+const signingKey = crypto.createPrivateKey(auditSigningKey.replace(/\\n/g, '\n'));
+const verifyingKey = crypto.createPublicKey(signingKey);
+
+export const CHECKPOINT_ALGORITHM = 'ed25519';
+export const CHECKPOINT_PUBLIC_KEY = verifyingKey.export({ type: 'spki', format: 'pem' }).toString();
+
+export const AUDIT_CHECKPOINT_INTERVAL_MS = 60 * 60 * 1000;
+
+const GENESIS_HASH = '0'.repeat(64);
+const VERIFY_BATCH_SIZE = 1000;
+
+interface ChainEntry {
+  id: string;
+  sequence: number;
+  prev_hash: string;
+  entry_hash: string;
+  organization_id: string | null;
+  actor_id: string | null;
+  action: string;
+  details_text: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+const CHAIN_COLUMNS = 'id, sequence, prev_hash, entry_hash, organization_id, actor_id, action, details_text:details::text, ip_address, user_agent, created_at';
+
+const hashField = (value: string | null) => {
+  const text = value ?? '';
+  return `${Buffer.byteLength(text, 'utf8')}:${text}`;
+};
+
+// Mirrors audit_entry_hash in supabase/migrations/20250115000000_audit_hash_chain.sql.
+const hashEntry = (entry: ChainEntry) => {
+  const payload = [
+    entry.prev_hash,
+    String(entry.sequence),
+    entry.organization_id,
+    entry.actor_id,
+    entry.action,
+    entry.details_text,
+    entry.ip_address ? entry.ip_address.split('/')[0] : null,
+    entry.user_agent,
+    String(Date.parse(entry.created_at))
+  ].map(hashField).join('');
+
+  return crypto.createHash('sha256').update(payload, 'utf8').digest('hex');
+};
+
+export interface ChainLink {
+  sequence: number;
+  hash: string;
+}
+
+export interface ChainBreak {
+  sequence: number;
+  entryId: string | null;
+  reason: 'missing_entry' | 'broken_link' | 'altered_entry';
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  head: ChainLink | null;
+  firstBreak: ChainBreak | null;
+}
+
+// Walks the organization's chain in order and stops at the first entry that
+// was removed, re-linked or edited. Starting from a trusted link (a signed
+// checkpoint) skips the entries it already vouches for. Hashes of the
+// sequences in `collect` are returned so checkpoints can be compared.
+export const verifyAuditChain = async (
+  organizationId: string,
+  from: ChainLink = { sequence: 0, hash: GENESIS_HASH },
+  collect: Set<number> = new Set()
+) => {
+  const collected = new Map<number, string>();
+  let previous = from;
+  let checkedEntries = 0;
+
+  for (;;) {
+    const { data, error } = await supabase
+      .from('audit_logs')
+      .select(CHAIN_COLUMNS)
+      .eq('organization_id', organizationId)
+      .gt('sequence', previous.sequence)
+      .order('sequence', { ascending: true })
+      .range(0, VERIFY_BATCH_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to read audit chain: ${error.message}`);
+    }
+
+    const entries = (data || []) as unknown as ChainEntry[];
+
+    for (const entry of entries) {
+      let reason: ChainBreak['reason'] | null = null;
+      if (entry.sequence !== previous.sequence + 1) {
+        reason = 'missing_entry';
+      } else if (entry.prev_hash !== previous.hash) {
+        reason = 'broken_link';
+      } else if (hashEntry(entry) !== entry.entry_hash) {
+        reason = 'altered_entry';
+      }
+
+      if (reason) {
+        const verification: ChainVerification = {
+          valid: false,
+          checkedEntries,
+          head: previous.sequence > 0 ? previous : null,
+          firstBreak: { sequence: previous.sequence + 1, entryId: entry.id, reason }
+        };
+        return { verification, collected };
+      }
+
+      if (collect.has(entry.sequence)) {
+        collected.set(entry.sequence, entry.entry_hash);
+      }
+      previous = { sequence: entry.sequence, hash: entry.entry_hash };
+      checkedEntries++;
+    }
+
+    if (entries.length < VERIFY_BATCH_SIZE) {
+      break;
+    }
+  }
+
+  const verification: ChainVerification = {
+    valid: true,
+    checkedEntries,
+    head: previous.sequence > 0 ? previous : null,
+    firstBreak: null
+  };
+  return { verification, collected };
+};
+
+export interface AuditCheckpoint {
+  organizationId: string;
+  sequence: number;
+  headHash: string;
+  createdAt: string;
+  signature: string;
+}
+
+const checkpointPayload = ({ organizationId, sequence, headHash, createdAt }: Omit<AuditCheckpoint, 'signature'>) => {
+  return ['ematdaan-audit-checkpoint:v1', organizationId, sequence, headHash, new Date(createdAt).toISOString()].join('\n');
+};
+
+export const verifyCheckpointSignature = (checkpoint: AuditCheckpoint) => {
+  try {
+    return crypto.verify(
+      null,
+      Buffer.from(checkpointPayload(checkpoint), 'utf8'),
+      verifyingKey,
+      Buffer.from(checkpoint.signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+};
+
+interface CheckpointRow {
+  organization_id: string;
+  sequence: number | string;
+  head_hash: string;
+  created_at: string;
+  signature: string;
+}
+
+export const toCheckpoint = (row: CheckpointRow): AuditCheckpoint => ({
+  organizationId: row.organization_id,
+  sequence: Number(row.sequence),
+  headHash: row.head_hash,
+  createdAt: new Date(row.created_at).toISOString(),
+  signature: row.signature
+});
+
+// Signs the current chain head, after checking every entry written since the
+// previous checkpoint, so a chain that has already been tampered with is never
+// vouched for. Returns null when there is nothing new to sign.
+export const createAuditCheckpoint = async (organizationId: string): Promise<AuditCheckpoint | null> => {
+  const { data: latest, error: latestError } = await supabase
+    .from('audit_checkpoints')
+    .select('organization_id, sequence, head_hash, signature, created_at')
+    .eq('organization_id', organizationId)
+    .order('sequence', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (latestError) {
+    throw new Error(`Failed to read audit checkpoints: ${latestError.message}`);
+  }
+
+  const previous = latest ? toCheckpoint(latest) : null;
+  if (previous && !verifyCheckpointSignature(previous)) {
+    throw new Error(`Latest audit checkpoint for organization ${organizationId} has an invalid signature`);
+  }
+
+  const { verification } = await verifyAuditChain(
+    organizationId,
+    previous ? { sequence: previous.sequence, hash: previous.headHash } : undefined
+  );
+
+  if (!verification.valid) {
+    throw new Error(`Audit chain for organization ${organizationId} is broken at entry ${verification.firstBreak?.sequence}`);
+  }
+
+  if (!verification.head || verification.checkedEntries === 0) {
+    return null;
+  }
+
+  const unsigned = {
+    organizationId,
+    sequence: verification.head.sequence,
+    headHash: verification.head.hash,
+    createdAt: new Date().toISOString()
+  };
+  const checkpoint: AuditCheckpoint = {
+    ...unsigned,
+    signature: crypto.sign(null, Buffer.from(checkpointPayload(unsigned), 'utf8'), signingKey).toString('base64')
+  };
+
+  const { error } = await supabase
+    .from('audit_checkpoints')
+    .insert({
+      organization_id: checkpoint.organizationId,
+      sequence: checkpoint.sequence,
+      head_hash: checkpoint.headHash,
+      signature: checkpoint.signature,
+      created_at: checkpoint.createdAt
+    });
+
+  if (error) {
+    throw new Error(`Failed to store audit checkpoint: ${error.message}`);
+  }
+
+  return checkpoint;
+};
+
+const checkpointAllOrganizations = async () => {
+  const { data: organizations, error } = await supabase
+    .from('organizations')
+    .select('id');
+
+  if (error) {
+    console.error('Audit checkpoint error:', error);
+    return;
+  }
+
+  for (const organization of organizations || []) {
+    try {
+      await createAuditCheckpoint(organization.id);
+    } catch (checkpointError) {
+      console.error('Audit checkpoint error:', checkpointError);
+    }
+  }
+};
+
+export const scheduleAuditCheckpoints = () => scheduleJob({
+  name: 'Audit checkpoint',
+  intervalMs: AUDIT_CHECKPOINT_INTERVAL_MS,
+  run: checkpointAllOrganizations
+});
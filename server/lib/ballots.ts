@@ -0,0 +1,143 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import dotenv from 'dotenv';
+import { splitSecret, combineShares } from './shamir';
+import { generateElGamalKeys } from './elgamal';
+import { TallyMode } from './tally';
+
+dotenv.config({ path: '.env' });
+
+const generateKeyPair = promisify(crypto.generateKeyPair);
+
+const ballotKeySecret = process.env.BALLOT_KEY_SECRET;
+
+if (!ballotKeySecret) {
+  console.error('BALLOT_KEY_SECRET is required. Please set it in your environment variables.');
+  console.error('It protects the election private keys that decrypt ballots at tally time.');
+  throw new Error('Missing BALLOT_KEY_SECRET');
+}
+
+// Ballots are sealed with a fresh AES-GCM key wrapped by the election's
+// RSA-OAEP public key. The browser builds this envelope with Web Crypto.
+// Tampering after casting shows up on the bulletin board, where each voter
+// can find the hash of their ballot; see hashBallot.
+export interface EncryptedBallot {
+  encryptedData: string;
+}
+
+interface BallotEnvelope {
+  key: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const GCM_TAG_LENGTH = 16;
+
+const deriveWrappingKey = (salt: Buffer) => crypto.scryptSync(ballotKeySecret, salt, 32);
+
+// Secrets at rest (election private keys, trustee shares awaiting collection
+// or tally) are wrapped with a key derived from BALLOT_KEY_SECRET.
+export const sealSecret = (secret: string) => {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveWrappingKey(salt), iv);
+  const ciphertext = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [salt, iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+export const openSecret = (sealed: string) => {
+  const [salt, iv, tag, ciphertext] = sealed.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveWrappingKey(salt), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+// Decrypt-mode elections seal each ballot to an RSA key; homomorphic ones
+// encrypt every choice to an ElGamal key so only totals are ever decrypted.
+const generateKeyMaterial = async (tallyMode: TallyMode) => {
+  if (tallyMode === 'homomorphic') {
+    return generateElGamalKeys();
+  }
+
+  return generateKeyPair('rsa', {
+    modulusLength: 3072,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+};
+
+export const generateElectionKeys = async (tallyMode: TallyMode = 'decrypt') => {
+  const { publicKey, privateKey } = await generateKeyMaterial(tallyMode);
+
+  return {
+    publicKey,
+    encryptedPrivateKey: sealSecret(privateKey)
+  };
+};
+
+export const unwrapPrivateKey = (encryptedPrivateKey: string) => {
+  return openSecret(encryptedPrivateKey);
+};
+
+// Key ceremony for trustee elections: the private key is locked with a random
+// key that is split into one share per trustee, so the server cannot decrypt
+// ballots until `threshold` trustees hand their shares back.
+export const generateTrusteeKeys = async (trusteeCount: number, threshold: number, tallyMode: TallyMode = 'decrypt') => {
+  const { publicKey, privateKey } = await generateKeyMaterial(tallyMode);
+
+  const lockKey = crypto.randomBytes(32);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', lockKey, iv);
+  const ciphertext = Buffer.concat([cipher.update(privateKey, 'utf8'), cipher.final()]);
+
+  return {
+    publicKey,
+    encryptedPrivateKey: [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':'),
+    shares: splitSecret(lockKey, trusteeCount, threshold).map(share => share.toString('hex'))
+  };
+};
+
+export const unlockPrivateKey = (encryptedPrivateKey: string, shares: string[]) => {
+  const lockKey = combineShares(shares.map(share => Buffer.from(share, 'hex')));
+  const [iv, tag, ciphertext] = encryptedPrivateKey.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', lockKey, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
+
+export const hashShare = (share: string) => {
+  return crypto.createHash('sha256').update(share.trim().toLowerCase()).digest('hex');
+};
+
+export const isEncryptedBallot = (value: unknown): value is EncryptedBallot => {
+  const ballot = value as EncryptedBallot;
+  return !!ballot &&
+    typeof ballot.encryptedData === 'string';
+};
+
+export const hashBallot = (encryptedData: string) => {
+  return crypto.createHash('sha256').update(encryptedData).digest('hex');
+};
+
+export const decryptBallot = (encryptedData: string, privateKey: string): unknown => {
+  const envelope: BallotEnvelope = JSON.parse(encryptedData);
+  const ballotKey = crypto.privateDecrypt(
+    { key: privateKey, padding: crypto.constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(envelope.key, 'base64')
+  );
+
+  const sealed = Buffer.from(envelope.ciphertext, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ballotKey, Buffer.from(envelope.iv, 'base64'));
+  decipher.setAuthTag(sealed.subarray(sealed.length - GCM_TAG_LENGTH));
+  const plaintext = Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - GCM_TAG_LENGTH)), decipher.final()]);
+
+  return JSON.parse(plaintext.toString('utf8'));
+};
+
+// Stored ballot times are cut to the hour so they cannot be matched against
+// the exact time a voter's participation was recorded.
+export const coarseTimestamp = (date = new Date()) => {
+  const coarse = new Date(date);
+  coarse.setMinutes(0, 0, 0);
+  return coarse.toISOString();
+};
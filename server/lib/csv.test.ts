@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, escapeCsvValue, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads comma separated rows with CRLF or LF line endings', () => {
+    expect(parseCsv('email,name\r\na@example.com,Asha\nb@example.com,Ravi')).toEqual([
+      ['email', 'name'],
+      ['a@example.com', 'Asha'],
+      ['b@example.com', 'Ravi']
+    ]);
+  });
+
+  it('picks the separator that splits the first line the most', () => {
+    expect(parseCsv('email;name;year\na@example.com;Asha, K;2')).toEqual([
+      ['email', 'name', 'year'],
+      ['a@example.com', 'Asha, K', '2']
+    ]);
+    expect(parseCsv('email\tname\na@example.com\tAsha')).toEqual([['email', 'name'], ['a@example.com', 'Asha']]);
+  });
+
+  it('ignores separators inside quotes when choosing one', () => {
+    expect(parseCsv('"a;b;c",d\n1,2')).toEqual([['a;b;c', 'd'], ['1', '2']]);
+  });
+
+  it('keeps separators, line breaks and doubled quotes inside quoted fields', () => {
+    expect(parseCsv('name,note\n"Shah, Asha","said ""hi""\nthen left"')).toEqual([
+      ['name', 'note'],
+      ['Shah, Asha', 'said "hi"\nthen left']
+    ]);
+  });
+
+  it('drops a byte order mark and rows with nothing in them', () => {
+    expect(parseCsv('\uFEFFemail\n\n , \na@example.com\n')).toEqual([['email'], ['a@example.com']]);
+  });
+
+  it('keeps empty cells so columns stay aligned', () => {
+    expect(parseCsv('a,,c\n,b,')).toEqual([['a', '', 'c'], ['', 'b', '']]);
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('leaves plain values alone and writes nothing for null', () => {
+    expect(escapeCsvValue('Asha')).toBe('Asha');
+    expect(escapeCsvValue(42)).toBe('42');
+    expect(escapeCsvValue(null)).toBe('');
+    expect(escapeCsvValue(undefined)).toBe('');
+  });
+
+  it('quotes values holding commas, quotes or line breaks', () => {
+    expect(escapeCsvValue('Shah, Asha')).toBe('"Shah, Asha"');
+    expect(escapeCsvValue('said "hi"')).toBe('"said ""hi"""');
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('defuses values a spreadsheet would run as a formula', () => {
+    expect(escapeCsvValue('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(escapeCsvValue('+1')).toBe("'+1");
+    expect(escapeCsvValue('-1')).toBe("'-1");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips through parseCsv', () => {
+    const rows = [['email', 'note'], ['a@example.com', 'Shah, "Asha"\nYear 2']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
@@ -0,0 +1,121 @@
+// CSV handling and the roster format shared by the server and the browser
+// (src/lib/roster.ts imports this file), so it must stay free of Node and DOM
+// APIs. The server checks every roster again before sending invitations.
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Which column of an uploaded roster holds what, by zero-based index. Each
+// group column adds the member to the group named in it, in its category.
+export interface RosterColumns {
+  email: number;
+  name: number | null;
+  groups: { column: number; category: string }[];
+}
+
+export type RosterRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface RosterRow {
+  // Position among the file's non-empty rows, counting the header, so
+  // admins can find it.
+  row: number;
+  email: string;
+  name: string;
+  groups: { category: string; name: string }[];
+  status: RosterRowStatus;
+  reason: string | null;
+}
+
+export interface RosterSummary {
+  valid: number;
+  invalid: number;
+  duplicate: number;
+}
+
+// Quotes values that need it and defuses cells a spreadsheet would otherwise
+// run as a formula, since exported fields can hold user-supplied text.
+export const escapeCsvValue = (value: unknown): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) => rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+
+const DELIMITERS = [',', ';', '\t'];
+
+// Spreadsheets export with commas, semicolons (where the comma is the decimal
+// separator) or tabs; whichever appears most in the first line wins.
+const detectDelimiter = (text: string) => {
+  let firstLine = '';
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && (char === '\n' || char === '\r')) {
+      break;
+    }
+    if (!quoted) {
+      firstLine += char;
+    }
+  }
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+};
+
+// Parses CSV as described in RFC 4180: quoted fields may hold delimiters,
+// line breaks and doubled quotes. A leading byte order mark is dropped, and
+// so are rows with nothing in them.
+export const parseCsv = (input: string): string[][] => {
+  const text = input.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
@@ -0,0 +1,316 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import sgMail from '@sendgrid/mail';
+import { recordSystemAudit } from './audit';
+import { isPublished, ElectionStatus } from './lifecycle';
+import { scheduleJob } from './jobs';
+import { listEligibleVoters, RollMember, VoterRollMode } from './voterRoll';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+sgMail.setApiKey(process.env.SENDGRID_API_KEY || '');
+
+export const ELECTION_JOB_INTERVAL_MS = 60 * 1000;
+
+const CLOSING_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Opening and results notices are only sent within this long of the event they
+// announce; older ones are claimed without sending, so configuring email late
+// does not mail every past election at once.
+const NOTICE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const isRecent = (time: string | Date) => Date.now() - new Date(time).getTime() <= NOTICE_WINDOW_MS;
+
+interface JobElection {
+  id: string;
+  organization_id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  trustee_threshold: number | null;
+  voter_roll: VoterRollMode;
+}
+
+const JOB_COLUMNS = 'id, organization_id, name, start_time, end_time, trustee_threshold, voter_roll';
+
+type Notice = 'voting_open' | 'closing_soon' | 'results_published';
+
+const appUrl = () => process.env.VITE_APP_URL || process.env.FRONTEND_URL || 'https://ematdaan.vercel.app';
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const formatTime = (value: string) => new Date(value).toLocaleString('en-IN', {
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  timeZone: 'Asia/Kolkata'
+}) + ' IST';
+
+// Moves every election whose time has come from one state to the next. The
+// update only applies to rows still in `from`, so an admin acting at the same
+// moment is never overridden, and only the elections this run moved come back.
+const moveDueElections = async (
+  from: ElectionStatus,
+  to: ElectionStatus,
+  dueColumn: 'start_time' | 'end_time'
+) => {
+  const { data, error } = await supabase
+    .from('elections')
+    .update({ status: to, is_active: isPublished(to) })
+    .eq('status', from)
+    .lte(dueColumn, new Date().toISOString())
+    .select(JOB_COLUMNS);
+
+  if (error) {
+    throw new Error(`Failed to move ${from} elections to ${to}: ${error.message}`);
+  }
+
+  const moved = (data || []) as JobElection[];
+  for (const election of moved) {
+    await recordSystemAudit(election.organization_id, 'election_status_changed', {
+      electionId: election.id,
+      name: election.name,
+      from,
+      to,
+      scheduled: true
+    });
+  }
+
+  return moved;
+};
+
+const getVoterIds = async (electionId: string) => {
+  const { data, error } = await supabase
+    .from('votes')
+    .select('user_id')
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to get votes: ${error.message}`);
+  }
+
+  return new Set((data || []).map(vote => vote.user_id));
+};
+
+const buildNotice = (notice: Notice, election: JobElection) => {
+  const name = escapeHtml(election.name);
+
+  if (notice === 'voting_open') {
+    return {
+      subject: `Voting is open: ${election.name}`,
+      heading: 'Voting Is Open',
+      body: `<p>Voting in <strong>${name}</strong> is now open and closes at ${formatTime(election.end_time)}.</p>`,
+      link: `${appUrl()}/vote/${election.id}`,
+      action: 'Cast Your Vote'
+    };
+  }
+
+  if (notice === 'closing_soon') {
+    return {
+      subject: `Last 24 hours to vote: ${election.name}`,
+      heading: 'Voting Closes Soon',
+      body: `<p>You have not voted in <strong>${name}</strong> yet. Voting closes at ${formatTime(election.end_time)}.</p>`,
+      link: `${appUrl()}/vote/${election.id}`,
+      action: 'Cast Your Vote'
+    };
+  }
+
+  return {
+    subject: `Results are available: ${election.name}`,
+    heading: 'Results Published',
+    body: `<p>Voting in <strong>${name}</strong> has closed and the results have been published.</p>`,
+    link: `${appUrl()}/results/${election.id}`,
+    action: 'View Results'
+  };
+};
+
+// Sends one email per recipient so a single bad address does not stop the
+// rest. Returns how many were sent.
+const sendNotice = async (notice: Notice, election: JobElection, recipients: RollMember[]) => {
+  if (recipients.length === 0) {
+    return 0;
+  }
+
+  const { subject, heading, body, link, action } = buildNotice(notice, election);
+  let sent = 0;
+
+  for (const recipient of recipients) {
+    try {
+      await sgMail.send({
+        to: recipient.email,
+        from: process.env.SENDGRID_FROM_EMAIL || 'noreply@example.com',
+        subject,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #6B21E8;">${heading}</h2>
+            <p>Hello ${escapeHtml(recipient.name)},</p>
+            ${body}
+            <a href="${link}" style="background-color: #6B21E8; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 20px 0;">
+              ${action}
+            </a>
+            <p>If the button doesn't work, copy and paste this link:</p>
+            <p style="word-break: break-all; color: #6B21E8;">${link}</p>
+            <p>Best regards,<br>E-Matdaan Team</p>
+          </div>
+        `
+      });
+      sent++;
+    } catch (error) {
+      console.error(`Failed to send ${notice} email for election ${election.id}:`, error);
+    }
+  }
+
+  await recordSystemAudit(election.organization_id, 'election_notice_sent', {
+    electionId: election.id,
+    name: election.name,
+    notice,
+    recipients: sent
+  });
+
+  return sent;
+};
+
+// Each notice is claimed by stamping its column before any email goes out,
+// so it is sent at most once even when several servers run the jobs.
+const notifyOpenedElections = async () => {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('elections')
+    .update({ opening_notified_at: now })
+    .eq('status', 'open')
+    .is('opening_notified_at', null)
+    .gt('end_time', now)
+    .select(JOB_COLUMNS);
+
+  if (error) {
+    throw new Error(`Failed to claim opening notices: ${error.message}`);
+  }
+
+  for (const election of (data || []) as JobElection[]) {
+    if (isRecent(election.start_time)) {
+      await sendNotice('voting_open', election, await listEligibleVoters(election));
+    }
+  }
+};
+
+// Elections that run for less than a day only get the opening notice.
+const remindClosingElections = async () => {
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('elections')
+    .update({ closing_reminder_sent_at: now.toISOString() })
+    .eq('status', 'open')
+    .is('closing_reminder_sent_at', null)
+    .gt('end_time', now.toISOString())
+    .lte('end_time', new Date(now.getTime() + CLOSING_REMINDER_WINDOW_MS).toISOString())
+    .select(JOB_COLUMNS);
+
+  if (error) {
+    throw new Error(`Failed to claim closing reminders: ${error.message}`);
+  }
+
+  for (const election of (data || []) as JobElection[]) {
+    const duration = new Date(election.end_time).getTime() - new Date(election.start_time).getTime();
+    if (duration <= CLOSING_REMINDER_WINDOW_MS) {
+      continue;
+    }
+
+    const voterIds = await getVoterIds(election.id);
+    const recipients = (await listEligibleVoters(election))
+      .filter(recipient => !voterIds.has(recipient.id));
+
+    await sendNotice('closing_soon', election, recipients);
+  }
+};
+
+// When the results became readable: at the close, or for trustee elections
+// when the last share needed was submitted. Null while shares are missing.
+const resultsReadyAt = async (election: JobElection): Promise<string | null> => {
+  if (election.trustee_threshold === null) {
+    return election.end_time;
+  }
+
+  const { data, error } = await supabase
+    .from('election_trustees')
+    .select('submitted_at')
+    .eq('election_id', election.id)
+    .not('submitted_share', 'is', null)
+    .order('submitted_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get trustee shares: ${error.message}`);
+  }
+
+  const shares = data || [];
+  return shares.length >= election.trustee_threshold
+    ? shares[election.trustee_threshold - 1].submitted_at
+    : null;
+};
+
+// Results are readable as soon as an election closes; trustee elections are
+// announced once enough key shares are in for the ballots to be decrypted.
+const publishClosedResults = async () => {
+  const { data, error } = await supabase
+    .from('elections')
+    .select(JOB_COLUMNS)
+    .in('status', ['closed', 'certified'])
+    .is('results_published_at', null);
+
+  if (error) {
+    throw new Error(`Failed to get closed elections: ${error.message}`);
+  }
+
+  for (const election of (data || []) as JobElection[]) {
+    const readyAt = await resultsReadyAt(election);
+    if (!readyAt) {
+      continue;
+    }
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('elections')
+      .update({ results_published_at: new Date().toISOString() })
+      .eq('id', election.id)
+      .is('results_published_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Failed to publish results: ${claimError.message}`);
+    }
+
+    if (claimed && isRecent(readyAt)) {
+      await sendNotice('results_published', election, await listEligibleVoters(election));
+    }
+  }
+};
+
+const runElectionJobs = async () => {
+  await moveDueElections('scheduled', 'open', 'start_time');
+  await moveDueElections('open', 'closed', 'end_time');
+
+  // Without SendGrid the notices are left unclaimed rather than stamped as
+  // sent, so recent ones still go out once email is configured.
+  if (!process.env.SENDGRID_API_KEY) {
+    return;
+  }
+
+  await notifyOpenedElections();
+  await remindClosingElections();
+  await publishClosedResults();
+};
+
+export const scheduleElectionJobs = () => scheduleJob({
+  name: 'Election',
+  intervalMs: ELECTION_JOB_INTERVAL_MS,
+  run: runElectionJobs
+});
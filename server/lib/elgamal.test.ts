@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  P,
+  generateElGamalKeys,
+  addCiphertexts,
+  decryptSum,
+  isCiphertext,
+  verifyValidityProof,
+  Ciphertext
+} from './elgamal';
+import { encryptHomomorphicBallot, verifyDecryptionProof } from '../../src/lib/homomorphic';
+
+const ELECTION_ID = 'election-1';
+const GROUPS = [{ contestId: null, candidateIds: ['alice', 'bob'], minSelections: 1, maxSelections: 1 }];
+
+// Modular exponentiation over the 2048-bit group is slow enough that each
+// test encrypts only a handful of ballots.
+const PROOF_TIMEOUT_MS = 60000;
+
+const castBallots = async (publicKey: string, choices: string[][]) => {
+  const ballots: Record<string, Ciphertext>[] = [];
+  for (const chosen of choices) {
+    const { encryptedBallot } = await encryptHomomorphicBallot(publicKey, ELECTION_ID, GROUPS, chosen);
+    ballots.push(JSON.parse(encryptedBallot.encryptedData).ciphertexts);
+  }
+  return ballots;
+};
+
+describe('homomorphic tally', () => {
+  const { publicKey, privateKey } = generateElGamalKeys();
+
+  it('decrypts each candidate total with a proof the browser accepts', async () => {
+    const ballots = await castBallots(publicKey, [['alice'], ['bob'], ['alice']]);
+
+    for (const [candidateId, expected] of [['alice', 2], ['bob', 1]] as const) {
+      const sum = addCiphertexts(ballots.map(ballot => ballot[candidateId]));
+      const { count, proof } = decryptSum(sum, publicKey, privateKey, ballots.length);
+
+      expect(count).toBe(expected);
+      expect(await verifyDecryptionProof(publicKey, proof, count)).toBe(true);
+      expect(await verifyDecryptionProof(publicKey, proof, count + 1)).toBe(false);
+    }
+  }, PROOF_TIMEOUT_MS);
+
+  it('rejects a decryption proof made with a different key', async () => {
+    const [ballot] = await castBallots(publicKey, [['alice']]);
+    const other = generateElGamalKeys();
+    const { proof } = decryptSum(ballot.alice, publicKey, privateKey, 1);
+
+    expect(await verifyDecryptionProof(other.publicKey, proof, 1)).toBe(false);
+  }, PROOF_TIMEOUT_MS);
+
+  it('refuses a total larger than the number of ballots', async () => {
+    const ballots = await castBallots(publicKey, [['alice'], ['alice']]);
+    const sum = addCiphertexts(ballots.map(ballot => ballot.alice));
+
+    expect(() => decryptSum(sum, publicKey, privateKey, 1)).toThrow('Decrypted total exceeds the number of ballots');
+  }, PROOF_TIMEOUT_MS);
+
+  it('only accepts ciphertexts in the prime-order subgroup', () => {
+    expect(isCiphertext({ a: publicKey, b: publicKey })).toBe(true);
+    // P - 1 has order 2, so it lies outside the subgroup.
+    const outside = (P - 1n).toString(16);
+    expect(isCiphertext({ a: publicKey, b: outside })).toBe(false);
+    expect(isCiphertext({ a: publicKey })).toBe(false);
+  });
+});
+
+describe('verifyValidityProof', () => {
+  const { publicKey } = generateElGamalKeys();
+
+  const encrypt = async (chosen: string[]) => {
+    const { encryptedBallot, validityProof } = await encryptHomomorphicBallot(publicKey, ELECTION_ID, GROUPS, chosen);
+    const ciphertexts: Record<string, Ciphertext> = JSON.parse(encryptedBallot.encryptedData).ciphertexts;
+    return { ciphertexts, validityProof };
+  };
+
+  it('accepts the proofs the browser makes for each choice and for the contest', async () => {
+    const { ciphertexts, validityProof } = await encrypt(['bob']);
+
+    for (const candidateId of GROUPS[0].candidateIds) {
+      expect(verifyValidityProof(ciphertexts[candidateId], publicKey, [0, 1], ELECTION_ID, validityProof.choices[candidateId])).toBe(true);
+    }
+
+    const total = addCiphertexts(Object.values(ciphertexts));
+    expect(verifyValidityProof(total, publicKey, [1], ELECTION_ID, validityProof.contests[0].proof)).toBe(true);
+  }, PROOF_TIMEOUT_MS);
+
+  it('rejects a proof replayed in another election', async () => {
+    const { ciphertexts, validityProof } = await encrypt(['alice']);
+    expect(verifyValidityProof(ciphertexts.alice, publicKey, [0, 1], 'election-2', validityProof.choices.alice)).toBe(false);
+  }, PROOF_TIMEOUT_MS);
+
+  it('rejects a proof moved to another ciphertext', async () => {
+    const { ciphertexts, validityProof } = await encrypt(['alice']);
+    expect(verifyValidityProof(ciphertexts.bob, publicKey, [0, 1], ELECTION_ID, validityProof.choices.alice)).toBe(false);
+  }, PROOF_TIMEOUT_MS);
+
+  it('rejects a proof for a different set of allowed values', async () => {
+    const { ciphertexts, validityProof } = await encrypt(['alice']);
+    const total = addCiphertexts(Object.values(ciphertexts));
+    expect(verifyValidityProof(total, publicKey, [2], ELECTION_ID, validityProof.contests[0].proof)).toBe(false);
+  }, PROOF_TIMEOUT_MS);
+
+  it('rejects malformed proofs without throwing', async () => {
+    const { ciphertexts, validityProof } = await encrypt(['alice']);
+    const proof = validityProof.choices.alice;
+
+    for (const malformed of [null, 'proof', {}, { ...proof, challenges: proof.challenges.slice(1) }, { ...proof, responses: ['zz', 'zz'] }]) {
+      expect(verifyValidityProof(ciphertexts.alice, publicKey, [0, 1], ELECTION_ID, malformed)).toBe(false);
+    }
+  }, PROOF_TIMEOUT_MS);
+});
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+
+// Exponential ElGamal over the RFC 3526 2048-bit MODP group. A vote for a
+// candidate is an encryption of g^1 and no vote an encryption of g^0, so
+// multiplying ciphertexts adds votes without decrypting any single ballot.
+// src/lib/homomorphic.ts mirrors these parameters and hashing for the browser.
+
+export const P = BigInt('0x' +
+  'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74' +
+  '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437' +
+  '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED' +
+  'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05' +
+  '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB' +
+  '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B' +
+  'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718' +
+  '3995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF');
+export const Q = (P - 1n) / 2n;
+export const G = 2n;
+
+export interface Ciphertext {
+  a: string;
+  b: string;
+}
+
+export interface DecryptionProof {
+  a: string;
+  b: string;
+  decryptionFactor: string;
+  commitment: [string, string];
+  challenge: string;
+  response: string;
+}
+
+export interface ValidityProof {
+  commitments: [string, string][];
+  challenges: string[];
+  responses: string[];
+}
+
+export const modPow = (base: bigint, exponent: bigint, modulus: bigint = P) => {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % modulus;
+    }
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+};
+
+const toHex = (value: bigint) => value.toString(16);
+
+const fromHex = (value: string) => BigInt('0x' + value);
+
+const randomExponent = () => BigInt('0x' + crypto.randomBytes(288).toString('hex')) % Q;
+
+const isHexValue = (value: unknown): value is string => {
+  return typeof value === 'string' && /^[0-9a-f]{1,512}$/.test(value);
+};
+
+// Values from a ballot must lie in the prime-order subgroup, otherwise a
+// crafted ciphertext could leak bits of the key through the decryption proof.
+export const isGroupElement = (value: unknown): value is string => {
+  if (!isHexValue(value)) {
+    return false;
+  }
+  const element = fromHex(value);
+  return element > 0n && element < P && modPow(element, Q) === 1n;
+};
+
+export const isCiphertext = (value: unknown, checkSubgroup = true): value is Ciphertext => {
+  const ciphertext = value as Ciphertext;
+  const isElement = checkSubgroup ? isGroupElement : isHexValue;
+  return !!ciphertext && isElement(ciphertext.a) && isElement(ciphertext.b);
+};
+
+export const generateElGamalKeys = () => {
+  const privateKey = randomExponent();
+  return {
+    publicKey: toHex(modPow(G, privateKey)),
+    privateKey: toHex(privateKey)
+  };
+};
+
+// Component-wise product, i.e. the encryption of the sum of the votes.
+export const addCiphertexts = (ciphertexts: Ciphertext[]): Ciphertext => {
+  const sum = ciphertexts.reduce(
+    (total, { a, b }) => ({ a: (total.a * fromHex(a)) % P, b: (total.b * fromHex(b)) % P }),
+    { a: 1n, b: 1n }
+  );
+  return { a: toHex(sum.a), b: toHex(sum.b) };
+};
+
+const challengeFor = (values: string[]) => {
+  return BigInt('0x' + crypto.createHash('sha256').update(values.join('|')).digest('hex')) % Q;
+};
+
+const isExponent = (value: unknown): value is string => isHexValue(value) && fromHex(value) < Q;
+
+const isCommitment = (value: unknown): value is [string, string] => {
+  return Array.isArray(value) && value.length === 2 && value.every(part => isHexValue(part) && fromHex(part) < P);
+};
+
+// Checks a disjunctive Chaum-Pedersen proof that the ciphertext encrypts one of
+// the allowed values without showing which. Branch j claims that (a, b / g^j)
+// shares its exponent with (g, publicKey); the voter can only simulate the
+// false branches, because the branch challenges must add up to the hash of all
+// commitments. The context (the election ID) stops a proof being replayed in
+// another election.
+export const verifyValidityProof = (
+  ciphertext: Ciphertext,
+  publicKey: string,
+  allowed: number[],
+  context: string,
+  proof: unknown
+): boolean => {
+  const { commitments, challenges, responses } = (proof || {}) as ValidityProof;
+  if (allowed.length === 0 ||
+      !Array.isArray(commitments) || commitments.length !== allowed.length || !commitments.every(isCommitment) ||
+      !Array.isArray(challenges) || challenges.length !== allowed.length || !challenges.every(isExponent) ||
+      !Array.isArray(responses) || responses.length !== allowed.length || !responses.every(isExponent)) {
+    return false;
+  }
+
+  const h = fromHex(publicKey);
+  const a = fromHex(ciphertext.a);
+  const b = fromHex(ciphertext.b);
+
+  const expected = challengeFor([context, publicKey, ciphertext.a, ciphertext.b, ...commitments.flat()]);
+  const total = challenges.reduce((sum, challenge) => (sum + fromHex(challenge)) % Q, 0n);
+  if (total !== expected) {
+    return false;
+  }
+
+  return allowed.every((value, j) => {
+    const c = fromHex(challenges[j]);
+    const s = fromHex(responses[j]);
+    const [t1, t2] = commitments[j].map(fromHex);
+    const shifted = (b * modPow(G, Q - BigInt(value) % Q)) % P;
+
+    return modPow(G, s) === (t1 * modPow(a, c)) % P &&
+      modPow(h, s) === (t2 * modPow(shifted, c)) % P;
+  });
+};
+
+// Decrypts a summed ciphertext and proves, with a Chaum-Pedersen proof, that
+// the same key behind the election's public key was used to do it. The count
+// is found by search, which is cheap because it cannot exceed the ballot count.
+export const decryptSum = (ciphertext: Ciphertext, publicKey: string, privateKeyHex: string, maxCount: number) => {
+  const x = fromHex(privateKeyHex);
+  const a = fromHex(ciphertext.a);
+  const b = fromHex(ciphertext.b);
+
+  const decryptionFactor = modPow(a, x);
+  const target = (b * modPow(decryptionFactor, P - 2n)) % P;
+
+  let count = 0;
+  let power = 1n;
+  while (power !== target) {
+    if (count >= maxCount) {
+      throw new Error('Decrypted total exceeds the number of ballots');
+    }
+    power = (power * G) % P;
+    count += 1;
+  }
+
+  const w = randomExponent();
+  const commitment: [string, string] = [toHex(modPow(G, w)), toHex(modPow(a, w))];
+  const challenge = challengeFor([toHex(G), publicKey, ciphertext.a, toHex(decryptionFactor), ...commitment]);
+  const response = (w + challenge * x) % Q;
+
+  const proof: DecryptionProof = {
+    a: ciphertext.a,
+    b: ciphertext.b,
+    decryptionFactor: toHex(decryptionFactor),
+    commitment,
+    challenge: toHex(challenge),
+    response: toHex(response)
+  };
+
+  return { count, proof };
+};
@@ -0,0 +1,30 @@
+// Runs background work inside the API process. Each job runs once on start and
+// then on its interval; a run that is still going when the next one is due is
+// not started again, so slow database calls cannot pile up.
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+export const scheduleJob = ({ name, intervalMs, run }: Job) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+
+    running = true;
+    try {
+      await run();
+    } catch (error) {
+      console.error(`${name} job error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, intervalMs);
+};
@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { isClosed } from './lifecycle';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+// Join codes are read off handouts and typed in, so they leave out letters
+// and digits that are easily confused (0/O, 1/I/L).
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+
+export const MAX_JOIN_CODE_USES = 1000;
+
+// Members who join with a code get this role.
+export const JOIN_CODE_ROLE = 'student';
+
+export const generateJoinCode = () => {
+  return Array.from({ length: JOIN_CODE_LENGTH }, () => JOIN_CODE_ALPHABET[crypto.randomInt(JOIN_CODE_ALPHABET.length)]).join('');
+};
+
+// Codes are accepted in any case and with the spaces or dashes people add
+// when copying them.
+export const normalizeJoinCode = (input: string) => input.replace(/[\s-]/g, '').toUpperCase();
+
+export interface JoinCodeCheck {
+  is_valid: boolean;
+  reason: string;
+  organization_id: string;
+  election_id: string | null;
+  election_name: string | null;
+}
+
+// Whether the code can be used to register now. Returns null when no code
+// matches, so callers can try other kinds of invitation.
+export const checkJoinCode = async (input: string): Promise<JoinCodeCheck | null> => {
+  const { data, error } = await supabase.rpc('validate_access_token', {
+    p_token: normalizeJoinCode(input)
+  });
+
+  if (error) {
+    throw new Error(`Failed to validate join code: ${error.message}`);
+  }
+
+  const token = data?.[0];
+  if (!token) {
+    return null;
+  }
+
+  let election: { name: string; status: string } | null = null;
+  if (token.election_id) {
+    const { data: electionData } = await supabase
+      .from('elections')
+      .select('name, status')
+      .eq('id', token.election_id)
+      .single();
+    election = electionData;
+  }
+
+  const electionClosed = !!election && isClosed(election.status);
+
+  return {
+    is_valid: token.is_valid && !electionClosed,
+    reason: electionClosed ? 'This election has closed' : token.reason,
+    organization_id: token.organization_id,
+    election_id: token.election_id,
+    election_name: election?.name || null
+  };
+};
+
+export interface ClaimedJoinCode {
+  token_id: string;
+  organization_id: string;
+  role: string;
+  election_id: string | null;
+}
+
+// Takes one use of the code, or returns null if it has none left.
+export const claimJoinCode = async (input: string): Promise<ClaimedJoinCode | null> => {
+  const { data, error } = await supabase.rpc('claim_access_token', {
+    p_token: normalizeJoinCode(input)
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim join code: ${error.message}`);
+  }
+
+  return data?.[0] || null;
+};
+
+export const releaseJoinCode = async (tokenId: string) => {
+  const { error } = await supabase.rpc('release_access_token', { p_token_id: tokenId });
+
+  if (error) {
+    console.error('Release join code error:', error);
+  }
+};
@@ -0,0 +1,34 @@
+// Elections move draft → scheduled → open → closed → certified. A scheduled
+// election can return to draft for more editing; every other step is one-way,
+// and a certified election is frozen for good (see the lifecycle migration).
+export const ELECTION_STATUSES = ['draft', 'scheduled', 'open', 'closed', 'certified'] as const;
+
+export type ElectionStatus = typeof ELECTION_STATUSES[number];
+
+export const isElectionStatus = (value: unknown): value is ElectionStatus => {
+  return typeof value === 'string' && (ELECTION_STATUSES as readonly string[]).includes(value);
+};
+
+const TRANSITIONS: Record<ElectionStatus, readonly ElectionStatus[]> = {
+  draft: ['scheduled'],
+  scheduled: ['draft', 'open'],
+  open: ['closed'],
+  closed: ['certified'],
+  certified: []
+};
+
+export const canTransition = (from: ElectionStatus, to: ElectionStatus) => TRANSITIONS[from].includes(to);
+
+// Candidates, contests, ballot settings and the voting window are locked once
+// voting opens, so every ballot is cast against the same election.
+export const isBallotEditable = (status: string) => status === 'draft' || status === 'scheduled';
+
+export const BALLOT_LOCKED_MESSAGE = 'The ballot and voting window cannot be changed once voting has opened';
+
+// Elections that were never scheduled are hidden from voters; is_active is kept
+// in step with the status for the queries that still filter on it.
+export const isPublished = (status: ElectionStatus) => status !== 'draft';
+
+// Results are published, and trustees may submit their shares, once the
+// election is closed rather than when a clock says its end time has passed.
+export const isClosed = (status: string) => status === 'closed' || status === 'certified';
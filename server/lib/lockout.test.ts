@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { lockoutAfter, describeLockout, LOCKOUT_STEP, HARD_LOCK_ATTEMPTS } from './lockout';
+
+const NOW = Date.UTC(2025, 0, 1);
+const MINUTE_MS = 60 * 1000;
+
+describe('lockoutAfter', () => {
+  it('does not lock between thresholds', () => {
+    for (const attempts of [0, 1, LOCKOUT_STEP - 1, LOCKOUT_STEP + 1, HARD_LOCK_ATTEMPTS - 1]) {
+      expect(lockoutAfter(attempts, NOW)).toBeNull();
+    }
+  });
+
+  it('locks for 15 minutes at the first threshold and doubles each time after', () => {
+    expect(lockoutAfter(5, NOW)).toEqual({ hardLocked: false, lockedUntil: new Date(NOW + 15 * MINUTE_MS) });
+    expect(lockoutAfter(10, NOW)).toEqual({ hardLocked: false, lockedUntil: new Date(NOW + 30 * MINUTE_MS) });
+    expect(lockoutAfter(15, NOW)).toEqual({ hardLocked: false, lockedUntil: new Date(NOW + 60 * MINUTE_MS) });
+  });
+
+  it('locks for good from the hard lock threshold on', () => {
+    expect(lockoutAfter(HARD_LOCK_ATTEMPTS, NOW)).toEqual({ hardLocked: true, lockedUntil: null });
+    expect(lockoutAfter(HARD_LOCK_ATTEMPTS + 3, NOW)).toEqual({ hardLocked: true, lockedUntil: null });
+  });
+});
+
+describe('describeLockout', () => {
+  it('tells a hard-locked user to ask an admin', () => {
+    expect(describeLockout({ hardLocked: true, lockedUntil: null }, NOW)).toContain('Ask an organization admin');
+  });
+
+  it('rounds the remaining time up to whole minutes', () => {
+    expect(describeLockout({ hardLocked: false, lockedUntil: new Date(NOW + 90 * 1000) }, NOW))
+      .toBe('Too many failed sign-in attempts. Try again in 2 minutes.');
+    expect(describeLockout({ hardLocked: false, lockedUntil: new Date(NOW + 1000) }, NOW))
+      .toBe('Too many failed sign-in attempts. Try again in 1 minute.');
+  });
+});
@@ -0,0 +1,33 @@
+// Every LOCKOUT_STEP consecutive failed logins locks the account, each time
+// for twice as long as the last. At HARD_LOCK_ATTEMPTS it stays locked until
+// an admin unlocks it.
+export const LOCKOUT_STEP = 5;
+export const HARD_LOCK_ATTEMPTS = 20;
+const BASE_LOCKOUT_MS = 15 * 60 * 1000;
+
+export interface Lockout {
+  hardLocked: boolean;
+  lockedUntil: Date | null;
+}
+
+export const lockoutAfter = (attempts: number, now = Date.now()): Lockout | null => {
+  if (attempts >= HARD_LOCK_ATTEMPTS) {
+    return { hardLocked: true, lockedUntil: null };
+  }
+
+  if (attempts > 0 && attempts % LOCKOUT_STEP === 0) {
+    const multiplier = 2 ** (attempts / LOCKOUT_STEP - 1);
+    return { hardLocked: false, lockedUntil: new Date(now + BASE_LOCKOUT_MS * multiplier) };
+  }
+
+  return null;
+};
+
+export const describeLockout = ({ hardLocked, lockedUntil }: Lockout, now = Date.now()) => {
+  if (hardLocked || !lockedUntil) {
+    return 'This account is locked after too many failed sign-in attempts. Ask an organization admin to unlock it.';
+  }
+
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - now) / 60000));
+  return `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+};
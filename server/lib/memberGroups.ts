@@ -0,0 +1,142 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+export const MAX_CATEGORY_LENGTH = 50;
+export const MAX_GROUP_NAME_LENGTH = 100;
+
+export interface MemberGroup {
+  id: string;
+  category: string;
+  name: string;
+}
+
+export interface GroupLabel {
+  category: string;
+  name: string;
+}
+
+export const isGroupLabel = (value: unknown): value is GroupLabel => {
+  const label = value as GroupLabel;
+  return !!label &&
+    typeof label.category === 'string' &&
+    typeof label.name === 'string' &&
+    label.category.trim().length > 0 && label.category.trim().length <= MAX_CATEGORY_LENGTH &&
+    label.name.trim().length > 0 && label.name.trim().length <= MAX_GROUP_NAME_LENGTH;
+};
+
+// Categories and names are matched without regard to case, the same way the
+// unique index on member_groups compares them.
+const labelKey = ({ category, name }: GroupLabel) => `${category.trim().toLowerCase()}\n${name.trim().toLowerCase()}`;
+
+export const getGroups = async (organizationId: string): Promise<MemberGroup[]> => {
+  const { data, error } = await supabase
+    .from('member_groups')
+    .select('id, category, name')
+    .eq('organization_id', organizationId)
+    .order('category', { ascending: true })
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to get member groups: ${error.message}`);
+  }
+
+  return data || [];
+};
+
+// Group ids that exist in the organization, in the order given.
+export const filterGroupIds = async (organizationId: string, groupIds: string[]) => {
+  const known = new Set((await getGroups(organizationId)).map(group => group.id));
+  return [...new Set(groupIds)].filter(groupId => known.has(groupId));
+};
+
+// Finds the groups for the given labels, creating any that do not exist yet,
+// so imported rosters can name groups by category and name.
+export const resolveGroupLabels = async (organizationId: string, labels: GroupLabel[]) => {
+  const groups = await getGroups(organizationId);
+  const byKey = new Map(groups.map(group => [labelKey(group), group]));
+
+  const missing = new Map<string, GroupLabel>();
+  labels.forEach(label => {
+    const key = labelKey(label);
+    if (!byKey.has(key)) {
+      missing.set(key, { category: label.category.trim(), name: label.name.trim() });
+    }
+  });
+
+  if (missing.size > 0) {
+    const { data: created, error } = await supabase
+      .from('member_groups')
+      .insert([...missing.values()].map(label => ({ organization_id: organizationId, ...label })))
+      .select('id, category, name');
+
+    if (error) {
+      throw new Error(`Failed to create member groups: ${error.message}`);
+    }
+
+    (created || []).forEach(group => byKey.set(labelKey(group), group));
+  }
+
+  return (label: GroupLabel) => byKey.get(labelKey(label))!.id;
+};
+
+// Each member's groups, keyed by user id.
+export const getMembershipsByUser = async (groupIds: string[]) => {
+  const memberships = new Map<string, Set<string>>();
+  if (groupIds.length === 0) {
+    return memberships;
+  }
+
+  const { data, error } = await supabase
+    .from('member_group_memberships')
+    .select('group_id, user_id')
+    .in('group_id', groupIds);
+
+  if (error) {
+    throw new Error(`Failed to get group memberships: ${error.message}`);
+  }
+
+  (data || []).forEach(({ group_id, user_id }) => {
+    if (!memberships.has(user_id)) {
+      memberships.set(user_id, new Set());
+    }
+    memberships.get(user_id)!.add(group_id);
+  });
+
+  return memberships;
+};
+
+// Replaces the member's groups within the organization.
+export const setMemberGroups = async (organizationId: string, userId: string, groupIds: string[]) => {
+  const orgGroupIds = (await getGroups(organizationId)).map(group => group.id);
+
+  if (orgGroupIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('member_group_memberships')
+      .delete()
+      .eq('user_id', userId)
+      .in('group_id', orgGroupIds);
+
+    if (deleteError) {
+      throw new Error(`Failed to update member groups: ${deleteError.message}`);
+    }
+  }
+
+  const kept = [...new Set(groupIds)].filter(groupId => orgGroupIds.includes(groupId));
+  if (kept.length > 0) {
+    const { error: insertError } = await supabase
+      .from('member_group_memberships')
+      .insert(kept.map(groupId => ({ group_id: groupId, user_id: userId })));
+
+    if (insertError) {
+      throw new Error(`Failed to update member groups: ${insertError.message}`);
+    }
+  }
+
+  return kept;
+};
@@ -0,0 +1,61 @@
+// @vitest-environment node
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { buildMerkleTree, isReceipt } from './merkle';
+import { verifyInclusionProof } from '../../src/lib/merkleProof';
+
+const receipt = (seed: number) => crypto.createHash('sha256').update(`ballot-${seed}`).digest('hex');
+
+const receipts = (count: number) => Array.from({ length: count }, (_, i) => receipt(i));
+
+describe('buildMerkleTree', () => {
+  it('hashes a lone receipt as a prefixed leaf', () => {
+    const leaf = crypto.createHash('sha256')
+      .update(Buffer.concat([Buffer.from([0x00]), Buffer.from(receipt(0), 'hex')]))
+      .digest('hex');
+
+    const tree = buildMerkleTree([receipt(0)]);
+    expect(tree.root).toBe(leaf);
+    expect(tree.proofs).toEqual([{ receipt: receipt(0), proof: [] }]);
+  });
+
+  it('publishes the hash of nothing as the root of an empty board', () => {
+    expect(buildMerkleTree([]).root).toBe(crypto.createHash('sha256').digest('hex'));
+  });
+
+  it('does not depend on the order the receipts were cast', () => {
+    const cast = receipts(6);
+    expect(buildMerkleTree([...cast].reverse()).root).toBe(buildMerkleTree(cast).root);
+    expect(buildMerkleTree(cast).leaves).toEqual([...cast].sort());
+  });
+
+  it('gives every receipt a proof the browser accepts, for odd and even sizes', async () => {
+    for (let size = 1; size <= 9; size++) {
+      const tree = buildMerkleTree(receipts(size));
+      for (const { receipt: leaf, proof } of tree.proofs) {
+        expect(await verifyInclusionProof(leaf, proof, tree.root)).toBe(true);
+      }
+    }
+  });
+
+  it('rejects a proof for a receipt that is not on the board', async () => {
+    const tree = buildMerkleTree(receipts(5));
+    expect(await verifyInclusionProof(receipt(99), tree.proofs[0].proof, tree.root)).toBe(false);
+  });
+
+  it('rejects a proof whose sibling hash was altered', async () => {
+    const tree = buildMerkleTree(receipts(5));
+    const { receipt: leaf, proof } = tree.proofs[2];
+    const altered = proof.map((step, i) => i === 0 ? { ...step, hash: receipt(42) } : step);
+
+    expect(await verifyInclusionProof(leaf, altered, tree.root)).toBe(false);
+  });
+});
+
+describe('isReceipt', () => {
+  it('accepts only lowercase SHA-256 hex digests', () => {
+    expect(isReceipt(receipt(1))).toBe(true);
+    expect(isReceipt(receipt(1).toUpperCase())).toBe(false);
+    expect(isReceipt(receipt(1).slice(1))).toBe(false);
+  });
+});
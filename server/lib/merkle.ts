@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+
+// Leaves and inner nodes are hashed with different prefixes so a node can
+// never be passed off as a receipt. The browser repeats these steps when it
+// checks an inclusion proof, so any change here must be mirrored there.
+export const MERKLE_ALGORITHM = 'sha256-prefixed';
+
+export interface ProofStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+const sha256 = (...parts: Buffer[]) => crypto.createHash('sha256').update(Buffer.concat(parts)).digest();
+
+const hashLeaf = (receipt: string) => sha256(Buffer.from([0x00]), Buffer.from(receipt, 'hex'));
+
+const hashNode = (left: Buffer, right: Buffer) => sha256(Buffer.from([0x01]), left, right);
+
+// Receipts are sorted so the tree does not reveal the order ballots were cast.
+// A node without a sibling is carried up to the next level unchanged.
+const buildLevels = (receipts: string[]) => {
+  const levels: Buffer[][] = [[...receipts].sort().map(hashLeaf)];
+
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Buffer[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashNode(level[i], level[i + 1]) : level[i]);
+    }
+    levels.push(next);
+  }
+
+  return levels;
+};
+
+export const buildMerkleTree = (receipts: string[]) => {
+  const leaves = [...receipts].sort();
+  const levels = buildLevels(leaves);
+  const root = levels[levels.length - 1][0];
+
+  const proofs = leaves.map((receipt, leafIndex) => {
+    const proof: ProofStep[] = [];
+    let index = leafIndex;
+    levels.slice(0, -1).forEach(level => {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) {
+        proof.push({ hash: level[sibling].toString('hex'), position: index % 2 === 0 ? 'right' : 'left' });
+      }
+      index = Math.floor(index / 2);
+    });
+    return { receipt, proof };
+  });
+
+  return {
+    // An election without ballots still publishes a root so the board is final.
+    root: root ? root.toString('hex') : sha256().toString('hex'),
+    leaves,
+    proofs
+  };
+};
+
+export const isReceipt = (value: string) => /^[0-9a-f]{64}$/.test(value);
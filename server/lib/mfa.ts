@@ -0,0 +1,92 @@
+import crypto from 'crypto';
+
+// RFC 6238 TOTP (HMAC-SHA1, 30-second steps, 6 digits), the defaults every
+// authenticator app understands.
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const MFA_ISSUER = 'E-Matdaan';
+
+export const MFA_TOKEN_TTL_MS = 5 * 60 * 1000;
+export const RECOVERY_CODE_COUNT = 10;
+
+// Actions that need a fresh code even inside a valid session.
+export const STEP_UP_ACTIONS = ['delete_election', 'delete_candidate', 'send_invitations', 'certify_election'] as const;
+
+export type StepUpAction = typeof STEP_UP_ACTIONS[number];
+
+export const isStepUpAction = (value: unknown): value is StepUpAction => {
+  return typeof value === 'string' && (STEP_UP_ACTIONS as readonly string[]).includes(value);
+};
+
+const toBase32 = (buffer: Buffer) => {
+  let bits = '';
+  buffer.forEach(byte => {
+    bits += byte.toString(2).padStart(8, '0');
+  });
+  return (bits.match(/.{1,5}/g) || [])
+    .map(chunk => BASE32_ALPHABET[parseInt(chunk.padEnd(5, '0'), 2)])
+    .join('');
+};
+
+const fromBase32 = (value: string) => {
+  const bits = value.replace(/=+$/, '').toUpperCase().split('')
+    .map(char => BASE32_ALPHABET.indexOf(char).toString(2).padStart(5, '0'))
+    .join('');
+  return Buffer.from((bits.match(/.{8}/g) || []).map(byte => parseInt(byte, 2)));
+};
+
+export const generateTotpSecret = () => toBase32(crypto.randomBytes(20));
+
+export const buildOtpauthUri = (secret: string, email: string) => {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${email}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(MFA_ISSUER)}` +
+    `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+};
+
+const hotp = (key: Buffer, counter: number) => {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+};
+
+// Accepts the previous and next step as well to allow for clock drift, and
+// returns the matching step so the caller can refuse to accept it twice.
+export const verifyTotp = (secret: string, code: unknown, lastUsedStep: number | null, now = Date.now()): number | null => {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code.trim())) {
+    return null;
+  }
+
+  const key = fromBase32(secret);
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = Buffer.from(hotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code.trim()))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+// Recovery codes and challenge tokens carry enough entropy that a plain
+// SHA-256 is a sufficient at-rest hash.
+export const hashMfaValue = (value: string) => {
+  return crypto.createHash('sha256').update(value.trim().toLowerCase().replace(/\s/g, '')).digest('hex');
+};
+
+export const generateRecoveryCodes = () => {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+};
+
+export const generateMfaToken = () => crypto.randomBytes(32).toString('hex');
@@ -0,0 +1,41 @@
+import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
+
+const BCRYPT_ROUNDS = 12;
+
+// Accounts created before bcrypt was introduced store a bare SHA-256 hex digest.
+const LEGACY_SHA256_PATTERN = /^[a-f0-9]{64}$/i;
+
+// Hash of a random secret, compared against when there is no stored hash so
+// that unknown emails take as long to reject as wrong passwords.
+const DUMMY_PASSWORD_HASH = '$2b$12$hRn.6lI0GL3LzMFyETLWqeizgklP1T2/pF4MxTgE8VN.Hi3Rlwp4i';
+
+export const hashPassword = async (password: string): Promise<string> => {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+};
+
+export const isLegacyPasswordHash = (storedHash: string): boolean => {
+  return LEGACY_SHA256_PATTERN.test(storedHash);
+};
+
+export const verifyPassword = async (
+  password: string,
+  storedHash: string
+): Promise<{ valid: boolean; needsRehash: boolean }> => {
+  if (!storedHash) {
+    await bcrypt.compare(password, DUMMY_PASSWORD_HASH);
+    return { valid: false, needsRehash: false };
+  }
+
+  if (isLegacyPasswordHash(storedHash)) {
+    const legacyHash = crypto.createHash('sha256').update(password).digest();
+    const valid = crypto.timingSafeEqual(legacyHash, Buffer.from(storedHash, 'hex'));
+    return { valid, needsRehash: valid };
+  }
+
+  const valid = await bcrypt.compare(password, storedHash);
+  return {
+    valid,
+    needsRehash: valid && bcrypt.getRounds(storedHash) < BCRYPT_ROUNDS
+  };
+};
@@ -0,0 +1,28 @@
+// 'student' is the plain voter role; the name predates the other roles and is
+// kept so existing memberships and sessions stay valid.
+export const ROLES = ['admin', 'election_officer', 'observer', 'candidate', 'student'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = {
+  access_admin_panel: ['admin', 'election_officer', 'observer'],
+  create_election: ['admin', 'election_officer'],
+  manage_elections: ['admin', 'election_officer'],
+  manage_candidates: ['admin', 'election_officer'],
+  view_live_turnout: ['admin', 'election_officer', 'observer'],
+  export_results: ['admin', 'election_officer', 'observer'],
+  certify_results: ['admin'],
+  view_audit_log: ['admin', 'observer'],
+  manage_members: ['admin'],
+  cast_vote: ['student', 'candidate']
+} satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const isRole = (value: unknown): value is Role => {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+};
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean => {
+  return !!role && (PERMISSIONS[permission] as readonly string[]).includes(role);
+};
@@ -0,0 +1,82 @@
+import { GroupLabel, MAX_CATEGORY_LENGTH, MAX_GROUP_NAME_LENGTH } from './memberGroups';
+import { EMAIL_PATTERN, RosterColumns, RosterRow, RosterSummary } from './csv';
+
+export const MAX_ROSTER_ROWS = 5000;
+export const MAX_MEMBER_NAME_LENGTH = 100;
+
+const isColumnIndex = (value: unknown): value is number => {
+  return Number.isInteger(value) && (value as number) >= 0;
+};
+
+export const isRosterColumns = (value: unknown): value is RosterColumns => {
+  const columns = value as RosterColumns;
+  return !!columns &&
+    isColumnIndex(columns.email) &&
+    (columns.name === null || isColumnIndex(columns.name)) &&
+    Array.isArray(columns.groups) &&
+    columns.groups.every(group =>
+      !!group &&
+      isColumnIndex(group.column) &&
+      typeof group.category === 'string' &&
+      group.category.trim().length > 0 &&
+      group.category.trim().length <= MAX_CATEGORY_LENGTH
+    );
+};
+
+export const isRosterRecords = (value: unknown): value is string[][] => {
+  return Array.isArray(value) &&
+    value.every(record => Array.isArray(record) && record.every(cell => typeof cell === 'string'));
+};
+
+const checkRow = (email: string, name: string, groups: GroupLabel[]) => {
+  if (!email) {
+    return 'Missing email';
+  }
+  if (!EMAIL_PATTERN.test(email)) {
+    return 'Invalid email address';
+  }
+  if (name.length > MAX_MEMBER_NAME_LENGTH) {
+    return `Name is longer than ${MAX_MEMBER_NAME_LENGTH} characters`;
+  }
+  const longGroup = groups.find(group => group.name.length > MAX_GROUP_NAME_LENGTH);
+  if (longGroup) {
+    return `${longGroup.category} is longer than ${MAX_GROUP_NAME_LENGTH} characters`;
+  }
+  return null;
+};
+
+// Reads each record with the given columns and checks it. Rows repeating an
+// email seen earlier in the file are duplicates; nothing is dropped silently.
+export const buildRoster = (records: string[][], columns: RosterColumns, hasHeader: boolean): RosterRow[] => {
+  const firstRow = hasHeader ? 1 : 0;
+  const seen = new Map<string, number>();
+
+  return records.slice(firstRow).map((record, index) => {
+    const row = index + firstRow + 1;
+    const cell = (column: number) => (record[column] || '').trim();
+    const email = cell(columns.email).toLowerCase();
+    const name = columns.name === null ? '' : cell(columns.name);
+    const groups = columns.groups
+      .map(group => ({ category: group.category.trim(), name: cell(group.column) }))
+      .filter(group => group.name);
+
+    const problem = checkRow(email, name, groups);
+    if (problem) {
+      return { row, email, name, groups, status: 'invalid' as const, reason: problem };
+    }
+
+    const firstSeen = seen.get(email);
+    if (firstSeen !== undefined) {
+      return { row, email, name, groups, status: 'duplicate' as const, reason: `Same email as row ${firstSeen}` };
+    }
+
+    seen.set(email, row);
+    return { row, email, name, groups, status: 'valid' as const, reason: null };
+  });
+};
+
+export const summarizeRoster = (rows: RosterRow[]): RosterSummary => ({
+  valid: rows.filter(row => row.status === 'valid').length,
+  invalid: rows.filter(row => row.status === 'invalid').length,
+  duplicate: rows.filter(row => row.status === 'duplicate').length
+});
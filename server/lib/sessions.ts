@@ -0,0 +1,14 @@
+// Sessions start with the 24 hours create_user_session gives them and are
+// pushed forward by the same amount on each renewal, but never past
+// SESSION_MAX_AGE_MS from sign-in.
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+export const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const renewedExpiry = (createdAt: string, now = Date.now()) => {
+  const maxExpiry = new Date(createdAt).getTime() + SESSION_MAX_AGE_MS;
+  return new Date(Math.min(now + SESSION_TTL_MS, maxExpiry));
+};
+
+// Columns safe to show the session owner or an admin. The token itself never
+// leaves the server.
+export const SESSION_COLUMNS = 'id, ip_address, user_agent, created_at, last_seen_at, expires_at';
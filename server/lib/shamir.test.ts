@@ -0,0 +1,59 @@
+// @vitest-environment node
+import crypto from 'crypto';
+import { describe, it, expect } from 'vitest';
+import { splitSecret, combineShares } from './shamir';
+
+// Every way of picking `size` of the given items, in order.
+const subsets = <T>(items: T[], size: number): T[][] => {
+  if (size === 0) {
+    return [[]];
+  }
+  return items.flatMap((item, i) => subsets(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+};
+
+describe('splitSecret and combineShares', () => {
+  const secret = crypto.randomBytes(32);
+
+  it('rebuilds the secret from any threshold of shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    for (const picked of subsets(shares, 3)) {
+      expect(combineShares(picked).equals(secret)).toBe(true);
+    }
+  });
+
+  it('rebuilds the secret from more shares than the threshold, in any order', () => {
+    const shares = splitSecret(secret, 5, 3);
+    expect(combineShares([shares[4], shares[1], shares[3], shares[0]]).equals(secret)).toBe(true);
+  });
+
+  it('does not rebuild the secret from fewer shares than the threshold', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    for (const picked of subsets(shares, 2)) {
+      expect(combineShares(picked).equals(secret)).toBe(false);
+    }
+  });
+
+  it('numbers the shares from 1 and keeps one value per secret byte', () => {
+    const shares = splitSecret(secret, 4, 2);
+    expect(shares.map(share => share[0])).toEqual([1, 2, 3, 4]);
+    expect(shares.every(share => share.length === secret.length + 1)).toBe(true);
+  });
+
+  it('hands out the secret itself when one share is enough', () => {
+    const shares = splitSecret(secret, 3, 1);
+    expect(shares.every(share => share.subarray(1).equals(secret))).toBe(true);
+  });
+
+  it('refuses impossible share configurations', () => {
+    expect(() => splitSecret(secret, 3, 4)).toThrow('Invalid share configuration');
+    expect(() => splitSecret(secret, 3, 0)).toThrow('Invalid share configuration');
+    expect(() => splitSecret(secret, 256, 2)).toThrow('Invalid share configuration');
+  });
+
+  it('refuses the same share twice', () => {
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('Shares must have distinct indexes');
+  });
+});
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+
+// Shamir secret sharing over GF(256), applied byte by byte. Each share is the
+// x coordinate (1-255) followed by one polynomial value per secret byte; any
+// `threshold` shares rebuild the secret and fewer reveal nothing about it.
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let value = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = value;
+    LOG[value] = i;
+    // Multiply by the generator 3 in GF(256) with the AES polynomial.
+    value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+const multiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+const divide = (a: number, b: number) => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]);
+
+export const splitSecret = (secret: Buffer, shareCount: number, threshold: number): Buffer[] => {
+  if (!(threshold >= 1 && threshold <= shareCount && shareCount <= 255)) {
+    throw new Error('Invalid share configuration');
+  }
+
+  const shares = Array.from({ length: shareCount }, (_, i) => {
+    const share = Buffer.alloc(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  secret.forEach((byte, position) => {
+    const coefficients = [byte, ...crypto.randomBytes(threshold - 1)];
+    shares.forEach(share => {
+      // Horner's rule, highest coefficient first.
+      let value = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        value = multiply(value, share[0]) ^ coefficients[c];
+      }
+      share[position + 1] = value;
+    });
+  });
+
+  return shares;
+};
+
+// Lagrange interpolation at x = 0.
+export const combineShares = (shares: Buffer[]): Buffer => {
+  const xs = shares.map(share => share[0]);
+  if (new Set(xs).size !== xs.length || xs.includes(0)) {
+    throw new Error('Shares must have distinct indexes');
+  }
+
+  const secret = Buffer.alloc(shares[0].length - 1);
+  for (let position = 0; position < secret.length; position++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      let basis = 1;
+      xs.forEach((x, j) => {
+        if (i !== j) {
+          basis = multiply(basis, divide(x, x ^ xs[i]));
+        }
+      });
+      value ^= multiply(share[position + 1], basis);
+    });
+    secret[position] = value;
+  }
+
+  return secret;
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { runInstantRunoff } from './tally';
+
+const repeat = (ranking: string[], times: number) => Array.from({ length: times }, () => ranking);
+
+describe('runInstantRunoff', () => {
+  it('elects a first-round majority without eliminating anyone', () => {
+    const result = runInstantRunoff(['a', 'b'], [...repeat(['a'], 3), ...repeat(['b'], 2)]);
+
+    expect(result.winner).toBe('a');
+    expect(result.rounds).toEqual([
+      { round: 1, counts: { a: 3, b: 2 }, exhausted: 0, eliminated: [], winner: 'a' }
+    ]);
+  });
+
+  it('transfers the ballots of the eliminated candidate to the next preference', () => {
+    const result = runInstantRunoff(['a', 'b', 'c'], [
+      ...repeat(['a'], 4),
+      ...repeat(['b', 'a'], 3),
+      ...repeat(['c', 'b'], 2)
+    ]);
+
+    expect(result.winner).toBe('b');
+    expect(result.rounds).toEqual([
+      { round: 1, counts: { a: 4, b: 3, c: 2 }, exhausted: 0, eliminated: ['c'], winner: null },
+      { round: 2, counts: { a: 4, b: 5 }, exhausted: 0, eliminated: [], winner: 'b' }
+    ]);
+  });
+
+  it('counts ballots with no continuing preference as exhausted', () => {
+    const result = runInstantRunoff(['a', 'b', 'c'], [
+      ...repeat(['a'], 2),
+      ...repeat(['b'], 2),
+      ['c']
+    ]);
+
+    expect(result.rounds[1]).toMatchObject({ counts: { a: 2, b: 2 }, exhausted: 1 });
+    expect(result.rounds[2]).toMatchObject({ counts: { b: 2 }, exhausted: 3, winner: 'b' });
+  });
+
+  it('breaks a tie for last place by first preferences', () => {
+    const result = runInstantRunoff(['a', 'b', 'c'], [
+      ...repeat(['a'], 3),
+      ...repeat(['b'], 2),
+      ['c', 'b']
+    ]);
+
+    expect(result.rounds[1]).toMatchObject({ counts: { a: 3, b: 3 }, eliminated: ['b'] });
+    expect(result.winner).toBe('a');
+  });
+
+  it('breaks a tie in first preferences by candidate order', () => {
+    const result = runInstantRunoff(['a', 'b'], [['a'], ['b']]);
+
+    expect(result.rounds[0].eliminated).toEqual(['a']);
+    expect(result.winner).toBe('b');
+  });
+
+  it('skips rankings of candidates that are not standing', () => {
+    const result = runInstantRunoff(['a', 'b'], [['x', 'a'], ['b'], ['a']]);
+
+    expect(result.rounds[0].counts).toEqual({ a: 2, b: 1 });
+    expect(result.winner).toBe('a');
+  });
+
+  it('has no rounds and no winner without ballots', () => {
+    expect(runInstantRunoff(['a', 'b'], [])).toEqual({ rounds: [], winner: null });
+  });
+});
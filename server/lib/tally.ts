@@ -0,0 +1,199 @@
+export const VOTING_METHODS = ['plurality', 'ranked_choice', 'approval', 'referendum'] as const;
+
+export type VotingMethod = typeof VOTING_METHODS[number];
+
+export const isVotingMethod = (value: unknown): value is VotingMethod => {
+  return typeof value === 'string' && (VOTING_METHODS as readonly string[]).includes(value);
+};
+
+// 'decrypt' opens each ballot at tally time; 'homomorphic' adds encrypted
+// choices together and only decrypts the totals, which rules out ranked
+// ballots since an instant runoff needs every individual ranking.
+export const TALLY_MODES = ['decrypt', 'homomorphic'] as const;
+
+export type TallyMode = typeof TALLY_MODES[number];
+
+export const isTallyMode = (value: unknown): value is TallyMode => {
+  return typeof value === 'string' && (TALLY_MODES as readonly string[]).includes(value);
+};
+
+// A referendum ballot is a fixed set of candidates, one per option, created
+// with the election so casting and tallying work as for a plurality vote.
+export const REFERENDUM_OPTIONS = [
+  { option: 'for', name: 'For' },
+  { option: 'against', name: 'Against' },
+  { option: 'abstain', name: 'Abstain' }
+] as const;
+
+export type ReferendumOption = typeof REFERENDUM_OPTIONS[number]['option'];
+
+// Share of For + Against votes a motion needs, as [numerator, denominator].
+export const PASS_THRESHOLDS = {
+  simple: [1, 2],
+  three_fifths: [3, 5],
+  two_thirds: [2, 3],
+  three_quarters: [3, 4]
+} as const;
+
+export type PassThreshold = keyof typeof PASS_THRESHOLDS;
+
+export const isPassThreshold = (value: unknown): value is PassThreshold => {
+  return typeof value === 'string' && value in PASS_THRESHOLDS;
+};
+
+export interface ReferendumOutcome {
+  votesFor: number;
+  votesAgainst: number;
+  abstentions: number;
+  totalBallots: number;
+  eligibleVoters: number;
+  quorumPercent: number | null;
+  quorumMet: boolean;
+  passThreshold: PassThreshold;
+  thresholdMet: boolean;
+  passed: boolean;
+}
+
+// Abstentions count towards quorum but not towards the threshold. A motion
+// must also outnumber Against, so an exact half never passes a simple majority.
+export const decideReferendum = (
+  counts: { [option in ReferendumOption]: number },
+  eligibleVoters: number,
+  quorumPercent: number | null,
+  passThreshold: PassThreshold
+): ReferendumOutcome => {
+  const totalBallots = counts.for + counts.against + counts.abstain;
+  const [numerator, denominator] = PASS_THRESHOLDS[passThreshold];
+  const decisive = counts.for + counts.against;
+
+  const quorumMet = quorumPercent === null || totalBallots * 100 >= quorumPercent * eligibleVoters;
+  const thresholdMet = decisive > 0 &&
+    counts.for * denominator >= numerator * decisive &&
+    counts.for > counts.against;
+
+  return {
+    votesFor: counts.for,
+    votesAgainst: counts.against,
+    abstentions: counts.abstain,
+    totalBallots,
+    eligibleVoters,
+    quorumPercent,
+    quorumMet,
+    passThreshold,
+    thresholdMet,
+    passed: quorumMet && thresholdMet
+  };
+};
+
+export type SeatStatus = 'elected' | 'tied' | 'not_elected';
+
+// Fills `seats` places from the highest counts. Candidates level with the last
+// seat-winner are all reported as tied when they would not fit in the remaining
+// seats, so a tie is never silently resolved by sort order.
+export const assignSeats = <T extends { votes: number }>(results: T[], seats: number) => {
+  const sorted = [...results].sort((a, b) => b.votes - a.votes);
+  const cutoff = sorted[seats - 1]?.votes;
+
+  // Fewer candidates received votes than there are seats: everyone with a vote is in.
+  if (!cutoff) {
+    return sorted.map(result => ({
+      ...result,
+      status: (result.votes > 0 ? 'elected' : 'not_elected') as SeatStatus
+    }));
+  }
+
+  const above = sorted.filter(result => result.votes > cutoff).length;
+  const level = sorted.filter(result => result.votes === cutoff).length;
+  const isTie = above + level > seats;
+
+  return sorted.map(result => {
+    let status: SeatStatus = 'not_elected';
+    if (result.votes > cutoff) {
+      status = 'elected';
+    } else if (result.votes === cutoff) {
+      status = isTie ? 'tied' : 'elected';
+    }
+    return { ...result, status };
+  });
+};
+
+export interface RunoffRound {
+  round: number;
+  counts: { [candidateId: string]: number };
+  exhausted: number;
+  eliminated: string[];
+  winner: string | null;
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winner: string | null;
+}
+
+const countFirstPreferences = (rankings: string[][], candidateIds: string[]) => {
+  const counts: { [candidateId: string]: number } = {};
+  candidateIds.forEach(id => { counts[id] = 0; });
+  rankings.forEach(ranking => {
+    if (ranking[0] && ranking[0] in counts) {
+      counts[ranking[0]] += 1;
+    }
+  });
+  return counts;
+};
+
+// Ties for last place are broken by fewer first-preference votes, then by the
+// candidate order passed in, so the same ballots always produce the same rounds.
+const pickElimination = (
+  continuing: string[],
+  counts: { [candidateId: string]: number },
+  firstPreferences: { [candidateId: string]: number }
+) => {
+  return continuing.reduce((lowest, candidateId) => {
+    if (counts[candidateId] !== counts[lowest]) {
+      return counts[candidateId] < counts[lowest] ? candidateId : lowest;
+    }
+    return firstPreferences[candidateId] < firstPreferences[lowest] ? candidateId : lowest;
+  });
+};
+
+export const runInstantRunoff = (candidateIds: string[], rankings: string[][]): RunoffResult => {
+  const rounds: RunoffRound[] = [];
+
+  if (rankings.length === 0) {
+    return { rounds, winner: null };
+  }
+
+  const firstPreferences = countFirstPreferences(rankings, candidateIds);
+  let continuing = [...candidateIds];
+
+  while (continuing.length > 0) {
+    const counts: { [candidateId: string]: number } = {};
+    continuing.forEach(id => { counts[id] = 0; });
+    let exhausted = 0;
+
+    rankings.forEach(ranking => {
+      const choice = ranking.find(candidateId => candidateId in counts);
+      if (choice) {
+        counts[choice] += 1;
+      } else {
+        exhausted += 1;
+      }
+    });
+
+    const activeBallots = rankings.length - exhausted;
+    const leader = continuing.reduce((best, id) => (counts[id] > counts[best] ? id : best));
+    const hasMajority = activeBallots > 0 && counts[leader] * 2 > activeBallots;
+
+    if (hasMajority || continuing.length === 1) {
+      const winner = activeBallots > 0 ? leader : null;
+      rounds.push({ round: rounds.length + 1, counts, exhausted, eliminated: [], winner });
+      return { rounds, winner };
+    }
+
+    const eliminated = pickElimination(continuing, counts, firstPreferences);
+    rounds.push({ round: rounds.length + 1, counts, exhausted, eliminated: [eliminated], winner: null });
+    continuing = continuing.filter(id => id !== eliminated);
+  }
+
+  return { rounds, winner: null };
+};
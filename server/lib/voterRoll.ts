@@ -0,0 +1,195 @@
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { PERMISSIONS, hasPermission } from './permissions';
+import { getMembershipsByUser } from './memberGroups';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+// 'all' admits every active member with a voting role; 'list' admits only the
+// members included on the roll; 'groups' admits members of the roll's member
+// groups. Excluded members are never eligible.
+export const VOTER_ROLL_MODES = ['all', 'list', 'groups'] as const;
+
+export type VoterRollMode = typeof VOTER_ROLL_MODES[number];
+
+export const isVoterRollMode = (value: unknown): value is VoterRollMode => {
+  return typeof value === 'string' && (VOTER_ROLL_MODES as readonly string[]).includes(value);
+};
+
+export type RollEntryType = 'include' | 'exclude';
+
+export interface RollMember {
+  id: string;
+  email: string;
+  name: string;
+}
+
+interface RollElection {
+  id: string;
+  organization_id: string;
+  voter_roll: VoterRollMode;
+}
+
+export interface RollGroup {
+  id: string;
+  category: string;
+}
+
+// A member matches a group roll when, for every category the roll selects
+// from, they are in at least one of its selected groups, so selecting
+// "Final year" and "CS" admits only final-year CS students.
+export const matchesRollGroups = (rollGroups: RollGroup[], memberGroupIds: Set<string> | undefined) => {
+  if (rollGroups.length === 0 || !memberGroupIds) {
+    return false;
+  }
+
+  const categories = new Set(rollGroups.map(group => group.category.toLowerCase()));
+  return [...categories].every(category => rollGroups.some(group =>
+    group.category.toLowerCase() === category && memberGroupIds.has(group.id)
+  ));
+};
+
+export const isOnRoll = (mode: VoterRollMode, entryType: RollEntryType | undefined, inRollGroups = false) => {
+  if (entryType === 'exclude') {
+    return false;
+  }
+
+  return mode === 'all' ||
+    (mode === 'list' && entryType === 'include') ||
+    (mode === 'groups' && inRollGroups);
+};
+
+// Active members of the organization whose role may vote at all.
+export const getVotingMembers = async (organizationId: string): Promise<RollMember[]> => {
+  const { data, error } = await supabase
+    .from('user_organizations')
+    .select(`
+      auth_users (
+        id,
+        email,
+        name
+      )
+    `)
+    .eq('organization_id', organizationId)
+    .eq('is_active', true)
+    .in('role', PERMISSIONS.cast_vote);
+
+  if (error) {
+    throw new Error(`Failed to get voting members: ${error.message}`);
+  }
+
+  return (data || [])
+    .map(membership => Array.isArray(membership.auth_users) ? membership.auth_users[0] : membership.auth_users)
+    .filter((user): user is RollMember => !!user);
+};
+
+export const getRollEntries = async (electionId: string) => {
+  const { data, error } = await supabase
+    .from('election_roll_entries')
+    .select('user_id, entry_type')
+    .eq('election_id', electionId);
+
+  if (error) {
+    throw new Error(`Failed to get voter roll: ${error.message}`);
+  }
+
+  return new Map((data || []).map(entry => [entry.user_id as string, entry.entry_type as RollEntryType]));
+};
+
+export const getRollGroups = async (electionIds: string[]) => {
+  const rollGroups = new Map<string, RollGroup[]>();
+  if (electionIds.length === 0) {
+    return rollGroups;
+  }
+
+  const { data, error } = await supabase
+    .from('election_roll_groups')
+    .select(`
+      election_id,
+      member_groups (
+        id,
+        category
+      )
+    `)
+    .in('election_id', electionIds);
+
+  if (error) {
+    throw new Error(`Failed to get voter roll groups: ${error.message}`);
+  }
+
+  (data || []).forEach(row => {
+    const group = Array.isArray(row.member_groups) ? row.member_groups[0] : row.member_groups;
+    if (group) {
+      rollGroups.set(row.election_id, [...(rollGroups.get(row.election_id) || []), group]);
+    }
+  });
+
+  return rollGroups;
+};
+
+export const listEligibleVoters = async (election: RollElection) => {
+  const [members, entries, rollGroups] = await Promise.all([
+    getVotingMembers(election.organization_id),
+    getRollEntries(election.id),
+    getRollGroups([election.id])
+  ]);
+
+  const groups = rollGroups.get(election.id) || [];
+  const memberships = election.voter_roll === 'groups'
+    ? await getMembershipsByUser(groups.map(group => group.id))
+    : new Map<string, Set<string>>();
+
+  return members.filter(member => isOnRoll(
+    election.voter_roll,
+    entries.get(member.id),
+    matchesRollGroups(groups, memberships.get(member.id))
+  ));
+};
+
+// Which of the given elections the signed-in member may vote in. Elections of
+// other organizations are never returned.
+export const getEligibleElectionIds = async (
+  auth: { userId: string; organizationId: string; role: string },
+  electionIds: string[]
+) => {
+  const eligible = new Set<string>();
+  if (electionIds.length === 0 || !hasPermission(auth.role, 'cast_vote')) {
+    return eligible;
+  }
+
+  const [
+    { data: elections, error: electionsError },
+    { data: entries, error: entriesError },
+    { data: memberships, error: membershipsError }
+  ] = await Promise.all([
+    supabase.from('elections').select('id, voter_roll')
+      .in('id', electionIds).eq('organization_id', auth.organizationId),
+    supabase.from('election_roll_entries').select('election_id, entry_type')
+      .in('election_id', electionIds).eq('user_id', auth.userId),
+    supabase.from('member_group_memberships').select('group_id')
+      .eq('user_id', auth.userId)
+  ]);
+
+  if (electionsError || entriesError || membershipsError) {
+    throw new Error(`Failed to check eligibility: ${(electionsError || entriesError || membershipsError)!.message}`);
+  }
+
+  const entryTypes = new Map((entries || []).map(entry => [entry.election_id as string, entry.entry_type as RollEntryType]));
+  const memberGroupIds = new Set((memberships || []).map(membership => membership.group_id as string));
+  const rollGroups = await getRollGroups(
+    (elections || []).filter(election => election.voter_roll === 'groups').map(election => election.id)
+  );
+
+  for (const election of elections || []) {
+    const inRollGroups = matchesRollGroups(rollGroups.get(election.id) || [], memberGroupIds);
+    if (isOnRoll(election.voter_roll, entryTypes.get(election.id), inRollGroups)) {
+      eligible.add(election.id);
+    }
+  }
+
+  return eligible;
+};
@@ -0,0 +1,253 @@
+import { Request, Response, NextFunction } from 'express';
+import { createClient } from '@supabase/supabase-js';
+import dotenv from 'dotenv';
+import { hasPermission, Permission } from '../lib/permissions';
+import { hashMfaValue, StepUpAction } from '../lib/mfa';
+
+dotenv.config({ path: '.env' });
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL || 'https://xpcemfyksgaxthzzdwiv.supabase.co';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabase = createClient(supabaseUrl, serviceRoleKey || 'invalid_key_will_cause_error');
+
+export interface RequestAuth {
+  userId: string;
+  organizationId: string;
+  role: string;
+  sessionToken: string;
+}
+
+declare module 'express-serve-static-core' {
+  interface Request {
+    auth?: RequestAuth;
+  }
+}
+
+const getBearerToken = (req: Request): string | null => {
+  const header = req.get('Authorization');
+  if (!header) return null;
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) return null;
+
+  return token.trim();
+};
+
+const forbidden = (res: Response, message: string) => {
+  return res.status(403).json({
+    success: false,
+    message
+  });
+};
+
+const notFound = (res: Response, message: string) => {
+  return res.status(404).json({
+    success: false,
+    message
+  });
+};
+
+// Resolves the session token and rejects requests whose body claims to act
+// for a different user or organization than the session belongs to.
+export const requireAuth = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const sessionToken = getBearerToken(req);
+
+    if (!sessionToken) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required'
+      });
+    }
+
+    const { data, error } = await supabase.rpc('validate_session', {
+      p_session_token: sessionToken
+    });
+
+    const session = Array.isArray(data) ? data[0] : data;
+
+    if (error || !session || !session.is_valid) {
+      return res.status(401).json({
+        success: false,
+        message: 'Session is invalid or has expired'
+      });
+    }
+
+    req.auth = {
+      userId: session.user_id,
+      organizationId: session.organization_id,
+      role: session.role,
+      sessionToken
+    };
+
+    const { userId, organizationId } = req.body || {};
+
+    if (userId !== undefined && userId !== req.auth.userId) {
+      return forbidden(res, 'You cannot act on behalf of another user');
+    }
+
+    if (organizationId !== undefined && organizationId !== req.auth.organizationId) {
+      return forbidden(res, 'You do not have access to this organization');
+    }
+
+    next();
+  } catch (error) {
+    console.error('Authentication error:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Internal server error'
+    });
+  }
+};
+
+export const requirePermission = (permission: Permission) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth || !hasPermission(req.auth.role, permission)) {
+      return forbidden(res, 'You do not have permission to perform this action');
+    }
+    next();
+  };
+};
+
+// Sensitive actions also need a single-use token from POST /api/auth/mfa/step-up,
+// sent in the X-MFA-Token header. The token is spent whether or not the action
+// then succeeds.
+export const requireStepUp = (action: StepUpAction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const mfaToken = req.get('X-MFA-Token');
+
+      if (!req.auth || !mfaToken) {
+        return res.status(403).json({
+          success: false,
+          message: 'Confirm this action with your two-factor authentication code',
+          mfaRequired: true
+        });
+      }
+
+      const { data: consumed, error } = await supabase
+        .from('mfa_tokens')
+        .update({ used: true })
+        .eq('token', hashMfaValue(mfaToken))
+        .eq('user_id', req.auth.userId)
+        .eq('action', action)
+        .eq('used', false)
+        .gt('expires_at', new Date().toISOString())
+        .select('id');
+
+      if (error || !consumed || consumed.length === 0) {
+        return res.status(403).json({
+          success: false,
+          message: 'Two-factor confirmation is invalid or has expired',
+          mfaRequired: true
+        });
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Param handlers below are registered with router.param() so that every route
+// declaring the parameter is checked against the caller's session.
+
+export const matchUserParam = (req: Request, res: Response, next: NextFunction, userId: string) => {
+  if (!req.auth || userId !== req.auth.userId) {
+    return forbidden(res, 'You cannot access another user\'s data');
+  }
+  next();
+};
+
+export const matchOrganizationParam = (req: Request, res: Response, next: NextFunction, organizationId: string) => {
+  if (!req.auth || organizationId !== req.auth.organizationId) {
+    return forbidden(res, 'You do not have access to this organization');
+  }
+  next();
+};
+
+export const matchElectionParam = async (req: Request, res: Response, next: NextFunction, electionId: string) => {
+  try {
+    const { data: election, error } = await supabase
+      .from('elections')
+      .select('id, organization_id')
+      .eq('id', electionId)
+      .maybeSingle();
+
+    if (error || !election || !req.auth || election.organization_id !== req.auth.organizationId) {
+      return notFound(res, 'Election not found');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+interface OwningElection {
+  organization_id: string;
+}
+
+// Supabase returns an embedded parent row as an object or a one-item array.
+const owningElection = (elections: OwningElection | OwningElection[] | null | undefined) => {
+  return Array.isArray(elections) ? elections[0] : elections;
+};
+
+export const matchCandidateParam = async (req: Request, res: Response, next: NextFunction, candidateId: string) => {
+  try {
+    const { data: candidate, error } = await supabase
+      .from('candidates')
+      .select('id, elections!inner(organization_id)')
+      .eq('id', candidateId)
+      .maybeSingle();
+
+    const election = owningElection(candidate?.elections);
+
+    if (error || !candidate || !req.auth || election?.organization_id !== req.auth.organizationId) {
+      return notFound(res, 'Candidate not found');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const matchContestParam = async (req: Request, res: Response, next: NextFunction, contestId: string) => {
+  try {
+    const { data: contest, error } = await supabase
+      .from('contests')
+      .select('id, elections!inner(organization_id)')
+      .eq('id', contestId)
+      .maybeSingle();
+
+    const election = owningElection(contest?.elections);
+
+    if (error || !contest || !req.auth || election?.organization_id !== req.auth.organizationId) {
+      return notFound(res, 'Contest not found');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const matchGroupParam = async (req: Request, res: Response, next: NextFunction, groupId: string) => {
+  try {
+    const { data: group, error } = await supabase
+      .from('member_groups')
+      .select('id, organization_id')
+      .eq('id', groupId)
+      .maybeSingle();
+
+    if (error || !group || !req.auth || group.organization_id !== req.auth.organizationId) {
+      return notFound(res, 'Member group not found');
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
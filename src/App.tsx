@@ -6,11 +6,13 @@ import { ProtectedRoute } from '@/components/ProtectedRoute';
 import Navbar from '@/components/Navbar';
 import Index from '@/pages/Index';
 import Login from '@/pages/Login';
+import ResetPassword from '@/pages/ResetPassword';
 import Dashboard from '@/pages/Dashboard';
 import Admin from '@/pages/Admin';
 import Vote from '@/pages/Vote';
 import Results from '@/pages/Results';
 import Profile from '@/pages/Profile';
+import Trustee from '@/pages/Trustee';
 
 import ElectionsList from '@/pages/ElectionsList';
 import Candidates from '@/pages/Candidates';
@@ -26,25 +28,26 @@ function App() {
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Login />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
             
             <Route path="/login" element={<Navigate to="/auth" replace />} />
             <Route path="/register" element={<Navigate to="/auth" replace />} />
             <Route path="/saas" element={<Navigate to="/" replace />} />
             
             <Route path="/dashboard" element={
-              <ProtectedRoute requiredRole="student">
+              <ProtectedRoute requiredPermission="cast_vote">
                 <Dashboard />
               </ProtectedRoute>
             } />
             
             <Route path="/admin" element={
-              <ProtectedRoute requiredRole="admin">
+              <ProtectedRoute requiredPermission="access_admin_panel">
                 <Admin />
               </ProtectedRoute>
             } />
             
             <Route path="/vote/:electionId" element={
-              <ProtectedRoute requiredRole="student">
+              <ProtectedRoute requiredPermission="cast_vote">
                 <Vote />
               </ProtectedRoute>
             } />
@@ -63,6 +66,12 @@ function App() {
               </ProtectedRoute>
             } />
             
+            <Route path="/trustee" element={
+              <ProtectedRoute>
+                <Trustee />
+              </ProtectedRoute>
+            } />
+            
             <Route path="/elections" element={
               <ProtectedRoute>
                 <ElectionsList />
@@ -70,13 +79,13 @@ function App() {
             } />
             
             <Route path="/admin/elections/:electionId/candidates" element={
-              <ProtectedRoute requiredRole="admin">
+              <ProtectedRoute requiredPermission="manage_candidates">
                 <Candidates />
               </ProtectedRoute>
             } />
             
             <Route path="/admin/invitations" element={
-              <ProtectedRoute requiredRole="admin">
+              <ProtectedRoute requiredPermission="manage_members">
                 <InvitationManager />
               </ProtectedRoute>
             } />
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Menu, X, User, FileText, LogOut, Shield } from "lucide-react";
+import { Menu, X, User, FileText, LogOut, Shield, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -15,13 +15,15 @@ import { Link, useNavigate, useLocation } from "react-router-dom";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/contexts/AuthContext";
+import { getRoleLabel } from "@/lib/permissions";
 
 export default function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
-  const { user, organization, userRole, isAuthenticated, logout } = useAuth();
+  const { user, organization, userRole, isAuthenticated, logout, hasPermission } = useAuth();
+  const canAccessAdminPanel = hasPermission('access_admin_panel');
 
   const handleLogin = () => {
       navigate('/auth');
@@ -105,15 +107,15 @@ export default function Navbar() {
                 <img src="/logo.png" alt="E-Matdaan" className="h-12 w-auto transition-transform group-hover:scale-105" />
                 <span className="text-2xl font-bold text-gray-900 tracking-tight">E-Matdaan</span>
               </Link>
-              {isAuthenticated && userRole === 'admin' && (
+              {isAuthenticated && canAccessAdminPanel && (
                 <Badge className="bg-purple-500 hover:bg-purple-600 text-white px-3 py-1 text-xs font-medium">
-                  Admin
+                  {getRoleLabel(userRole)}
                 </Badge>
               )}
             </div>
 
             <div className="hidden lg:flex items-center space-x-1">
-              {(isAuthenticated && userRole !== 'admin' ? authenticatedNavItems : navItems).map((item) => (
+              {(isAuthenticated && !canAccessAdminPanel ? authenticatedNavItems : navItems).map((item) => (
                 <Link 
                   key={item.label}
                   to={item.href}
@@ -135,7 +137,7 @@ export default function Navbar() {
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent align="end" className="w-56" title="User Menu">
-                    {userRole === 'admin' ? (
+                    {canAccessAdminPanel ? (
                       <DropdownMenuItem onClick={() => navigate('/admin')}>
                         <Shield className="h-4 w-4 mr-2" />
                         Admin Panel
@@ -150,6 +152,10 @@ export default function Navbar() {
                       <User className="h-4 w-4 mr-2" />
                       Profile Settings
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate('/trustee')}>
+                      <KeyRound className="h-4 w-4 mr-2" />
+                      Trustee Duties
+                    </DropdownMenuItem>
                     <DropdownMenuSeparator />
                     <DropdownMenuItem onClick={handleLogout}>
                       <LogOut className="h-4 w-4 mr-2" />
@@ -189,15 +195,15 @@ export default function Navbar() {
                     <div className="flex items-center space-x-3 mb-8">
                       <img src="/logo.png" alt="E-Matdaan" className="h-8 w-auto" />
                       <span className="text-xl font-bold text-gray-900">E-Matdaan</span>
-                      {isAuthenticated && userRole === 'admin' && (
+                      {isAuthenticated && canAccessAdminPanel && (
                         <Badge className="bg-purple-500 hover:bg-purple-600 text-white px-2 py-1 text-xs font-medium">
-                          Admin
+                          {getRoleLabel(userRole)}
                         </Badge>
                       )}
                     </div>
 
                     <nav className="flex-1 space-y-2">
-                      {(isAuthenticated && userRole !== 'admin' ? authenticatedNavItems : navItems).map((item) => (
+                      {(isAuthenticated && !canAccessAdminPanel ? authenticatedNavItems : navItems).map((item) => (
                         <Link 
                           key={item.label}
                           to={item.href}
@@ -219,7 +225,7 @@ export default function Navbar() {
                             <p className="text-sm font-medium text-gray-900">{user?.name || user?.email}</p>
                             <p className="text-xs text-gray-500">{organization?.name}</p>
                           </div>
-                          {userRole === 'admin' ? (
+                          {canAccessAdminPanel ? (
                             <Button 
                               variant="outline" 
                               className="w-full justify-start"
@@ -256,6 +262,17 @@ export default function Navbar() {
                             <User className="h-4 w-4 mr-2" />
                             Profile Settings
                           </Button>
+                          <Button 
+                            variant="outline" 
+                            className="w-full justify-start"
+                            onClick={() => {
+                              navigate('/trustee');
+                              setIsMenuOpen(false);
+                            }}
+                          >
+                            <KeyRound className="h-4 w-4 mr-2" />
+                            Trustee Duties
+                          </Button>
                           <Button 
                             variant="outline" 
                             className="w-full justify-start text-red-600 hover:text-red-700"
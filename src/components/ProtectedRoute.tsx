@@ -2,17 +2,20 @@ import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Loader2 } from 'lucide-react';
+import { getHomeRoute, Permission } from '@/lib/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
-  requiredRole?: 'admin' | 'student';
+  requiredRole?: string;
+  requiredPermission?: Permission;
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
   children, 
-  requiredRole 
+  requiredRole,
+  requiredPermission
 }) => {
-  const { isAuthenticated, isLoading, userRole } = useAuth();
+  const { isAuthenticated, isLoading, userRole, hasPermission } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -30,12 +33,9 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return <Navigate to="/auth" state={{ from: location }} replace />;
   }
 
-  if (requiredRole && userRole !== requiredRole) {
-    if (userRole === 'admin') {
-      return <Navigate to="/admin" replace />;
-    } else {
-      return <Navigate to="/dashboard" replace />;
-    }
+  if ((requiredRole && userRole !== requiredRole) ||
+      (requiredPermission && !hasPermission(requiredPermission))) {
+    return <Navigate to={getHomeRoute(userRole)} replace />;
   }
   return <>{children}</>;
 }; 
\ No newline at end of file
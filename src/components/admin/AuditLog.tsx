@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FileText, Download, Loader2, ShieldCheck, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { auditApi, AuditEntry, AuditFilters, AuditVerification, AUDIT_ACTIONS, AuditAction } from '@/lib/auditApi';
+
+const PAGE_SIZE = 50;
+
+const formatAction = (action: string) => action.replace(/_/g, ' ').replace(/^./, char => char.toUpperCase());
+
+const BREAK_REASONS = {
+  missing_entry: 'is missing',
+  broken_link: 'does not link to the entry before it',
+  altered_entry: 'was altered after it was written'
+};
+
+const describeVerification = (verification: AuditVerification) => {
+  const { chain, checkpoints } = verification;
+  if (chain.firstBreak) {
+    return `Entry #${chain.firstBreak.sequence} ${BREAK_REASONS[chain.firstBreak.reason]}. ${chain.checkedEntries} entries before it are intact.`;
+  }
+
+  const failed = checkpoints.filter(checkpoint => !checkpoint.signatureValid || !checkpoint.matchesChain);
+  if (failed.length > 0) {
+    return `${failed.length} signed checkpoint${failed.length === 1 ? ' no longer matches' : 's no longer match'} the log, starting at entry #${failed[0].sequence}.`;
+  }
+
+  return `All ${chain.checkedEntries} entries are intact and match ${checkpoints.length} signed checkpoint${checkpoints.length === 1 ? '' : 's'}.`;
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const formatDetails = (details: Record<string, unknown>) => {
+  return Object.entries(details)
+    .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value)}`)
+    .join(' • ');
+};
+
+interface AuditLogProps {
+  organizationId: string;
+}
+
+export const AuditLog: React.FC<AuditLogProps> = ({ organizationId }) => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState<'csv' | 'checkpoints' | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [verification, setVerification] = useState<AuditVerification | null>(null);
+
+  // Date inputs give a day; the end of the range includes that whole day.
+  const filters: AuditFilters = {
+    action: action === 'all' ? undefined : action,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [organizationId, page, action, from, to]);
+
+  const loadEntries = async () => {
+    try {
+      setLoading(true);
+      const result = await auditApi.getAuditLog(organizationId, filters, page, PAGE_SIZE);
+      setEntries(result.entries);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Failed to load audit log:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to load audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting('csv');
+      downloadBlob(await auditApi.exportAuditLog(organizationId, filters), `audit-log-${organizationId}.csv`);
+    } catch (error) {
+      console.error('Failed to export audit log:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportCheckpoints = async () => {
+    try {
+      setExporting('checkpoints');
+      downloadBlob(await auditApi.exportCheckpoints(organizationId), `audit-checkpoints-${organizationId}.json`);
+    } catch (error) {
+      console.error('Failed to export audit checkpoints:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export audit checkpoints",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      setVerification(await auditApi.verifyAuditLog(organizationId));
+    } catch (error) {
+      console.error('Failed to verify audit log:', error);
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Failed to verify audit log",
+        variant: "destructive"
+      });
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg text-gray-800 flex items-center">
+              <FileText className="h-5 w-5 mr-2 text-blue-600" />
+              Audit Log
+            </CardTitle>
+            <CardDescription className="text-sm">Every administrative action, sign-in and ballot cast in your organization</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={handleVerify} disabled={verifying} className="h-8 text-xs">
+              {verifying ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <ShieldCheck className="h-3 w-3 mr-1" />}
+              Verify Integrity
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportCheckpoints} disabled={exporting !== null} className="h-8 text-xs">
+              {exporting === 'checkpoints' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+              Checkpoints
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={exporting !== null} className="h-8 text-xs">
+              {exporting === 'csv' ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Download className="h-3 w-3 mr-1" />}
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {verification && (
+          <div className={`flex items-start space-x-3 rounded-lg border p-3 text-sm ${verification.valid ? 'border-green-200 bg-green-50 text-green-700' : 'border-red-200 bg-red-50 text-red-700'}`}>
+            {verification.valid ? <ShieldCheck className="h-5 w-5 flex-shrink-0" /> : <ShieldAlert className="h-5 w-5 flex-shrink-0" />}
+            <span>{describeVerification(verification)}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="audit-action" className="text-xs">Action</Label>
+            <Select value={action} onValueChange={(value) => { setAction(value as AuditAction | 'all'); setPage(1); }}>
+              <SelectTrigger id="audit-action" className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent title="Audit action">
+                <SelectItem value="all">All actions</SelectItem>
+                {AUDIT_ACTIONS.map(auditAction => (
+                  <SelectItem key={auditAction} value={auditAction}>{formatAction(auditAction)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPage(1); }} className="h-8 text-xs" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => { setTo(e.target.value); setPage(1); }} className="h-8 text-xs" />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Loading audit log...
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-8 text-sm text-gray-500">No audit entries match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">#</TableHead>
+                <TableHead className="text-xs">Time</TableHead>
+                <TableHead className="text-xs">Action</TableHead>
+                <TableHead className="text-xs">Actor</TableHead>
+                <TableHead className="text-xs">Source</TableHead>
+                <TableHead className="text-xs">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell className="text-xs text-gray-500" title={entry.entry_hash}>{entry.sequence}</TableCell>
+                  <TableCell className="text-xs whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-xs whitespace-nowrap">{formatAction(entry.action)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {entry.actor ? (
+                      <>
+                        <p className="font-medium text-gray-900">{entry.actor.name}</p>
+                        <p className="text-gray-500">{entry.actor.email}</p>
+                      </>
+                    ) : '-'}
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600">
+                    <p>{entry.ip_address || '-'}</p>
+                    <p className="text-gray-400 truncate max-w-[12rem]" title={entry.user_agent || ''}>{entry.user_agent}</p>
+                  </TableCell>
+                  <TableCell className="text-xs text-gray-600 break-all">{formatDetails(entry.details)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-gray-600">
+          <span>{total} entr{total === 1 ? 'y' : 'ies'}</span>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setPage(page - 1)} disabled={page <= 1 || loading}>
+              Previous
+            </Button>
+            <span>Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setPage(page + 1)} disabled={page >= pageCount || loading}>
+              Next
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { groupApi, groupByCategory, GroupTurnout as GroupTurnoutRow } from '@/lib/groupApi';
+
+interface GroupTurnoutProps {
+  electionId: string;
+  electionName: string;
+}
+
+export const GroupTurnout: React.FC<GroupTurnoutProps> = ({ electionId, electionName }) => {
+  const [turnout, setTurnout] = useState<GroupTurnoutRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTurnout = async () => {
+    try {
+      setError(null);
+      setTurnout(null);
+      setTurnout(await groupApi.getGroupTurnout(electionId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load group turnout');
+    }
+  };
+
+  // Groups with no one on the voter roll say nothing about turnout.
+  const rows = (turnout || []).filter(group => group.eligible > 0);
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadTurnout()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs">
+          <BarChart3 className="h-3 w-3 mr-1" />
+          Turnout
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md" title="Turnout by Group">
+        <DialogHeader>
+          <DialogTitle>Turnout by Group</DialogTitle>
+          <DialogDescription>
+            Members on the voter roll of {electionName} who have voted, by member group.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !turnout ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No members of any group are on the voter roll.</p>
+        ) : (
+          <div className="space-y-4">
+            {groupByCategory(rows).map(([category, groups]) => (
+              <div key={category} className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">{category}</p>
+                {groups.map(group => (
+                  <div key={group.id} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>{group.name}</span>
+                      <span className="text-gray-600">
+                        {group.voted} / {group.eligible} ({Math.round((group.voted / group.eligible) * 100)}%)
+                      </span>
+                    </div>
+                    <Progress value={(group.voted / group.eligible) * 100} className="h-2" />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
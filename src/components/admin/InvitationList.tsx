@@ -0,0 +1,458 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Ban, CalendarPlus, Loader2, Mail, RotateCw, Trash2 } from 'lucide-react';
+import {
+  invitationApi,
+  Invitation,
+  InvitationStatus,
+  DEFAULT_INVITATION_DAYS,
+  MAX_INVITATION_DAYS,
+  MAX_BULK_INVITATIONS
+} from '@/lib/invitationApi';
+import { getAuthHeaders } from '@/lib/authApi';
+import { toast } from '@/hooks/use-toast';
+import { StepUpDialog } from '@/components/auth/StepUpDialog';
+
+interface InvitationListProps {
+  organizationId: string;
+  // Changes whenever the parent has sent new invitations.
+  refreshKey: number;
+  // Called after invitations here change, so the parent can update its counts.
+  onChange: () => void;
+}
+
+const ALL_STATUSES = 'all';
+
+const STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  used: 'Used',
+  expired: 'Expired',
+  revoked: 'Revoked'
+};
+
+const getStatus = (invitation: Invitation): InvitationStatus => {
+  if (invitation.is_used) {
+    return 'used';
+  } else if (invitation.revoked_at) {
+    return 'revoked';
+  } else if (new Date(invitation.expires_at) < new Date()) {
+    return 'expired';
+  }
+  return 'pending';
+};
+
+const getStatusBadge = (invitation: Invitation) => {
+  const status = getStatus(invitation);
+  if (status === 'used') {
+    return <Badge variant="default" className="bg-green-500">Used</Badge>;
+  } else if (status === 'revoked') {
+    return <Badge variant="outline" className="text-gray-600">Revoked</Badge>;
+  } else if (status === 'expired') {
+    return <Badge variant="destructive">Expired</Badge>;
+  }
+  return <Badge variant="secondary">Pending</Badge>;
+};
+
+// Lists sent invitations by status. Unused ones can be resent with a new
+// link, revoked, or given more time, one at a time or in bulk.
+export const InvitationList: React.FC<InvitationListProps> = ({ organizationId, refreshKey, onChange }) => {
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<InvitationStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [validDays, setValidDays] = useState(String(DEFAULT_INVITATION_DAYS));
+  const [bulkAction, setBulkAction] = useState<'revoke' | 'extend' | null>(null);
+  const [resendingInvitation, setResendingInvitation] = useState<string | null>(null);
+  // A resend or bulk change waits here until the admin confirms it with a
+  // two-factor code.
+  const [pendingResend, setPendingResend] = useState<Invitation | null>(null);
+  const [pendingBulkAction, setPendingBulkAction] = useState<'revoke' | 'extend' | null>(null);
+  const [deletingInvitation, setDeletingInvitation] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadInvitations();
+  }, [organizationId, statusFilter, refreshKey]);
+
+  const loadInvitations = async () => {
+    try {
+      setLoading(true);
+      const loaded = await invitationApi.getInvitations(
+        organizationId,
+        statusFilter === ALL_STATUSES ? undefined : statusFilter
+      );
+      setInvitations(loaded);
+      setSelectedIds(current => current.filter(id => loaded.some(invitation => invitation.id === id && !invitation.is_used)));
+    } catch (error) {
+      console.error('Error loading invitations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load invitations",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const refresh = async () => {
+    await loadInvitations();
+    onChange();
+  };
+
+  const readValidDays = () => {
+    const days = Number(validDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INVITATION_DAYS) {
+      toast({
+        title: "Invalid Expiry",
+        description: `Invitations can last from 1 to ${MAX_INVITATION_DAYS} days`,
+        variant: "destructive"
+      });
+      return null;
+    }
+    return days;
+  };
+
+  const selectable = invitations.filter(invitation => !invitation.is_used);
+  const allSelected = selectable.length > 0 && selectable.every(invitation => selectedIds.includes(invitation.id));
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? selectable.map(invitation => invitation.id) : []);
+  };
+
+  const toggleInvitation = (invitationId: string, checked: boolean) => {
+    setSelectedIds(current => checked
+      ? [...current, invitationId]
+      : current.filter(selected => selected !== invitationId));
+  };
+
+  const checkSelectionSize = () => {
+    if (selectedIds.length > MAX_BULK_INVITATIONS) {
+      toast({
+        title: "Too Many Selected",
+        description: `Change at most ${MAX_BULK_INVITATIONS} invitations at a time`,
+        variant: "destructive"
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const handleRevoke = async (mfaToken?: string) => {
+    if (!mfaToken) {
+      if (!checkSelectionSize()) return;
+      if (!confirm(`Revoke ${selectedIds.length} invitation(s)? Their links will stop working until they are resent.`)) return;
+      setPendingBulkAction('revoke');
+      return;
+    }
+
+    try {
+      setBulkAction('revoke');
+      const count = await invitationApi.revokeInvitations(selectedIds, mfaToken);
+      toast({
+        title: "Invitations Revoked",
+        description: `${count} invitation(s) revoked`
+      });
+      setSelectedIds([]);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke invitations",
+        variant: "destructive"
+      });
+    } finally {
+      setBulkAction(null);
+    }
+  };
+
+  const handleExtend = async (mfaToken?: string) => {
+    const days = readValidDays();
+    if (days === null || !checkSelectionSize()) return;
+
+    if (!mfaToken) {
+      setPendingBulkAction('extend');
+      return;
+    }
+
+    try {
+      setBulkAction('extend');
+      const count = await invitationApi.extendInvitations(selectedIds, days, mfaToken);
+      toast({
+        title: "Expiry Extended",
+        description: count > 0
+          ? `${count} invitation(s) now expire in ${days} days`
+          : 'The selected invitations already last that long, or were revoked'
+      });
+      setSelectedIds([]);
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to extend invitations",
+        variant: "destructive"
+      });
+    } finally {
+      setBulkAction(null);
+    }
+  };
+
+  const handleResend = async (invitation: Invitation, mfaToken?: string) => {
+    const days = readValidDays();
+    if (days === null) return;
+
+    if (!mfaToken) {
+      setPendingResend(invitation);
+      return;
+    }
+
+    try {
+      setResendingInvitation(invitation.id);
+      await invitationApi.resendInvitation(invitation.id, days, mfaToken);
+      toast({
+        title: "Invitation Resent",
+        description: `A new link was sent to ${invitation.email}`
+      });
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Failed to Resend Invitation",
+        description: error instanceof Error ? error.message : "Failed to resend invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setResendingInvitation(null);
+    }
+  };
+
+  const handleDeleteInvitation = async (invitationId: string) => {
+    try {
+      setDeletingInvitation(invitationId);
+
+      const response = await fetch(`${import.meta.env.VITE_SERVER_URL || 'http://localhost:5000'}/api/invitations/delete/${invitationId}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to delete invitation');
+      }
+
+      toast({
+        title: "Invitation Deleted",
+        description: "Invitation has been successfully deleted",
+      });
+
+      await refresh();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete invitation",
+        variant: "destructive"
+      });
+    } finally {
+      setDeletingInvitation(null);
+    }
+  };
+
+  return (
+    <Card className="border-blue-200 shadow-lg">
+      <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100">
+        <CardTitle className="text-xl text-blue-800 font-semibold">Invitation List</CardTitle>
+        <CardDescription className="text-base text-blue-700">
+          View and manage all sent invitations
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6 p-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold">Status</Label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as InvitationStatus | typeof ALL_STATUSES)}>
+              <SelectTrigger className="w-40 h-10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent title="Status">
+                <SelectItem value={ALL_STATUSES}>All</SelectItem>
+                {(Object.keys(STATUS_LABELS) as InvitationStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invitation-valid-days" className="text-sm font-semibold">Resent or extended links last (days)</Label>
+            <Input
+              id="invitation-valid-days"
+              type="number"
+              min={1}
+              max={MAX_INVITATION_DAYS}
+              value={validDays}
+              onChange={(e) => setValidDays(e.target.value)}
+              className="w-28 h-10 border-blue-200 focus:border-blue-500 focus:ring-blue-500"
+            />
+          </div>
+          {selectedIds.length > 0 && (
+            <div className="flex items-center space-x-2">
+              <span className="text-sm font-semibold text-blue-800">{selectedIds.length} selected</span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleExtend()}
+                disabled={bulkAction !== null}
+                className="border-blue-200 text-blue-600 hover:bg-blue-50 h-10"
+              >
+                {bulkAction === 'extend' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CalendarPlus className="h-4 w-4 mr-2" />}
+                Extend Expiry
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRevoke()}
+                disabled={bulkAction !== null}
+                className="text-red-600 border-red-300 hover:bg-red-50 hover:border-red-400 h-10"
+              >
+                {bulkAction === 'revoke' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Ban className="h-4 w-4 mr-2" />}
+                Revoke
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                    disabled={selectable.length === 0}
+                    aria-label="Select all unused invitations"
+                  />
+                </TableHead>
+                <TableHead className="text-base font-semibold">Email</TableHead>
+                <TableHead className="text-base font-semibold">Status</TableHead>
+                <TableHead className="text-base font-semibold">Sent Date</TableHead>
+                <TableHead className="text-base font-semibold">Expires</TableHead>
+                <TableHead className="text-base font-semibold">Used Date</TableHead>
+                <TableHead className="text-base font-semibold">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(invitation.id)}
+                      onCheckedChange={(checked) => toggleInvitation(invitation.id, checked === true)}
+                      disabled={invitation.is_used}
+                      aria-label={`Select ${invitation.email}`}
+                    />
+                  </TableCell>
+                  <TableCell className="font-semibold text-base">
+                    {invitation.email}
+                    {invitation.name && <p className="text-sm font-normal text-gray-500">{invitation.name}</p>}
+                  </TableCell>
+                  <TableCell>
+                    {getStatusBadge(invitation)}
+                  </TableCell>
+                  <TableCell className="text-base">
+                    {new Date(invitation.created_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-base">
+                    {getStatus(invitation) === 'revoked' ? '-' : new Date(invitation.expires_at).toLocaleDateString()}
+                  </TableCell>
+                  <TableCell className="text-base">
+                    {invitation.used_at
+                      ? new Date(invitation.used_at).toLocaleDateString()
+                      : '-'
+                    }
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-2">
+                      {!invitation.is_used && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleResend(invitation)}
+                          disabled={resendingInvitation === invitation.id}
+                          title="Resend with a new link"
+                          className="border-blue-200 text-blue-600 hover:bg-blue-50 h-10"
+                        >
+                          {resendingInvitation === invitation.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCw className="h-4 w-4" />}
+                        </Button>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDeleteInvitation(invitation.id)}
+                        disabled={deletingInvitation === invitation.id}
+                        className="text-red-600 border-red-300 hover:bg-red-50 hover:border-red-400 h-10"
+                      >
+                        {deletingInvitation === invitation.id ? (
+                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {!loading && invitations.length === 0 && (
+          <div className="text-center py-12 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100">
+            <div className="p-4 bg-blue-100 rounded-full w-20 h-20 mx-auto mb-6 flex items-center justify-center">
+              <Mail className="h-10 w-10 text-blue-600" />
+            </div>
+            <p className="text-blue-600 font-semibold text-lg">
+              {statusFilter === ALL_STATUSES ? 'No invitations sent yet' : `No ${STATUS_LABELS[statusFilter].toLowerCase()} invitations`}
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <StepUpDialog
+        action={pendingResend || pendingBulkAction ? 'send_invitations' : null}
+        description={pendingBulkAction
+          ? `Enter your two-factor authentication code to ${pendingBulkAction} the selected invitations.`
+          : 'Enter your two-factor authentication code to resend this invitation.'}
+        onVerified={(mfaToken) => {
+          const invitation = pendingResend;
+          const action = pendingBulkAction;
+          setPendingResend(null);
+          setPendingBulkAction(null);
+          if (invitation) {
+            handleResend(invitation, mfaToken);
+          } else if (action === 'revoke') {
+            handleRevoke(mfaToken);
+          } else if (action === 'extend') {
+            handleExtend(mfaToken);
+          }
+        }}
+        onCancel={() => {
+          setPendingResend(null);
+          setPendingBulkAction(null);
+        }}
+      />
+    </Card>
+  );
+};
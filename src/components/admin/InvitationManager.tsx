@@ -4,15 +4,19 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Upload, Users, Mail, CheckCircle, Clock, XCircle, Download, Plus, ArrowLeft, Trash2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Upload, Users, Mail, CheckCircle, Clock, XCircle, Download, Plus, ArrowLeft } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-import { invitationApi } from '@/lib/invitationApi';
+import { invitationApi, RosterData, DEFAULT_INVITATION_DAYS, MAX_INVITATION_DAYS } from '@/lib/invitationApi';
+import { groupApi, groupByCategory, MemberGroup } from '@/lib/groupApi';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
+import { StepUpDialog } from '@/components/auth/StepUpDialog';
+import { JoinCodes } from '@/components/admin/JoinCodes';
+import { RosterImport } from '@/components/admin/RosterImport';
+import { InvitationList } from '@/components/admin/InvitationList';
 
 interface InvitationStats {
   total_invitations: number;
@@ -21,38 +25,31 @@ interface InvitationStats {
   expired_invitations: number;
 }
 
-interface StudentInvitation {
-  id: string;
-  email: string;
-  invitation_token: string;
-  is_used: boolean;
-  used_by?: string;
-  used_at?: string;
-  expires_at: string;
-  created_at: string;
-}
-
-const isValidEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-};
-
 const InvitationManager: React.FC = () => {
   const navigate = useNavigate();
   const { organization } = useAuth();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [roster, setRoster] = useState<RosterData | null>(null);
+  const [validRosterRows, setValidRosterRows] = useState<number | null>(null);
+  // Bumped to clear the roster form after a batch is sent.
+  const [rosterImportKey, setRosterImportKey] = useState(0);
   const [uploading, setUploading] = useState(false);
   const [manualInvitations, setManualInvitations] = useState<Array<{ email: string }>>([{ email: '' }]);
   const [sendingManual, setSendingManual] = useState(false);
+  // Bulk sends wait here until the admin confirms them with a two-factor code.
+  const [pendingSend, setPendingSend] = useState<'csv' | 'manual' | null>(null);
   const [stats, setStats] = useState<InvitationStats>({
     total_invitations: 0,
     used_invitations: 0,
     pending_invitations: 0,
     expired_invitations: 0
   });
-  const [invitations, setInvitations] = useState<StudentInvitation[]>([]);
   const [loading, setLoading] = useState(true);
-  const [deletingInvitation, setDeletingInvitation] = useState<string | null>(null);
+  // Bumped after a batch is sent so the invitation list reloads.
+  const [invitationsVersion, setInvitationsVersion] = useState(0);
+  const [expiresInDays, setExpiresInDays] = useState(String(DEFAULT_INVITATION_DAYS));
+  const [groups, setGroups] = useState<MemberGroup[]>([]);
+  // Groups every member invited in the next batch joins on registration.
+  const [selectedGroupIds, setSelectedGroupIds] = useState<string[]>([]);
 
   useEffect(() => {
     if (organization?.id) {
@@ -71,8 +68,7 @@ const InvitationManager: React.FC = () => {
       const invitationStats = await invitationApi.getInvitationStats(organization.id);
       setStats(invitationStats);
       
-      const orgInvitations = await invitationApi.getInvitations(organization.id);
-      setInvitations(orgInvitations);
+      setGroups(await groupApi.getGroups());
       
     } catch (error) {
       console.error('Error loading invitation data:', error);
@@ -86,29 +82,37 @@ const InvitationManager: React.FC = () => {
     }
   };
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
-      setSelectedFile(file);
-    } else {
+  const readBatchDays = () => {
+    const days = Number(expiresInDays);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_INVITATION_DAYS) {
       toast({
-        title: "Invalid File",
-        description: "Please select a valid CSV file",
+        title: "Invalid Expiry",
+        description: `Invitations can last from 1 to ${MAX_INVITATION_DAYS} days`,
         variant: "destructive"
       });
+      return null;
     }
+    return days;
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile) {
+  const handleUpload = async (mfaToken?: string) => {
+    if (!roster || !validRosterRows) {
       toast({
-        title: "No File Selected",
-        description: "Please select a CSV file to upload",
+        title: "No Roster to Send",
+        description: "Select a roster file and preview it first",
         variant: "destructive"
       });
       return;
     }
 
+    const batchDays = readBatchDays();
+    if (batchDays === null) return;
+
+    if (!mfaToken) {
+      setPendingSend('csv');
+      return;
+    }
+
     try {
       setUploading(true);
       
@@ -116,37 +120,26 @@ const InvitationManager: React.FC = () => {
         throw new Error('No organization ID found');
       }
       
-      const csvText = await selectedFile.text();
-      const lines = csvText.split('\n').filter(line => line.trim());
-      
-      const emails = [];
-      for (const line of lines) {
-        const email = line.trim();
-        if (email && isValidEmail(email)) {
-          emails.push(email.toLowerCase());
-        }
-      }
-      
-      if (emails.length === 0) {
-        throw new Error('No valid emails found in CSV');
-      }
-      
       const result = await invitationApi.createInvitations({
-        emails,
-        organizationId: organization.id
-      });
+        ...roster,
+        organizationId: organization.id,
+        groupIds: selectedGroupIds,
+        expiresInDays: batchDays
+      }, mfaToken);
       
       if (result.success) {
         toast({
           title: "Upload Successful",
-          description: `${result.count} invitations sent successfully`,
+          description: result.skipped.length > 0
+            ? `${result.count} invitations sent, ${result.skipped.length} rows skipped`
+            : `${result.count} invitations sent successfully`,
         });
         
         await loadInvitationData();
+        setInvitationsVersion(version => version + 1);
         
-        setSelectedFile(null);
-        const fileInput = document.getElementById('csv-upload') as HTMLInputElement;
-        if (fileInput) fileInput.value = '';
+        setSelectedGroupIds([]);
+        setRosterImportKey(key => key + 1);
       }
     } catch (error) {
       console.error('Error uploading CSV:', error);
@@ -176,7 +169,7 @@ const InvitationManager: React.FC = () => {
     setManualInvitations(updated);
   };
 
-  const handleManualInvitations = async () => {
+  const handleManualInvitations = async (mfaToken?: string) => {
     // Filter out empty rows
     const validInvitations = manualInvitations.filter(inv => inv.email.trim());
     
@@ -189,6 +182,14 @@ const InvitationManager: React.FC = () => {
       return;
     }
 
+    const batchDays = readBatchDays();
+    if (batchDays === null) return;
+
+    if (!mfaToken) {
+      setPendingSend('manual');
+      return;
+    }
+
     try {
       setSendingManual(true);
       
@@ -200,8 +201,10 @@ const InvitationManager: React.FC = () => {
       
       const result = await invitationApi.createInvitations({
         emails,
-        organizationId: organization.id
-      });
+        organizationId: organization.id,
+        groupIds: selectedGroupIds,
+        expiresInDays: batchDays
+      }, mfaToken);
       
       if (result.success) {
         toast({
@@ -210,8 +213,10 @@ const InvitationManager: React.FC = () => {
         });
         
         await loadInvitationData();
+        setInvitationsVersion(version => version + 1);
         
         setManualInvitations([{ email: '' }]);
+        setSelectedGroupIds([]);
       }
     } catch (error) {
       console.error('Error sending manual invitations:', error);
@@ -225,44 +230,57 @@ const InvitationManager: React.FC = () => {
     }
   };
 
-  const handleDeleteInvitation = async (invitationId: string) => {
-    try {
-      setDeletingInvitation(invitationId);
-      
-      const response = await fetch(`${import.meta.env.VITE_SERVER_URL || 'http://localhost:5000'}/api/invitations/delete/${invitationId}`, {
-        method: 'DELETE',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-      
-      const result = await response.json();
-      
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to delete invitation');
-      }
-      
-      toast({
-        title: "Invitation Deleted",
-        description: "Invitation has been successfully deleted",
-      });
-      
-      await loadInvitationData();
-    } catch (error) {
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to delete invitation",
-        variant: "destructive"
-      });
-    } finally {
-      setDeletingInvitation(null);
-    }
+  const toggleGroup = (groupId: string, checked: boolean) => {
+    setSelectedGroupIds(current => checked
+      ? [...current, groupId]
+      : current.filter(selected => selected !== groupId));
   };
 
+  const renderGroupSelector = () => groups.length > 0 && (
+    <div className="space-y-3">
+      <Label className="text-base font-semibold">Add to Groups</Label>
+      {groupByCategory(groups).map(([category, categoryGroups]) => (
+        <div key={category} className="space-y-1">
+          <p className="text-sm font-medium text-gray-700">{category}</p>
+          <div className="flex flex-wrap gap-4">
+            {categoryGroups.map(group => (
+              <label key={group.id} className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={selectedGroupIds.includes(group.id)}
+                  onCheckedChange={(checked) => toggleGroup(group.id, checked === true)}
+                />
+                <span>{group.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <p className="text-sm text-muted-foreground">
+        Every invited student joins the selected groups when they register.
+      </p>
+    </div>
+  );
+
+  const renderExpiryInput = (id: string) => (
+    <div className="space-y-2">
+      <Label htmlFor={id} className="text-base font-semibold">Links expire after (days)</Label>
+      <Input
+        id={id}
+        type="number"
+        min={1}
+        max={MAX_INVITATION_DAYS}
+        value={expiresInDays}
+        onChange={(e) => setExpiresInDays(e.target.value)}
+        className="w-32 border-blue-200 focus:border-blue-500 focus:ring-blue-500 h-12"
+      />
+    </div>
+  );
+
   const downloadSampleCSV = () => {
-    const csvContent = `student1@college.edu
-student2@college.edu
-student3@college.edu`;
+    const csvContent = `email,name,department,year
+student1@college.edu,Asha Rao,Computer Science,2nd Year
+student2@college.edu,Rahul Mehta,Mechanical,3rd Year
+student3@college.edu,Priya Nair,Computer Science,1st Year`;
     
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -273,16 +291,6 @@ student3@college.edu`;
     window.URL.revokeObjectURL(url);
   };
 
-  const getStatusBadge = (invitation: StudentInvitation) => {
-    if (invitation.is_used) {
-      return <Badge variant="default" className="bg-green-500">Used</Badge>;
-    } else if (new Date(invitation.expires_at) < new Date()) {
-      return <Badge variant="destructive">Expired</Badge>;
-    } else {
-      return <Badge variant="secondary">Pending</Badge>;
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -384,6 +392,7 @@ student3@college.edu`;
             <TabsList className="bg-white border border-blue-200 shadow-sm">
               <TabsTrigger value="upload" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-indigo-600 data-[state=active]:text-white text-base">Upload Students</TabsTrigger>
               <TabsTrigger value="manual" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-indigo-600 data-[state=active]:text-white text-base">Manual Add</TabsTrigger>
+              <TabsTrigger value="codes" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-indigo-600 data-[state=active]:text-white text-base">Join Codes</TabsTrigger>
               <TabsTrigger value="invitations" className="data-[state=active]:bg-gradient-to-r data-[state=active]:from-blue-600 data-[state=active]:to-indigo-600 data-[state=active]:text-white text-base">Manage Invitations</TabsTrigger>
             </TabsList>
 
@@ -392,24 +401,22 @@ student3@college.edu`;
                 <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100">
                   <CardTitle className="text-xl text-blue-800 font-semibold">Upload Student List</CardTitle>
                   <CardDescription className="text-base text-blue-700">
-                    Upload a CSV file with student emails to send voting invitations
+                    Upload a CSV or Excel roster, check it, then send voting invitations
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6 p-6">
-                  <div className="space-y-3">
-                    <Label htmlFor="csv-upload" className="text-base font-semibold">Select CSV File</Label>
-                    <Input
-                      id="csv-upload"
-                      type="file"
-                      accept=".csv"
-                      onChange={handleFileSelect}
-                      disabled={uploading}
-                      className="border-blue-200 focus:border-blue-500 focus:ring-blue-500 h-12"
-                    />
-                    <p className="text-sm text-muted-foreground">
-                      CSV should contain one email address per line. No headers required.
-                    </p>
-                  </div>
+                  <RosterImport
+                    key={rosterImportKey}
+                    disabled={uploading}
+                    onChange={(importedRoster, validRows) => {
+                      setRoster(importedRoster);
+                      setValidRosterRows(validRows);
+                    }}
+                  />
+
+                  {renderGroupSelector()}
+
+                  {renderExpiryInput('upload-expiry-days')}
 
                   <div className="flex items-center space-x-3">
                     <Button onClick={downloadSampleCSV} variant="outline" size="sm" className="border-blue-200 text-blue-600 hover:bg-blue-50 h-10">
@@ -421,14 +428,14 @@ student3@college.edu`;
                   <Alert>
                     <Mail className="h-4 w-4" />
                     <AlertDescription className="text-base">
-                      Invitation emails will be sent automatically to all students in the CSV file. 
+                      Invitation emails will be sent to every valid row of the roster; invalid and duplicate rows are skipped. 
                       Each student will receive a unique invitation link that can only be used once.
                     </AlertDescription>
                   </Alert>
 
                   <Button 
-                    onClick={handleUpload} 
-                    disabled={!selectedFile || uploading}
+                    onClick={() => handleUpload()} 
+                    disabled={!validRosterRows || uploading}
                     className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-lg h-12 text-base"
                   >
                     <Upload className="h-5 w-5 mr-2" />
@@ -482,6 +489,10 @@ student3@college.edu`;
                     Add Another Student
                   </Button>
 
+                  {renderGroupSelector()}
+
+                  {renderExpiryInput('manual-expiry-days')}
+
                   <Alert>
                     <Mail className="h-4 w-4" />
                     <AlertDescription className="text-base">
@@ -491,7 +502,7 @@ student3@college.edu`;
                   </Alert>
 
                   <Button
-                    onClick={handleManualInvitations}
+                    onClick={() => handleManualInvitations()}
                     disabled={sendingManual || manualInvitations.every(inv => !inv.email.trim())}
                     className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-lg h-12 text-base"
                   >
@@ -502,80 +513,36 @@ student3@college.edu`;
               </Card>
             </TabsContent>
 
+            <TabsContent value="codes" className="space-y-6">
+              {organization?.id && <JoinCodes organizationId={organization.id} />}
+            </TabsContent>
+
             <TabsContent value="invitations" className="space-y-6">
-              <Card className="border-blue-200 shadow-lg">
-                <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100">
-                  <CardTitle className="text-xl text-blue-800 font-semibold">Invitation List</CardTitle>
-                  <CardDescription className="text-base text-blue-700">
-                    View and manage all sent invitations
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="p-6">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead className="text-base font-semibold">Email</TableHead>
-                        <TableHead className="text-base font-semibold">Status</TableHead>
-                        <TableHead className="text-base font-semibold">Sent Date</TableHead>
-                        <TableHead className="text-base font-semibold">Expires</TableHead>
-                        <TableHead className="text-base font-semibold">Used Date</TableHead>
-                        <TableHead className="text-base font-semibold">Actions</TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {invitations.map((invitation) => (
-                        <TableRow key={invitation.id}>
-                          <TableCell className="font-semibold text-base">
-                            {invitation.email}
-                          </TableCell>
-                          <TableCell>
-                            {getStatusBadge(invitation)}
-                          </TableCell>
-                          <TableCell className="text-base">
-                            {new Date(invitation.created_at).toLocaleDateString()}
-                          </TableCell>
-                          <TableCell className="text-base">
-                            {new Date(invitation.expires_at).toLocaleDateString()}
-                          </TableCell>
-                          <TableCell className="text-base">
-                            {invitation.used_at 
-                              ? new Date(invitation.used_at).toLocaleDateString()
-                              : '-'
-                            }
-                          </TableCell>
-                          <TableCell>
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => handleDeleteInvitation(invitation.id)}
-                              disabled={deletingInvitation === invitation.id}
-                              className="text-red-600 border-red-300 hover:bg-red-50 hover:border-red-400 h-10"
-                            >
-                              {deletingInvitation === invitation.id ? (
-                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-red-600"></div>
-                              ) : (
-                                <Trash2 className="h-4 w-4" />
-                              )}
-                            </Button>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                  
-                  {invitations.length === 0 && (
-                    <div className="text-center py-12 bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg border border-blue-100">
-                      <div className="p-4 bg-blue-100 rounded-full w-20 h-20 mx-auto mb-6 flex items-center justify-center">
-                        <Mail className="h-10 w-10 text-blue-600" />
-                      </div>
-                      <p className="text-blue-600 font-semibold text-lg">No invitations sent yet</p>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
+              {organization?.id && (
+                <InvitationList
+                  organizationId={organization.id}
+                  refreshKey={invitationsVersion}
+                  onChange={loadInvitationData}
+                />
+              )}
             </TabsContent>
           </Tabs>
         </div>
+
+        <StepUpDialog
+          action={pendingSend ? 'send_invitations' : null}
+          description="Enter your two-factor authentication code to send these invitations."
+          onVerified={(mfaToken) => {
+            const source = pendingSend;
+            setPendingSend(null);
+            if (source === 'csv') {
+              handleUpload(mfaToken);
+            } else if (source === 'manual') {
+              handleManualInvitations(mfaToken);
+            }
+          }}
+          onCancel={() => setPendingSend(null)}
+        />
       </div>
     </div>
   );
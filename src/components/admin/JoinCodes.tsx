@@ -0,0 +1,300 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, KeyRound, Loader2, Plus, Ban } from 'lucide-react';
+import { invitationApi, JoinCode } from '@/lib/invitationApi';
+import { electionApi, Election } from '@/lib/electionApi';
+import { toast } from '@/hooks/use-toast';
+import { StepUpDialog } from '@/components/auth/StepUpDialog';
+
+interface JoinCodesProps {
+  organizationId: string;
+}
+
+const ANY_ELECTION = 'none';
+
+// datetime-local wants local time without a zone.
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const getCodeStatus = (code: JoinCode) => {
+  if (!code.is_active) {
+    return <Badge variant="secondary">Revoked</Badge>;
+  } else if (new Date(code.expires_at) < new Date()) {
+    return <Badge variant="destructive">Expired</Badge>;
+  } else if (code.used_count >= code.usage_limit) {
+    return <Badge variant="default" className="bg-green-500">Used Up</Badge>;
+  } else {
+    return <Badge variant="secondary">Active</Badge>;
+  }
+};
+
+// Join codes let anyone who has them register, for example from a code
+// printed on a classroom handout. A code for an election also puts each new
+// member on that election's voter list.
+export const JoinCodes: React.FC<JoinCodesProps> = ({ organizationId }) => {
+  const [codes, setCodes] = useState<JoinCode[]>([]);
+  const [elections, setElections] = useState<Election[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [electionId, setElectionId] = useState(ANY_ELECTION);
+  const [usageLimit, setUsageLimit] = useState('40');
+  const [expiresAt, setExpiresAt] = useState(() => toLocalInput(new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)));
+  const [creating, setCreating] = useState(false);
+  const [pendingCreate, setPendingCreate] = useState(false);
+  const [revokingCode, setRevokingCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadCodes();
+  }, [organizationId]);
+
+  const loadCodes = async () => {
+    try {
+      setLoading(true);
+      const [loadedCodes, loadedElections] = await Promise.all([
+        invitationApi.getJoinCodes(),
+        electionApi.getElections(organizationId)
+      ]);
+      setCodes(loadedCodes);
+      // Codes add members to a voter list, so elections that admit members
+      // by group, or that have closed, cannot have one.
+      setElections(loadedElections.filter(election =>
+        election.voter_roll !== 'groups' && election.status !== 'closed' && election.status !== 'certified'
+      ));
+    } catch (error) {
+      console.error('Error loading join codes:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load join codes",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (mfaToken?: string) => {
+    const limit = Number(usageLimit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      toast({
+        title: "Invalid Usage Limit",
+        description: "Enter how many people can use the code",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (!mfaToken) {
+      setPendingCreate(true);
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const code = await invitationApi.createJoinCode({
+        electionId: electionId === ANY_ELECTION ? null : electionId,
+        usageLimit: limit,
+        expiresAt: new Date(expiresAt).toISOString()
+      }, mfaToken);
+
+      toast({
+        title: "Join Code Created",
+        description: `Share ${code.token} or its link with up to ${code.usage_limit} people`
+      });
+      await loadCodes();
+    } catch (error) {
+      toast({
+        title: "Failed to Create Join Code",
+        description: error instanceof Error ? error.message : "Failed to create join code",
+        variant: "destructive"
+      });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopyLink = async (code: JoinCode) => {
+    try {
+      await navigator.clipboard.writeText(code.link);
+      toast({
+        title: "Link Copied",
+        description: "The invite link is on your clipboard"
+      });
+    } catch (error) {
+      toast({
+        title: "Copy Failed",
+        description: code.link,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRevoke = async (code: JoinCode) => {
+    if (!confirm(`Revoke join code ${code.token}? Nobody else will be able to join with it.`)) return;
+
+    try {
+      setRevokingCode(code.id);
+      await invitationApi.revokeJoinCode(code.id);
+      toast({
+        title: "Join Code Revoked",
+        description: `${code.token} can no longer be used`
+      });
+      await loadCodes();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke join code",
+        variant: "destructive"
+      });
+    } finally {
+      setRevokingCode(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-blue-200 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100">
+          <CardTitle className="text-xl text-blue-800 font-semibold">Create Join Code</CardTitle>
+          <CardDescription className="text-base text-blue-700">
+            Issue a code or invite link that several students can use to register
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6 p-6">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Election</Label>
+              <Select value={electionId} onValueChange={setElectionId}>
+                <SelectTrigger className="h-12">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent title="Election">
+                  <SelectItem value={ANY_ELECTION}>Organization only</SelectItem>
+                  {elections.map(election => (
+                    <SelectItem key={election.id} value={election.id}>{election.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="code-usage-limit" className="text-base font-semibold">Uses</Label>
+              <Input
+                id="code-usage-limit"
+                type="number"
+                min={1}
+                max={1000}
+                value={usageLimit}
+                onChange={(e) => setUsageLimit(e.target.value)}
+                className="border-blue-200 focus:border-blue-500 focus:ring-blue-500 h-12"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="code-expires-at" className="text-base font-semibold">Expires</Label>
+              <Input
+                id="code-expires-at"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="border-blue-200 focus:border-blue-500 focus:ring-blue-500 h-12"
+              />
+            </div>
+          </div>
+
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertDescription className="text-base">
+              Anyone with the code can register until it expires or runs out of uses, so share it only with the people it is meant for.
+              Students who join with an election's code are added to that election's voter list.
+            </AlertDescription>
+          </Alert>
+
+          <Button
+            onClick={() => handleCreate()}
+            disabled={creating || !expiresAt}
+            className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700 text-white shadow-lg h-12 text-base"
+          >
+            {creating ? <Loader2 className="h-5 w-5 mr-2 animate-spin" /> : <Plus className="h-5 w-5 mr-2" />}
+            Create Join Code
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="border-blue-200 shadow-lg">
+        <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-100">
+          <CardTitle className="text-xl text-blue-800 font-semibold">Join Codes</CardTitle>
+          <CardDescription className="text-base text-blue-700">
+            Track how often each code has been used
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : codes.length === 0 ? (
+            <p className="text-center py-6 text-blue-600 font-semibold">No join codes yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-base font-semibold">Code</TableHead>
+                  <TableHead className="text-base font-semibold">Election</TableHead>
+                  <TableHead className="text-base font-semibold">Uses</TableHead>
+                  <TableHead className="text-base font-semibold">Expires</TableHead>
+                  <TableHead className="text-base font-semibold">Status</TableHead>
+                  <TableHead className="text-base font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {codes.map(code => (
+                  <TableRow key={code.id}>
+                    <TableCell className="font-mono font-semibold text-base">{code.token}</TableCell>
+                    <TableCell className="text-base">{code.election_name || '-'}</TableCell>
+                    <TableCell className="text-base">{code.used_count} / {code.usage_limit}</TableCell>
+                    <TableCell className="text-base">{new Date(code.expires_at).toLocaleString()}</TableCell>
+                    <TableCell>{getCodeStatus(code)}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => handleCopyLink(code)} className="h-10">
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        {code.is_active && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRevoke(code)}
+                            disabled={revokingCode === code.id}
+                            className="text-red-600 border-red-300 hover:bg-red-50 hover:border-red-400 h-10"
+                          >
+                            {revokingCode === code.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StepUpDialog
+        action={pendingCreate ? 'send_invitations' : null}
+        description="Enter your two-factor authentication code to create this join code."
+        onVerified={(mfaToken) => {
+          setPendingCreate(false);
+          handleCreate(mfaToken);
+        }}
+        onCancel={() => setPendingCreate(false)}
+      />
+    </div>
+  );
+};
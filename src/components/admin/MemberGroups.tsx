@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Loader2, Plus, Tags, X } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { groupApi, groupByCategory, MemberGroup } from '@/lib/groupApi';
+import { memberApi } from '@/lib/memberApi';
+
+interface MemberGroupsCardProps {
+  groups: MemberGroup[];
+  onChange: () => Promise<void>;
+}
+
+// Groups tag members with a category (department, year, section, …) and a
+// name, and are used to build voter rolls and target invitations.
+export const MemberGroupsCard: React.FC<MemberGroupsCardProps> = ({ groups, onChange }) => {
+  const { toast } = useToast();
+  const [category, setCategory] = useState('');
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      setSaving(true);
+      const group = await groupApi.createGroup({ category: category.trim(), name: name.trim() });
+      setName('');
+      toast({
+        title: "Group Created",
+        description: `${group.category}: ${group.name}`
+      });
+      await onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to create member group',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: MemberGroup) => {
+    if (!confirm(`Delete ${group.category}: ${group.name}? Members keep their accounts but leave the group.`)) return;
+
+    try {
+      await groupApi.deleteGroup(group.id);
+      toast({
+        title: "Group Deleted",
+        description: `${group.category}: ${group.name}`
+      });
+      await onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to delete member group',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const categories = [...new Set(groups.map(group => group.category))];
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg text-gray-800 flex items-center">
+          <Tags className="h-5 w-5 mr-2 text-purple-600" />
+          Member Groups
+        </CardTitle>
+        <CardDescription className="text-sm">Tag members by department, year or section to target voter rolls and invitations</CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label htmlFor="group-category" className="text-sm">Category</Label>
+            <Input
+              id="group-category"
+              list="group-categories"
+              value={category}
+              onChange={(event) => setCategory(event.target.value)}
+              placeholder="e.g. Department"
+              maxLength={50}
+              required
+              className="h-10"
+            />
+            <datalist id="group-categories">
+              {categories.map(existing => <option key={existing} value={existing} />)}
+            </datalist>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="group-name" className="text-sm">Name</Label>
+            <Input
+              id="group-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Computer Science"
+              maxLength={100}
+              required
+              className="h-10"
+            />
+          </div>
+          <Button type="submit" disabled={saving} className="bg-purple-600 hover:bg-purple-700 text-white h-10">
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Group
+          </Button>
+        </form>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No member groups yet.</p>
+        ) : (
+          groupByCategory(groups).map(([groupCategory, categoryGroups]) => (
+            <div key={groupCategory} className="space-y-2">
+              <p className="text-sm font-medium text-gray-700">{groupCategory}</p>
+              <div className="flex flex-wrap gap-2">
+                {categoryGroups.map(group => (
+                  <Badge key={group.id} variant="outline" className="text-xs border-purple-300 text-purple-700 bg-purple-50">
+                    {group.name} ({group.memberIds.length})
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(group)}
+                      className="ml-1 text-purple-400 hover:text-red-600"
+                      aria-label={`Delete ${group.name}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+interface MemberGroupPickerProps {
+  member: { id: string; name: string };
+  groups: MemberGroup[];
+  onChange: () => Promise<void>;
+}
+
+export const MemberGroupPicker: React.FC<MemberGroupPickerProps> = ({ member, groups, onChange }) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setSelected(groups.filter(group => group.memberIds.includes(member.id)).map(group => group.id));
+    }
+  };
+
+  const toggleGroup = (groupId: string, checked: boolean) => {
+    setSelected(current => checked
+      ? [...current, groupId]
+      : current.filter(groupIdSelected => groupIdSelected !== groupId));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await memberApi.setGroups(member.id, selected);
+      toast({
+        title: "Groups Updated",
+        description: `${member.name} is in ${selected.length} group${selected.length === 1 ? '' : 's'}`
+      });
+      setOpen(false);
+      await onChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to update member groups',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="h-8 text-xs">
+          <Tags className="h-3 w-3 mr-1" />
+          Groups
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md" title="Member Groups">
+        <DialogHeader>
+          <DialogTitle>Member Groups</DialogTitle>
+          <DialogDescription>
+            Choose the groups {member.name} belongs to.
+          </DialogDescription>
+        </DialogHeader>
+        {groups.length === 0 ? (
+          <p className="text-sm text-gray-500">No member groups yet. Add them under Member Groups.</p>
+        ) : (
+          <div className="space-y-3">
+            {groupByCategory(groups).map(([category, categoryGroups]) => (
+              <div key={category} className="space-y-1">
+                <p className="text-xs font-medium text-gray-700">{category}</p>
+                <div className="flex flex-wrap gap-3">
+                  {categoryGroups.map(group => (
+                    <label key={group.id} className="flex items-center space-x-2 text-sm">
+                      <Checkbox
+                        checked={selected.includes(group.id)}
+                        onCheckedChange={(checked) => toggleGroup(group.id, checked === true)}
+                      />
+                      <span>{group.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={saving || groups.length === 0} className="bg-purple-600 hover:bg-purple-700">
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Groups
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
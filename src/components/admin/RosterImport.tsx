@@ -0,0 +1,313 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, FileSearch, Loader2 } from 'lucide-react';
+import { invitationApi, RosterData } from '@/lib/invitationApi';
+import {
+  readRosterFile,
+  hasHeaderRow,
+  guessColumns,
+  columnLabel,
+  columnCount,
+  buildErrorReport,
+  RosterColumns,
+  RosterRow,
+  RosterSummary
+} from '@/lib/roster';
+
+interface RosterImportProps {
+  disabled: boolean;
+  // Called with the roster as mapped, and how many rows the preview found
+  // valid (null until it has been previewed).
+  onChange: (roster: RosterData | null, validRows: number | null) => void;
+}
+
+const NO_COLUMN = 'none';
+const PREVIEW_LIMIT = 200;
+
+const STATUS_BADGES: Record<RosterRow['status'], string> = {
+  valid: 'bg-green-100 text-green-700 border-green-300',
+  invalid: 'bg-red-100 text-red-700 border-red-300',
+  duplicate: 'bg-yellow-100 text-yellow-800 border-yellow-300'
+};
+
+// Reads a CSV or Excel roster, lets the admin say which columns hold the
+// email, name and groups, and shows which rows will be invited.
+export const RosterImport: React.FC<RosterImportProps> = ({ disabled, onChange }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [records, setRecords] = useState<string[][] | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<RosterColumns>({ email: 0, name: null, groups: [] });
+  const [preview, setPreview] = useState<{ rows: RosterRow[]; summary: RosterSummary } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const roster = records ? { rows: records, columns, hasHeader } : null;
+
+  // Any change to the file or the mapping needs a fresh preview.
+  useEffect(() => {
+    setPreview(null);
+    onChange(roster, null);
+  }, [records, columns, hasHeader]);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setError(null);
+      const rows = await readRosterFile(file);
+      if (rows.length === 0) {
+        throw new Error('The file has no rows');
+      }
+
+      const header = hasHeaderRow(rows);
+      setFileName(file.name);
+      setHasHeader(header);
+      setColumns(guessColumns(rows, header));
+      setRecords(rows);
+    } catch (readError) {
+      setFileName(null);
+      setRecords(null);
+      setError(readError instanceof Error ? readError.message : 'Failed to read the file');
+    }
+  };
+
+  const handleHeaderChange = (header: boolean) => {
+    setHasHeader(header);
+    if (records) {
+      setColumns(guessColumns(records, header));
+    }
+  };
+
+  const toggleGroupColumn = (column: number, checked: boolean) => {
+    const header = hasHeader ? records?.[0]?.[column]?.trim() || '' : '';
+    setColumns(current => ({
+      ...current,
+      groups: checked
+        ? [...current.groups, { column, category: header }]
+        : current.groups.filter(group => group.column !== column)
+    }));
+  };
+
+  const setGroupCategory = (column: number, category: string) => {
+    setColumns(current => ({
+      ...current,
+      groups: current.groups.map(group => group.column === column ? { ...group, category } : group)
+    }));
+  };
+
+  const handlePreview = async () => {
+    if (!roster) return;
+
+    try {
+      setPreviewing(true);
+      setError(null);
+      const result = await invitationApi.previewRoster(roster);
+      // Problem rows first, in file order.
+      const rows = [...result.rows].sort((a, b) =>
+        Number(a.status === 'valid') - Number(b.status === 'valid') || a.row - b.row
+      );
+      setPreview({ rows, summary: result.summary });
+      onChange(roster, result.summary.valid);
+    } catch (previewError) {
+      setError(previewError instanceof Error ? previewError.message : 'Failed to check roster');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const downloadErrorReport = () => {
+    if (!preview) return;
+
+    const blob = new Blob([buildErrorReport(preview.rows)], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${(fileName || 'roster').replace(/\.[^.]+$/, '')}-errors.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const columnIndexes = records ? Array.from({ length: columnCount(records) }, (_, column) => column) : [];
+  const missingCategory = columns.groups.some(group => !group.category.trim());
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label htmlFor="csv-upload" className="text-base font-semibold">Select CSV or Excel File</Label>
+        <Input
+          id="csv-upload"
+          type="file"
+          accept=".csv,.txt,.xlsx"
+          onChange={handleFileSelect}
+          disabled={disabled}
+          className="border-blue-200 focus:border-blue-500 focus:ring-blue-500 h-12"
+        />
+        <p className="text-sm text-muted-foreground">
+          Use a CSV (comma or semicolon separated) or .xlsx file with one student per row.
+          Columns such as department, year or section can add students to groups.
+        </p>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+
+      {records && (
+        <div className="space-y-4 rounded-lg border border-blue-200 p-4">
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-semibold text-blue-800">
+              {fileName}: {records.length - (hasHeader ? 1 : 0)} rows
+            </p>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox checked={hasHeader} onCheckedChange={(checked) => handleHeaderChange(checked === true)} />
+              <span>First row is a header</span>
+            </label>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Email column</Label>
+              <Select
+                value={String(columns.email)}
+                onValueChange={(value) => setColumns(current => ({
+                  ...current,
+                  email: Number(value),
+                  name: current.name === Number(value) ? null : current.name,
+                  groups: current.groups.filter(group => group.column !== Number(value))
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent title="Email column">
+                  {columnIndexes.map(column => (
+                    <SelectItem key={column} value={String(column)}>{columnLabel(records, hasHeader, column)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Name column</Label>
+              <Select
+                value={columns.name === null ? NO_COLUMN : String(columns.name)}
+                onValueChange={(value) => setColumns(current => ({
+                  ...current,
+                  name: value === NO_COLUMN ? null : Number(value),
+                  groups: current.groups.filter(group => String(group.column) !== value)
+                }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent title="Name column">
+                  <SelectItem value={NO_COLUMN}>No name column</SelectItem>
+                  {columnIndexes.filter(column => column !== columns.email).map(column => (
+                    <SelectItem key={column} value={String(column)}>{columnLabel(records, hasHeader, column)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {columnIndexes.some(column => column !== columns.email && column !== columns.name) && (
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Group columns</Label>
+              {columnIndexes
+                .filter(column => column !== columns.email && column !== columns.name)
+                .map(column => {
+                  const group = columns.groups.find(selected => selected.column === column);
+                  return (
+                    <div key={column} className="flex items-center space-x-3">
+                      <label className="flex items-center space-x-2 text-sm w-56">
+                        <Checkbox
+                          checked={!!group}
+                          onCheckedChange={(checked) => toggleGroupColumn(column, checked === true)}
+                        />
+                        <span className="truncate">{columnLabel(records, hasHeader, column)}</span>
+                      </label>
+                      {group && (
+                        <Input
+                          value={group.category}
+                          onChange={(e) => setGroupCategory(column, e.target.value)}
+                          placeholder="Category, e.g. Department"
+                          maxLength={50}
+                          className="h-8 text-sm max-w-xs"
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              {missingCategory && (
+                <p className="text-xs text-red-600">Name the category of each group column.</p>
+              )}
+            </div>
+          )}
+
+          <Button
+            variant="outline"
+            onClick={handlePreview}
+            disabled={disabled || previewing || missingCategory}
+            className="border-blue-200 text-blue-600 hover:bg-blue-50 h-10"
+          >
+            {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileSearch className="h-4 w-4 mr-2" />}
+            Preview Roster
+          </Button>
+
+          {preview && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className={STATUS_BADGES.valid}>{preview.summary.valid} valid</Badge>
+                <Badge variant="outline" className={STATUS_BADGES.invalid}>{preview.summary.invalid} invalid</Badge>
+                <Badge variant="outline" className={STATUS_BADGES.duplicate}>{preview.summary.duplicate} duplicate</Badge>
+                {preview.summary.invalid + preview.summary.duplicate > 0 && (
+                  <Button variant="ghost" size="sm" onClick={downloadErrorReport} className="h-8 text-blue-600">
+                    <Download className="h-4 w-4 mr-1" />
+                    Download Error Report
+                  </Button>
+                )}
+              </div>
+              <div className="max-h-80 overflow-auto rounded border border-gray-200">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Groups</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.rows.slice(0, PREVIEW_LIMIT).map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.email || '-'}</TableCell>
+                        <TableCell>{row.name || '-'}</TableCell>
+                        <TableCell className="text-xs">
+                          {row.groups.map(group => `${group.category}: ${group.name}`).join(', ') || '-'}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={STATUS_BADGES[row.status]}>{row.status}</Badge>
+                          {row.reason && <p className="text-xs text-gray-500 mt-1">{row.reason}</p>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {preview.rows.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500">
+                  Showing {PREVIEW_LIMIT} of {preview.rows.length} rows. The error report lists every row that will be skipped.
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { trusteeApi, ElectionTrustee } from '@/lib/trusteeApi';
+
+interface TrusteeStatusProps {
+  electionId: string;
+  electionName: string;
+  threshold: number;
+}
+
+export const TrusteeStatus: React.FC<TrusteeStatusProps> = ({ electionId, electionName, threshold }) => {
+  const [trustees, setTrustees] = useState<ElectionTrustee[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadTrustees = async () => {
+    try {
+      setError(null);
+      setTrustees(await trusteeApi.getElectionTrustees(electionId));
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load trustees');
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadTrustees()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs">
+          <KeyRound className="h-3 w-3 mr-1" />
+          Trustees
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md" title="Key Trustees">
+        <DialogHeader>
+          <DialogTitle>Key Trustees</DialogTitle>
+          <DialogDescription>
+            Ballots for {electionName} are decrypted once {threshold} trustees submit their key shares after voting ends.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !trustees ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {trustees.map(trustee => (
+              <div key={trustee.shareIndex} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{trustee.user?.name || 'Unknown member'}</p>
+                  <p className="text-xs text-gray-500">{trustee.user?.email}</p>
+                </div>
+                <div className="flex space-x-2">
+                  <Badge variant="outline" className={trustee.collectedAt ? 'border-green-300 text-green-700 bg-green-50' : 'border-orange-300 text-orange-700 bg-orange-50'}>
+                    {trustee.collectedAt ? 'Collected' : 'Not collected'}
+                  </Badge>
+                  {trustee.submittedAt && (
+                    <Badge variant="outline" className="border-green-300 text-green-700 bg-green-50">Submitted</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
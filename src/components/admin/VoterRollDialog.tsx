@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Lock, Upload, Users } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { electionApi, VoterRoll, VoterRollMode } from '@/lib/electionApi';
+import { groupApi, groupByCategory, MemberGroup } from '@/lib/groupApi';
+
+interface VoterRollDialogProps {
+  electionId: string;
+  electionName: string;
+  editable: boolean;
+}
+
+const EMAIL_PATTERN = /[^\s@,;"'<>]+@[^\s@,;"'<>]+\.[^\s@,;"'<>]+/g;
+
+// Accepts emails separated by lines, commas or semicolons, as pasted or as
+// found anywhere in an uploaded list.
+const parseEmails = (text: string) => [...new Set((text.match(EMAIL_PATTERN) || []).map(email => email.toLowerCase()))];
+
+const toText = (members: VoterRoll['included']) => members.map(member => member.email).join('\n');
+
+export const VoterRollDialog: React.FC<VoterRollDialogProps> = ({ electionId, electionName, editable }) => {
+  const { toast } = useToast();
+  const [roll, setRoll] = useState<VoterRoll | null>(null);
+  const [mode, setMode] = useState<VoterRollMode>('all');
+  const [includeText, setIncludeText] = useState('');
+  const [excludeText, setExcludeText] = useState('');
+  const [groups, setGroups] = useState<MemberGroup[]>([]);
+  const [selectedGroups, setSelectedGroups] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const showRoll = (loaded: VoterRoll) => {
+    setRoll(loaded);
+    setMode(loaded.mode);
+    setIncludeText(toText(loaded.included));
+    setExcludeText(toText(loaded.excluded));
+    setSelectedGroups(loaded.groupIds);
+  };
+
+  const loadRoll = async () => {
+    try {
+      setError(null);
+      setRoll(null);
+      const [loaded, loadedGroups] = await Promise.all([
+        electionApi.getVoterRoll(electionId),
+        groupApi.getGroups()
+      ]);
+      setGroups(loadedGroups);
+      showRoll(loaded);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load voter roll');
+    }
+  };
+
+  const handleUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const uploaded = parseEmails(await file.text());
+    setIncludeText(current => [...new Set([...parseEmails(current), ...uploaded])].join('\n'));
+    toast({
+      title: "List Uploaded",
+      description: `Found ${uploaded.length} email${uploaded.length === 1 ? '' : 's'} in ${file.name}`
+    });
+  };
+
+  const toggleGroup = (groupId: string, checked: boolean) => {
+    setSelectedGroups(current => checked
+      ? [...current, groupId]
+      : current.filter(selected => selected !== groupId));
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const saved = await electionApi.updateVoterRoll(electionId, {
+        mode,
+        include: mode === 'list' ? parseEmails(includeText) : [],
+        exclude: parseEmails(excludeText),
+        groups: mode === 'groups' ? selectedGroups : []
+      });
+      showRoll(saved);
+
+      const unmatched = saved.unmatched || [];
+      toast({
+        title: "Voter Roll Saved",
+        description: unmatched.length > 0
+          ? `${unmatched.length} email${unmatched.length === 1 ? ' does' : 's do'} not belong to a voting member and ${unmatched.length === 1 ? 'was' : 'were'} skipped: ${unmatched.slice(0, 5).join(', ')}${unmatched.length > 5 ? '…' : ''}`
+          : `${saved.eligibleCount} members can vote in ${electionName}`,
+        variant: unmatched.length > 0 ? "destructive" : "default"
+      });
+    } catch (saveError) {
+      toast({
+        title: "Error",
+        description: saveError instanceof Error ? saveError.message : 'Failed to update voter roll',
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadRoll()}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs border-purple-300 text-purple-700 hover:bg-purple-50">
+          <Users className="h-3 w-3 mr-1" />
+          Voters
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg" title="Voter Roll">
+        <DialogHeader>
+          <DialogTitle>Voter Roll</DialogTitle>
+          <DialogDescription>
+            Choose which members may vote in {electionName}.
+          </DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !roll ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-purple-600" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!editable && (
+              <div className="flex items-center space-x-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                <Lock className="h-4 w-4 flex-shrink-0" />
+                <span>The voter roll is locked once voting opens.</span>
+              </div>
+            )}
+            <p className="text-sm text-gray-600">
+              {roll.eligibleCount} of {roll.votingMembers} voting members are on the roll.
+            </p>
+            <div className="space-y-2">
+              <Label>Who can vote</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as VoterRollMode)} disabled={!editable}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent title="Who can vote">
+                  <SelectItem value="all">All voting members</SelectItem>
+                  <SelectItem value="list">Only members on a list</SelectItem>
+                  <SelectItem value="groups">Members of selected groups</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {mode === 'list' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`roll-include-${electionId}`}>Members on the list</Label>
+                  {editable && (
+                    <Label htmlFor={`roll-upload-${electionId}`} className="flex items-center text-xs text-purple-700 cursor-pointer">
+                      <Upload className="h-3 w-3 mr-1" />
+                      Upload list
+                    </Label>
+                  )}
+                  <input
+                    id={`roll-upload-${electionId}`}
+                    type="file"
+                    accept=".csv,.txt"
+                    className="hidden"
+                    onChange={handleUpload}
+                  />
+                </div>
+                <Textarea
+                  id={`roll-include-${electionId}`}
+                  value={includeText}
+                  onChange={(event) => setIncludeText(event.target.value)}
+                  placeholder="One email per line"
+                  rows={6}
+                  disabled={!editable}
+                />
+              </div>
+            )}
+            {mode === 'groups' && (
+              <div className="space-y-2">
+                <Label>Member groups</Label>
+                {groups.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No member groups yet. Create them from the Users tab.
+                  </p>
+                ) : (
+                  <>
+                    <p className="text-xs text-gray-500">
+                      Members must be in one of the selected groups of each category.
+                    </p>
+                    {groupByCategory(groups).map(([category, categoryGroups]) => (
+                      <div key={category} className="space-y-1">
+                        <p className="text-xs font-medium text-gray-700">{category}</p>
+                        <div className="flex flex-wrap gap-3">
+                          {categoryGroups.map(group => (
+                            <label key={group.id} className="flex items-center space-x-2 text-sm">
+                              <Checkbox
+                                checked={selectedGroups.includes(group.id)}
+                                onCheckedChange={(checked) => toggleGroup(group.id, checked === true)}
+                                disabled={!editable}
+                              />
+                              <span>{group.name}</span>
+                            </label>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`roll-exclude-${electionId}`}>Excluded members</Label>
+              <Textarea
+                id={`roll-exclude-${electionId}`}
+                value={excludeText}
+                onChange={(event) => setExcludeText(event.target.value)}
+                placeholder="Members who may not vote, one email per line"
+                rows={3}
+                disabled={!editable}
+              />
+            </div>
+          </div>
+        )}
+        {roll && editable && (
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={saving} className="bg-purple-600 hover:bg-purple-700">
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save Voter Roll
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
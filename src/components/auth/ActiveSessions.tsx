@@ -0,0 +1,168 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Monitor, Smartphone, LogOut, Loader2, ShieldAlert } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { sessionApi, ActiveSession } from '@/lib/sessionApi';
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Safari\//, 'Safari']
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux']
+];
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Unknown browser';
+  const platform = PLATFORMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return platform ? `${browser} on ${platform}` : browser;
+};
+
+export const ActiveSessions: React.FC = () => {
+  const { toast } = useToast();
+  const { signOutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setSessions(await sessionApi.getSessions());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setRevoking(sessionId);
+      await sessionApi.revokeSession(sessionId);
+      setSessions(sessions.filter(session => session.id !== sessionId));
+      toast({
+        title: "Session Revoked",
+        description: "That device has been signed out"
+      });
+    } catch (revokeError) {
+      toast({
+        title: "Error",
+        description: revokeError instanceof Error ? revokeError.message : 'Failed to revoke session',
+        variant: "destructive"
+      });
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) {
+      return;
+    }
+
+    try {
+      setRevoking('all');
+      await signOutEverywhere();
+    } catch {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl text-gray-800 flex items-center space-x-3">
+          <Monitor className="h-6 w-6 text-purple-600" />
+          <span>Devices & Sessions</span>
+        </CardTitle>
+        <CardDescription className="text-base text-gray-600">
+          Devices currently signed in to your account. Revoke any you don't recognise.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-4">
+        {loading ? (
+          <div className="flex items-center space-x-2 text-sm text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            <span>Loading sessions...</span>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sessions.map(session => {
+              const mobile = /Mobile|Android|iPhone/.test(session.user_agent || '');
+              const DeviceIcon = mobile ? Smartphone : Monitor;
+              return (
+                <div key={session.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg bg-gray-50">
+                  <div className="flex items-start space-x-3">
+                    <DeviceIcon className="h-5 w-5 text-gray-500 mt-0.5" />
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium text-gray-900">{describeDevice(session.user_agent)}</p>
+                        {session.current && (
+                          <Badge variant="outline" className="text-xs border-green-300 text-green-700 bg-green-50">This device</Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        {session.ip_address || 'Unknown IP'} • Signed in {new Date(session.created_at).toLocaleString()}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        Last active {new Date(session.last_seen_at || session.created_at).toLocaleString()} • Expires {new Date(session.expires_at).toLocaleString()}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRevoke(session.id)}
+                      disabled={revoking !== null}
+                      className="h-8 text-xs border-red-200 text-red-600 hover:bg-red-50"
+                    >
+                      {revoking === session.id && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                      Revoke
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start space-x-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            <ShieldAlert className="h-5 w-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <Button
+          variant="outline"
+          onClick={handleSignOutEverywhere}
+          disabled={revoking !== null}
+          className="border-red-200 text-red-600 hover:bg-red-50"
+        >
+          {revoking === 'all' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <LogOut className="h-4 w-4 mr-2" />}
+          Sign Out Everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { mfaApi, StepUpAction } from '@/lib/mfaApi';
+
+interface StepUpDialogProps {
+  action: StepUpAction | null;
+  description: string;
+  onVerified: (mfaToken: string) => void;
+  onCancel: () => void;
+}
+
+// Asks for a fresh two-factor code before a sensitive action and hands back
+// the single-use token the server expects for it.
+export const StepUpDialog: React.FC<StepUpDialogProps> = ({ action, description, onVerified, onCancel }) => {
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCode('');
+    setError(null);
+  }, [action]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!action || !code.trim()) return;
+
+    try {
+      setVerifying(true);
+      setError(null);
+      onVerified(await mfaApi.stepUp(action, code.trim()));
+    } catch (stepUpError) {
+      setError(stepUpError instanceof Error ? stepUpError.message : 'Failed to verify authentication code');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-md" title="Confirm with two-factor authentication">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-purple-600" />
+            <span>Confirm It's You</span>
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="6-digit code or recovery code"
+            className="h-10 text-center tracking-widest"
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={verifying} className="bg-purple-600 hover:bg-purple-700 text-white">
+              {verifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Confirm
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
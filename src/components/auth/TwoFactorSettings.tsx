@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { mfaApi, MfaStatus, MfaEnrollment } from '@/lib/mfaApi';
+
+export const TwoFactorSettings: React.FC = () => {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<MfaStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [qrCode, setQrCode] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await mfaApi.getStatus());
+    } catch (statusError) {
+      setError(statusError instanceof Error ? statusError.message : 'Failed to load two-factor status');
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setWorking(true);
+      setError(null);
+      await action();
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Two-factor request failed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleEnroll = () => run(async () => {
+    const result = await mfaApi.enroll();
+    setEnrollment(result);
+    setQrCode(await QRCode.toDataURL(result.otpauthUri));
+    setRecoveryCodes(null);
+    setCode('');
+  });
+
+  const handleActivate = () => run(async () => {
+    setRecoveryCodes(await mfaApi.activate(code.trim()));
+    setEnrollment(null);
+    setQrCode(null);
+    setCode('');
+    await loadStatus();
+    toast({
+      title: "Two-Factor Enabled",
+      description: "Save your recovery codes somewhere safe"
+    });
+  });
+
+  const handleDisable = () => run(async () => {
+    await mfaApi.disable(code.trim());
+    setRecoveryCodes(null);
+    setCode('');
+    await loadStatus();
+    toast({
+      title: "Two-Factor Disabled",
+      description: "Your account no longer asks for an authentication code"
+    });
+  });
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl text-gray-800 flex items-center space-x-3">
+          <ShieldCheck className="h-6 w-6 text-purple-600" />
+          <span>Two-Factor Authentication</span>
+          {status && (
+            <Badge variant="outline" className={status.enabled ? 'border-green-300 text-green-700 bg-green-50' : 'border-gray-300 text-gray-600'}>
+              {status.enabled ? 'On' : 'Off'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-base text-gray-600">
+          Ask for a code from an authenticator app when signing in and before deleting elections, deleting candidates or sending invitations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-6">
+        {recoveryCodes && (
+          <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 space-y-3">
+            <p className="text-sm text-yellow-800">
+              These recovery codes are shown only once. Each one can be used a single time if you lose your authenticator.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+              {recoveryCodes.map(recoveryCode => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {status?.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+            </p>
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="mfa-disable-code">Authentication code</Label>
+              <Input
+                id="mfa-disable-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code or recovery code"
+                autoComplete="one-time-code"
+              />
+            </div>
+            <Button variant="outline" onClick={handleDisable} disabled={!code.trim() || working}>
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Turn Off Two-Factor
+            </Button>
+          </div>
+        ) : enrollment ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Scan this code with your authenticator app, then enter the 6-digit code it shows.
+            </p>
+            <div className="flex flex-col md:flex-row md:items-center gap-6">
+              {qrCode && <img src={qrCode} alt="Authenticator QR code" className="h-44 w-44 rounded-lg border border-gray-200" />}
+              <div className="space-y-2">
+                <p className="text-xs text-gray-500">Or enter this key manually:</p>
+                <p className="font-mono text-sm text-gray-900 break-all">{enrollment.secret}</p>
+              </div>
+            </div>
+            <div className="space-y-2 max-w-sm">
+              <Label htmlFor="mfa-activate-code">Authentication code</Label>
+              <Input
+                id="mfa-activate-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="6-digit code"
+                maxLength={6}
+                autoComplete="one-time-code"
+              />
+            </div>
+            <Button onClick={handleActivate} disabled={!code.trim() || working} className="bg-purple-600 hover:bg-purple-700 text-white">
+              {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Turn On Two-Factor
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleEnroll} disabled={!status || working} className="bg-purple-600 hover:bg-purple-700 text-white">
+            {working && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Set Up Authenticator App
+          </Button>
+        )}
+
+        {error && (
+          <div className="flex items-start space-x-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            <ShieldAlert className="h-5 w-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { ReferendumOutcome } from '@/lib/supabase';
+import { PASS_THRESHOLD_LABELS } from '@/lib/electionApi';
+
+interface ReferendumResultProps {
+  outcome: ReferendumOutcome;
+}
+
+const percentOf = (count: number, total: number) => (total ? Math.round((count / total) * 10000) / 100 : 0);
+
+export const ReferendumResult: React.FC<ReferendumResultProps> = ({ outcome }) => {
+  const decisive = outcome.votesFor + outcome.votesAgainst;
+  const turnout = percentOf(outcome.totalBallots, outcome.eligibleVoters);
+
+  return (
+    <Card className={`border-2 shadow-lg ${outcome.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+      <CardHeader className="pb-4">
+        <div className="flex items-center space-x-4">
+          {outcome.passed ? (
+            <CheckCircle className="h-12 w-12 text-green-600 flex-shrink-0" />
+          ) : (
+            <XCircle className="h-12 w-12 text-red-600 flex-shrink-0" />
+          )}
+          <div>
+            <CardTitle className="text-2xl text-gray-900">
+              {outcome.passed ? 'Motion Carried' : 'Motion Not Carried'}
+            </CardTitle>
+            <CardDescription className="text-base text-gray-700">
+              Requires {PASS_THRESHOLD_LABELS[outcome.passThreshold].toLowerCase()} of For and Against votes
+              {outcome.quorumPercent !== null && ` with a quorum of ${outcome.quorumPercent}%`}. Abstentions count towards quorum only.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-6">
+        <div className="space-y-3">
+          {[
+            { label: 'For', count: outcome.votesFor },
+            { label: 'Against', count: outcome.votesAgainst }
+          ].map(({ label, count }) => (
+            <div key={label} className="space-y-1">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">{label}</span>
+                <span className="text-gray-600">{count} votes ({percentOf(count, decisive)}%)</span>
+              </div>
+              <Progress value={percentOf(count, decisive)} className="h-3 bg-white" />
+            </div>
+          ))}
+          <p className="text-sm text-gray-600">{outcome.abstentions} abstained</p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <Badge
+            variant="outline"
+            className={outcome.thresholdMet ? 'border-green-300 text-green-700 bg-white' : 'border-red-300 text-red-700 bg-white'}
+          >
+            Threshold {outcome.thresholdMet ? 'met' : 'not met'}
+          </Badge>
+          {outcome.quorumPercent !== null && (
+            <Badge
+              variant="outline"
+              className={outcome.quorumMet ? 'border-green-300 text-green-700 bg-white' : 'border-red-300 text-red-700 bg-white'}
+            >
+              Quorum {outcome.quorumMet ? 'met' : 'not met'}: {turnout}% of {outcome.eligibleVoters} voted
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { RunoffResults } from '@/lib/supabase';
+
+interface RunoffRoundsProps {
+  runoff: RunoffResults;
+}
+
+export const RunoffRounds: React.FC<RunoffRoundsProps> = ({ runoff }) => {
+  const candidateName = (id: string) => runoff.candidates.find(candidate => candidate.id === id)?.name || 'Unknown candidate';
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl text-gray-800">Instant-Runoff Rounds</CardTitle>
+        <CardDescription className="text-base text-gray-600">
+          Each round the last-placed candidate is eliminated and their ballots move to the next preference
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-6">
+        {runoff.rounds.length === 0 ? (
+          <p className="text-gray-600 text-center py-6">No ballots have been cast yet.</p>
+        ) : (
+          runoff.rounds.map(round => {
+            const activeBallots = runoff.totalBallots - round.exhausted;
+            const standings = Object.entries(round.counts).sort(([, a], [, b]) => b - a);
+
+            return (
+              <div key={round.round} className="border border-gray-200 rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">Round {round.round}</h3>
+                  <div className="flex items-center space-x-2">
+                    {round.exhausted > 0 && (
+                      <Badge variant="outline" className="text-xs border-gray-300 text-gray-600">
+                        {round.exhausted} exhausted
+                      </Badge>
+                    )}
+                    {round.winner && (
+                      <Badge className="bg-yellow-600 text-white">Winner: {candidateName(round.winner)}</Badge>
+                    )}
+                  </div>
+                </div>
+
+                {standings.map(([candidateId, count]) => {
+                  const percentage = activeBallots ? Math.round((count / activeBallots) * 10000) / 100 : 0;
+                  const isEliminated = round.eliminated.includes(candidateId);
+
+                  return (
+                    <div key={candidateId} className="space-y-1">
+                      <div className="flex items-center justify-between text-sm">
+                        <span className={isEliminated ? 'text-red-600 line-through' : 'text-gray-900 font-medium'}>
+                          {candidateName(candidateId)}
+                        </span>
+                        <span className="text-gray-600">{count} votes ({percentage}%)</span>
+                      </div>
+                      <Progress value={percentage} className="h-2" />
+                    </div>
+                  );
+                })}
+
+                {round.eliminated.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Eliminated: {round.eliminated.map(candidateName).join(', ')}
+                  </p>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+
+interface BallotCandidate {
+  id: string;
+  name: string;
+  party?: string;
+  symbol?: string;
+}
+
+interface ApprovalBallotProps {
+  candidates: BallotCandidate[];
+  selections: string[];
+  minSelections: number;
+  maxSelections: number;
+  onChange: (selections: string[]) => void;
+  disabled?: boolean;
+}
+
+export const ApprovalBallot: React.FC<ApprovalBallotProps> = ({
+  candidates,
+  selections,
+  minSelections,
+  maxSelections,
+  onChange,
+  disabled
+}) => {
+  const isFull = selections.length >= maxSelections;
+
+  const toggleCandidate = (candidateId: string, checked: boolean) => {
+    if (checked) {
+      if (!isFull) onChange([...selections, candidateId]);
+    } else {
+      onChange(selections.filter(id => id !== candidateId));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-base text-gray-700">
+          {minSelections === maxSelections
+            ? `Select exactly ${maxSelections} candidate${maxSelections === 1 ? '' : 's'}`
+            : `Select between ${minSelections} and ${maxSelections} candidates`}
+        </p>
+        <Badge
+          variant="outline"
+          className={selections.length >= minSelections
+            ? 'border-green-300 text-green-700 bg-green-50'
+            : 'border-gray-300 text-gray-700'}
+        >
+          {selections.length} / {maxSelections} selected
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {candidates.map(candidate => {
+          const isSelected = selections.includes(candidate.id);
+          const isDisabled = disabled || (!isSelected && isFull);
+
+          return (
+            <label
+              key={candidate.id}
+              htmlFor={`approve-${candidate.id}`}
+              className={`flex items-center space-x-4 p-4 border-2 rounded-lg transition-colors ${
+                isSelected ? 'border-purple-400 bg-purple-50' : 'border-gray-200 bg-white'
+              } ${isDisabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer hover:border-purple-300'}`}
+            >
+              <Checkbox
+                id={`approve-${candidate.id}`}
+                checked={isSelected}
+                disabled={isDisabled}
+                onCheckedChange={(checked) => toggleCandidate(candidate.id, checked === true)}
+              />
+              <div className="flex-1">
+                <p className="font-semibold text-gray-900">{candidate.name}</p>
+                {candidate.party && <p className="text-sm text-gray-600">{candidate.party}</p>}
+                {candidate.symbol && (
+                  <Badge variant="outline" className="mt-1 border-purple-200 text-purple-700 bg-purple-50">
+                    {candidate.symbol}
+                  </Badge>
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
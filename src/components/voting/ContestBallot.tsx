@@ -0,0 +1,120 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { ContestBallot as ContestBallotValue } from '@/lib/supabase';
+import { RankedBallot } from './RankedBallot';
+import { ApprovalBallot } from './ApprovalBallot';
+
+interface BallotCandidate {
+  id: string;
+  name: string;
+  party?: string;
+  symbol?: string;
+}
+
+interface ContestBallotProps {
+  name: string;
+  position: number;
+  votingMethod: string;
+  candidates: BallotCandidate[];
+  ballot: ContestBallotValue;
+  minSelections: number;
+  maxSelections: number;
+  onChange: (ballot: ContestBallotValue) => void;
+  disabled?: boolean;
+}
+
+export const ContestBallot: React.FC<ContestBallotProps> = ({
+  name,
+  position,
+  votingMethod,
+  candidates,
+  ballot,
+  minSelections,
+  maxSelections,
+  onChange,
+  disabled
+}) => {
+  const renderBallot = () => {
+    if (candidates.length === 0) {
+      return <p className="text-gray-600 text-center py-6">No candidates are standing for this position.</p>;
+    }
+
+    if (votingMethod === 'ranked_choice') {
+      return (
+        <RankedBallot
+          candidates={candidates}
+          ranking={ballot.ranking || []}
+          onChange={ranking => onChange({ ...ballot, ranking })}
+          disabled={disabled}
+        />
+      );
+    }
+
+    if (votingMethod === 'approval') {
+      return (
+        <ApprovalBallot
+          candidates={candidates}
+          selections={ballot.selections || []}
+          minSelections={minSelections}
+          maxSelections={maxSelections}
+          onChange={selections => onChange({ ...ballot, selections })}
+          disabled={disabled}
+        />
+      );
+    }
+
+    return (
+      <RadioGroup
+        value={ballot.candidateId || ''}
+        onValueChange={candidateId => onChange({ ...ballot, candidateId })}
+        disabled={disabled}
+        className="grid grid-cols-1 md:grid-cols-2 gap-3"
+      >
+        {candidates.map(candidate => {
+          const isSelected = ballot.candidateId === candidate.id;
+
+          return (
+            <label
+              key={candidate.id}
+              htmlFor={`contest-${ballot.contestId}-${candidate.id}`}
+              className={`flex items-center space-x-4 p-4 border-2 rounded-lg transition-colors cursor-pointer ${
+                isSelected ? 'border-purple-400 bg-purple-50' : 'border-gray-200 bg-white hover:border-purple-300'
+              }`}
+            >
+              <RadioGroupItem id={`contest-${ballot.contestId}-${candidate.id}`} value={candidate.id} />
+              <div className="flex-1">
+                <p className="font-semibold text-gray-900">{candidate.name}</p>
+                {candidate.party && <p className="text-sm text-gray-600">{candidate.party}</p>}
+                {candidate.symbol && (
+                  <Badge variant="outline" className="mt-1 border-purple-200 text-purple-700 bg-purple-50">
+                    {candidate.symbol}
+                  </Badge>
+                )}
+              </div>
+            </label>
+          );
+        })}
+      </RadioGroup>
+    );
+  };
+
+  return (
+    <Card className="bg-white border border-purple-200 shadow-sm">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl text-gray-900">
+          {position + 1}. {name}
+        </CardTitle>
+        <CardDescription className="text-base text-gray-600">
+          {votingMethod === 'ranked_choice'
+            ? 'Rank the candidates for this position in order of preference'
+            : votingMethod === 'approval'
+            ? 'Choose every candidate you support for this position'
+            : 'Choose one candidate for this position'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0">{renderBallot()}</CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ArrowUp, ArrowDown, X, Plus } from 'lucide-react';
+
+interface BallotCandidate {
+  id: string;
+  name: string;
+  party?: string;
+  symbol?: string;
+}
+
+interface RankedBallotProps {
+  candidates: BallotCandidate[];
+  ranking: string[];
+  onChange: (ranking: string[]) => void;
+  disabled?: boolean;
+}
+
+export const RankedBallot: React.FC<RankedBallotProps> = ({
+  candidates,
+  ranking,
+  onChange,
+  disabled
+}) => {
+  const rankedCandidates = ranking
+    .map(id => candidates.find(candidate => candidate.id === id))
+    .filter(Boolean) as BallotCandidate[];
+  const unrankedCandidates = candidates.filter(candidate => !ranking.includes(candidate.id));
+
+  const moveCandidate = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= ranking.length) return;
+
+    const next = [...ranking];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">Your Ranking</h3>
+        {rankedCandidates.length === 0 ? (
+          <p className="text-gray-600 bg-gray-50 border border-dashed border-gray-300 rounded-lg p-6 text-center">
+            Add candidates below in order of preference. You do not have to rank everyone.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {rankedCandidates.map((candidate, index) => (
+              <div
+                key={candidate.id}
+                className="flex items-center space-x-4 p-4 border-2 border-purple-200 rounded-lg bg-purple-50"
+              >
+                <div className="h-10 w-10 rounded-full bg-purple-600 text-white flex items-center justify-center font-bold">
+                  {index + 1}
+                </div>
+                <div className="flex-1">
+                  <p className="font-semibold text-gray-900">{candidate.name}</p>
+                  {candidate.party && <p className="text-sm text-gray-600">{candidate.party}</p>}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveCandidate(index, -1)}
+                    disabled={disabled || index === 0}
+                    aria-label={`Move ${candidate.name} up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveCandidate(index, 1)}
+                    disabled={disabled || index === rankedCandidates.length - 1}
+                    aria-label={`Move ${candidate.name} down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(ranking.filter(id => id !== candidate.id))}
+                    disabled={disabled}
+                    aria-label={`Remove ${candidate.name} from ranking`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {unrankedCandidates.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Candidates</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {unrankedCandidates.map(candidate => (
+              <div
+                key={candidate.id}
+                className="flex items-center justify-between p-4 border border-gray-200 rounded-lg bg-white"
+              >
+                <div>
+                  <p className="font-semibold text-gray-900">{candidate.name}</p>
+                  {candidate.party && <p className="text-sm text-gray-600">{candidate.party}</p>}
+                  {candidate.symbol && (
+                    <Badge variant="outline" className="mt-1 border-purple-200 text-purple-700 bg-purple-50">
+                      {candidate.symbol}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onChange([...ranking, candidate.id])}
+                  disabled={disabled}
+                  className="border-purple-300 text-purple-700 hover:bg-purple-50"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Rank #{ranking.length + 1}
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ShieldCheck, ShieldAlert, Loader2 } from 'lucide-react';
+import { verificationApi } from '@/lib/verificationApi';
+import { verifyInclusionProof } from '@/lib/merkleProof';
+
+interface VerifyVoteProps {
+  elections: Array<{ id: string; name: string }>;
+  initialElectionId?: string;
+}
+
+interface VerificationResult {
+  verified: boolean;
+  root: string;
+  leafCount: number;
+  message: string;
+}
+
+export const VerifyVote: React.FC<VerifyVoteProps> = ({ elections, initialElectionId }) => {
+  const [electionId, setElectionId] = useState(initialElectionId || '');
+  const [receipt, setReceipt] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (initialElectionId) {
+      setElectionId(initialElectionId);
+    }
+  }, [initialElectionId]);
+
+  useEffect(() => {
+    setReceipt(electionId ? verificationApi.getReceipt(electionId) || '' : '');
+    setResult(null);
+    setError(null);
+  }, [electionId]);
+
+  // The proof is checked here against the published root rather than trusting
+  // a yes/no answer from the server.
+  const handleVerify = async () => {
+    const trimmed = receipt.trim().toLowerCase();
+    setChecking(true);
+    setResult(null);
+    setError(null);
+
+    try {
+      const [board, inclusion] = await Promise.all([
+        verificationApi.getBulletinBoard(electionId),
+        verificationApi.getInclusionProof(electionId, trimmed)
+      ]);
+
+      const verified = inclusion.root === board.root &&
+        board.receipts.includes(trimmed) &&
+        await verifyInclusionProof(trimmed, inclusion.proof, board.root);
+
+      setResult({
+        verified,
+        root: board.root,
+        leafCount: board.leafCount,
+        message: verified
+          ? 'Your ballot is included in the published bulletin board.'
+          : 'The inclusion proof does not match the published root.'
+      });
+    } catch (verifyError) {
+      setError(verifyError instanceof Error ? verifyError.message : 'Failed to verify ballot');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card className="bg-white border border-gray-200 shadow-lg">
+      <CardHeader className="pb-4">
+        <CardTitle className="text-xl text-gray-800 flex items-center space-x-3">
+          <ShieldCheck className="h-6 w-6 text-purple-600" />
+          <span>Verify My Vote</span>
+        </CardTitle>
+        <CardDescription className="text-base text-gray-600">
+          Once an election closes, its ballot receipts are published in a Merkle tree. Check that your receipt is in it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="pt-0 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label htmlFor="verify-election">Election</Label>
+            <Select value={electionId} onValueChange={setElectionId}>
+              <SelectTrigger id="verify-election">
+                <SelectValue placeholder="Select an election" />
+              </SelectTrigger>
+              <SelectContent title="Election">
+                {elections.map(election => (
+                  <SelectItem key={election.id} value={election.id}>{election.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="verify-receipt">Ballot receipt</Label>
+            <Input
+              id="verify-receipt"
+              value={receipt}
+              onChange={(e) => setReceipt(e.target.value)}
+              placeholder="64-character receipt hash"
+              className="font-mono text-sm"
+            />
+            {electionId && !verificationApi.getReceipt(electionId) && (
+              <p className="text-xs text-gray-500">No receipt was saved in this browser for this election. Paste the one you kept when voting.</p>
+            )}
+          </div>
+        </div>
+
+        <Button
+          onClick={handleVerify}
+          disabled={!electionId || !receipt.trim() || checking}
+          className="bg-purple-600 hover:bg-purple-700 text-white"
+        >
+          {checking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Verify Ballot
+        </Button>
+
+        {error && (
+          <div className="flex items-start space-x-3 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            <ShieldAlert className="h-5 w-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {result && (
+          <div className={`rounded-lg border p-4 space-y-2 ${result.verified ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}>
+            <div className={`flex items-center space-x-3 font-medium ${result.verified ? 'text-green-700' : 'text-red-700'}`}>
+              {result.verified ? <ShieldCheck className="h-5 w-5" /> : <ShieldAlert className="h-5 w-5" />}
+              <span>{result.message}</span>
+            </div>
+            <p className="text-xs text-gray-600 break-all">
+              <strong>Merkle root:</strong> <span className="font-mono">{result.root}</span>
+            </p>
+            <p className="text-xs text-gray-600">
+              <strong>Ballots on the board:</strong> {result.leafCount}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,7 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
 import { invitationApi } from '@/lib/invitationApi';
-import { authApi } from '@/lib/authApi';
+import { authApi, LoginResponse } from '@/lib/authApi';
+import { sessionApi } from '@/lib/sessionApi';
+import { hasPermission as roleHasPermission, Permission } from '@/lib/permissions';
 import { useToast } from '@/hooks/use-toast';
 import { generateSecureOTP, isValidOTPFormat } from '@/lib/secureUtils';
 
@@ -36,8 +38,10 @@ interface AuthContextType {
   userRole: string;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<{ mfaRequired: boolean; mfaToken?: string }>;
+  verifyLoginMfa: (mfaToken: string, code: string) => Promise<void>;
   logout: () => Promise<void>;
+  signOutEverywhere: () => Promise<void>;
   createOrganization: (data: {
     name: string;
     ownerName: string;
@@ -53,10 +57,14 @@ interface AuthContextType {
   sendOTP: (email: string) => Promise<void>;
   verifyOTP: (email: string, otp: string) => Promise<boolean>;
   refreshSession: () => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// How often an open tab pushes its session's expiry forward.
+const SESSION_RENEW_INTERVAL_MS = 15 * 60 * 1000;
+
 export const useAuth = () => {
   const context = useContext(AuthContext);
   if (context === undefined) {
@@ -82,6 +90,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     checkSession();
   }, []);
 
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    const interval = setInterval(async () => {
+      try {
+        if (!(await sessionApi.renew())) {
+          clearLocalSession();
+          toast({
+            title: "Signed Out",
+            description: "Your session has ended. Please log in again.",
+            variant: "destructive"
+          });
+        }
+      } catch (error) {
+        console.error('Session renewal failed:', error);
+      }
+    }, SESSION_RENEW_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isAuthenticated]);
+
+  const clearLocalSession = () => {
+    localStorage.removeItem('session_token');
+    localStorage.removeItem('user_data');
+    localStorage.removeItem('organization_data');
+    localStorage.removeItem('user_role');
+
+    setUser(null);
+    setOrganization(null);
+    setUserRole('');
+    setIsAuthenticated(false);
+  };
+
   const checkSession = async () => {
     try {
       setIsLoading(true);
@@ -123,7 +164,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const { data: userData, error: userError } = await supabase
         .from('auth_users')
-        .select('*')
+        .select('id, email, name, role, is_verified')
         .eq('id', sessionData.user_id)
         .single();
 
@@ -134,7 +175,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
       const { data: orgData, error: orgError } = await supabase
         .from('organizations')
-        .select('*')
+        .select('id, name, slug, admin_email')
         .eq('id', sessionData.organization_id)
         .single();
 
@@ -165,90 +206,65 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const login = async (email: string, password: string) => {
-    try {
-      setIsLoading(true);
+  const completeLogin = async (result: LoginResponse) => {
+    await supabase.rpc('set_user_context', {
+      p_user_id: result.user.id
+    });
 
+    await supabase.rpc('set_organization_context', {
+      p_organization_id: result.organization.id
+    });
 
-      const { data: userData, error: userError } = await supabase
-        .from('auth_users')
-        .select('*')
-        .eq('email', email)
-        .single();
+    localStorage.setItem('session_token', result.sessionToken);
 
-      if (userError || !userData) {
-        throw new Error('User not found. Please check your email or register.');
-      }
+    setUser(result.user);
+    setOrganization(result.organization);
+    setUserRole(result.role);
+    setIsAuthenticated(true);
 
+    localStorage.setItem('user_data', JSON.stringify(result.user));
+    localStorage.setItem('organization_data', JSON.stringify(result.organization));
+    localStorage.setItem('user_role', result.role);
 
-      const encoder = new TextEncoder();
-      const data = encoder.encode(password);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      const inputPasswordHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-      
-      if (userData.password_hash !== inputPasswordHash) {
-        throw new Error('Invalid password');
-      }
-
-
-      const { data: userOrgData, error: userOrgError } = await supabase
-        .from('user_organizations')
-        .select(`
-          *,
-          organization:organizations(*)
-        `)
-        .eq('user_id', userData.id)
-        .eq('is_active', true)
-        .single();
+    toast({
+      title: "Login Successful",
+      description: `Welcome back, ${result.user.name}!`
+    });
+  };
 
-      if (userOrgError || !userOrgData) {
-        throw new Error('User is not associated with any organization');
-      }
+  const login = async (email: string, password: string) => {
+    try {
+      setIsLoading(true);
 
 
-      const { data: sessionData, error: sessionError } = await supabase.rpc('create_user_session', {
-        p_user_id: userData.id,
-        p_organization_id: userOrgData.organization_id,
-        p_ip_address: null,
-        p_user_agent: navigator.userAgent
-      });
+      const result = await authApi.login(email, password);
 
-      if (sessionError || !sessionData) {
-        throw new Error('Failed to create session');
+      if ('mfaRequired' in result) {
+        return { mfaRequired: true, mfaToken: result.mfaToken };
       }
 
+      await completeLogin(result);
+      return { mfaRequired: false };
 
-      await supabase.rpc('set_user_context', {
-        p_user_id: userData.id
-      });
-
-
-      await supabase.rpc('set_organization_context', {
-        p_organization_id: userOrgData.organization_id
-      });
-
-
-      localStorage.setItem('session_token', sessionData);
-
-
-      setUser(userData);
-      setOrganization(userOrgData.organization);
-      setUserRole(userOrgData.role);
-      setIsAuthenticated(true);
-
-
-      localStorage.setItem('user_data', JSON.stringify(userData));
-      localStorage.setItem('organization_data', JSON.stringify(userOrgData.organization));
-      localStorage.setItem('user_role', userOrgData.role);
-
+    } catch (error) {
+      console.error('Login failed:', error);
       toast({
-        title: "Login Successful",
-        description: `Welcome back, ${userData.name}!`
+        title: "Login Failed",
+        description: error instanceof Error ? error.message : 'An error occurred during login',
+        variant: "destructive"
       });
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  const verifyLoginMfa = async (mfaToken: string, code: string) => {
+    try {
+      setIsLoading(true);
+      await completeLogin(await authApi.verifyLoginMfa(mfaToken, code));
     } catch (error) {
-      console.error('Login failed:', error);
+      console.error('Two-factor verification failed:', error);
       toast({
         title: "Login Failed",
         description: error instanceof Error ? error.message : 'An error occurred during login',
@@ -272,16 +288,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       }
 
 
-      localStorage.removeItem('session_token');
-      localStorage.removeItem('user_data');
-      localStorage.removeItem('organization_data');
-      localStorage.removeItem('user_role');
-
-
-      setUser(null);
-      setOrganization(null);
-      setUserRole('');
-      setIsAuthenticated(false);
+      clearLocalSession();
 
       toast({
         title: "Logged Out",
@@ -290,16 +297,27 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     } catch (error) {
       console.error('Logout failed:', error);
+      clearLocalSession();
+    }
+  };
 
-      localStorage.removeItem('session_token');
-      localStorage.removeItem('user_data');
-      localStorage.removeItem('organization_data');
-      localStorage.removeItem('user_role');
-      
-      setUser(null);
-      setOrganization(null);
-      setUserRole('');
-      setIsAuthenticated(false);
+  const signOutEverywhere = async () => {
+    try {
+      await sessionApi.revokeAll();
+      clearLocalSession();
+
+      toast({
+        title: "Signed Out Everywhere",
+        description: "All of your devices have been signed out"
+      });
+    } catch (error) {
+      console.error('Sign out everywhere failed:', error);
+      toast({
+        title: "Sign Out Failed",
+        description: error instanceof Error ? error.message : 'Failed to sign out everywhere',
+        variant: "destructive"
+      });
+      throw error;
     }
   };
 
@@ -477,7 +495,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Slides the session's expiry forward, then reloads the user from it.
   const refreshSession = async () => {
+    if (localStorage.getItem('session_token')) {
+      try {
+        if (!(await sessionApi.renew())) {
+          clearLocalSession();
+          return;
+        }
+      } catch (error) {
+        console.error('Session renewal failed:', error);
+      }
+    }
     await checkSession();
   };
 
@@ -587,6 +616,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  const hasPermission = (permission: Permission) => roleHasPermission(userRole, permission);
+
   const value: AuthContextType = {
     user,
     organization,
@@ -594,13 +625,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     isLoading,
     isAuthenticated,
     login,
+    verifyLoginMfa,
     logout,
+    signOutEverywhere,
     createOrganization,
     verifyOrganizationOTP,
     joinOrganization,
     sendOTP,
     verifyOTP,
-    refreshSession
+    refreshSession,
+    hasPermission
   };
 
   return (
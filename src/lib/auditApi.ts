@@ -0,0 +1,163 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+// Mirrors AUDIT_ACTIONS in server/lib/audit.ts.
+export const AUDIT_ACTIONS = [
+  'login',
+  'login_failed',
+  'account_locked',
+  'election_created',
+  'election_updated',
+  'election_deleted',
+  'election_status_changed',
+  'election_certified',
+  'election_notice_sent',
+  'voter_roll_updated',
+  'candidate_created',
+  'candidate_updated',
+  'candidate_deleted',
+  'invitations_sent',
+  'invitation_deleted',
+  'invitation_resent',
+  'invitations_revoked',
+  'invitations_extended',
+  'join_code_created',
+  'join_code_revoked',
+  'vote_cast',
+  'member_role_changed',
+  'member_unlocked',
+  'member_signed_out',
+  'member_group_created',
+  'member_group_deleted',
+  'member_groups_changed'
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface AuditEntry {
+  id: string;
+  sequence: number;
+  entry_hash: string;
+  action: AuditAction;
+  details: Record<string, unknown>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  actor: { id: string; name: string; email: string } | null;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AuditFilters {
+  action?: AuditAction;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditChainBreak {
+  sequence: number;
+  entryId: string | null;
+  reason: 'missing_entry' | 'broken_link' | 'altered_entry';
+}
+
+export interface AuditVerification {
+  valid: boolean;
+  chain: {
+    valid: boolean;
+    checkedEntries: number;
+    head: { sequence: number; hash: string } | null;
+    firstBreak: AuditChainBreak | null;
+  };
+  checkpoints: Array<{
+    sequence: number;
+    headHash: string;
+    createdAt: string;
+    signatureValid: boolean;
+    matchesChain: boolean;
+  }>;
+}
+
+const toQuery = (filters: AuditFilters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  return params.toString();
+};
+
+export const auditApi = {
+  async getAuditLog(organizationId: string, filters: AuditFilters, page: number, pageSize = 50): Promise<AuditPage> {
+    const query = toQuery(filters, { page: String(page), pageSize: String(pageSize) });
+    const response = await fetch(`${API_BASE_URL}/api/audit/${organizationId}?${query}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get audit log');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async exportAuditLog(organizationId: string, filters: AuditFilters): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/api/audit/${organizationId}/export?${toQuery(filters)}`, {
+      method: 'GET',
+      headers: {
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to export audit log');
+    }
+
+    return response.blob();
+  },
+
+  async verifyAuditLog(organizationId: string): Promise<AuditVerification> {
+    const response = await fetch(`${API_BASE_URL}/api/audit/${organizationId}/verify`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to verify audit log');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async exportCheckpoints(organizationId: string): Promise<Blob> {
+    const response = await fetch(`${API_BASE_URL}/api/audit/${organizationId}/checkpoints/export`, {
+      method: 'GET',
+      headers: {
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to export audit checkpoints');
+    }
+
+    return response.blob();
+  }
+};
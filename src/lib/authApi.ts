@@ -1,5 +1,10 @@
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
 
+export const getAuthHeaders = (): Record<string, string> => {
+  const sessionToken = localStorage.getItem('session_token');
+  return sessionToken ? { Authorization: `Bearer ${sessionToken}` } : {};
+};
+
 export interface RegisterWithInvitationData {
   token: string;
   name: string;
@@ -15,7 +20,59 @@ export interface User {
   is_verified: boolean;
 }
 
+export interface Organization {
+  id: string;
+  name: string;
+  slug: string;
+  admin_email: string;
+}
+
+export interface LoginResponse {
+  success: boolean;
+  sessionToken: string;
+  role: string;
+  user: User;
+  organization: Organization;
+}
+
+// Accounts with two-factor authentication get a challenge instead of a session.
+export interface MfaChallenge {
+  success: boolean;
+  mfaRequired: true;
+  mfaToken: string;
+}
+
 export const authApi = {
+  async login(email: string, password: string): Promise<LoginResponse | MfaChallenge> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to log in');
+    }
+
+    return await response.json();
+  },
+
+  async verifyLoginMfa(mfaToken: string, code: string): Promise<LoginResponse> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/mfa/verify-login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mfaToken, code }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to verify authentication code');
+    }
+
+    return await response.json();
+  },
+
   async registerWithInvitation(data: RegisterWithInvitationData): Promise<{ success: boolean; user: User }> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/auth/register-with-invitation`, {
@@ -34,5 +91,35 @@ export const authApi = {
       console.error('Error registering with invitation:', error);
       throw error;
     }
+  },
+
+  async forgotPassword(email: string): Promise<{ success: boolean; message: string }> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/forgot-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to request password reset');
+    }
+
+    return await response.json();
+  },
+
+  async resetPassword(token: string, password: string): Promise<{ success: boolean; message: string }> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/reset-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token, password }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to reset password');
+    }
+
+    return await response.json();
   }
 }; 
\ No newline at end of file
@@ -0,0 +1,46 @@
+export interface EncryptedBallot {
+  encryptedData: string;
+}
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  return btoa(String.fromCharCode(...new Uint8Array(buffer)));
+};
+
+const pemToDer = (pem: string): ArrayBuffer => {
+  const base64 = pem.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s/g, '');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0)).buffer;
+};
+
+// Seals the ballot with a one-off AES-GCM key that only the election's private
+// key can unwrap. The voter's receipt is the hash of the result, which the
+// bulletin board lets them check was counted unchanged.
+export const encryptBallot = async (electionPublicKey: string, ballot: unknown): Promise<EncryptedBallot> => {
+  const rsaKey = await crypto.subtle.importKey(
+    'spki',
+    pemToDer(electionPublicKey),
+    { name: 'RSA-OAEP', hash: 'SHA-256' },
+    false,
+    ['encrypt']
+  );
+
+  const ballotKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    ballotKey,
+    new TextEncoder().encode(JSON.stringify(ballot))
+  );
+  const wrappedKey = await crypto.subtle.encrypt(
+    { name: 'RSA-OAEP' },
+    rsaKey,
+    await crypto.subtle.exportKey('raw', ballotKey)
+  );
+
+  return {
+    encryptedData: JSON.stringify({
+      key: toBase64(wrappedKey),
+      iv: toBase64(iv.buffer),
+      ciphertext: toBase64(ciphertext)
+    })
+  };
+};
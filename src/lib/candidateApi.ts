@@ -1,3 +1,6 @@
+import { getAuthHeaders } from './authApi';
+import { getStepUpHeaders } from './mfaApi';
+
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
 
 export interface CandidateData {
@@ -5,6 +8,7 @@ export interface CandidateData {
   party: string;
   symbol: string;
   electionId: string;
+  contestId?: string;
 }
 
 export interface Candidate {
@@ -13,6 +17,7 @@ export interface Candidate {
   party: string;
   symbol: string;
   election_id: string;
+  contest_id: string | null;
   created_at: string;
 }
 
@@ -26,6 +31,7 @@ export const candidateApi = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify(candidateData),
         signal: controller.signal,
@@ -54,6 +60,7 @@ export const candidateApi = {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     });
 
@@ -66,11 +73,12 @@ export const candidateApi = {
     return result.data;
   },
 
-  async updateCandidate(candidateId: string, updateData: { name: string; party: string; symbol: string }): Promise<Candidate> {
+  async updateCandidate(candidateId: string, updateData: { name: string; party: string; symbol: string; contestId?: string }): Promise<Candidate> {
     const response = await fetch(`${API_BASE_URL}/api/candidates/${candidateId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(updateData),
     });
@@ -84,11 +92,13 @@ export const candidateApi = {
     return result.data;
   },
 
-  async deleteCandidate(candidateId: string): Promise<void> {
+  async deleteCandidate(candidateId: string, mfaToken?: string): Promise<void> {
     const response = await fetch(`${API_BASE_URL}/api/candidates/${candidateId}`, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+        ...getStepUpHeaders(mfaToken),
       },
     });
 
@@ -0,0 +1,84 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export interface Contest {
+  id: string;
+  election_id: string;
+  name: string;
+  position: number;
+  created_at: string;
+}
+
+export const contestApi = {
+  async createContest(contestData: { name: string; electionId: string }): Promise<Contest> {
+    const response = await fetch(`${API_BASE_URL}/api/contests/create`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(contestData),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to create contest');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getContests(electionId: string): Promise<Contest[]> {
+    const response = await fetch(`${API_BASE_URL}/api/contests/election/${electionId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get contests');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async updateContest(contestId: string, updateData: { name?: string; position?: number }): Promise<Contest> {
+    const response = await fetch(`${API_BASE_URL}/api/contests/${contestId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(updateData),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to update contest');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async deleteContest(contestId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/contests/${contestId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to delete contest');
+    }
+  },
+};
@@ -1,10 +1,66 @@
+import { getAuthHeaders } from './authApi';
+import { getStepUpHeaders } from './mfaApi';
+
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
 
+export type VotingMethod = 'plurality' | 'ranked_choice' | 'approval' | 'referendum';
+
+export type TallyMode = 'decrypt' | 'homomorphic';
+
+export type PassThreshold = 'simple' | 'three_fifths' | 'two_thirds' | 'three_quarters';
+
+export const PASS_THRESHOLD_LABELS: Record<PassThreshold, string> = {
+  simple: 'Simple majority (more than half)',
+  three_fifths: 'Three-fifths',
+  two_thirds: 'Two-thirds',
+  three_quarters: 'Three-quarters'
+};
+
+// Mirrors server/lib/lifecycle.ts: draft → scheduled → open → closed → certified.
+export type ElectionStatus = 'draft' | 'scheduled' | 'open' | 'closed' | 'certified';
+
+export const ELECTION_STATUS_LABELS: Record<ElectionStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  open: 'Open',
+  closed: 'Closed',
+  certified: 'Certified'
+};
+
+// Mirrors server/lib/voterRoll.ts: 'all' admits every voting member, 'list'
+// only those included; excluded members never vote.
+export type VoterRollMode = 'all' | 'list' | 'groups';
+
+export interface RollMember {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface VoterRoll {
+  mode: VoterRollMode;
+  included: RollMember[];
+  excluded: RollMember[];
+  groupIds: string[];
+  eligibleCount: number;
+  votingMembers: number;
+  unmatched?: string[];
+}
+
 export interface ElectionData {
   name: string;
   startTime: string;
   endTime: string;
   organizationId: string;
+  votingMethod?: VotingMethod;
+  seats?: number;
+  minSelections?: number;
+  maxSelections?: number;
+  quorumPercent?: number | null;
+  passThreshold?: PassThreshold;
+  tallyMode?: TallyMode;
+  trustees?: string[];
+  trusteeThreshold?: number | null;
 }
 
 export interface Election {
@@ -14,8 +70,20 @@ export interface Election {
   end_time: string;
   organization_id: string;
   is_active: boolean;
+  status: ElectionStatus;
+  certified_at: string | null;
+  voter_roll: VoterRollMode;
+  voting_method: VotingMethod;
+  seats: number;
+  min_selections: number;
+  max_selections: number;
+  quorum_percent: number | null;
+  pass_threshold: PassThreshold;
+  tally_mode: TallyMode;
+  trustee_threshold: number | null;
   created_at: string;
   candidates?: Candidate[];
+  contests?: ElectionContest[];
 }
 
 export interface Candidate {
@@ -23,6 +91,14 @@ export interface Candidate {
   name: string;
   party: string;
   symbol: string;
+  contest_id?: string | null;
+  ballot_option?: 'for' | 'against' | 'abstain' | null;
+}
+
+export interface ElectionContest {
+  id: string;
+  name: string;
+  position: number;
 }
 
 export const electionApi = {
@@ -31,6 +107,7 @@ export const electionApi = {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(electionData),
     });
@@ -49,6 +126,7 @@ export const electionApi = {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     });
 
@@ -66,6 +144,7 @@ export const electionApi = {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     });
 
@@ -83,6 +162,7 @@ export const electionApi = {
       method: 'GET',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
     });
 
@@ -95,11 +175,12 @@ export const electionApi = {
     return result.data;
   },
 
-  async updateElection(electionId: string, updateData: Partial<ElectionData & { isActive?: boolean }>): Promise<Election> {
+  async updateElection(electionId: string, updateData: Partial<ElectionData>): Promise<Election> {
     const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}`, {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
       },
       body: JSON.stringify(updateData),
     });
@@ -113,11 +194,88 @@ export const electionApi = {
     return result.data;
   },
 
-  async deleteElection(electionId: string): Promise<void> {
+  async setStatus(electionId: string, status: Exclude<ElectionStatus, 'certified'>): Promise<Election> {
+    const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}/status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({ status }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to update election status');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async certifyElection(electionId: string, mfaToken?: string): Promise<Election> {
+    const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}/certify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+        ...getStepUpHeaders(mfaToken),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to certify election');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getVoterRoll(electionId: string): Promise<VoterRoll> {
+    const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}/roll`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get voter roll');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async updateVoterRoll(electionId: string, roll: { mode: VoterRollMode; include: string[]; exclude: string[]; groups: string[] }): Promise<VoterRoll> {
+    const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}/roll`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(roll),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to update voter roll');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async deleteElection(electionId: string, mfaToken?: string): Promise<void> {
     const response = await fetch(`${API_BASE_URL}/api/elections/${electionId}`, {
       method: 'DELETE',
       headers: {
         'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+        ...getStepUpHeaders(mfaToken),
       },
     });
 
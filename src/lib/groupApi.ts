@@ -0,0 +1,104 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export interface MemberGroup {
+  id: string;
+  category: string;
+  name: string;
+  memberIds: string[];
+}
+
+export interface GroupLabel {
+  category: string;
+  name: string;
+}
+
+export interface GroupTurnout {
+  id: string;
+  category: string;
+  name: string;
+  eligible: number;
+  voted: number;
+}
+
+// Groups listed by category, in the order the server returns them.
+export const groupByCategory = <T extends { category: string }>(groups: T[]) => {
+  const categories = new Map<string, T[]>();
+  groups.forEach(group => {
+    categories.set(group.category, [...(categories.get(group.category) || []), group]);
+  });
+  return [...categories.entries()];
+};
+
+export const groupApi = {
+  async getGroups(): Promise<MemberGroup[]> {
+    const response = await fetch(`${API_BASE_URL}/api/groups`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get member groups');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async createGroup(group: GroupLabel): Promise<MemberGroup> {
+    const response = await fetch(`${API_BASE_URL}/api/groups`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify(group),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to create member group');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async deleteGroup(groupId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/groups/${groupId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to delete member group');
+    }
+  },
+
+  async getGroupTurnout(electionId: string): Promise<GroupTurnout[]> {
+    const response = await fetch(`${API_BASE_URL}/api/votes/turnout/${electionId}/groups`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get group turnout');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+};
@@ -0,0 +1,222 @@
+import { EncryptedBallot } from './ballotEncryption';
+
+// Browser half of the exponential ElGamal tally in server/lib/elgamal.ts. The
+// group, encoding and challenge hash must stay identical to the server's.
+
+const P = BigInt('0x' +
+  'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74' +
+  '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437' +
+  '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED' +
+  'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05' +
+  '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB' +
+  '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B' +
+  'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718' +
+  '3995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF');
+const Q = (P - 1n) / 2n;
+const G = 2n;
+
+export interface Ciphertext {
+  a: string;
+  b: string;
+}
+
+export interface ValidityProof {
+  commitments: [string, string][];
+  challenges: string[];
+  responses: string[];
+}
+
+export interface BallotProof {
+  choices: { [candidateId: string]: ValidityProof };
+  contests: { contestId: string | null; proof: ValidityProof }[];
+}
+
+export interface SelectionGroup {
+  contestId: string | null;
+  candidateIds: string[];
+  minSelections: number;
+  maxSelections: number;
+}
+
+export interface DecryptionProof {
+  a: string;
+  b: string;
+  decryptionFactor: string;
+  commitment: [string, string];
+  challenge: string;
+  response: string;
+}
+
+const modPow = (base: bigint, exponent: bigint) => {
+  let result = 1n;
+  let b = base % P;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % P;
+    }
+    b = (b * b) % P;
+    e >>= 1n;
+  }
+  return result;
+};
+
+const toHex = (value: bigint) => value.toString(16);
+
+const fromHex = (value: string) => BigInt('0x' + value);
+
+const bytesToHex = (bytes: Uint8Array) => {
+  return Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const randomExponent = () => fromHex(bytesToHex(crypto.getRandomValues(new Uint8Array(288)))) % Q;
+
+const challengeFor = async (values: string[]) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(values.join('|')));
+  return fromHex(bytesToHex(new Uint8Array(digest))) % Q;
+};
+
+interface Encryption {
+  a: bigint;
+  b: bigint;
+  r: bigint;
+  value: number;
+}
+
+const encrypt = (publicKey: bigint, value: number): Encryption => {
+  const r = randomExponent();
+  return { a: modPow(G, r), b: (modPow(publicKey, r) * modPow(G, BigInt(value))) % P, r, value };
+};
+
+// Disjunctive Chaum-Pedersen proof that the encryption holds one of the
+// allowed values. The true branch is proven honestly and the others are
+// simulated from challenges picked in advance; the server checks it with
+// verifyValidityProof in server/lib/elgamal.ts.
+const proveValidity = async (
+  publicKey: bigint,
+  electionPublicKey: string,
+  { a, b, r, value }: Encryption,
+  allowed: number[],
+  context: string
+): Promise<ValidityProof> => {
+  const real = allowed.indexOf(value);
+  const w = randomExponent();
+  const challenges = allowed.map(() => randomExponent());
+  const responses = allowed.map(() => randomExponent());
+
+  const commitments = allowed.map((allowedValue, j): [bigint, bigint] => {
+    if (j === real) {
+      return [modPow(G, w), modPow(publicKey, w)];
+    }
+    // Group elements have order Q, so raising to Q - c divides by the c-th power.
+    const shifted = (b * modPow(G, Q - BigInt(allowedValue))) % P;
+    return [
+      (modPow(G, responses[j]) * modPow(a, Q - challenges[j])) % P,
+      (modPow(publicKey, responses[j]) * modPow(shifted, Q - challenges[j])) % P
+    ];
+  });
+
+  const hexCommitments = commitments.map(([t1, t2]): [string, string] => [toHex(t1), toHex(t2)]);
+  const challenge = await challengeFor([context, electionPublicKey, toHex(a), toHex(b), ...hexCommitments.flat()]);
+  const simulated = challenges.reduce((sum, c, j) => (j === real ? sum : (sum + c) % Q), 0n);
+  challenges[real] = (challenge - simulated + Q) % Q;
+  responses[real] = (w + challenges[real] * r) % Q;
+
+  return {
+    commitments: hexCommitments,
+    challenges: challenges.map(toHex),
+    responses: responses.map(toHex)
+  };
+};
+
+const range = (min: number, max: number) => Array.from({ length: Math.max(0, max - min + 1) }, (_, i) => min + i);
+
+// Encrypts a 1 for every chosen candidate and a 0 for all the others, so the
+// ballot looks the same whichever candidates were picked. The proofs show the
+// server that each choice is 0 or 1 and that each contest has an allowed
+// number of choices, without revealing which.
+export const encryptHomomorphicBallot = async (
+  electionPublicKey: string,
+  electionId: string,
+  groups: SelectionGroup[],
+  chosenIds: string[]
+): Promise<{ encryptedBallot: EncryptedBallot; validityProof: BallotProof }> => {
+  const publicKey = fromHex(electionPublicKey);
+  const ciphertexts: { [candidateId: string]: Ciphertext } = {};
+  const validityProof: BallotProof = { choices: {}, contests: [] };
+
+  for (const group of groups) {
+    const encryptions = group.candidateIds.map(id => encrypt(publicKey, chosenIds.includes(id) ? 1 : 0));
+
+    for (const [index, id] of group.candidateIds.entries()) {
+      const encryption = encryptions[index];
+      ciphertexts[id] = { a: toHex(encryption.a), b: toHex(encryption.b) };
+      validityProof.choices[id] = await proveValidity(publicKey, electionPublicKey, encryption, [0, 1], electionId);
+    }
+
+    // The product of the contest's ciphertexts encrypts the number of choices
+    // under the sum of their randomness.
+    const total = encryptions.reduce((sum, encryption) => ({
+      a: (sum.a * encryption.a) % P,
+      b: (sum.b * encryption.b) % P,
+      r: (sum.r + encryption.r) % Q,
+      value: sum.value + encryption.value
+    }), { a: 1n, b: 1n, r: 0n, value: 0 });
+    const allowed = range(group.minSelections, Math.min(group.maxSelections, group.candidateIds.length));
+
+    if (!allowed.includes(total.value)) {
+      throw new Error('Ballot does not match the number of choices this election allows');
+    }
+
+    validityProof.contests.push({
+      contestId: group.contestId,
+      proof: await proveValidity(publicKey, electionPublicKey, total, allowed, electionId)
+    });
+  }
+
+  return {
+    encryptedBallot: { encryptedData: JSON.stringify({ ciphertexts }) },
+    validityProof
+  };
+};
+
+// Checks the Chaum-Pedersen proof published with a candidate's total: the
+// decryption factor was made with the key behind the election's public key,
+// and removing it from the summed ciphertext leaves exactly g^count.
+export const verifyDecryptionProof = async (
+  electionPublicKey: string,
+  proof: DecryptionProof,
+  count: number
+): Promise<boolean> => {
+  try {
+    const publicKey = fromHex(electionPublicKey);
+    const a = fromHex(proof.a);
+    const b = fromHex(proof.b);
+    const decryptionFactor = fromHex(proof.decryptionFactor);
+    const [t1, t2] = proof.commitment.map(fromHex);
+    const challenge = fromHex(proof.challenge);
+    const response = fromHex(proof.response);
+
+    const expectedChallenge = await challengeFor([
+      toHex(G),
+      electionPublicKey,
+      proof.a,
+      proof.decryptionFactor,
+      ...proof.commitment
+    ]);
+    if (challenge !== expectedChallenge) {
+      return false;
+    }
+
+    if (modPow(G, response) !== (t1 * modPow(publicKey, challenge)) % P) {
+      return false;
+    }
+    if (modPow(a, response) !== (t2 * modPow(decryptionFactor, challenge)) % P) {
+      return false;
+    }
+
+    return (decryptionFactor * modPow(G, BigInt(count))) % P === b;
+  } catch {
+    return false;
+  }
+};
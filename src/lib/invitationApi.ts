@@ -1,22 +1,64 @@
+import { getAuthHeaders } from './authApi';
+import { getStepUpHeaders } from './mfaApi';
+import { RosterColumns, RosterRow, RosterSummary } from './roster';
+
 const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
 
-export interface InvitationData {
-  emails: string[];
-  organizationId: string;
+// Mirrors the limits in server/api/invitations.ts.
+export const DEFAULT_INVITATION_DAYS = 7;
+export const MAX_INVITATION_DAYS = 90;
+export const MAX_BULK_INVITATIONS = 500;
+
+// A roster is read on the server with the chosen columns.
+export interface RosterData {
+  rows: string[][];
+  columns: RosterColumns;
+  hasHeader: boolean;
 }
 
+export type InvitationData = ({ emails: string[] } | RosterData) & {
+  organizationId: string;
+  // Groups every invited member joins on registration.
+  groupIds?: string[];
+  // How long the batch's links stay valid; the server defaults to 7 days.
+  expiresInDays?: number;
+};
+
+export type InvitationStatus = 'pending' | 'used' | 'expired' | 'revoked';
+
 export interface Invitation {
   id: string;
   organization_id: string;
   email: string;
+  name: string | null;
   invitation_token: string;
   is_used: boolean;
   used_by?: string;
   used_at?: string;
   expires_at: string;
+  revoked_at: string | null;
   created_at: string;
 }
 
+export interface JoinCode {
+  id: string;
+  token: string;
+  election_id: string | null;
+  election_name: string | null;
+  usage_limit: number;
+  used_count: number;
+  expires_at: string;
+  is_active: boolean;
+  created_at: string;
+  link: string;
+}
+
+export interface JoinCodeData {
+  electionId: string | null;
+  usageLimit: number;
+  expiresAt: string;
+}
+
 export interface InvitationStats {
   total_invitations: number;
   used_invitations: number;
@@ -25,17 +67,20 @@ export interface InvitationStats {
 }
 
 export const invitationApi = {
-  async createInvitations(invitationData: InvitationData): Promise<{ success: boolean; count: number; invitations: Invitation[] }> {
+  async createInvitations(
+    invitationData: InvitationData,
+    mfaToken?: string
+  ): Promise<{ success: boolean; count: number; invitations: Invitation[]; skipped: RosterRow[] }> {
     try {
       const response = await fetch(`${API_BASE_URL}/api/invitations/create-from-csv`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getStepUpHeaders(mfaToken) },
         body: JSON.stringify(invitationData),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to create invitations');
+        throw new Error(errorData.error || errorData.message || 'Failed to create invitations');
       }
 
       return await response.json();
@@ -45,9 +90,27 @@ export const invitationApi = {
     }
   },
 
-  async getInvitations(organizationId: string): Promise<Invitation[]> {
+  async previewRoster(rosterData: RosterData): Promise<{ rows: RosterRow[]; summary: RosterSummary }> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/preview`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders() },
+      body: JSON.stringify(rosterData),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to check roster');
+    }
+
+    return await response.json();
+  },
+
+  async getInvitations(organizationId: string, status?: InvitationStatus): Promise<Invitation[]> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/invitations/organization/${organizationId}`);
+      const query = status ? `?status=${status}` : '';
+      const response = await fetch(`${API_BASE_URL}/api/invitations/organization/${organizationId}${query}`, {
+        headers: getAuthHeaders(),
+      });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -62,9 +125,62 @@ export const invitationApi = {
     }
   },
 
+  // Sends a new link and restarts the expiry; the old link stops working.
+  async resendInvitation(invitationId: string, expiresInDays: number, mfaToken?: string): Promise<Invitation> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/resend/${invitationId}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getStepUpHeaders(mfaToken) },
+      body: JSON.stringify({ expiresInDays }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || errorData.message || 'Failed to resend invitation');
+    }
+
+    const data = await response.json();
+    return data.invitation;
+  },
+
+  // Resolves to how many invitations were revoked.
+  async revokeInvitations(invitationIds: string[], mfaToken?: string): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/revoke`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getStepUpHeaders(mfaToken) },
+      body: JSON.stringify({ invitationIds }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to revoke invitations');
+    }
+
+    const data = await response.json();
+    return data.count;
+  },
+
+  // Resolves to how many invitations now last longer.
+  async extendInvitations(invitationIds: string[], expiresInDays: number, mfaToken?: string): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/extend`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getStepUpHeaders(mfaToken) },
+      body: JSON.stringify({ invitationIds, expiresInDays }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to extend invitations');
+    }
+
+    const data = await response.json();
+    return data.count;
+  },
+
   async getInvitationStats(organizationId: string): Promise<InvitationStats> {
     try {
-      const response = await fetch(`${API_BASE_URL}/api/invitations/stats/${organizationId}`);
+      const response = await fetch(`${API_BASE_URL}/api/invitations/stats/${organizationId}`, {
+        headers: getAuthHeaders(),
+      });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -93,5 +209,47 @@ export const invitationApi = {
     } catch (error) {
       throw error;
     }
+  },
+
+  async getJoinCodes(): Promise<JoinCode[]> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/codes`, {
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to fetch join codes');
+    }
+
+    const data = await response.json();
+    return data.codes || [];
+  },
+
+  async createJoinCode(codeData: JoinCodeData, mfaToken?: string): Promise<JoinCode> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/codes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...getAuthHeaders(), ...getStepUpHeaders(mfaToken) },
+      body: JSON.stringify(codeData),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || errorData.message || 'Failed to create join code');
+    }
+
+    const data = await response.json();
+    return data.code;
+  },
+
+  async revokeJoinCode(codeId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/invitations/codes/${codeId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to revoke join code');
+    }
   }
-}; 
\ No newline at end of file
+};
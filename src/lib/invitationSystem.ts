@@ -1,4 +1,6 @@
 import { supabase } from './supabase';
+import { invitationApi } from './invitationApi';
+import { readRosterFile, hasHeaderRow, guessColumns, RosterRow } from './roster';
 
 export interface StudentInvitation {
   id: string;
@@ -27,57 +29,30 @@ export const generateInvitationToken = async (): Promise<string> => {
 };
 
 
-export const uploadStudentCSV = async (file: File, organizationId: string): Promise<{ success: boolean; count: number }> => {
+// Invites everyone in a CSV or Excel roster, with columns picked from its
+// header. Rows that cannot be invited come back as `skipped`.
+export const uploadStudentCSV = async (
+  file: File,
+  organizationId: string,
+  mfaToken?: string
+): Promise<{ success: boolean; count: number; skipped: RosterRow[] }> => {
   try {
-    const csvText = await file.text();
-    const lines = csvText.split('\n').filter(line => line.trim());
-    const headers = lines[0].split(',').map(h => h.trim());
-    
-    const emailIndex = headers.findIndex(h => h.toLowerCase().includes('email'));
-    if (emailIndex === -1) {
-      throw new Error('No email column found in CSV');
-    }
-    
-    const invitations = [];
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim());
-      const email = values[emailIndex];
-      
-      if (email && isValidEmail(email)) {
-        const invitationToken = await generateInvitationToken();
-        
-        invitations.push({
-          organization_id: organizationId,
-          email: email.toLowerCase(),
-          invitation_token: invitationToken,
-          expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString() // 7 days
-        });
-      }
-    }
-    
-    const { error: insertError } = await supabase
-      .from('student_invitations')
-      .insert(invitations);
-    
-    if (insertError) throw insertError;
-    
-    await sendInvitationEmails(invitations);
-    
-    return { success: true, count: invitations.length };
+    const rows = await readRosterFile(file);
+    const hasHeader = hasHeaderRow(rows);
+
+    const result = await invitationApi.createInvitations({
+      rows,
+      columns: guessColumns(rows, hasHeader),
+      hasHeader,
+      organizationId
+    }, mfaToken);
+    return { success: result.success, count: result.count, skipped: result.skipped };
   } catch (error) {
     console.error('Error uploading CSV:', error);
     throw error;
   }
 };
 
-const sendInvitationEmails = async (invitations: any[]) => {
-  for (const invitation of invitations) {
-    const invitationLink = generateInvitationLink(invitation.invitation_token);
-    
-    await sendInvitationEmail(invitation.email, invitationLink);
-  }
-};
-
 export const generateInvitationLink = (token: string): string => {
   // Use environment variable or current origin, with production fallback
   let baseUrl = import.meta.env.VITE_APP_URL;
@@ -95,53 +70,6 @@ export const generateInvitationLink = (token: string): string => {
   return `${baseUrl}/auth?invitation=${encodedToken}`;
 };
 
-const sendInvitationEmail = async (email: string, invitationLink: string) => {
-  const html = `
-    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-      <h2 style="color: #6B21E8;">You're Invited to Vote!</h2>
-      <p>Hello,</p>
-      <p>You have been invited to participate in the election.</p>
-      <p>Click the button below to register and vote:</p>
-      <a href="${invitationLink}" style="background-color: #6B21E8; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block; margin: 20px 0;">
-        Register and Vote
-      </a>
-      <p><strong>Important:</strong></p>
-      <ul>
-        <li>This invitation link can only be used once</li>
-        <li>The link will work until you complete registration</li>
-        <li>If you close the page without registering, you can use the link again</li>
-        <li>Link expires in 7 days</li>
-      </ul>
-      <p>If the button doesn't work, copy and paste this link:</p>
-      <p style="word-break: break-all; color: #6B21E8;">${invitationLink}</p>
-      <p>Best regards,<br>E-Matdaan Team</p>
-    </div>
-  `;
-
-  try {
-    const response = await fetch(`${import.meta.env.VITE_SERVER_URL || 'http://localhost:5000'}/send-invitation`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        to: email,
-        subject: 'You are invited to vote in the election',
-        html
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to send email');
-    }
-
-    return { success: true };
-  } catch (error) {
-    console.error('Failed to send invitation email - Network or server error');
-    return { success: true, warning: 'Invitation created but email could not be sent' };
-  }
-};
-
 export const validateInvitationToken = async (token: string): Promise<InvitationValidation> => {
   try {
     const { data, error } = await supabase.rpc('validate_invitation_token', {
@@ -314,9 +242,3 @@ const logInvitationActivity = async (invitationId: string, action: string, detai
     console.error('Error logging invitation activity:', error);
   }
 };
-
-
-const isValidEmail = (email: string): boolean => {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
-}; 
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export const memberApi = {
+  async updateRole(memberId: string, role: string): Promise<{ user_id: string; role: string }> {
+    const response = await fetch(`${API_BASE_URL}/api/members/${memberId}/role`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({ role }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to update member role');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async unlockMember(memberId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/members/${memberId}/unlock`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to unlock member');
+    }
+  },
+
+  async forceLogout(memberId: string): Promise<number> {
+    const response = await fetch(`${API_BASE_URL}/api/members/${memberId}/logout`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to sign out member');
+    }
+
+    const result = await response.json();
+    return result.data.revokedSessions;
+  },
+
+  async setGroups(memberId: string, groupIds: string[]): Promise<string[]> {
+    const response = await fetch(`${API_BASE_URL}/api/members/${memberId}/groups`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({ groupIds }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to update member groups');
+    }
+
+    const result = await response.json();
+    return result.data.groupIds;
+  },
+};
@@ -0,0 +1,37 @@
+export interface ProofStep {
+  hash: string;
+  position: 'left' | 'right';
+}
+
+const hexToBytes = (hex: string): Uint8Array => {
+  return new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+};
+
+const bytesToHex = (buffer: ArrayBuffer): string => {
+  return Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const sha256 = async (prefix: number, ...parts: Uint8Array[]): Promise<Uint8Array> => {
+  const data = new Uint8Array(1 + parts.reduce((length, part) => length + part.length, 0));
+  data[0] = prefix;
+  let offset = 1;
+  parts.forEach(part => {
+    data.set(part, offset);
+    offset += part.length;
+  });
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+};
+
+// Recomputes the root from the receipt and its sibling hashes the same way the
+// server builds the tree (0x00 prefix for leaves, 0x01 for inner nodes), so the
+// check does not rely on the server's word that the ballot was included.
+export const verifyInclusionProof = async (receipt: string, proof: ProofStep[], root: string): Promise<boolean> => {
+  let node = await sha256(0x00, hexToBytes(receipt.toLowerCase()));
+
+  for (const step of proof) {
+    const sibling = hexToBytes(step.hash);
+    node = step.position === 'left' ? await sha256(0x01, sibling, node) : await sha256(0x01, node, sibling);
+  }
+
+  return bytesToHex(node.buffer) === root.toLowerCase();
+};
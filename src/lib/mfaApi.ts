@@ -0,0 +1,77 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export type StepUpAction = 'delete_election' | 'delete_candidate' | 'send_invitations' | 'certify_election';
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+const postMfa = async (path: string, body: unknown, fallbackMessage: string) => {
+  const response = await fetch(`${API_BASE_URL}/api/auth/mfa/${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...getAuthHeaders(),
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || fallbackMessage);
+  }
+
+  return response.json();
+};
+
+export const mfaApi = {
+  async getStatus(): Promise<MfaStatus> {
+    const response = await fetch(`${API_BASE_URL}/api/auth/mfa/status`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to get two-factor status');
+    }
+
+    const result = await response.json();
+    return { enabled: result.enabled, recoveryCodesRemaining: result.recoveryCodesRemaining };
+  },
+
+  async enroll(): Promise<MfaEnrollment> {
+    const result = await postMfa('enroll', {}, 'Failed to start two-factor enrollment');
+    return { secret: result.secret, otpauthUri: result.otpauthUri };
+  },
+
+  async activate(code: string): Promise<string[]> {
+    const result = await postMfa('activate', { code }, 'Failed to enable two-factor authentication');
+    return result.recoveryCodes;
+  },
+
+  async disable(code: string): Promise<void> {
+    await postMfa('disable', { code }, 'Failed to disable two-factor authentication');
+  },
+
+  // Returns a single-use token for the action, sent as X-MFA-Token.
+  async stepUp(action: StepUpAction, code: string): Promise<string> {
+    const result = await postMfa('step-up', { action, code }, 'Failed to verify authentication code');
+    return result.mfaToken;
+  }
+};
+
+export const getStepUpHeaders = (mfaToken?: string): Record<string, string> => {
+  return mfaToken ? { 'X-MFA-Token': mfaToken } : {};
+};
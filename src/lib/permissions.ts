@@ -0,0 +1,40 @@
+// Mirrors server/lib/permissions.ts. The server is authoritative; this copy only
+// decides what the UI shows.
+export const ROLES = ['admin', 'election_officer', 'observer', 'candidate', 'student'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  election_officer: 'Election Officer',
+  observer: 'Observer',
+  candidate: 'Candidate',
+  student: 'Voter'
+};
+
+export const PERMISSIONS = {
+  access_admin_panel: ['admin', 'election_officer', 'observer'],
+  create_election: ['admin', 'election_officer'],
+  manage_elections: ['admin', 'election_officer'],
+  manage_candidates: ['admin', 'election_officer'],
+  view_live_turnout: ['admin', 'election_officer', 'observer'],
+  export_results: ['admin', 'election_officer', 'observer'],
+  certify_results: ['admin'],
+  view_audit_log: ['admin', 'observer'],
+  manage_members: ['admin'],
+  cast_vote: ['student', 'candidate']
+} satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (role: string | undefined, permission: Permission): boolean => {
+  return !!role && (PERMISSIONS[permission] as readonly string[]).includes(role);
+};
+
+export const getRoleLabel = (role: string | undefined): string => {
+  return role && role in ROLE_LABELS ? ROLE_LABELS[role as Role] : 'Member';
+};
+
+export const getHomeRoute = (role: string | undefined): string => {
+  return hasPermission(role, 'access_admin_panel') ? '/admin' : '/dashboard';
+};
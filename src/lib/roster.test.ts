@@ -0,0 +1,159 @@
+import zlib from 'zlib';
+import { Blob as NodeBlob } from 'buffer';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  readXlsx,
+  columnIndex,
+  columnLetters,
+  columnLabel,
+  hasHeaderRow,
+  guessColumns,
+  buildErrorReport,
+  RosterRow
+} from './roster';
+
+// Packs the given parts into a zip archive, stored or deflated, with just the
+// headers readXlsx looks at.
+const zip = (files: Record<string, string>, deflate = false) => {
+  const parts: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, text]) => {
+    const nameBytes = Buffer.from(name);
+    const raw = Buffer.from(text);
+    const data = deflate ? zlib.deflateRawSync(raw) : raw;
+    const method = deflate ? 8 : 0;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    parts.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    directory.push(central, nameBytes);
+
+    offset += local.length + nameBytes.length + data.length;
+  });
+
+  const centralDirectory = Buffer.concat(directory);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  const archive = Buffer.concat([...parts, centralDirectory, end]);
+  return archive.buffer.slice(archive.byteOffset, archive.byteOffset + archive.length);
+};
+
+const MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const WORKBOOK = {
+  'xl/workbook.xml': `<workbook xmlns="${MAIN}" xmlns:r="${RELATIONSHIPS}"><sheets><sheet name="Roster" sheetId="1" r:id="rId7"/></sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId7" Target="worksheets/roster.xml"/></Relationships>`,
+  'xl/sharedStrings.xml': `<sst xmlns="${MAIN}"><si><t>email</t></si><si><t>name</t></si><si><r><t>Asha </t></r><r><t>Shah</t></r><rPh><t>アシャ</t></rPh></si></sst>`,
+  'xl/worksheets/roster.xml': `<worksheet xmlns="${MAIN}"><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="AA1" t="inlineStr"><is><t>year</t></is></c></row>
+    <row r="2"><c r="A2" t="inlineStr"><is><t>asha@example.com</t></is></c><c r="B2" t="s"><v>2</v></c><c r="D2" t="b"><v>1</v></c><c r="AA2"><v>2</v></c></row>
+    <row r="3"><c r="A3"><v></v></c></row>
+  </sheetData></worksheet>`
+};
+
+describe('readXlsx', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the first worksheet, wherever the workbook stores it', async () => {
+    const rows = await readXlsx(zip(WORKBOOK));
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0][0]).toBe('email');
+    expect(rows[0][26]).toBe('year');
+    expect(rows[1].slice(0, 4)).toEqual(['asha@example.com', 'Asha Shah', '', 'TRUE']);
+    expect(rows[1][26]).toBe('2');
+  });
+
+  it('reads deflated parts', async () => {
+    // jsdom's Blob cannot be streamed into DecompressionStream; browsers' can.
+    vi.stubGlobal('Blob', NodeBlob);
+    expect(await readXlsx(zip(WORKBOOK, true))).toEqual(await readXlsx(zip(WORKBOOK)));
+  });
+
+  it('refuses a file that is not a zip archive', async () => {
+    const text = new TextEncoder().encode('email,name\na@example.com,Asha');
+    await expect(readXlsx(text.buffer)).rejects.toThrow('This file is not a valid Excel workbook');
+  });
+
+  it('refuses a workbook without a worksheet', async () => {
+    await expect(readXlsx(zip({ 'xl/workbook.xml': WORKBOOK['xl/workbook.xml'] }))).rejects.toThrow('The workbook has no worksheet to read');
+  });
+});
+
+describe('column letters', () => {
+  it('names columns the way spreadsheets do', () => {
+    expect([0, 25, 26, 51, 701, 702, 16383].map(columnLetters)).toEqual(['A', 'Z', 'AA', 'AZ', 'ZZ', 'AAA', 'XFD']);
+  });
+
+  it('is the inverse of columnIndex', () => {
+    for (let column = 0; column < 20000; column += 37) {
+      expect(columnIndex(`${columnLetters(column)}12`)).toBe(column);
+    }
+  });
+
+  it('labels a column with its header when there is one', () => {
+    const records = [['email', '', 'year']];
+    expect(columnLabel(records, true, 0)).toBe('A: email');
+    expect(columnLabel(records, true, 1)).toBe('Column B');
+    expect(columnLabel(records, false, 2)).toBe('Column C');
+    expect(columnLabel(records, false, 702)).toBe('Column AAA');
+  });
+});
+
+describe('hasHeaderRow and guessColumns', () => {
+  it('treats a first row without an email as the header', () => {
+    expect(hasHeaderRow([['Email', 'Name'], ['a@example.com', 'Asha']])).toBe(true);
+    expect(hasHeaderRow([['a@example.com', 'Asha']])).toBe(false);
+  });
+
+  it('finds the email and name columns and offers the rest as groups', () => {
+    const records = [['Department', 'Full Name', 'E-mail', 'Year', '']];
+    expect(guessColumns(records, true)).toEqual({
+      email: 2,
+      name: 1,
+      groups: [{ column: 0, category: 'Department' }, { column: 3, category: 'Year' }]
+    });
+  });
+
+  it('finds the email column by its contents when there is no header', () => {
+    expect(guessColumns([['Asha', ' a@example.com ']], false)).toEqual({ email: 1, name: null, groups: [] });
+  });
+});
+
+describe('buildErrorReport', () => {
+  it('lists only the rows that will not be invited', () => {
+    const rows: RosterRow[] = [
+      { row: 2, email: 'a@example.com', name: 'Asha', groups: [], status: 'valid', reason: null },
+      { row: 3, email: 'bad', name: '=cmd', groups: [], status: 'invalid', reason: 'Invalid email address' },
+      { row: 4, email: 'a@example.com', name: 'Asha', groups: [], status: 'duplicate', reason: 'Same email as row 2' }
+    ];
+
+    expect(buildErrorReport(rows)).toBe([
+      'Row,Email,Name,Status,Reason',
+      "3,bad,'=cmd,invalid,Invalid email address",
+      '4,a@example.com,Asha,duplicate,Same email as row 2'
+    ].join('\r\n'));
+  });
+});
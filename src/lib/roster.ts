@@ -0,0 +1,186 @@
+import { parseCsv, toCsv, EMAIL_PATTERN, RosterColumns, RosterRow } from '../../server/lib/csv';
+
+// The CSV parser and the roster types are the server's own, so a preview in
+// the browser reads a file the same way the server does.
+export type { RosterColumns, RosterRow, RosterRowStatus, RosterSummary } from '../../server/lib/csv';
+
+// An .xlsx file is a zip archive of XML parts. Only the parts needed to read
+// the first worksheet are unpacked, with the browser's own inflate.
+const readZipEntries = async (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('This file is not a valid Excel workbook');
+  }
+
+  const entries = new Map<string, () => Promise<string>>();
+  let offset = view.getUint32(end + 16, true);
+  const count = view.getUint16(end + 10, true);
+
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, async () => {
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        return new TextDecoder().decode(data);
+      }
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw' as CompressionFormat));
+      return await new Response(stream).text();
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+const elements = (node: Document | Element, name: string) => Array.from(node.getElementsByTagNameNS('*', name));
+
+// "AB12" -> 27
+export const columnIndex = (reference: string) => {
+  const letters = reference.replace(/[0-9]/g, '');
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+// 27 -> "AB", the inverse of columnIndex.
+export const columnLetters = (column: number) => {
+  let letters = '';
+  for (let rest = column + 1; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    letters = String.fromCharCode(65 + (rest - 1) % 26) + letters;
+  }
+  return letters;
+};
+
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const entries = await readZipEntries(buffer);
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? parseXml(await entry()) : null;
+  };
+
+  // The first sheet in the workbook, wherever its part is stored.
+  let sheetPath = 'xl/worksheets/sheet1.xml';
+  const [workbook, relationships] = await Promise.all([read('xl/workbook.xml'), read('xl/_rels/workbook.xml.rels')]);
+  const firstSheet = workbook && elements(workbook, 'sheet')[0];
+  const relationshipId = firstSheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const target = relationships && elements(relationships, 'Relationship')
+    .find(relationship => relationship.getAttribute('Id') === relationshipId)
+    ?.getAttribute('Target');
+  if (target) {
+    sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  const sheet = await read(sheetPath);
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet to read');
+  }
+
+  // Phonetic guides (rPh) are not part of the text.
+  const textOf = (node: Element) => elements(node, 't')
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+  const sharedStringsXml = await read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsXml ? elements(sharedStringsXml, 'si').map(textOf) : [];
+
+  const rows: string[][] = [];
+  elements(sheet, 'row').forEach(rowElement => {
+    const row: string[] = [];
+    elements(rowElement, 'c').forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = elements(cell, 'v')[0]?.textContent || '';
+
+      let text = value;
+      if (type === 's') {
+        text = sharedStrings[Number(value)] || '';
+      } else if (type === 'inlineStr') {
+        text = textOf(cell);
+      } else if (type === 'b') {
+        text = value === '1' ? 'TRUE' : 'FALSE';
+      }
+
+      while (row.length < index) {
+        row.push('');
+      }
+      row[index] = text;
+    });
+
+    if (row.some(cell => cell.trim() !== '')) {
+      rows.push(row);
+    }
+  });
+
+  return rows;
+};
+
+export const readRosterFile = async (file: File): Promise<string[][]> => {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return readXlsx(await file.arrayBuffer());
+  }
+  if (file.name.toLowerCase().endsWith('.xls')) {
+    throw new Error('Older .xls workbooks are not supported. Save the file as .xlsx or CSV.');
+  }
+  return parseCsv(await file.text());
+};
+
+// A header row is assumed unless the first row already holds an email.
+export const hasHeaderRow = (records: string[][]) => {
+  return records.length > 0 && !records[0].some(cell => EMAIL_PATTERN.test(cell.trim()));
+};
+
+// Picks columns from the header: the email and name by their titles, and
+// every other titled column as a group category, e.g. department or year.
+export const guessColumns = (records: string[][], hasHeader: boolean): RosterColumns => {
+  const first = records[0] || [];
+
+  if (!hasHeader) {
+    const emailColumn = first.findIndex(cell => EMAIL_PATTERN.test(cell.trim()));
+    return { email: Math.max(emailColumn, 0), name: null, groups: [] };
+  }
+
+  const headers = first.map(header => header.trim().toLowerCase());
+  const emailColumn = Math.max(headers.findIndex(header => header.includes('email') || header.includes('e-mail')), 0);
+  const nameColumn = headers.findIndex((header, index) => index !== emailColumn && header.includes('name'));
+
+  return {
+    email: emailColumn,
+    name: nameColumn === -1 ? null : nameColumn,
+    groups: first
+      .map((header, column) => ({ column, category: header.trim() }))
+      .filter(group => group.category && group.column !== emailColumn && group.column !== nameColumn)
+  };
+};
+
+export const columnLabel = (records: string[][], hasHeader: boolean, column: number) => {
+  const letters = columnLetters(column);
+  const header = hasHeader ? records[0]?.[column]?.trim() : '';
+  return header ? `${letters}: ${header}` : `Column ${letters}`;
+};
+
+export const columnCount = (records: string[][]) => Math.max(0, ...records.map(record => record.length));
+
+// Rows that will not be invited, with the reason, for fixing the file.
+export const buildErrorReport = (rows: RosterRow[]) => toCsv([
+  ['Row', 'Email', 'Name', 'Status', 'Reason'],
+  ...rows
+    .filter(row => row.status !== 'valid')
+    .map(row => [row.row, row.email, row.name, row.status, row.reason])
+]);
@@ -0,0 +1,86 @@
+import { getAuthHeaders } from './authApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export interface ActiveSession {
+  id: string;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  current: boolean;
+}
+
+export const sessionApi = {
+  async getSessions(): Promise<ActiveSession[]> {
+    const response = await fetch(`${API_BASE_URL}/api/sessions`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get sessions');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  // Resolves to false when the session is no longer valid, for example after
+  // it was revoked from another device.
+  async renew(): Promise<boolean> {
+    const response = await fetch(`${API_BASE_URL}/api/sessions/refresh`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (response.status === 401) {
+      return false;
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to refresh session');
+    }
+
+    return true;
+  },
+
+  async revokeSession(sessionId: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/sessions/${sessionId}`, {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to revoke session');
+    }
+  },
+
+  async revokeAll(): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/sessions/revoke-all`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to sign out everywhere');
+    }
+  }
+};
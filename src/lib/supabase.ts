@@ -1,4 +1,7 @@
 import { createClient } from '@supabase/supabase-js';
+import { getAuthHeaders } from './authApi';
+import { encryptBallot } from './ballotEncryption';
+import { encryptHomomorphicBallot, DecryptionProof } from './homomorphic';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -75,6 +78,75 @@ interface DatabaseElection {
   candidates: ElectionCandidate[];
 }
 
+export interface ContestBallot {
+  contestId: string;
+  candidateId?: string;
+  ranking?: string[];
+  selections?: string[];
+}
+
+export interface ResultContest {
+  id: string;
+  name: string;
+  position: number;
+}
+
+export type SeatStatus = 'elected' | 'tied' | 'not_elected';
+
+export interface CandidateResult {
+  candidate: ElectionCandidate & { contest_id: string | null };
+  votes: number;
+  status?: SeatStatus;
+  proof?: DecryptionProof;
+}
+
+export interface ReferendumOutcome {
+  votesFor: number;
+  votesAgainst: number;
+  abstentions: number;
+  totalBallots: number;
+  eligibleVoters: number;
+  quorumPercent: number | null;
+  quorumMet: boolean;
+  passThreshold: 'simple' | 'three_fifths' | 'two_thirds' | 'three_quarters';
+  thresholdMet: boolean;
+  passed: boolean;
+}
+
+// `eligible` is false when the member is not on the election's voter roll.
+export interface VotingStatus {
+  electionId: string;
+  hasVoted: boolean;
+  eligible: boolean;
+}
+
+export interface VoteResults {
+  results: CandidateResult[];
+  contests: ResultContest[];
+  seats: number;
+  totalBallots: number;
+  invalidBallots: number;
+  sealed: boolean;
+  trustees?: { submitted: number; threshold: number };
+  referendum?: ReferendumOutcome;
+  tallyPublicKey?: string;
+}
+
+export interface RunoffRound {
+  round: number;
+  counts: { [candidateId: string]: number };
+  exhausted: number;
+  eliminated: string[];
+  winner: string | null;
+}
+
+export interface RunoffResults {
+  candidates: ElectionCandidate[];
+  totalBallots: number;
+  rounds: RunoffRound[];
+  winner: string | null;
+}
+
 export const electionApi = {
   async setSchedule(electionData: { name: string; startTime: string; endTime: string; organizationId: string }) {
     try {
@@ -413,16 +485,52 @@ export const candidateApi = {
 };
   
 export const votingApi = {
-  async castVote(voteData: { candidateId: string; electionId: string; userId: string }) {
+  async castVote(voteData: {
+    candidateId?: string;
+    electionId: string;
+    userId: string;
+    ranking?: string[];
+    selections?: string[];
+    ballots?: ContestBallot[];
+  }) {
     try {
       const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
-      
+
+      const keyResponse = await fetch(`${API_BASE_URL}/api/votes/ballot-key/${voteData.electionId}`, {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...getAuthHeaders(),
+        },
+      });
+
+      if (!keyResponse.ok) {
+        const errorData = await keyResponse.json();
+        throw new Error(errorData.message || 'Failed to get ballot key');
+      }
+
+      const { data: ballotKey } = await keyResponse.json();
+      const { candidateId, ranking, selections } = voteData;
+      const ballots = voteData.ballots || [{ candidateId, ranking, selections }];
+
+      // Homomorphic elections take one encrypted 0 or 1 per candidate instead
+      // of a sealed ballot, so the server only ever decrypts the totals.
+      const { encryptedBallot, validityProof } = ballotKey.tallyMode === 'homomorphic'
+        ? await encryptHomomorphicBallot(
+            ballotKey.publicKey,
+            voteData.electionId,
+            ballotKey.contests,
+            ballots.flatMap(ballot => ballot.selections || (ballot.candidateId ? [ballot.candidateId] : []))
+          )
+        : { encryptedBallot: await encryptBallot(ballotKey.publicKey, { electionId: voteData.electionId, ballots }), validityProof: undefined };
+
       const response = await fetch(`${API_BASE_URL}/api/votes/cast`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
-        body: JSON.stringify(voteData),
+        body: JSON.stringify({ electionId: voteData.electionId, encryptedBallot, validityProof }),
       });
 
       if (!response.ok) {
@@ -446,6 +554,7 @@ export const votingApi = {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       });
 
@@ -462,7 +571,7 @@ export const votingApi = {
     }
   },
 
-  async getBulkVotingStatus(userId: string, electionIds: string[]) {
+  async getBulkVotingStatus(userId: string, electionIds: string[]): Promise<VotingStatus[]> {
     try {
       const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
       
@@ -470,6 +579,7 @@ export const votingApi = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
         body: JSON.stringify({ userId, electionIds }),
       });
@@ -487,7 +597,7 @@ export const votingApi = {
     }
   },
 
-  async getVoteResults(electionId: string) {
+  async getVoteResults(electionId: string): Promise<VoteResults> {
     try {
       const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
       
@@ -495,6 +605,7 @@ export const votingApi = {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          ...getAuthHeaders(),
         },
       });
 
@@ -504,10 +615,59 @@ export const votingApi = {
       }
 
       const result = await response.json();
-      return result.data;
+      return {
+        results: result.data,
+        contests: result.contests,
+        seats: result.seats,
+        totalBallots: result.totalBallots,
+        invalidBallots: result.invalidBallots || 0,
+        sealed: !!result.sealed,
+        trustees: result.trustees,
+        referendum: result.referendum,
+        tallyPublicKey: result.tallyPublicKey
+      };
     } catch (error) {
       console.error('Failed to get vote results:', error);
       throw error;
     }
+  },
+
+  async getRunoffRounds(electionId: string, contestId?: string): Promise<RunoffResults> {
+    const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+    const query = contestId ? `?contestId=${encodeURIComponent(contestId)}` : '';
+
+    const response = await fetch(`${API_BASE_URL}/api/votes/results/${electionId}/rounds${query}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get runoff rounds');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async exportResults(electionId: string): Promise<Blob> {
+    const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+    const response = await fetch(`${API_BASE_URL}/api/votes/results/${electionId}/export`, {
+      method: 'GET',
+      headers: {
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to export results');
+    }
+
+    return response.blob();
   }
 }; 
\ No newline at end of file
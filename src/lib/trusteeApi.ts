@@ -0,0 +1,115 @@
+import { getAuthHeaders } from './authApi';
+import { ElectionStatus } from './electionApi';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+export interface Trusteeship {
+  election: {
+    id: string;
+    name: string;
+    start_time: string;
+    end_time: string;
+    status: ElectionStatus;
+  };
+  shareIndex: number;
+  collectedAt: string | null;
+  submittedAt: string | null;
+  threshold: number;
+  submittedCount: number;
+}
+
+export interface ElectionTrustee {
+  user: { id: string; name: string; email: string } | null;
+  shareIndex: number;
+  collectedAt: string | null;
+  submittedAt: string | null;
+}
+
+export const trusteeApi = {
+  async getMyTrusteeships(): Promise<Trusteeship[]> {
+    const response = await fetch(`${API_BASE_URL}/api/trustees/my`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get trustee elections');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getElectionTrustees(electionId: string): Promise<ElectionTrustee[]> {
+    const response = await fetch(`${API_BASE_URL}/api/trustees/election/${electionId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get trustees');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async collectShare(electionId: string): Promise<string> {
+    const response = await fetch(`${API_BASE_URL}/api/trustees/${electionId}/collect`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to collect key share');
+    }
+
+    const result = await response.json();
+    return result.data.share;
+  },
+
+  // Confirms the share was stored, after which the server deletes its copy.
+  async acknowledgeShare(electionId: string, share: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/trustees/${electionId}/acknowledge`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({ share }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to confirm key share');
+    }
+  },
+
+  async submitShare(electionId: string, share: string): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/trustees/${electionId}/submit`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...getAuthHeaders(),
+      },
+      body: JSON.stringify({ share }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to submit key share');
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import { ProofStep } from './merkleProof';
+
+const API_BASE_URL = import.meta.env.VITE_SERVER_URL || 'http://localhost:5000';
+
+const RECEIPTS_KEY = 'ballot_receipts';
+
+export interface BulletinBoard {
+  electionId: string;
+  root: string;
+  algorithm: string;
+  leafCount: number;
+  receipts: string[];
+  publishedAt: string;
+}
+
+export interface InclusionProof {
+  electionId: string;
+  receipt: string;
+  root: string;
+  algorithm: string;
+  proof: ProofStep[];
+}
+
+// Receipts never leave this browser, so only the voter can look up their ballot.
+const readReceipts = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(RECEIPTS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const verificationApi = {
+  saveReceipt(electionId: string, receipt: string) {
+    localStorage.setItem(RECEIPTS_KEY, JSON.stringify({ ...readReceipts(), [electionId]: receipt }));
+  },
+
+  getReceipt(electionId: string): string | null {
+    return readReceipts()[electionId] || null;
+  },
+
+  async getBulletinBoard(electionId: string): Promise<BulletinBoard> {
+    const response = await fetch(`${API_BASE_URL}/api/verification/${electionId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get bulletin board');
+    }
+
+    const result = await response.json();
+    return result.data;
+  },
+
+  async getInclusionProof(electionId: string, receipt: string): Promise<InclusionProof> {
+    const response = await fetch(`${API_BASE_URL}/api/verification/${electionId}/proof/${encodeURIComponent(receipt.trim())}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.message || 'Failed to get inclusion proof');
+    }
+
+    const result = await response.json();
+    return result.data;
+  }
+};
@@ -40,10 +40,27 @@ import {
   Award,
   Globe,
   Lock,
-  Unlock
+  Unlock,
+  LogOut,
+  Play,
+  Square,
+  CalendarCheck,
+  Undo2,
+  BadgeCheck
 } from 'lucide-react';
 import { supabase, candidateApi, votingApi } from '@/lib/supabase';
-import { electionApi } from '@/lib/electionApi';
+import { electionApi, VotingMethod, PassThreshold, TallyMode, ElectionStatus, PASS_THRESHOLD_LABELS, ELECTION_STATUS_LABELS } from '@/lib/electionApi';
+import { memberApi } from '@/lib/memberApi';
+import { groupApi, MemberGroup } from '@/lib/groupApi';
+import { hasPermission as roleHasPermission, getRoleLabel, ROLES, ROLE_LABELS } from '@/lib/permissions';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { TrusteeStatus } from '@/components/admin/TrusteeStatus';
+import { VoterRollDialog } from '@/components/admin/VoterRollDialog';
+import { GroupTurnout } from '@/components/admin/GroupTurnout';
+import { MemberGroupsCard, MemberGroupPicker } from '@/components/admin/MemberGroups';
+import { StepUpDialog } from '@/components/auth/StepUpDialog';
+import { AuditLog } from '@/components/admin/AuditLog';
 
 
 interface Election {
@@ -52,8 +69,12 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
+  certified_at?: string | null;
   organization_id: string;
   created_at: string;
+  voting_method?: VotingMethod;
+  trustee_threshold?: number | null;
   candidates?: any[];
   total_votes?: number;
   candidates_count?: number;
@@ -66,13 +87,24 @@ interface User {
   role: string;
   joined_at: string;
   is_active: boolean;
+  is_locked: boolean;
+  locked_until: string | null;
 }
 
+// Spelled out so Tailwind keeps the classes.
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  3: 'grid-cols-3',
+  4: 'grid-cols-4',
+  5: 'grid-cols-5',
+  6: 'grid-cols-6'
+};
+
 const Admin = () => {
   const [activeTab, setActiveTab] = useState('overview');
   const [isLoading, setIsLoading] = useState(true);
   const [elections, setElections] = useState<Election[]>([]);
   const [users, setUsers] = useState<User[]>([]);
+  const [groups, setGroups] = useState<MemberGroup[]>([]);
   const [stats, setStats] = useState({
     totalUsers: 0,
     activeElections: 0,
@@ -80,15 +112,33 @@ const Admin = () => {
     pendingInvitations: 0
   });
   const [statsLoading, setStatsLoading] = useState(false);
+  const [pendingDeleteElectionId, setPendingDeleteElectionId] = useState<string | null>(null);
+  const [pendingCertifyElectionId, setPendingCertifyElectionId] = useState<string | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { user, organization, userRole, isAuthenticated } = useAuth();
+  const { user: currentUser, organization, userRole, isAuthenticated, hasPermission } = useAuth();
+  const canCreateElection = hasPermission('create_election');
+  const canManageElections = hasPermission('manage_elections');
+  const canManageCandidates = hasPermission('manage_candidates');
+  const canCertifyResults = hasPermission('certify_results');
+  const canManageMembers = hasPermission('manage_members');
+  const canViewLiveTurnout = hasPermission('view_live_turnout');
+  const canViewAuditLog = hasPermission('view_audit_log');
 
   const [newElection, setNewElection] = useState({
     name: '',
     startDate: '',
     endDate: '',
-    description: ''
+    description: '',
+    votingMethod: 'plurality' as VotingMethod,
+    seats: 1,
+    minSelections: 1,
+    maxSelections: 1,
+    quorumPercent: '',
+    passThreshold: 'simple' as PassThreshold,
+    tallyMode: 'decrypt' as TallyMode,
+    trustees: [] as string[],
+    trusteeThreshold: 2
   });
 
   useEffect(() => {
@@ -97,10 +147,10 @@ const Admin = () => {
       return;
     }
 
-    if (userRole !== 'admin') {
+    if (!hasPermission('access_admin_panel')) {
       toast({
         title: "Access Denied",
-        description: "You need admin privileges to access this page",
+        description: "You do not have permission to access this page",
         variant: "destructive"
       });
       navigate('/admin');
@@ -123,7 +173,8 @@ const Admin = () => {
       setIsLoading(true);
       await Promise.all([
         loadElections(),
-        loadUsers()
+        loadUsers(),
+        ...(canManageMembers ? [loadGroups()] : [])
       ]);
     } catch (error) {
       console.error('Failed to load admin data:', error);
@@ -144,8 +195,8 @@ const Admin = () => {
       const processedElections = await Promise.all((electionsData || []).map(async (election) => {
         let totalVotes = 0;
         try {
-          const voteResults = await votingApi.getVoteResults(election.id);
-          totalVotes = voteResults.reduce((total: number, result: any) => total + (result as any).votes, 0);
+          const { totalBallots } = await votingApi.getVoteResults(election.id);
+          totalVotes = totalBallots;
         } catch (error) {
           console.error(`Failed to get vote count for election ${election.id}:`, error);
         }
@@ -169,13 +220,15 @@ const Admin = () => {
       const { data, error } = await supabase
         .from('user_organizations')
         .select(`
+          role,
           joined_at,
           is_active,
           auth_users (
             id,
             name,
             email,
-            role
+            is_locked,
+            locked_until
           )
         `)
         .eq('organization_id', organization?.id);
@@ -188,9 +241,11 @@ const Admin = () => {
           id: authUser?.id || '',
           name: authUser?.name || '',
           email: authUser?.email || '',
-          role: authUser?.role || '',
+          role: userOrg.role || '',
           joined_at: userOrg.joined_at,
-          is_active: userOrg.is_active
+          is_active: userOrg.is_active,
+          is_locked: authUser?.is_locked || false,
+          locked_until: authUser?.locked_until || null
         };
       }).filter(user => user.id) as User[];
 
@@ -201,19 +256,23 @@ const Admin = () => {
     }
   };
 
+  const loadGroups = async () => {
+    try {
+      setGroups(await groupApi.getGroups());
+    } catch (error) {
+      console.error('Failed to load member groups:', error);
+      throw error;
+    }
+  };
+
   const loadStats = async (currentUsers: User[], currentElections: Election[]) => {
     try {
       setStatsLoading(true);
       
-      const eligibleVoters = currentUsers.filter(user => user.role === 'student').length;
+      const eligibleVoters = currentUsers.filter(user => roleHasPermission(user.role, 'cast_vote')).length;
       const totalUsers = currentUsers.length;
       
-      const now = new Date();
-      const activeElections = currentElections.filter(e => {
-        const startTime = new Date(e.start_time);
-        const endTime = new Date(e.end_time);
-        return e.is_active && now >= startTime && now <= endTime;
-      }).length;
+      const activeElections = currentElections.filter(e => e.status === 'open').length;
       
       const totalVotes = currentElections.reduce((sum, e) => sum + (e.total_votes || 0), 0);
 
@@ -259,19 +318,43 @@ const Admin = () => {
         name: newElection.name,
         startTime: startDateUTC,
         endTime: endDateUTC,
-        organizationId: organization?.id
+        organizationId: organization?.id,
+        votingMethod: newElection.votingMethod,
+        ...(newElection.votingMethod === 'approval' ? {
+          seats: newElection.seats,
+          minSelections: newElection.minSelections,
+          maxSelections: newElection.maxSelections
+        } : {}),
+        ...(newElection.votingMethod === 'referendum' ? {
+          quorumPercent: newElection.quorumPercent ? Number(newElection.quorumPercent) : null,
+          passThreshold: newElection.passThreshold
+        } : {}),
+        tallyMode: newElection.votingMethod === 'ranked_choice' ? 'decrypt' : newElection.tallyMode,
+        ...(newElection.trustees.length > 0 ? {
+          trustees: newElection.trustees,
+          trusteeThreshold: newElection.trusteeThreshold
+        } : {})
       });
 
       toast({
         title: "Election Created",
-        description: "Election has been created successfully"
+        description: "Saved as a draft. Schedule it once the ballot is ready."
       });
 
       setNewElection({
         name: '',
         startDate: '',
         endDate: '',
-        description: ''
+        description: '',
+        votingMethod: 'plurality',
+        seats: 1,
+        minSelections: 1,
+        maxSelections: 1,
+        quorumPercent: '',
+        passThreshold: 'simple',
+        tallyMode: 'decrypt',
+        trustees: [],
+        trusteeThreshold: 2
       });
 
       await loadElections();
@@ -287,33 +370,139 @@ const Admin = () => {
     }
   };
 
-  const handleToggleElectionStatus = async (electionId: string, currentStatus: boolean) => {
+  const handleElectionTransition = async (election: Election, to: Exclude<ElectionStatus, 'certified'>) => {
+    if (to === 'open' && !confirm(`Open voting for "${election.name}" now? The ballot can no longer be changed once voting opens.`)) {
+      return;
+    }
+    if (to === 'closed' && !confirm(`Close voting for "${election.name}" now? No more ballots will be accepted.`)) {
+      return;
+    }
+
     try {
-      await electionApi.updateElection(electionId, { isActive: !currentStatus });
+      await electionApi.setStatus(election.id, to);
 
       toast({
         title: "Status Updated",
-        description: `Election ${!currentStatus ? 'activated' : 'deactivated'} successfully`
+        description: `${election.name} is now ${ELECTION_STATUS_LABELS[to].toLowerCase()}`
       });
 
       await loadElections();
     } catch (error) {
-      console.error('Failed to toggle election status:', error);
+      console.error('Failed to update election status:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update election status",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCertifyElection = (election: Election) => {
+    if (!confirm(`Certify the results of "${election.name}"? Certified results are final and the election can never be changed again.`)) {
+      return;
+    }
+
+    setPendingCertifyElectionId(election.id);
+  };
+
+  const certifyElectionWithToken = async (mfaToken: string) => {
+    const electionId = pendingCertifyElectionId;
+    setPendingCertifyElectionId(null);
+    if (!electionId) return;
+
+    try {
+      await electionApi.certifyElection(electionId, mfaToken);
+      toast({
+        title: "Results Certified",
+        description: "The election and its results are now frozen"
+      });
+      await loadElections();
+    } catch (error) {
+      console.error('Failed to certify election:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to certify election",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleChangeMemberRole = async (memberId: string, role: string) => {
+    try {
+      await memberApi.updateRole(memberId, role);
+      toast({
+        title: "Role Updated",
+        description: `Member is now ${getRoleLabel(role)}`
+      });
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to update member role:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update member role",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleUnlockMember = async (memberId: string) => {
+    try {
+      await memberApi.unlockMember(memberId);
+      toast({
+        title: "Account Unlocked",
+        description: "The member can sign in again"
+      });
+      await loadUsers();
+    } catch (error) {
+      console.error('Failed to unlock member:', error);
       toast({
         title: "Error",
-        description: "Failed to update election status",
+        description: error instanceof Error ? error.message : "Failed to unlock member",
         variant: "destructive"
       });
     }
   };
 
+  const handleForceLogout = async (member: User) => {
+    if (!confirm(`Sign ${member.name} out of all their devices?`)) {
+      return;
+    }
+
+    try {
+      const revokedSessions = await memberApi.forceLogout(member.id);
+      toast({
+        title: "Member Signed Out",
+        description: `${revokedSessions} active session${revokedSessions === 1 ? '' : 's'} ended`
+      });
+    } catch (error) {
+      console.error('Failed to sign out member:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sign out member",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const isAccountLocked = (user: User) => {
+    return user.is_locked || (!!user.locked_until && new Date(user.locked_until) > new Date());
+  };
+
   const handleDeleteElection = async (electionId: string) => {
     if (!confirm('Are you sure you want to delete this election? This action cannot be undone.')) {
       return;
     }
 
+    setPendingDeleteElectionId(electionId);
+  };
+
+  const deleteElectionWithToken = async (mfaToken: string) => {
+    const electionId = pendingDeleteElectionId;
+    setPendingDeleteElectionId(null);
+    if (!electionId) return;
+
     try {
-      await electionApi.deleteElection(electionId);
+      await electionApi.deleteElection(electionId, mfaToken);
       toast({
         title: "Election Deleted",
         description: "Election has been deleted successfully"
@@ -341,23 +530,15 @@ const Admin = () => {
     });
   };
 
-  const getElectionStatus = (election: any) => {
-    const now = new Date();
-    const startTime = new Date(election.start_time);
-    const endTime = new Date(election.end_time);
-
-    if (now < startTime) {
-      return { status: 'upcoming', label: 'Upcoming', color: 'bg-blue-600 text-white hover:bg-blue-700 transition-colors duration-200' };
-    } 
-    else if (now > endTime) {
-      return { status: 'ended', label: 'Ended', color: 'bg-gray-600 text-white hover:bg-gray-700 transition-colors duration-200' };
-    }
-    else if (election.is_active) {
-      return { status: 'active', label: 'Active', color: 'bg-purple-600 text-white hover:bg-purple-700 transition-colors duration-200' };
-    }
-    else {
-      return { status: 'inactive', label: 'Inactive', color: 'bg-red-600 text-white hover:bg-red-700 transition-colors duration-200' };
-    }
+  const getElectionStatus = (election: Election) => {
+    const colors: Record<ElectionStatus, string> = {
+      draft: 'bg-yellow-500 text-white hover:bg-yellow-600 transition-colors duration-200',
+      scheduled: 'bg-blue-600 text-white hover:bg-blue-700 transition-colors duration-200',
+      open: 'bg-purple-600 text-white hover:bg-purple-700 transition-colors duration-200',
+      closed: 'bg-gray-600 text-white hover:bg-gray-700 transition-colors duration-200',
+      certified: 'bg-green-600 text-white hover:bg-green-700 transition-colors duration-200'
+    };
+    return { status: election.status, label: ELECTION_STATUS_LABELS[election.status], color: colors[election.status] };
   };
 
 
@@ -483,12 +664,19 @@ const Admin = () => {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 bg-white border border-purple-200 shadow-sm">
+          <TabsList className={`grid w-full ${TAB_GRID_COLUMNS[3 + (canManageMembers ? 2 : 0) + (canViewAuditLog ? 1 : 0)]} bg-white border border-purple-200 shadow-sm`}>
             <TabsTrigger value="overview" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Overview</TabsTrigger>
             <TabsTrigger value="elections" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Elections</TabsTrigger>
-            <TabsTrigger value="users" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Users</TabsTrigger>
+            {canManageMembers && (
+              <TabsTrigger value="users" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Users</TabsTrigger>
+            )}
             <TabsTrigger value="analytics" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Analytics</TabsTrigger>
-            <TabsTrigger value="invitations" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Invitations</TabsTrigger>
+            {canManageMembers && (
+              <TabsTrigger value="invitations" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Invitations</TabsTrigger>
+            )}
+            {canViewAuditLog && (
+              <TabsTrigger value="audit" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white">Audit</TabsTrigger>
+            )}
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -527,14 +715,16 @@ const Admin = () => {
                           >
                             <Eye className="h-4 w-4" />
                           </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => navigate(`/admin/elections/${election.id}/candidates`)}
-                            className="h-7 w-7 p-0"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
+                          {canManageCandidates && election.voting_method !== 'referendum' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => navigate(`/admin/elections/${election.id}/candidates`)}
+                              className="h-7 w-7 p-0"
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </div>
                     );
@@ -559,13 +749,19 @@ const Admin = () => {
                           <Badge variant={user.is_active ? "default" : "secondary"} className="text-xs">
                             {user.is_active ? "Active" : "Inactive"}
                           </Badge>
+                          {isAccountLocked(user) && (
+                            <Badge variant="destructive" className="text-xs">
+                              <Lock className="h-3 w-3 mr-1" />
+                              Locked
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-xs text-gray-600 mt-1">
                           {user.email} • Joined {new Date(user.joined_at).toLocaleDateString()}
                         </p>
                       </div>
                       <Badge variant="outline" className="text-xs border-purple-300 text-purple-700 bg-purple-50">
-                        {user.role}
+                        {getRoleLabel(user.role)}
                       </Badge>
                     </div>
                   ))}
@@ -575,68 +771,217 @@ const Admin = () => {
           </TabsContent>
 
           <TabsContent value="elections" className="space-y-6">
-            <Card className="bg-white border border-gray-200 shadow-sm">
-              <CardHeader className="pb-3">
-                <CardTitle className="text-lg text-gray-800 flex items-center">
-                  <Plus className="h-5 w-5 mr-2 text-purple-600" />
-                  Create New Election
-                </CardTitle>
-                <CardDescription className="text-sm">Set up a new election for your organization</CardDescription>
-              </CardHeader>
-              <CardContent className="pt-0">
-                <form onSubmit={handleCreateElection} className="space-y-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="election-name" className="text-sm font-medium">Election Name</Label>
-                      <Input
-                        id="election-name"
-                        value={newElection.name}
-                        onChange={(e) => setNewElection({ ...newElection, name: e.target.value })}
-                        placeholder="Enter election name"
-                        className="h-10"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="election-description" className="text-sm font-medium">Description</Label>
-                      <Input
-                        id="election-description"
-                        value={newElection.description}
-                        onChange={(e) => setNewElection({ ...newElection, description: e.target.value })}
-                        placeholder="Enter description"
-                        className="h-10"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="start-date" className="text-sm font-medium">Start Date & Time</Label>
-                      <Input
-                        id="start-date"
-                        type="datetime-local"
-                        value={newElection.startDate}
-                        onChange={(e) => setNewElection({ ...newElection, startDate: e.target.value })}
-                        className="h-10"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="end-date" className="text-sm font-medium">End Date & Time</Label>
-                      <Input
-                        id="end-date"
-                        type="datetime-local"
-                        value={newElection.endDate}
-                        onChange={(e) => setNewElection({ ...newElection, endDate: e.target.value })}
-                        className="h-10"
-                        required
-                      />
+            {canCreateElection && (
+              <Card className="bg-white border border-gray-200 shadow-sm">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg text-gray-800 flex items-center">
+                    <Plus className="h-5 w-5 mr-2 text-purple-600" />
+                    Create New Election
+                  </CardTitle>
+                  <CardDescription className="text-sm">Set up a new election for your organization</CardDescription>
+                </CardHeader>
+                <CardContent className="pt-0">
+                  <form onSubmit={handleCreateElection} className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <Label htmlFor="election-name" className="text-sm font-medium">Election Name</Label>
+                        <Input
+                          id="election-name"
+                          value={newElection.name}
+                          onChange={(e) => setNewElection({ ...newElection, name: e.target.value })}
+                          placeholder="Enter election name"
+                          className="h-10"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="election-description" className="text-sm font-medium">Description</Label>
+                        <Input
+                          id="election-description"
+                          value={newElection.description}
+                          onChange={(e) => setNewElection({ ...newElection, description: e.target.value })}
+                          placeholder="Enter description"
+                          className="h-10"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="start-date" className="text-sm font-medium">Start Date & Time</Label>
+                        <Input
+                          id="start-date"
+                          type="datetime-local"
+                          value={newElection.startDate}
+                          onChange={(e) => setNewElection({ ...newElection, startDate: e.target.value })}
+                          className="h-10"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="end-date" className="text-sm font-medium">End Date & Time</Label>
+                        <Input
+                          id="end-date"
+                          type="datetime-local"
+                          value={newElection.endDate}
+                          onChange={(e) => setNewElection({ ...newElection, endDate: e.target.value })}
+                          className="h-10"
+                          required
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="voting-method" className="text-sm font-medium">Voting Method</Label>
+                        <Select
+                          value={newElection.votingMethod}
+                          onValueChange={(value) => setNewElection({ ...newElection, votingMethod: value as VotingMethod })}
+                        >
+                          <SelectTrigger id="voting-method" className="h-10">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent title="Voting method">
+                            <SelectItem value="plurality">Single choice (most votes wins)</SelectItem>
+                            <SelectItem value="ranked_choice">Ranked choice (instant runoff)</SelectItem>
+                            <SelectItem value="approval">Approval / multi-seat (choose up to N)</SelectItem>
+                            <SelectItem value="referendum">Referendum / motion (For, Against, Abstain)</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {newElection.votingMethod === 'approval' && (
+                        <div className="grid grid-cols-3 gap-3">
+                          <div>
+                            <Label htmlFor="seats" className="text-sm font-medium">Seats</Label>
+                            <Input
+                              id="seats"
+                              type="number"
+                              min={1}
+                              value={newElection.seats}
+                              onChange={(e) => setNewElection({ ...newElection, seats: Number(e.target.value) })}
+                              className="h-10"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="min-selections" className="text-sm font-medium">Min Choices</Label>
+                            <Input
+                              id="min-selections"
+                              type="number"
+                              min={1}
+                              max={newElection.maxSelections}
+                              value={newElection.minSelections}
+                              onChange={(e) => setNewElection({ ...newElection, minSelections: Number(e.target.value) })}
+                              className="h-10"
+                              required
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="max-selections" className="text-sm font-medium">Max Choices</Label>
+                            <Input
+                              id="max-selections"
+                              type="number"
+                              min={newElection.minSelections}
+                              value={newElection.maxSelections}
+                              onChange={(e) => setNewElection({ ...newElection, maxSelections: Number(e.target.value) })}
+                              className="h-10"
+                              required
+                            />
+                          </div>
+                        </div>
+                      )}
+                      {newElection.votingMethod === 'referendum' && (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <Label htmlFor="quorum" className="text-sm font-medium">Quorum % (optional)</Label>
+                            <Input
+                              id="quorum"
+                              type="number"
+                              min={1}
+                              max={100}
+                              value={newElection.quorumPercent}
+                              onChange={(e) => setNewElection({ ...newElection, quorumPercent: e.target.value })}
+                              placeholder="No quorum"
+                              className="h-10"
+                            />
+                          </div>
+                          <div>
+                            <Label htmlFor="pass-threshold" className="text-sm font-medium">Required Majority</Label>
+                            <Select
+                              value={newElection.passThreshold}
+                              onValueChange={(value) => setNewElection({ ...newElection, passThreshold: value as PassThreshold })}
+                            >
+                              <SelectTrigger id="pass-threshold" className="h-10">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent title="Required majority">
+                                {(Object.keys(PASS_THRESHOLD_LABELS) as PassThreshold[]).map((threshold) => (
+                                  <SelectItem key={threshold} value={threshold}>{PASS_THRESHOLD_LABELS[threshold]}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                      )}
+                      {newElection.votingMethod !== 'ranked_choice' && (
+                        <div>
+                          <Label htmlFor="tally-mode" className="text-sm font-medium">Tally Mode</Label>
+                          <Select
+                            value={newElection.tallyMode}
+                            onValueChange={(value) => setNewElection({ ...newElection, tallyMode: value as TallyMode })}
+                          >
+                            <SelectTrigger id="tally-mode" className="h-10">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent title="Tally mode">
+                              <SelectItem value="decrypt">Decrypt each ballot at tally</SelectItem>
+                              <SelectItem value="homomorphic">Homomorphic (only totals are decrypted)</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      <div className="md:col-span-2 space-y-2">
+                        <Label className="text-sm font-medium">Key Trustees (optional)</Label>
+                        <p className="text-xs text-gray-500">
+                          Split the ballot key among members so results can only be decrypted once enough of them submit their shares after voting ends.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 max-h-40 overflow-y-auto">
+                          {users.filter(member => member.is_active).map((member) => (
+                            <label key={member.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                              <Checkbox
+                                checked={newElection.trustees.includes(member.id)}
+                                onCheckedChange={(checked) => setNewElection({
+                                  ...newElection,
+                                  trustees: checked
+                                    ? [...newElection.trustees, member.id]
+                                    : newElection.trustees.filter(id => id !== member.id)
+                                })}
+                              />
+                              <span>{member.name || member.email}</span>
+                            </label>
+                          ))}
+                        </div>
+                        {newElection.trustees.length > 0 && (
+                          <div className="w-48">
+                            <Label htmlFor="trustee-threshold" className="text-sm font-medium">
+                              Shares Needed (of {newElection.trustees.length})
+                            </Label>
+                            <Input
+                              id="trustee-threshold"
+                              type="number"
+                              min={2}
+                              max={newElection.trustees.length}
+                              value={newElection.trusteeThreshold}
+                              onChange={(e) => setNewElection({ ...newElection, trusteeThreshold: Number(e.target.value) })}
+                              className="h-10"
+                              required
+                            />
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                  <Button type="submit" disabled={isLoading} className="bg-purple-600 hover:bg-purple-700 text-white h-10">
-                    <Plus className="h-4 w-4 mr-2" />
-                    Create Election
-                  </Button>
-                </form>
-              </CardContent>
-            </Card>
+                    <Button type="submit" disabled={isLoading} className="bg-purple-600 hover:bg-purple-700 text-white h-10">
+                      <Plus className="h-4 w-4 mr-2" />
+                      Create Election
+                    </Button>
+                  </form>
+                </CardContent>
+              </Card>
+            )}
 
             <Card className="bg-white border border-gray-200 shadow-sm">
               <CardHeader className="pb-3">
@@ -668,29 +1013,93 @@ const Admin = () => {
                           </p>
                         </div>
                         <div className="flex items-center space-x-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleToggleElectionStatus(election.id, election.is_active)}
-                            className={`h-8 text-xs ${
-                              election.is_active 
-                                ? 'bg-red-600 text-white border-red-600 hover:bg-red-700' 
-                                : 'bg-green-600 text-white border-green-600 hover:bg-green-700'
-                            }`}
-                          >
-                            {election.is_active ? <Lock className="h-3 w-3 mr-1" /> : <Unlock className="h-3 w-3 mr-1" />}
-                            {election.is_active ? "Deactivate" : "Activate"}
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => navigate(`/admin/elections/${election.id}/candidates`)}
-                            className="h-8 text-xs border-purple-300 text-purple-700 hover:bg-purple-50"
-                          >
-                            <Edit className="h-3 w-3 mr-1" />
-                            Manage
-                          </Button>
-                          {status.status !== 'upcoming' && (
+                          {canManageElections && election.trustee_threshold && (
+                            <TrusteeStatus
+                              electionId={election.id}
+                              electionName={election.name}
+                              threshold={election.trustee_threshold}
+                            />
+                          )}
+                          {canViewLiveTurnout && election.status !== 'draft' && election.status !== 'scheduled' && (
+                            <GroupTurnout
+                              electionId={election.id}
+                              electionName={election.name}
+                            />
+                          )}
+                          {canManageElections && (
+                            <VoterRollDialog
+                              electionId={election.id}
+                              electionName={election.name}
+                              editable={election.status === 'draft' || election.status === 'scheduled'}
+                            />
+                          )}
+                          {canManageElections && election.status === 'draft' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleElectionTransition(election, 'scheduled')}
+                              className="h-8 text-xs bg-blue-600 text-white border-blue-600 hover:bg-blue-700"
+                            >
+                              <CalendarCheck className="h-3 w-3 mr-1" />
+                              Schedule
+                            </Button>
+                          )}
+                          {canManageElections && election.status === 'scheduled' && (
+                            <>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleElectionTransition(election, 'draft')}
+                                className="h-8 text-xs border-gray-300 text-gray-700 hover:bg-gray-50"
+                              >
+                                <Undo2 className="h-3 w-3 mr-1" />
+                                Unschedule
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleElectionTransition(election, 'open')}
+                                className="h-8 text-xs bg-green-600 text-white border-green-600 hover:bg-green-700"
+                              >
+                                <Play className="h-3 w-3 mr-1" />
+                                Open Now
+                              </Button>
+                            </>
+                          )}
+                          {canManageElections && election.status === 'open' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleElectionTransition(election, 'closed')}
+                              className="h-8 text-xs bg-red-600 text-white border-red-600 hover:bg-red-700"
+                            >
+                              <Square className="h-3 w-3 mr-1" />
+                              Close
+                            </Button>
+                          )}
+                          {canCertifyResults && election.status === 'closed' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCertifyElection(election)}
+                              className="h-8 text-xs bg-green-600 text-white border-green-600 hover:bg-green-700"
+                            >
+                              <BadgeCheck className="h-3 w-3 mr-1" />
+                              Certify
+                            </Button>
+                          )}
+                          {canManageCandidates && election.voting_method !== 'referendum' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => navigate(`/admin/elections/${election.id}/candidates`)}
+                              className="h-8 text-xs border-purple-300 text-purple-700 hover:bg-purple-50"
+                            >
+                              <Edit className="h-3 w-3 mr-1" />
+                              Manage
+                            </Button>
+                          )}
+                          {status.status !== 'draft' && status.status !== 'scheduled' && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -701,15 +1110,17 @@ const Admin = () => {
                               Results
                             </Button>
                           )}
-                          <Button
-                            variant="destructive"
-                            size="sm"
-                            onClick={() => handleDeleteElection(election.id)}
-                            className="h-8 text-xs bg-red-500 hover:bg-red-600"
-                          >
-                            <Trash2 className="h-3 w-3 mr-1" />
-                            Delete
-                          </Button>
+                          {canManageElections && election.status !== 'open' && election.status !== 'certified' && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDeleteElection(election.id)}
+                              className="h-8 text-xs bg-red-500 hover:bg-red-600"
+                            >
+                              <Trash2 className="h-3 w-3 mr-1" />
+                              Delete
+                            </Button>
+                          )}
                         </div>
                       </div>
                     );
@@ -721,6 +1132,8 @@ const Admin = () => {
 
 
           <TabsContent value="users" className="space-y-6">
+            <MemberGroupsCard groups={groups} onChange={loadGroups} />
+
             <Card className="bg-white border border-gray-200 shadow-sm">
               <CardHeader className="pb-3">
                 <CardTitle className="text-lg text-gray-800 flex items-center">
@@ -739,15 +1152,68 @@ const Admin = () => {
                           <Badge variant={user.is_active ? "default" : "secondary"} className="text-xs">
                             {user.is_active ? "Active" : "Inactive"}
                           </Badge>
+                          {isAccountLocked(user) && (
+                            <Badge variant="destructive" className="text-xs">
+                              <Lock className="h-3 w-3 mr-1" />
+                              Locked
+                            </Badge>
+                          )}
                         </div>
                         <p className="text-sm text-gray-600 mb-1">{user.email}</p>
                         <p className="text-sm text-gray-600">
-                          Joined {new Date(user.joined_at).toLocaleDateString()} • Role: {user.role}
+                          Joined {new Date(user.joined_at).toLocaleDateString()} • Role: {getRoleLabel(user.role)}
                         </p>
+                        {groups.some(group => group.memberIds.includes(user.id)) && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {groups.filter(group => group.memberIds.includes(user.id)).map(group => (
+                              <Badge key={group.id} variant="outline" className="text-xs border-purple-300 text-purple-700 bg-purple-50">
+                                {group.category}: {group.name}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                      <MemberGroupPicker member={user} groups={groups} onChange={loadGroups} />
+                      {isAccountLocked(user) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleUnlockMember(user.id)}
+                          className="h-8 text-xs"
+                        >
+                          <Unlock className="h-3 w-3 mr-1" />
+                          Unlock
+                        </Button>
+                      )}
+                      {user.id !== currentUser?.id && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleForceLogout(user)}
+                          className="h-8 text-xs"
+                        >
+                          <LogOut className="h-3 w-3 mr-1" />
+                          Sign Out
+                        </Button>
+                      )}
+                      {user.id === currentUser?.id ? (
+                        <Badge variant="outline" className="text-xs border-purple-300 text-purple-700 bg-purple-50">
+                          {getRoleLabel(user.role)}
+                        </Badge>
+                      ) : (
+                        <Select value={user.role} onValueChange={(role) => handleChangeMemberRole(user.id, role)}>
+                          <SelectTrigger className="w-44 h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent title="Member role">
+                            {ROLES.map((role) => (
+                              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
                       </div>
-                      <Badge variant="outline" className="text-xs border-purple-300 text-purple-700 bg-purple-50">
-                        {user.role}
-                      </Badge>
                     </div>
                   ))}
                 </div>
@@ -770,7 +1236,7 @@ const Admin = () => {
                   <div className="space-y-4">
                     {elections.slice(0, 5).map((election) => {
 
-                      const eligibleVoters = users.filter(user => user.role === 'student').length;
+                      const eligibleVoters = users.filter(user => roleHasPermission(user.role, 'cast_vote')).length;
                       const participationRate = eligibleVoters > 0 ? 
                         ((election.total_votes || 0) / eligibleVoters) * 100 : 0;
                       return (
@@ -809,14 +1275,14 @@ const Admin = () => {
                     </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Active Students</span>
-                      <span className="font-medium">{users.filter(u => u.is_active && u.role === 'student').length}</span>
+                      <span className="font-medium">{users.filter(u => u.is_active && roleHasPermission(u.role, 'cast_vote')).length}</span>
                     </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Average Participation</span>
                       <span className="font-medium">
                         {elections.length > 0 ? 
                           Math.round(elections.reduce((sum, e) => {
-                            const eligibleVoters = users.filter(user => user.role === 'student').length;
+                            const eligibleVoters = users.filter(user => roleHasPermission(user.role, 'cast_vote')).length;
                             const participationRate = eligibleVoters > 0 ? ((e.total_votes || 0) / eligibleVoters) * 100 : 0;
                             return sum + participationRate;
                           }, 0) / elections.length) : 0}%
@@ -854,7 +1320,27 @@ const Admin = () => {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {canViewAuditLog && organization && (
+            <TabsContent value="audit" className="space-y-6">
+              <AuditLog organizationId={organization.id} />
+            </TabsContent>
+          )}
         </Tabs>
+
+        <StepUpDialog
+          action={pendingDeleteElectionId ? 'delete_election' : null}
+          description="Enter your two-factor authentication code to delete this election."
+          onVerified={deleteElectionWithToken}
+          onCancel={() => setPendingDeleteElectionId(null)}
+        />
+
+        <StepUpDialog
+          action={pendingCertifyElectionId ? 'certify_election' : null}
+          description="Enter your two-factor authentication code to certify these results."
+          onVerified={certifyElectionWithToken}
+          onCancel={() => setPendingCertifyElectionId(null)}
+        />
       </div>
     </div>
   );
@@ -7,10 +7,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Plus, Trash2, Edit, ArrowLeft, User, Vote } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Plus, Trash2, Edit, ArrowLeft, User, Vote, ListOrdered, Check, X, Lock } from 'lucide-react';
 import { supabase } from '@/lib/supabase';
-import { electionApi } from '@/lib/electionApi';
+import { electionApi, ElectionStatus, ELECTION_STATUS_LABELS } from '@/lib/electionApi';
 import { candidateApi } from '@/lib/candidateApi';
+import { contestApi, Contest } from '@/lib/contestApi';
+import { StepUpDialog } from '@/components/auth/StepUpDialog';
 
 interface Candidate {
   id: string;
@@ -18,6 +21,7 @@ interface Candidate {
   party: string;
   symbol: string;
   election_id: string;
+  contest_id: string | null;
   created_at: string;
 }
 
@@ -27,30 +31,38 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
 }
 
 const Candidates: React.FC = () => {
   const { electionId } = useParams<{ electionId: string }>();
   const navigate = useNavigate();
-  const { user, organization, isAuthenticated, userRole } = useAuth();
+  const { user, organization, isAuthenticated, userRole, hasPermission } = useAuth();
   const { toast } = useToast();
   
   const [loading, setLoading] = useState(true);
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [contests, setContests] = useState<Contest[]>([]);
+  const [newContestName, setNewContestName] = useState('');
+  const [editingContest, setEditingContest] = useState<string | null>(null);
+  const [contestNameDraft, setContestNameDraft] = useState('');
   const [election, setElection] = useState<Election | null>(null);
   const [isAddingCandidate, setIsAddingCandidate] = useState(false);
   const [editingCandidate, setEditingCandidate] = useState<string | null>(null);
+  const [pendingDeleteCandidateId, setPendingDeleteCandidateId] = useState<string | null>(null);
   
   const [newCandidate, setNewCandidate] = useState({
     name: '',
     party: '',
-    symbol: ''
+    symbol: '',
+    contestId: ''
   });
 
   const [editForm, setEditForm] = useState({
     name: '',
     party: '',
-    symbol: ''
+    symbol: '',
+    contestId: ''
   });
 
   useEffect(() => {
@@ -59,10 +71,10 @@ const Candidates: React.FC = () => {
       return;
     }
 
-    if (userRole !== 'admin') {
+    if (!hasPermission('manage_candidates')) {
       toast({
         title: "Access Denied",
-        description: "You need admin privileges to manage candidates",
+        description: "You do not have permission to manage candidates",
         variant: "destructive"
       });
       navigate('/admin');
@@ -74,6 +86,9 @@ const Candidates: React.FC = () => {
     }
   }, [isAuthenticated, userRole, electionId]);
 
+  // The ballot is locked once voting opens; the server enforces this too.
+  const ballotLocked = !!election && election.status !== 'draft' && election.status !== 'scheduled';
+
   const loadElectionAndCandidates = async () => {
     if (!electionId || !organization?.id) return;
 
@@ -104,6 +119,18 @@ const Candidates: React.FC = () => {
           variant: "destructive"
         });
       }
+
+      try {
+        const contestsData = await contestApi.getContests(electionId);
+        setContests(contestsData || []);
+      } catch (error) {
+        console.error('Failed to load positions:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load positions",
+          variant: "destructive"
+        });
+      }
     } catch (error) {
       console.error('Failed to load election and candidates:', error);
       toast({
@@ -119,7 +146,8 @@ const Candidates: React.FC = () => {
   const handleAddCandidate = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newCandidate.name || !newCandidate.party || !newCandidate.symbol) {
+    if (!newCandidate.name || !newCandidate.party || !newCandidate.symbol ||
+        (contests.length > 0 && !newCandidate.contestId)) {
       toast({
         title: "Missing Information",
         description: "Please fill in all required fields",
@@ -155,11 +183,12 @@ const Candidates: React.FC = () => {
         name: newCandidate.name,
         party: newCandidate.party,
         symbol: newCandidate.symbol,
-        electionId: electionId
+        electionId: electionId,
+        ...(newCandidate.contestId ? { contestId: newCandidate.contestId } : {})
       });
 
       setCandidates([...candidates, data]);
-      setNewCandidate({ name: '', party: '', symbol: '' });
+      setNewCandidate({ name: '', party: '', symbol: '', contestId: newCandidate.contestId });
 
       toast({
         title: "Success",
@@ -169,7 +198,7 @@ const Candidates: React.FC = () => {
       console.error('Failed to add candidate:', error);
       toast({
         title: "Error",
-        description: "Failed to add candidate",
+        description: error instanceof Error ? error.message : "Failed to add candidate",
         variant: "destructive"
       });
     }
@@ -191,12 +220,13 @@ const Candidates: React.FC = () => {
       const data = await candidateApi.updateCandidate(editingCandidate, {
         name: editForm.name,
         party: editForm.party,
-        symbol: editForm.symbol
+        symbol: editForm.symbol,
+        ...(editForm.contestId ? { contestId: editForm.contestId } : {})
       });
 
       setCandidates(candidates.map(c => c.id === editingCandidate ? data : c));
       setEditingCandidate(null);
-      setEditForm({ name: '', party: '', symbol: '' });
+      setEditForm({ name: '', party: '', symbol: '', contestId: '' });
 
       toast({
         title: "Success",
@@ -217,8 +247,16 @@ const Candidates: React.FC = () => {
       return;
     }
 
+    setPendingDeleteCandidateId(candidateId);
+  };
+
+  const deleteCandidateWithToken = async (mfaToken: string) => {
+    const candidateId = pendingDeleteCandidateId;
+    setPendingDeleteCandidateId(null);
+    if (!candidateId) return;
+
     try {
-      await candidateApi.deleteCandidate(candidateId);
+      await candidateApi.deleteCandidate(candidateId, mfaToken);
 
       setCandidates(candidates.filter(c => c.id !== candidateId));
 
@@ -241,15 +279,209 @@ const Candidates: React.FC = () => {
     setEditForm({
       name: candidate.name,
       party: candidate.party,
-      symbol: candidate.symbol
+      symbol: candidate.symbol,
+      contestId: candidate.contest_id || ''
     });
   };
 
   const cancelEditing = () => {
     setEditingCandidate(null);
-    setEditForm({ name: '', party: '', symbol: '' });
+    setEditForm({ name: '', party: '', symbol: '', contestId: '' });
+  };
+
+  const handleAddContest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!electionId || !newContestName.trim()) return;
+
+    try {
+      const data = await contestApi.createContest({ name: newContestName.trim(), electionId });
+
+      // The first position takes over any candidates added before positions existed.
+      if (contests.length === 0) {
+        setCandidates(candidates.map(c => ({ ...c, contest_id: c.contest_id || data.id })));
+      }
+      setContests([...contests, data]);
+      setNewContestName('');
+
+      toast({
+        title: "Success",
+        description: "Position added successfully"
+      });
+    } catch (error) {
+      console.error('Failed to add position:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add position",
+        variant: "destructive"
+      });
+    }
   };
 
+  const handleRenameContest = async (contestId: string) => {
+    if (!contestNameDraft.trim()) return;
+
+    try {
+      const data = await contestApi.updateContest(contestId, { name: contestNameDraft.trim() });
+      setContests(contests.map(c => c.id === contestId ? data : c));
+      setEditingContest(null);
+      setContestNameDraft('');
+    } catch (error) {
+      console.error('Failed to rename position:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rename position",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDeleteContest = async (contestId: string) => {
+    if (!confirm('Are you sure you want to delete this position and all of its candidates? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      await contestApi.deleteContest(contestId);
+      setContests(contests.filter(c => c.id !== contestId));
+      setCandidates(candidates.filter(c => c.contest_id !== contestId));
+
+      toast({
+        title: "Success",
+        description: "Position deleted successfully"
+      });
+    } catch (error) {
+      console.error('Failed to delete position:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete position",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderContestSelect = (id: string, value: string, onChange: (contestId: string) => void, className: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue placeholder="Select position" />
+      </SelectTrigger>
+      <SelectContent title="Position">
+        {contests.map((contest) => (
+          <SelectItem key={contest.id} value={contest.id}>{contest.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderCandidateCard = (candidate: Candidate) => (
+    <Card key={candidate.id} className="border-purple-200 shadow-lg hover:shadow-xl transition-all duration-300">
+      <CardHeader className="pb-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <div className="p-2 bg-gradient-to-r from-purple-100 to-indigo-100 rounded-lg">
+              <User className="h-5 w-5 text-purple-600" />
+            </div>
+            <CardTitle className="text-lg text-gray-800">{candidate.name}</CardTitle>
+          </div>
+          {!ballotLocked && (
+            <div className="flex space-x-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => startEditing(candidate)}
+                className="border-purple-200 text-purple-600 hover:bg-purple-50 h-8 w-8 p-0"
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleDeleteCandidate(candidate.id)}
+                className="border-red-200 text-red-600 hover:bg-red-50 h-8 w-8 p-0"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        {editingCandidate === candidate.id ? (
+          <form onSubmit={handleEditCandidate} className="space-y-4">
+            <div>
+              <Label htmlFor={`edit-name-${candidate.id}`} className="text-xs font-semibold">Name</Label>
+              <Input
+                id={`edit-name-${candidate.id}`}
+                value={editForm.name}
+                onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                className="h-8 text-sm"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor={`edit-party-${candidate.id}`} className="text-xs font-semibold">Party</Label>
+              <Input
+                id={`edit-party-${candidate.id}`}
+                value={editForm.party}
+                onChange={(e) => setEditForm({ ...editForm, party: e.target.value })}
+                className="h-8 text-sm"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor={`edit-symbol-${candidate.id}`} className="text-xs font-semibold">Symbol</Label>
+              <Input
+                id={`edit-symbol-${candidate.id}`}
+                value={editForm.symbol}
+                onChange={(e) => setEditForm({ ...editForm, symbol: e.target.value })}
+                className="h-8 text-sm"
+                required
+              />
+            </div>
+            {contests.length > 0 && (
+              <div>
+                <Label htmlFor={`edit-contest-${candidate.id}`} className="text-xs font-semibold">Position</Label>
+                {renderContestSelect(
+                  `edit-contest-${candidate.id}`,
+                  editForm.contestId,
+                  (contestId) => setEditForm({ ...editForm, contestId }),
+                  'h-8 text-sm'
+                )}
+              </div>
+            )}
+            <div className="flex gap-3">
+              <Button type="submit" size="sm" className="bg-purple-600 hover:bg-purple-700 h-8 text-xs">
+                Save
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={cancelEditing}
+                className="h-8 text-xs"
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-2">
+              <div className="p-1.5 bg-blue-100 rounded-md">
+                <Vote className="h-3 w-3 text-blue-600" />
+              </div>
+              <span className="font-medium text-gray-700 text-sm">{candidate.party}</span>
+            </div>
+            <div>
+              <Badge variant="secondary" className="bg-gradient-to-r from-purple-100 to-indigo-100 text-purple-700 border-purple-200 text-xs px-2 py-1">
+                {candidate.symbol}
+              </Badge>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   if (!isAuthenticated) {
     return null;
   }
@@ -290,16 +522,133 @@ const Candidates: React.FC = () => {
               )}
             </div>
             
-            <Button
-              onClick={() => setIsAddingCandidate(true)}
-              className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white shadow-lg h-10 px-5"
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              Add Candidate
-            </Button>
+            {!ballotLocked && (
+              <Button
+                onClick={() => setIsAddingCandidate(true)}
+                className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white shadow-lg h-10 px-5"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Candidate
+              </Button>
+            )}
           </div>
+
+          {ballotLocked && election && (
+            <div className="mt-4 flex items-start space-x-3 rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-sm text-yellow-800">
+              <Lock className="h-5 w-5 flex-shrink-0" />
+              <span>
+                This election is {ELECTION_STATUS_LABELS[election.status].toLowerCase()}. Candidates and positions can no longer be changed once voting has opened.
+              </span>
+            </div>
+          )}
         </div>
 
+        <Card className="mb-8 border-purple-200 shadow-sm">
+          <CardHeader className="pb-4">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-gradient-to-r from-purple-100 to-indigo-100 rounded-lg">
+                <ListOrdered className="h-5 w-5 text-purple-600" />
+              </div>
+              <div>
+                <CardTitle className="text-lg text-gray-800">Positions</CardTitle>
+                <CardDescription className="text-sm text-gray-600">
+                  Add positions to hold several contests on one ballot. Voters choose for every position in a single submission.
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="pt-0 space-y-4">
+            {contests.length > 0 && (
+              <div className="space-y-2">
+                {contests.map((contest) => (
+                  <div key={contest.id} className="flex items-center justify-between border border-purple-100 rounded-lg px-4 py-2">
+                    {editingContest === contest.id ? (
+                      <Input
+                        value={contestNameDraft}
+                        onChange={(e) => setContestNameDraft(e.target.value)}
+                        className="h-8 text-sm mr-3"
+                        aria-label="Position name"
+                      />
+                    ) : (
+                      <span className="text-sm font-medium text-gray-800">
+                        {contest.position + 1}. {contest.name}
+                      </span>
+                    )}
+                    {!ballotLocked && (
+                      <div className="flex space-x-2">
+                        {editingContest === contest.id ? (
+                          <>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRenameContest(contest.id)}
+                              className="border-purple-200 text-purple-600 hover:bg-purple-50 h-8 w-8 p-0"
+                              aria-label="Save position name"
+                            >
+                              <Check className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingContest(null)}
+                              className="h-8 w-8 p-0"
+                              aria-label="Cancel renaming"
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setEditingContest(contest.id);
+                              setContestNameDraft(contest.name);
+                            }}
+                            className="border-purple-200 text-purple-600 hover:bg-purple-50 h-8 w-8 p-0"
+                            aria-label={`Rename ${contest.name}`}
+                          >
+                            <Edit className="h-3 w-3" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleDeleteContest(contest.id)}
+                          className="border-red-200 text-red-600 hover:bg-red-50 h-8 w-8 p-0"
+                          aria-label={`Delete ${contest.name}`}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+            {!ballotLocked && (
+              <form onSubmit={handleAddContest} className="flex gap-3">
+                <Input
+                  value={newContestName}
+                  onChange={(e) => setNewContestName(e.target.value)}
+                  placeholder="e.g. President, Treasurer"
+                  className="h-10 border-purple-200 focus:border-purple-500 focus:ring-purple-500 text-sm"
+                  aria-label="New position name"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={!newContestName.trim()}
+                  className="border-purple-200 text-purple-600 hover:bg-purple-50 h-10 px-5"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Position
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
         {isAddingCandidate && (
           <Card className="mb-8 border-purple-200 shadow-lg">
             <CardHeader className="bg-gradient-to-r from-purple-50 to-indigo-50 border-b border-purple-100">
@@ -310,7 +659,7 @@ const Candidates: React.FC = () => {
             </CardHeader>
             <CardContent className="p-6">
               <form onSubmit={handleAddCandidate} className="space-y-6">
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <div className={`grid grid-cols-1 gap-6 ${contests.length > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
                   <div>
                     <Label htmlFor="name" className="text-sm text-purple-700 font-semibold">Name</Label>
                     <Input
@@ -344,6 +693,17 @@ const Candidates: React.FC = () => {
                       required
                     />
                   </div>
+                  {contests.length > 0 && (
+                    <div>
+                      <Label htmlFor="contest" className="text-sm text-purple-700 font-semibold">Position</Label>
+                      {renderContestSelect(
+                        'contest',
+                        newCandidate.contestId,
+                        (contestId) => setNewCandidate({ ...newCandidate, contestId }),
+                        'h-10 border-purple-200 text-sm'
+                      )}
+                    </div>
+                  )}
                 </div>
                 <div className="flex gap-4 pt-4">
                   <Button type="submit" className="bg-gradient-to-r from-purple-600 to-indigo-600 hover:from-purple-700 hover:to-indigo-700 text-white h-10 px-5">
@@ -363,106 +723,39 @@ const Candidates: React.FC = () => {
           </Card>
         )}
   
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {candidates.map((candidate) => (
-            <Card key={candidate.id} className="border-purple-200 shadow-lg hover:shadow-xl transition-all duration-300">
-              <CardHeader className="pb-4">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-3">
-                    <div className="p-2 bg-gradient-to-r from-purple-100 to-indigo-100 rounded-lg">
-                      <User className="h-5 w-5 text-purple-600" />
+        {contests.length > 0 ? (
+          <div className="space-y-8">
+            {contests.map((contest) => {
+              const contestCandidates = candidates.filter(c => c.contest_id === contest.id);
+
+              return (
+                <div key={contest.id}>
+                  <h2 className="text-lg font-semibold text-gray-900 mb-4">
+                    {contest.name}
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {contestCandidates.length} candidate{contestCandidates.length === 1 ? '' : 's'}
+                    </span>
+                  </h2>
+                  {contestCandidates.length > 0 ? (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                      {contestCandidates.map(renderCandidateCard)}
                     </div>
-                    <CardTitle className="text-lg text-gray-800">{candidate.name}</CardTitle>
-                  </div>
-                  <div className="flex space-x-2">
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => startEditing(candidate)}
-                      className="border-purple-200 text-purple-600 hover:bg-purple-50 h-8 w-8 p-0"
-                    >
-                      <Edit className="h-3 w-3" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="outline"
-                      onClick={() => handleDeleteCandidate(candidate.id)}
-                      className="border-red-200 text-red-600 hover:bg-red-50 h-8 w-8 p-0"
-                    >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
-                  </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 bg-white border border-dashed border-purple-200 rounded-lg p-4">
+                      No candidates for this position yet.
+                    </p>
+                  )}
                 </div>
-              </CardHeader>
-              <CardContent className="pt-0">
-                {editingCandidate === candidate.id ? (
-                  <form onSubmit={handleEditCandidate} className="space-y-4">
-                    <div>
-                      <Label htmlFor={`edit-name-${candidate.id}`} className="text-xs font-semibold">Name</Label>
-                      <Input
-                        id={`edit-name-${candidate.id}`}
-                        value={editForm.name}
-                        onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
-                        className="h-8 text-sm"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor={`edit-party-${candidate.id}`} className="text-xs font-semibold">Party</Label>
-                      <Input
-                        id={`edit-party-${candidate.id}`}
-                        value={editForm.party}
-                        onChange={(e) => setEditForm({ ...editForm, party: e.target.value })}
-                        className="h-8 text-sm"
-                        required
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor={`edit-symbol-${candidate.id}`} className="text-xs font-semibold">Symbol</Label>
-                      <Input
-                        id={`edit-symbol-${candidate.id}`}
-                        value={editForm.symbol}
-                        onChange={(e) => setEditForm({ ...editForm, symbol: e.target.value })}
-                        className="h-8 text-sm"
-                        required
-                      />
-                    </div>
-                    <div className="flex gap-3">
-                      <Button type="submit" size="sm" className="bg-purple-600 hover:bg-purple-700 h-8 text-xs">
-                        Save
-                      </Button>
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={cancelEditing}
-                        className="h-8 text-xs"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  </form>
-                ) : (
-                  <div className="space-y-3">
-                    <div className="flex items-center space-x-2">
-                      <div className="p-1.5 bg-blue-100 rounded-md">
-                        <Vote className="h-3 w-3 text-blue-600" />
-                      </div>
-                      <span className="font-medium text-gray-700 text-sm">{candidate.party}</span>
-                    </div>
-                    <div>
-                      <Badge variant="secondary" className="bg-gradient-to-r from-purple-100 to-indigo-100 text-purple-700 border-purple-200 text-xs px-2 py-1">
-                        {candidate.symbol}
-                      </Badge>
-                    </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {candidates.map(renderCandidateCard)}
+          </div>
+        )}
 
-        {candidates.length === 0 && !isAddingCandidate && (
+        {candidates.length === 0 && !isAddingCandidate && !ballotLocked && (
           <div className="text-center py-12 bg-white rounded-xl shadow-sm border border-purple-100">
             <div className="p-4 bg-gradient-to-r from-purple-100 to-indigo-100 rounded-full w-20 h-20 mx-auto mb-4 flex items-center justify-center">
               <User className="h-10 w-10 text-purple-600" />
@@ -480,6 +773,13 @@ const Candidates: React.FC = () => {
             </Button>
           </div>
         )}
+
+        <StepUpDialog
+          action={pendingDeleteCandidateId ? 'delete_candidate' : null}
+          description="Enter your two-factor authentication code to delete this candidate."
+          onVerified={deleteCandidateWithToken}
+          onCancel={() => setPendingDeleteCandidateId(null)}
+        />
       </div>
     </div>
   );
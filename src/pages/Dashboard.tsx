@@ -22,7 +22,8 @@ import {
 } from 'lucide-react';
 import { supabase, votingApi } from '@/lib/supabase';
 import { fetchPlatformStats, PlatformStats } from '@/lib/api/stats';
-import { electionApi } from '@/lib/electionApi';
+import { electionApi, ElectionStatus } from '@/lib/electionApi';
+import { getHomeRoute, getRoleLabel } from '@/lib/permissions';
 
 interface Election {
   id: string;
@@ -30,6 +31,7 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
   total_votes: number;
   candidates_count: number;
   has_voted: boolean;
@@ -58,7 +60,7 @@ const Dashboard = () => {
   });
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { user, organization, userRole, isAuthenticated } = useAuth();
+  const { user, organization, userRole, isAuthenticated, hasPermission } = useAuth();
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -66,8 +68,8 @@ const Dashboard = () => {
       return;
     }
     
-    if (userRole === 'admin') {
-      navigate('/admin');
+    if (!hasPermission('cast_vote')) {
+      navigate(getHomeRoute(userRole));
       return;
     }
     
@@ -124,26 +126,20 @@ const Dashboard = () => {
   const loadElections = async () => {
     try {
       const electionsData = await electionApi.getElections(organization?.id);
-      
-      const votedElectionIds = new Set();
-      
-      for (const election of electionsData || []) {
-        try {
-          const hasVoted = await votingApi.hasVoted(user.id, election.id);
-          if (hasVoted) {
-            votedElectionIds.add(election.id);
-          }
-        } catch (error) {
-          console.error(`Failed to check voting status for election ${election.id}:`, error);
-        }
-      }
 
-      const processedElections = (electionsData || []).map(election => ({
+      const votingStatus = electionsData?.length
+        ? await votingApi.getBulkVotingStatus(user.id, electionsData.map(election => election.id))
+        : [];
+      const votedElectionIds = new Set(votingStatus.filter(status => status.hasVoted).map(status => status.electionId));
+      const eligibleElectionIds = new Set(votingStatus.filter(status => status.eligible).map(status => status.electionId));
+
+      const processedElections = (electionsData || []).filter(election => eligibleElectionIds.has(election.id)).map(election => ({
         id: election.id,
         name: election.name,
         start_time: election.start_time,
         end_time: election.end_time,
         is_active: election.is_active,
+        status: election.status,
         total_votes: 0,
         candidates_count: election.candidates?.length || 0,
         has_voted: votedElectionIds.has(election.id)
@@ -165,7 +161,7 @@ const Dashboard = () => {
       const activeElections = elections.filter(e => {
         const startTime = new Date(e.start_time);
         const endTime = new Date(e.end_time);
-        return e.is_active && now >= startTime && now <= endTime;
+        return e.status === 'open' && now >= startTime && now <= endTime;
       }).length;
       const upcomingElections = elections.filter(e => {
         const startTime = new Date(e.start_time);
@@ -209,7 +205,7 @@ const Dashboard = () => {
     else if (nowIST > endTimeIST) {
       return { status: 'ended', label: 'Ended', color: 'bg-gray-600 text-white hover:bg-gray-700 transition-colors duration-200' };
     }
-    else if (election.is_active) {
+    else if (election.status === 'open') {
       return { status: 'active', label: 'Active', color: 'bg-purple-600 text-white hover:bg-purple-700 transition-colors duration-200' };
     }
 
@@ -266,7 +262,7 @@ const Dashboard = () => {
                 Welcome back, {user?.name}!
               </h1>
               <p className="text-gray-600">
-                {organization?.name} • {userRole === 'admin' ? 'Administrator' : 'Student'}
+                {organization?.name} • {getRoleLabel(userRole)}
               </p>
             </div>
             <Button
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { electionApi } from '@/lib/electionApi';
+import { electionApi, ElectionStatus } from '@/lib/electionApi';
 import { supabase, votingApi } from '@/lib/supabase';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -30,6 +30,7 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
   candidates_count?: number;
   total_votes?: number;
 }
@@ -70,14 +71,15 @@ const ElectionsList: React.FC = () => {
           return;
         }
 
-        const data = await electionApi.getElections(organization.id);
-        
+        // The server only lists the elections whose voter roll a voter is on.
+        const data = await electionApi.getElections(organization.id) || [];
+
         const enhancedElections = await Promise.all(
-          (data || []).map(async (election) => {
+          data.map(async (election) => {
             let totalVotes = 0;
             try {
-              const voteResults = await votingApi.getVoteResults(election.id);
-              totalVotes = voteResults.reduce((total: number, result: any) => total + (result as any).votes, 0);
+              const { totalBallots } = await votingApi.getVoteResults(election.id);
+              totalVotes = totalBallots;
             } catch (error) {
               console.error(`Failed to get vote count for election ${election.id}:`, error);
             }
@@ -115,7 +117,7 @@ const ElectionsList: React.FC = () => {
       const startTime = new Date(election.start_time);
       const endTime = new Date(election.end_time);
       
-      if (now >= startTime && now <= endTime && election.is_active) {
+      if (now >= startTime && now <= endTime && election.status === 'open') {
         activeCount++;
       } else if (now > endTime) {
         completedCount++;
@@ -146,7 +148,7 @@ const ElectionsList: React.FC = () => {
       return { status: 'upcoming', label: 'Upcoming', color: 'bg-blue-600 text-white hover:bg-blue-700 transition-colors duration-200' };
     } else if (now > endTime) {
       return { status: 'completed', label: 'Completed', color: 'bg-gray-600 text-white hover:bg-gray-700 transition-colors duration-200' };
-    } else if (election.is_active) {
+    } else if (election.status === 'open') {
       return { status: 'active', label: 'Active', color: 'bg-purple-600 text-white hover:bg-purple-700 transition-colors duration-200' };
     } else {
       return { status: 'inactive', label: 'Inactive', color: 'bg-red-600 text-white hover:bg-red-700 transition-colors duration-200' };
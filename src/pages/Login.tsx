@@ -9,7 +9,8 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { invitationApi } from '@/lib/invitationApi';
-import { CheckCircle, AlertCircle, Mail } from 'lucide-react';
+import { getHomeRoute } from '@/lib/permissions';
+import { CheckCircle, AlertCircle, Mail, ShieldCheck } from 'lucide-react';
 
 const Login = () => {
   const [searchParams] = useSearchParams();
@@ -19,17 +20,15 @@ const Login = () => {
   const [showOTPForm, setShowOTPForm] = useState(false);
   const [otpValue, setOtpValue] = useState('');
   const [pendingEmail, setPendingEmail] = useState('');
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState('');
   const { toast } = useToast();
   const navigate = useNavigate();
-  const { login, createOrganization, verifyOrganizationOTP, joinOrganization, userRole, isAuthenticated } = useAuth();
+  const { login, verifyLoginMfa, createOrganization, verifyOrganizationOTP, joinOrganization, userRole, isAuthenticated } = useAuth();
 
   useEffect(() => {
     if (isAuthenticated) {
-      if (userRole === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/dashboard');
-      }
+      navigate(getHomeRoute(userRole));
     }
   }, [isAuthenticated, userRole, navigate]);
 
@@ -104,8 +103,9 @@ const Login = () => {
       console.log('Invitation validation result:', validation);
       setInvitationValidation(validation);
       
-      if (validation.is_valid) {
-        setJoinData(prev => ({ ...prev, email: validation.email }));
+      // Join codes are not tied to an address, so the email is left to the user.
+      if (validation.is_valid && validation.email) {
+        setJoinData(prev => ({ ...prev, email: validation.email, name: prev.name || validation.name || '' }));
       }
     } catch (error) {
       console.error('Invitation validation error:', error);
@@ -132,12 +132,12 @@ const Login = () => {
 
     try {
       setIsLoading(true);
-      await login(loginData.email, loginData.password);
-      if (userRole === 'admin') {
-        navigate('/admin');
-      } else {
-        navigate('/dashboard');
+      const result = await login(loginData.email, loginData.password);
+      if (result.mfaRequired && result.mfaToken) {
+        setMfaToken(result.mfaToken);
+        return;
       }
+      navigate(getHomeRoute(userRole));
     } catch (error) {
       console.error('Login failed:', error);
     } finally {
@@ -145,6 +145,36 @@ const Login = () => {
     }
   };
 
+  const cancelMfa = () => {
+    setMfaToken(null);
+    setMfaCode('');
+    setLoginData({ ...loginData, password: '' });
+  };
+
+  const handleVerifyMfa = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!mfaToken || !mfaCode.trim()) {
+      toast({
+        title: "Code Required",
+        description: "Please enter your authentication code",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await verifyLoginMfa(mfaToken, mfaCode.trim());
+    } catch (error) {
+      // The challenge is spent after a failed attempt, so sign in again.
+      console.error('Two-factor verification failed:', error);
+      cancelMfa();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCreateOrganization = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -249,6 +279,8 @@ const Login = () => {
     }
   };
 
+  const emailFromInvitation = !!(invitationValidation?.is_valid && invitationValidation.email);
+
   const handleJoinOrganization = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -322,6 +354,38 @@ const Login = () => {
                   </TabsList>
 
                   <TabsContent value="login" className="space-y-3 mt-3">
+                    {mfaToken ? (
+                    <form onSubmit={handleVerifyMfa} className="space-y-3">
+                      <div className="flex items-start space-x-2 p-3 bg-purple-50 rounded-lg border border-purple-200">
+                        <ShieldCheck className="h-4 w-4 text-purple-600 mt-0.5" />
+                        <p className="text-xs text-gray-600">
+                          Two-factor authentication is on for <strong>{loginData.email}</strong>. Enter the code from your authenticator app, or one of your recovery codes.
+                        </p>
+                      </div>
+                      <div className="space-y-1">
+                        <label htmlFor="mfa-code" className="text-sm font-semibold text-gray-700">Authentication Code</label>
+                        <Input
+                          id="mfa-code"
+                          type="text"
+                          placeholder="6-digit code or recovery code"
+                          value={mfaCode}
+                          onChange={(e) => setMfaCode(e.target.value)}
+                          className="h-9 text-sm text-center tracking-widest"
+                          autoComplete="one-time-code"
+                          autoFocus
+                          required
+                        />
+                      </div>
+                      <div className="flex gap-2">
+                        <Button type="submit" className="flex-1 h-9 text-sm font-semibold bg-[#6B21E8] hover:bg-[#6B21E8]/90" disabled={isLoading}>
+                          {isLoading ? 'Verifying...' : 'Verify & Sign In'}
+                        </Button>
+                        <Button type="button" variant="outline" className="h-9 text-sm" onClick={cancelMfa}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                    ) : (
                     <form onSubmit={handleLogin} className="space-y-2">
                       <div className="space-y-1">
                         <label htmlFor="login-email" className="text-sm font-semibold text-gray-700">Email Address</label>
@@ -347,10 +411,16 @@ const Login = () => {
                           required
                         />
                       </div>
+                      <div className="flex justify-end">
+                        <Link to="/reset-password" className="text-xs text-[#6B21E8] hover:underline">
+                          Forgot password?
+                        </Link>
+                      </div>
                       <Button type="submit" className="w-full h-9 text-sm font-semibold bg-[#6B21E8] hover:bg-[#6B21E8]/90" disabled={isLoading}>
                       {isLoading ? 'Signing in...' : 'Sign In'}
                     </Button>
                     </form>
+                    )}
 
                   </TabsContent>
 
@@ -358,7 +428,7 @@ const Login = () => {
                     <form onSubmit={handleJoinOrganization} className="space-y-2">
                                             <div className="space-y-1">
                         <label htmlFor="invitation-token" className="text-sm font-semibold text-gray-700">
-                          Invitation Token
+                          Invitation Token or Join Code
                           {searchParams.get('invitation') && (
                             <Badge variant="secondary" className="ml-2 text-xs bg-blue-100 text-blue-700">
                               From Link
@@ -368,7 +438,7 @@ const Login = () => {
                         <Input
                           id="invitation-token"
                           type="text"
-                          placeholder="Enter invitation token"
+                          placeholder="Enter invitation token or join code"
                           value={invitationToken}
                           onChange={(e) => {
                             setInvitationToken(e.target.value);
@@ -386,7 +456,13 @@ const Login = () => {
                               <Alert className="border-green-200 bg-green-50">
                                 <CheckCircle className="h-4 w-4 text-green-600" />
                                 <AlertDescription className="text-green-700">
-                                  Valid invitation for <strong>{invitationValidation.email}</strong>
+                                  {invitationValidation.email ? (
+                                    <>Valid invitation for <strong>{invitationValidation.email}</strong></>
+                                  ) : invitationValidation.election_name ? (
+                                    <>Valid join code for <strong>{invitationValidation.election_name}</strong></>
+                                  ) : (
+                                    <>Valid join code</>
+                                  )}
                                 </AlertDescription>
                               </Alert>
                             ) : (
@@ -415,7 +491,7 @@ const Login = () => {
                                             <div className="space-y-1">
                         <label htmlFor="join-email" className="text-sm font-semibold text-gray-700">
                           Email
-                          {invitationValidation?.is_valid && (
+                          {emailFromInvitation && (
                             <Badge variant="secondary" className="ml-2 text-xs bg-green-100 text-green-700">
                               <Mail className="h-3 w-3 mr-1" />
                               From Invitation
@@ -425,14 +501,14 @@ const Login = () => {
                         <Input
                           id="join-email"
                           type="email"
-                          placeholder={invitationValidation?.is_valid ? "Email from invitation" : "Enter your email"}
+                          placeholder={emailFromInvitation ? "Email from invitation" : "Enter your email"}
                           value={joinData.email}
                           onChange={(e) => setJoinData({ ...joinData, email: e.target.value })}
-                          className={`h-9 text-sm ${invitationValidation?.is_valid ? 'bg-gray-50 border-gray-300 text-gray-600' : ''}`}
-                          disabled={invitationValidation?.is_valid}
+                          className={`h-9 text-sm ${emailFromInvitation ? 'bg-gray-50 border-gray-300 text-gray-600' : ''}`}
+                          disabled={emailFromInvitation}
                           required
                         />
-                        {invitationValidation?.is_valid && (
+                        {emailFromInvitation && (
                           <p className="text-xs text-gray-500">
                             Email is locked to the invitation address for security
                           </p>
@@ -3,15 +3,21 @@ import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase, votingApi } from '@/lib/supabase';
 import { electionApi } from '@/lib/electionApi';
+import { getAuthHeaders } from '@/lib/authApi';
+import { getRoleLabel } from '@/lib/permissions';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { VerifyVote } from '@/components/voting/VerifyVote';
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings';
+import { ActiveSessions } from '@/components/auth/ActiveSessions';
 import { useToast } from '@/hooks/use-toast';
 import { 
   User, 
-  History
+  History,
+  ShieldCheck
 } from 'lucide-react';
 
 interface VoteHistory {
@@ -27,15 +33,22 @@ interface VoteHistory {
     id: string;
     name: string;
     party?: string;
-  };
+  } | null;
+  choices: Array<{
+    contest: { id: string; name: string; position: number } | null;
+    candidate: { id: string; name: string; party?: string };
+  }>;
 }
 
 const Profile: React.FC = () => {
-  const { user, organization, userRole, isAuthenticated } = useAuth();
+  const { user, organization, userRole, isAuthenticated, hasPermission } = useAuth();
+  const canCastVote = hasPermission('cast_vote');
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const [voteHistory, setVoteHistory] = useState<VoteHistory[]>([]);
+  const [activeTab, setActiveTab] = useState('personal');
+  const [verifyElectionId, setVerifyElectionId] = useState<string>();
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -65,6 +78,7 @@ const Profile: React.FC = () => {
                 method: 'GET',
                 headers: {
                   'Content-Type': 'application/json',
+                  ...getAuthHeaders(),
                 },
               });
 
@@ -77,11 +91,12 @@ const Profile: React.FC = () => {
                     vote_hash: vote.vote_hash,
                     created_at: vote.created_at,
                     election: election,
-                    candidate: {
+                    candidate: vote.candidate && {
                       id: vote.candidate.id,
                       name: vote.candidate.name,
                       party: vote.candidate.party
-                    }
+                    },
+                    choices: vote.choices || []
                   });
                 }
               }
@@ -135,8 +150,8 @@ const Profile: React.FC = () => {
                 <h1 className="text-3xl font-bold text-gray-900 mb-2">{user.name}</h1>
                 <p className="text-lg text-gray-600 mb-3">{user.email}</p>
                 <div className="flex items-center space-x-3">
-                  <Badge variant={userRole === 'admin' ? 'default' : 'secondary'} className={`text-sm ${userRole === 'admin' ? 'bg-purple-500 hover:bg-purple-600' : 'bg-orange-500 hover:bg-orange-600'}`}>
-                    {userRole === 'admin' ? 'Administrator' : 'Student'}
+                  <Badge variant={canCastVote ? 'secondary' : 'default'} className={`text-sm ${canCastVote ? 'bg-orange-500 hover:bg-orange-600' : 'bg-purple-500 hover:bg-purple-600'}`}>
+                    {getRoleLabel(userRole)}
                   </Badge>
                   <Badge variant="outline" className="text-sm border-purple-300 text-purple-700 bg-purple-50">{organization.name}</Badge>
                 </div>
@@ -145,7 +160,7 @@ const Profile: React.FC = () => {
           </div>
         </div>
 
-        {userRole === 'admin' ? (
+        {!canCastVote ? (
           <div className="space-y-6">
             <Card className="bg-white border border-gray-200 shadow-lg">
               <CardHeader className="pb-4">
@@ -178,17 +193,23 @@ const Profile: React.FC = () => {
                   </div>
                   <div>
                     <h3 className="font-semibold text-base text-gray-700 mb-2">Role</h3>
-                    <p className="text-lg text-gray-900">Administrator</p>
+                    <p className="text-lg text-gray-900">{getRoleLabel(userRole)}</p>
                   </div>
                 </div>
               </CardContent>
             </Card>
+
+            <TwoFactorSettings />
+
+            <ActiveSessions />
           </div>
         ) : (
-          <Tabs defaultValue="personal" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-2 bg-white border border-gray-200 shadow-sm">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+            <TabsList className="grid w-full grid-cols-4 bg-white border border-gray-200 shadow-sm">
               <TabsTrigger value="personal" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-base">Personal Info</TabsTrigger>
               <TabsTrigger value="history" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-base">Vote History</TabsTrigger>
+              <TabsTrigger value="verify" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-base">Verify My Vote</TabsTrigger>
+              <TabsTrigger value="security" className="data-[state=active]:bg-purple-500 data-[state=active]:text-white text-base">Security</TabsTrigger>
             </TabsList>
 
             <TabsContent value="personal" className="space-y-6">
@@ -223,7 +244,7 @@ const Profile: React.FC = () => {
                     </div>
                     <div>
                       <h3 className="font-semibold text-base text-gray-700 mb-2">Role</h3>
-                      <p className="text-lg text-gray-900">Student</p>
+                      <p className="text-lg text-gray-900">{getRoleLabel(userRole)}</p>
                     </div>
                   </div>
                 </CardContent>
@@ -265,9 +286,26 @@ const Profile: React.FC = () => {
                           
                           <div className="flex items-center justify-between">
                             <div className="space-y-2">
-                              <p className="text-sm"><strong>Voted for:</strong> <span className="text-gray-900">{vote.candidate.name}</span></p>
-                              {vote.candidate.party && (
-                                <p className="text-sm"><strong>Party:</strong> <span className="text-gray-900">{vote.candidate.party}</span></p>
+                              {vote.choices.some(choice => choice.contest) ? (
+                                vote.choices.map(choice => (
+                                  <p key={choice.contest?.id} className="text-sm">
+                                    <strong>{choice.contest?.name}:</strong>{' '}
+                                    <span className="text-gray-900">
+                                      {choice.candidate.name}{choice.candidate.party && ` (${choice.candidate.party})`}
+                                    </span>
+                                  </p>
+                                ))
+                              ) : !vote.candidate ? (
+                                <p className="text-sm text-gray-700">
+                                  Your ballot is encrypted and is not linked to your account, so your choices are not shown here.
+                                </p>
+                              ) : (
+                                <>
+                                  <p className="text-sm"><strong>Voted for:</strong> <span className="text-gray-900">{vote.candidate.name}</span></p>
+                                  {vote.candidate.party && (
+                                    <p className="text-sm"><strong>Party:</strong> <span className="text-gray-900">{vote.candidate.party}</span></p>
+                                  )}
+                                </>
                               )}
                               <p className="text-xs text-gray-500">
                                 <strong>Vote ID:</strong> {vote.vote_hash.slice(-16)}...
@@ -278,6 +316,17 @@ const Profile: React.FC = () => {
                               <Badge variant="outline" className="text-sm border-green-300 text-green-700 bg-green-50">
                                 Voted
                               </Badge>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => {
+                                  setVerifyElectionId(vote.election.id);
+                                  setActiveTab('verify');
+                                }}
+                              >
+                                <ShieldCheck className="h-4 w-4 mr-1" />
+                                Verify
+                              </Button>
                             </div>
                           </div>
                         </div>
@@ -288,6 +337,18 @@ const Profile: React.FC = () => {
               </Card>
             </TabsContent>
 
+            <TabsContent value="verify" className="space-y-6">
+              <VerifyVote
+                elections={voteHistory.map(vote => vote.election)}
+                initialElectionId={verifyElectionId}
+              />
+            </TabsContent>
+
+            <TabsContent value="security" className="space-y-6">
+              <TwoFactorSettings />
+              <ActiveSessions />
+            </TabsContent>
+
           </Tabs>
         )}
       </div>
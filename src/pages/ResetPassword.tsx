@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { authApi } from '@/lib/authApi';
+import { CheckCircle, ArrowLeft } from 'lucide-react';
+
+const ResetPassword = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [requestSent, setRequestSent] = useState(false);
+  const [passwordData, setPasswordData] = useState({
+    password: '',
+    confirmPassword: ''
+  });
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const handleRequestReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your email address",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      await authApi.forgotPassword(email.trim());
+      setRequestSent(true);
+    } catch (error) {
+      toast({
+        title: "Request Failed",
+        description: error instanceof Error ? error.message : 'Failed to request password reset',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!token) return;
+
+    if (passwordData.password !== passwordData.confirmPassword) {
+      toast({
+        title: "Passwords Don't Match",
+        description: "Please make sure your passwords match",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const result = await authApi.resetPassword(token, passwordData.password);
+      toast({
+        title: "Password Reset",
+        description: result.message
+      });
+      navigate('/auth');
+    } catch (error) {
+      toast({
+        title: "Reset Failed",
+        description: error instanceof Error ? error.message : 'Failed to reset password',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-start justify-center p-4 pt-20">
+      <div className="w-full max-w-md mt-8">
+        <Card className="w-full shadow-xl border-0 bg-white/90 backdrop-blur-sm">
+          <CardHeader className="text-center pb-4">
+            <CardTitle className="text-xl font-bold text-gray-900">
+              {token ? 'Choose a New Password' : 'Forgot Password'}
+            </CardTitle>
+            <CardDescription className="text-gray-600">
+              {token
+                ? 'Signing in with the new password will be required on all your devices'
+                : 'Enter your email and we will send you a link to reset your password'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="px-6 pb-6 space-y-4">
+            {token ? (
+              <form onSubmit={handleResetPassword} className="space-y-2">
+                <div className="space-y-1">
+                  <label htmlFor="reset-password" className="text-sm font-semibold text-gray-700">New Password</label>
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    value={passwordData.password}
+                    onChange={(e) => setPasswordData({ ...passwordData, password: e.target.value })}
+                    className="h-9 text-sm"
+                    minLength={8}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label htmlFor="reset-confirm" className="text-sm font-semibold text-gray-700">Confirm Password</label>
+                  <Input
+                    id="reset-confirm"
+                    type="password"
+                    placeholder="Confirm your new password"
+                    value={passwordData.confirmPassword}
+                    onChange={(e) => setPasswordData({ ...passwordData, confirmPassword: e.target.value })}
+                    className="h-9 text-sm"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full h-9 text-sm font-semibold bg-[#6B21E8] hover:bg-[#6B21E8]/90" disabled={isLoading}>
+                  {isLoading ? 'Resetting password...' : 'Reset Password'}
+                </Button>
+              </form>
+            ) : requestSent ? (
+              <Alert className="border-green-200 bg-green-50">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                <AlertDescription className="text-green-700">
+                  If an account exists for <strong>{email.trim()}</strong>, a reset link is on its way. The link expires in 1 hour.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <form onSubmit={handleRequestReset} className="space-y-2">
+                <div className="space-y-1">
+                  <label htmlFor="forgot-email" className="text-sm font-semibold text-gray-700">Email Address</label>
+                  <Input
+                    id="forgot-email"
+                    type="email"
+                    placeholder="Enter your email address"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="h-9 text-sm"
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full h-9 text-sm font-semibold bg-[#6B21E8] hover:bg-[#6B21E8]/90" disabled={isLoading}>
+                  {isLoading ? 'Sending link...' : 'Send Reset Link'}
+                </Button>
+              </form>
+            )}
+
+            <Link to="/auth" className="flex items-center justify-center text-sm text-[#6B21E8] hover:underline">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back to Sign In
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
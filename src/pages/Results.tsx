@@ -1,9 +1,13 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, votingApi } from '@/lib/supabase';
-import { electionApi } from '@/lib/electionApi';
+import { supabase, votingApi, RunoffResults, SeatStatus, ReferendumOutcome } from '@/lib/supabase';
+import { electionApi, ElectionStatus } from '@/lib/electionApi';
 import { candidateApi } from '@/lib/candidateApi';
+import { verifyDecryptionProof } from '@/lib/homomorphic';
+import { PERMISSIONS } from '@/lib/permissions';
+import { RunoffRounds } from '@/components/results/RunoffRounds';
+import { ReferendumResult } from '@/components/results/ReferendumResult';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,7 +15,7 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
 
-import { Loader2, Trophy, Users, Vote, TrendingUp, AlertCircle } from 'lucide-react';
+import { Loader2, Trophy, Users, Vote, TrendingUp, AlertCircle, Download, Lock, ShieldCheck, ShieldAlert } from 'lucide-react';
 
 interface Candidate {
   id: string;
@@ -20,6 +24,9 @@ interface Candidate {
   symbol?: string;
   vote_count: number;
   percentage: number;
+  status?: SeatStatus;
+  contest_id?: string | null;
+  proof_verified?: boolean;
 }
 
 interface Election {
@@ -29,7 +36,18 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
   organization_id: string;
+  voting_method?: string;
+  seats?: number;
+}
+
+interface ContestResults {
+  id: string | null;
+  name: string | null;
+  candidates: Candidate[];
+  winners: Candidate[];
+  runoff: RunoffResults | null;
 }
 
 interface ResultsData {
@@ -42,13 +60,18 @@ interface ResultsData {
 
 const Results: React.FC = () => {
   const { electionId } = useParams<{ electionId: string }>();
-  const { user, organization, isAuthenticated } = useAuth();
+  const { user, organization, isAuthenticated, hasPermission } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const [loading, setLoading] = useState(true);
   const [results, setResults] = useState<ResultsData | null>(null);
-  const [winner, setWinner] = useState<Candidate | null>(null);
+  const [contestResults, setContestResults] = useState<ContestResults[]>([]);
+  const [referendum, setReferendum] = useState<ReferendumOutcome | null>(null);
+  const [sealed, setSealed] = useState(false);
+  const [trusteeProgress, setTrusteeProgress] = useState<{ submitted: number; threshold: number } | null>(null);
+  const [invalidBallots, setInvalidBallots] = useState(0);
+  const [homomorphic, setHomomorphic] = useState(false);
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -60,6 +83,27 @@ const Results: React.FC = () => {
     }
   }, [isAuthenticated, electionId, user, organization]);
 
+  const handleExportResults = async () => {
+    if (!electionId) return;
+
+    try {
+      const blob = await votingApi.exportResults(electionId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `results-${electionId}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export results:', error);
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "Failed to export results",
+        variant: "destructive"
+      });
+    }
+  };
+
   const loadResults = async () => {
     if (!electionId || !organization) return;
 
@@ -87,7 +131,8 @@ const Results: React.FC = () => {
             id,
             name,
             party,
-            symbol
+            symbol,
+            contest_id
           `)
           .eq('election_id', electionId);
 
@@ -97,24 +142,46 @@ const Results: React.FC = () => {
         candidates = candidatesData;
       }
 
-      const voteResults = await votingApi.getVoteResults(electionId);
+      const {
+        results: voteResults,
+        contests,
+        totalBallots,
+        invalidBallots: invalidCount,
+        sealed: isSealed,
+        trustees,
+        referendum: referendumOutcome,
+        tallyPublicKey
+      } = await votingApi.getVoteResults(electionId);
+
+      // Homomorphic totals arrive with decryption proofs, checked here rather
+      // than taken on the server's word.
+      const verifiedProofs = new Set<string>();
+      if (tallyPublicKey) {
+        await Promise.all(voteResults.map(async result => {
+          if (result.proof && await verifyDecryptionProof(tallyPublicKey, result.proof, result.votes)) {
+            verifiedProofs.add(result.candidate.id);
+          }
+        }));
+      }
       
       const candidatesWithVotes = candidates?.map(candidate => {
-        const voteResult = voteResults.find((result: any) => result.candidate.id === candidate.id);
+        const voteResult = voteResults.find(result => result.candidate.id === candidate.id);
         return {
           ...candidate,
-          vote_count: voteResult ? (voteResult as any).votes : 0
+          vote_count: voteResult ? voteResult.votes : 0,
+          status: voteResult?.status,
+          proof_verified: tallyPublicKey ? verifiedProofs.has(candidate.id) : undefined
         };
       }) || [];
 
-      const totalVotes = voteResults.reduce((total: number, result: any) => total + (result as any).votes, 0);
+      const totalVotes = totalBallots;
 
       const { count: totalEligibleVoters, error: votersError } = await supabase
         .from('user_organizations')
         .select('*', { count: 'exact', head: true })
         .eq('organization_id', organization.id)
         .eq('is_active', true)
-        .neq('role', 'admin');
+        .in('role', PERMISSIONS.cast_vote);
 
       if (votersError) {
         throw votersError;
@@ -129,7 +196,10 @@ const Results: React.FC = () => {
           party: candidate.party,
           symbol: candidate.symbol,
           vote_count: candidate.vote_count,
-          percentage: Math.round(percentage * 100) / 100
+          percentage: Math.round(percentage * 100) / 100,
+          status: candidate.status,
+          contest_id: candidate.contest_id,
+          proof_verified: candidate.proof_verified
         };
       }).sort((a, b) => b.vote_count - a.vote_count);
 
@@ -144,7 +214,43 @@ const Results: React.FC = () => {
       };
 
       setResults(resultsData);
-      setWinner(processedCandidates[0] || null);
+      setReferendum(referendumOutcome || null);
+      setSealed(isSealed);
+      setTrusteeProgress(trustees || null);
+      setInvalidBallots(invalidCount);
+      setHomomorphic(!!tallyPublicKey);
+
+      if (isSealed) {
+        setContestResults([]);
+        return;
+      }
+
+      const groups = contests.length > 0 ? contests : [{ id: null, name: null }];
+
+      const contestData = await Promise.all(groups.map(async (contest): Promise<ContestResults> => {
+        const contestCandidates = processedCandidates.filter(candidate => !contest.id || candidate.contest_id === contest.id);
+
+        if (election.voting_method === 'ranked_choice') {
+          const runoffData = await votingApi.getRunoffRounds(electionId, contest.id || undefined);
+          return {
+            id: contest.id,
+            name: contest.name,
+            candidates: contestCandidates,
+            winners: contestCandidates.filter(candidate => candidate.id === runoffData.winner),
+            runoff: runoffData
+          };
+        }
+
+        return {
+          id: contest.id,
+          name: contest.name,
+          candidates: contestCandidates,
+          winners: contestCandidates.filter(candidate => candidate.status === 'elected'),
+          runoff: null
+        };
+      }));
+
+      setContestResults(contestData);
 
     } catch (error) {
       console.error('Failed to load results:', error);
@@ -185,15 +291,11 @@ const Results: React.FC = () => {
   }
 
   const getElectionStatus = (election: Election) => {
-    const now = new Date();
-    const startTime = new Date(election.start_time);
-    const endTime = new Date(election.end_time);
-
-    if (now < startTime) {
+    if (election.status === 'scheduled') {
       return { status: 'upcoming', label: 'Upcoming', color: 'bg-blue-600 text-white' };
-    } else if (now > endTime) {
+    } else if (election.status === 'closed' || election.status === 'certified') {
       return { status: 'completed', label: 'Completed', color: 'bg-gray-600 text-white' };
-    } else if (election.is_active) {
+    } else if (election.status === 'open') {
       return { status: 'active', label: 'Active', color: 'bg-purple-600 text-white' };
     } else {
       return { status: 'inactive', label: 'Inactive', color: 'bg-red-600 text-white' };
@@ -213,6 +315,135 @@ const Results: React.FC = () => {
   };
 
   const electionStatus = getElectionStatus(results.election);
+  const seats = results.election.seats || 1;
+
+  const renderContestResults = (contest: ContestResults) => {
+    const { candidates, winners, runoff } = contest;
+    const tiedCandidates = runoff ? [] : candidates.filter(candidate => candidate.status === 'tied');
+
+    return (
+      <div key={contest.id || 'election'} className="space-y-8">
+        {contest.name && (
+          <h2 className="text-2xl font-bold text-gray-900">{contest.name}</h2>
+        )}
+
+        {winners.map(winner => (
+          <Card key={winner.id} className="border-2 border-yellow-200 bg-gradient-to-br from-yellow-50 to-amber-50 shadow-lg">
+            <CardContent className="p-8">
+              <div className="flex items-center justify-center space-x-6">
+                <div className="p-4 bg-yellow-100 rounded-full">
+                  <Trophy className="h-16 w-16 text-yellow-600" />
+                </div>
+                <div className="text-center">
+                  <h2 className="text-3xl font-bold text-gray-900 mb-2">{winner.name}</h2>
+                  <p className="text-xl text-gray-600 mb-3">
+                    {runoff
+                      ? `${runoff.rounds[runoff.rounds.length - 1].counts[winner.id]} votes in round ${runoff.rounds.length}`
+                      : `${winner.vote_count} votes (${winner.percentage}%)`}
+                  </p>
+                  <Badge className="text-base bg-yellow-600 text-white px-4 py-2">
+                    🏆 {seats > 1 ? 'Elected' : 'Winner'}
+                  </Badge>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {tiedCandidates.length > 0 && (
+          <Card className="border-2 border-orange-200 bg-orange-50 shadow-lg">
+            <CardContent className="p-6 flex items-center space-x-4">
+              <AlertCircle className="h-10 w-10 text-orange-600 flex-shrink-0" />
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 mb-1">Tie Detected</h2>
+                <p className="text-base text-gray-700">
+                  {tiedCandidates.map(candidate => candidate.name).join(', ')} are tied with {tiedCandidates[0].vote_count} votes
+                  for the remaining {seats - winners.length === 1 ? 'seat' : 'seats'}.
+                  The tie must be resolved before results are final.
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="bg-white border border-gray-200 shadow-lg">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-xl text-gray-800">{contest.name ? `${contest.name} Results` : 'Election Results'}</CardTitle>
+            <CardDescription className="text-base text-gray-600">
+              {referendum
+                ? 'Votes cast for each option'
+                : runoff ? 'All candidates ranked by first-preference votes' : 'All candidates ranked by vote count'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="pt-0">
+            {candidates.length === 0 ? (
+              <div className="text-center py-12">
+                <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">No Candidates</h3>
+                <p className="text-gray-600 text-base">
+                  {contest.name ? 'No candidates have been added to this position yet.' : 'No candidates have been added to this election yet.'}
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-6">
+                {candidates.map((candidate, index) => (
+                  <div key={candidate.id} className="space-y-4">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <div className={`flex items-center justify-center w-10 h-10 rounded-full text-base font-semibold ${
+                          winners.some(winner => winner.id === candidate.id)
+                            ? 'bg-yellow-100 text-yellow-800' 
+                            : candidate.status === 'tied'
+                            ? 'bg-orange-100 text-orange-800'
+                            : 'bg-gray-100 text-gray-800'
+                        }`}>
+                          {index + 1}
+                        </div>
+                        <div>
+                          <h3 className="text-lg font-semibold text-gray-900">{candidate.name}</h3>
+                          {candidate.party && (
+                            <p className="text-sm text-gray-500">{candidate.party}</p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-lg font-semibold text-gray-900">{candidate.vote_count} votes</p>
+                        <p className="text-sm text-gray-500">{candidate.percentage}%</p>
+                        {candidate.proof_verified !== undefined && (
+                          candidate.proof_verified ? (
+                            <Badge variant="outline" className="mt-1 border-green-300 text-green-700">
+                              <ShieldCheck className="h-3 w-3 mr-1" />
+                              Proof verified
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="mt-1 border-red-300 text-red-700">
+                              <ShieldAlert className="h-3 w-3 mr-1" />
+                              Proof failed
+                            </Badge>
+                          )
+                        )}
+                      </div>
+                    </div>
+                    <Progress 
+                      value={candidate.percentage} 
+                      className={`h-3 ${
+                        winners.some(winner => winner.id === candidate.id) 
+                          ? 'bg-yellow-100' 
+                          : 'bg-gray-100'
+                      }`}
+                    />
+                    {index < candidates.length - 1 && <Separator className="bg-gray-100" />}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {runoff && <RunoffRounds runoff={runoff} />}
+      </div>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50 pt-20">
@@ -229,9 +460,17 @@ const Results: React.FC = () => {
                 <span>End: {formatDateTime(results.election.end_time)}</span>
               </div>
             </div>
-            <Badge className={`${electionStatus.color} text-base px-4 py-2`}>
-              {electionStatus.label}
-            </Badge>
+            <div className="flex items-center space-x-3">
+              {hasPermission('export_results') && !sealed && (
+                <Button variant="outline" onClick={handleExportResults} className="border-purple-300 text-purple-700 hover:bg-purple-50">
+                  <Download className="h-4 w-4 mr-2" />
+                  Export CSV
+                </Button>
+              )}
+              <Badge className={`${electionStatus.color} text-base px-4 py-2`}>
+                {electionStatus.label}
+              </Badge>
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -284,9 +523,9 @@ const Results: React.FC = () => {
               <CardContent className="p-6">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm font-medium text-orange-700 uppercase tracking-wide">Candidates</p>
+                    <p className="text-sm font-medium text-orange-700 uppercase tracking-wide">{referendum ? 'Options' : 'Candidates'}</p>
                     <p className="text-3xl font-bold text-orange-900">{results.candidates.length}</p>
-                    <p className="text-xs text-orange-600 mt-1">Total candidates</p>
+                    <p className="text-xs text-orange-600 mt-1">{referendum ? 'For, Against, Abstain' : 'Total candidates'}</p>
                   </div>
                   <div className="p-3 bg-orange-100 rounded-xl">
                     <Users className="h-8 w-8 text-orange-600" />
@@ -297,28 +536,64 @@ const Results: React.FC = () => {
           </div>
         </div>
 
-        {winner && winner.vote_count > 0 && (
-          <Card className="mb-8 border-2 border-yellow-200 bg-gradient-to-br from-yellow-50 to-amber-50 shadow-lg">
+        {referendum && results.totalVotes > 0 && (
+          <div className="mb-8">
+            <ReferendumResult outcome={referendum} />
+          </div>
+        )}
+
+        {sealed && (
+          <Card className="mb-8 border-2 border-purple-200 bg-purple-50 shadow-lg">
             <CardContent className="p-8">
               <div className="flex items-center justify-center space-x-6">
-                <div className="p-4 bg-yellow-100 rounded-full">
-                  <Trophy className="h-16 w-16 text-yellow-600" />
+                <div className="p-4 bg-purple-100 rounded-full">
+                  <Lock className="h-16 w-16 text-purple-600" />
                 </div>
-                <div className="text-center">
-                  <h2 className="text-3xl font-bold text-gray-900 mb-2">{winner.name}</h2>
-                  <p className="text-xl text-gray-600 mb-3">
-                    {winner.vote_count} votes ({winner.percentage}%)
-                  </p>
-                  <Badge className="text-base bg-yellow-600 text-white px-4 py-2">
-                    🏆 Winner
-                  </Badge>
+                <div>
+                  <h2 className="text-2xl font-bold text-gray-900 mb-2">Ballots Are Sealed</h2>
+                  {trusteeProgress ? (
+                    <p className="text-lg text-gray-600">
+                      {results.totalVotes} encrypted ballots were cast. They are decrypted and counted once {trusteeProgress.threshold} trustees
+                      have submitted their key shares ({trusteeProgress.submitted} so far).
+                    </p>
+                  ) : (
+                    <p className="text-lg text-gray-600">
+                      {results.totalVotes} encrypted ballots have been cast. They are decrypted and counted once the election
+                      closes on {formatDateTime(results.election.end_time)}.
+                    </p>
+                  )}
                 </div>
               </div>
             </CardContent>
           </Card>
         )}
 
-        {results.totalVotes === 0 && (
+        {invalidBallots > 0 && (
+          <Card className="mb-8 border border-orange-200 bg-orange-50">
+            <CardContent className="p-4 flex items-center space-x-3">
+              <AlertCircle className="h-5 w-5 text-orange-600 flex-shrink-0" />
+              <p className="text-sm text-gray-700">
+                {invalidBallots} {invalidBallots === 1 ? 'ballot was' : 'ballots were'} rejected at decryption because
+                {invalidBallots === 1 ? ' it did' : ' they did'} not match the ballot rules, and {invalidBallots === 1 ? 'is' : 'are'} not counted.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {homomorphic && !sealed && (
+          <Card className="mb-8 border border-green-200 bg-green-50">
+            <CardContent className="p-4 flex items-center space-x-3">
+              <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0" />
+              <p className="text-sm text-gray-700">
+                Ballots in this election were added up while still encrypted and only the totals were decrypted.
+                {' '}{results.candidates.filter(candidate => candidate.proof_verified).length} of {results.candidates.length} totals
+                carry a decryption proof that your browser checked against the election's public key.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {results.totalVotes === 0 && !sealed && (
           <Card className="mb-8 border-2 border-gray-200 bg-gray-50 shadow-lg">
             <CardContent className="p-8 text-center">
               <div className="flex items-center justify-center space-x-6">
@@ -338,61 +613,8 @@ const Results: React.FC = () => {
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
 
-          <div className="lg:col-span-2">
-            <Card className="bg-white border border-gray-200 shadow-lg">
-              <CardHeader className="pb-4">
-                <CardTitle className="text-xl text-gray-800">Election Results</CardTitle>
-                <CardDescription className="text-base text-gray-600">
-                  All candidates ranked by vote count
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="pt-0">
-                {results.candidates.length === 0 ? (
-                  <div className="text-center py-12">
-                    <Users className="h-16 w-16 text-gray-400 mx-auto mb-4" />
-                    <h3 className="text-xl font-semibold text-gray-900 mb-2">No Candidates</h3>
-                    <p className="text-gray-600 text-base">No candidates have been added to this election yet.</p>
-                  </div>
-                ) : (
-                  <div className="space-y-6">
-                    {results.candidates.map((candidate, index) => (
-                      <div key={candidate.id} className="space-y-4">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-4">
-                            <div className={`flex items-center justify-center w-10 h-10 rounded-full text-base font-semibold ${
-                              index === 0 && candidate.vote_count > 0 
-                                ? 'bg-yellow-100 text-yellow-800' 
-                                : 'bg-gray-100 text-gray-800'
-                            }`}>
-                              {index + 1}
-                            </div>
-                            <div>
-                              <h3 className="text-lg font-semibold text-gray-900">{candidate.name}</h3>
-                              {candidate.party && (
-                                <p className="text-sm text-gray-500">{candidate.party}</p>
-                              )}
-                            </div>
-                          </div>
-                          <div className="text-right">
-                            <p className="text-lg font-semibold text-gray-900">{candidate.vote_count} votes</p>
-                            <p className="text-sm text-gray-500">{candidate.percentage}%</p>
-                          </div>
-                        </div>
-                        <Progress 
-                          value={candidate.percentage} 
-                          className={`h-3 ${
-                            index === 0 && candidate.vote_count > 0 
-                              ? 'bg-yellow-100' 
-                              : 'bg-gray-100'
-                          }`}
-                        />
-                        {index < results.candidates.length - 1 && <Separator className="bg-gray-100" />}
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+          <div className="lg:col-span-2 space-y-12">
+            {contestResults.map(renderContestResults)}
           </div>
               
           <div className="space-y-6">
@@ -0,0 +1,255 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { trusteeApi, Trusteeship } from '@/lib/trusteeApi';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { KeyRound, Loader2, Copy, Download, AlertTriangle } from 'lucide-react';
+
+const Trustee: React.FC = () => {
+  const { isAuthenticated } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [loading, setLoading] = useState(true);
+  const [trusteeships, setTrusteeships] = useState<Trusteeship[]>([]);
+  const [collectedShares, setCollectedShares] = useState<Record<string, string>>({});
+  const [shareInputs, setShareInputs] = useState<Record<string, string>>({});
+  const [busyElectionId, setBusyElectionId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      navigate('/auth');
+      return;
+    }
+    loadTrusteeships();
+  }, [isAuthenticated]);
+
+  const loadTrusteeships = async () => {
+    try {
+      setLoading(true);
+      setTrusteeships(await trusteeApi.getMyTrusteeships());
+    } catch (error) {
+      console.error('Failed to load trustee elections:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your trustee elections",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCollect = async (electionId: string) => {
+    try {
+      setBusyElectionId(electionId);
+      const share = await trusteeApi.collectShare(electionId);
+      setCollectedShares(prev => ({ ...prev, [electionId]: share }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to collect key share",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyElectionId(null);
+    }
+  };
+
+  const handleAcknowledge = async (electionId: string) => {
+    try {
+      setBusyElectionId(electionId);
+      await trusteeApi.acknowledgeShare(electionId, collectedShares[electionId]);
+      toast({
+        title: "Key Share Confirmed",
+        description: "The server has deleted its copy of your share"
+      });
+      setCollectedShares(prev => {
+        const { [electionId]: _confirmed, ...rest } = prev;
+        return rest;
+      });
+      await loadTrusteeships();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to confirm key share",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyElectionId(null);
+    }
+  };
+
+  const handleSubmit = async (electionId: string) => {
+    try {
+      setBusyElectionId(electionId);
+      await trusteeApi.submitShare(electionId, shareInputs[electionId] || '');
+      toast({
+        title: "Key Share Submitted",
+        description: "Your share has been recorded for the tally"
+      });
+      setShareInputs(prev => ({ ...prev, [electionId]: '' }));
+      await loadTrusteeships();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit key share",
+        variant: "destructive"
+      });
+    } finally {
+      setBusyElectionId(null);
+    }
+  };
+
+  const downloadShare = (name: string, share: string) => {
+    const blob = new Blob([share], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-key-share.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderTrusteeship = (trusteeship: Trusteeship) => {
+    const { election } = trusteeship;
+    const ended = election.status === 'closed' || election.status === 'certified';
+    const share = collectedShares[election.id];
+    const busy = busyElectionId === election.id;
+
+    return (
+      <Card key={election.id} className="bg-white border border-gray-200 shadow-lg">
+        <CardHeader className="pb-4">
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="text-xl text-gray-900">{election.name}</CardTitle>
+              <CardDescription className="text-base text-gray-600">
+                {ended ? 'Ended' : 'Ends'} {new Date(election.end_time).toLocaleString()}
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2 justify-end">
+              <Badge variant="outline" className={trusteeship.collectedAt ? 'border-green-300 text-green-700 bg-green-50' : 'border-orange-300 text-orange-700 bg-orange-50'}>
+                {trusteeship.collectedAt ? 'Share collected' : 'Share not collected'}
+              </Badge>
+              {trusteeship.submittedAt && (
+                <Badge variant="outline" className="border-green-300 text-green-700 bg-green-50">Share submitted</Badge>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-0 space-y-4">
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm text-gray-600">
+              <span>Shares submitted</span>
+              <span>{trusteeship.submittedCount} of {trusteeship.threshold} needed</span>
+            </div>
+            <Progress value={Math.min(100, (trusteeship.submittedCount / trusteeship.threshold) * 100)} className="h-2" />
+          </div>
+
+          {share && (
+            <div className="rounded-lg border border-orange-200 bg-orange-50 p-4 space-y-3">
+              <div className="flex items-start space-x-2 text-sm text-orange-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>Save your share somewhere safe; you will need it after the election ends. Once you confirm, the server deletes its copy and the share cannot be shown again.</span>
+              </div>
+              <p className="font-mono text-xs break-all bg-white p-3 rounded border border-orange-200">{share}</p>
+              <div className="flex space-x-2">
+                <Button variant="outline" size="sm" onClick={() => navigator.clipboard.writeText(share)}>
+                  <Copy className="h-4 w-4 mr-1" />
+                  Copy
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => downloadShare(election.name, share)}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => handleAcknowledge(election.id)}
+                  disabled={busy}
+                  className="bg-purple-600 hover:bg-purple-700 text-white"
+                >
+                  {busy && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  I Have Saved It
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {!trusteeship.collectedAt && !share && (
+            <Button
+              onClick={() => handleCollect(election.id)}
+              disabled={busy}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Collect Key Share
+            </Button>
+          )}
+
+          {ended && !trusteeship.submittedAt && (
+            <div className="space-y-2">
+              <Textarea
+                value={shareInputs[election.id] || ''}
+                onChange={(e) => setShareInputs(prev => ({ ...prev, [election.id]: e.target.value }))}
+                placeholder="Paste your key share"
+                className="font-mono text-sm"
+                rows={3}
+              />
+              <Button
+                onClick={() => handleSubmit(election.id)}
+                disabled={busy || !(shareInputs[election.id] || '').trim()}
+                className="bg-purple-600 hover:bg-purple-700 text-white"
+              >
+                {busy && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Submit Key Share
+              </Button>
+            </div>
+          )}
+
+          {!ended && trusteeship.collectedAt && (
+            <p className="text-sm text-gray-600">You can submit your share here once the election ends.</p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-white to-indigo-50 pt-20">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2 flex items-center space-x-3">
+            <KeyRound className="h-8 w-8 text-purple-600" />
+            <span>Trustee Duties</span>
+          </h1>
+          <p className="text-lg text-gray-600">
+            Ballots in these elections can only be decrypted once enough trustees submit their key shares after voting ends.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-purple-600" />
+          </div>
+        ) : trusteeships.length === 0 ? (
+          <Card className="bg-white border border-gray-200 shadow-lg">
+            <CardContent className="text-center py-12">
+              <KeyRound className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-semibold text-gray-900 mb-2">No trustee duties</h3>
+              <p className="text-gray-600 text-base">You are not a trustee of any election.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          trusteeships.map(renderTrusteeship)
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Trustee;
@@ -13,9 +13,13 @@ import {
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase, votingApi } from '@/lib/supabase';
-import { electionApi } from '@/lib/electionApi';
+import { supabase, votingApi, ContestBallot as ContestBallotValue } from '@/lib/supabase';
+import { electionApi, ElectionStatus } from '@/lib/electionApi';
 import { candidateApi } from '@/lib/candidateApi';
+import { verificationApi } from '@/lib/verificationApi';
+import { RankedBallot } from '@/components/voting/RankedBallot';
+import { ApprovalBallot } from '@/components/voting/ApprovalBallot';
+import { ContestBallot } from '@/components/voting/ContestBallot';
 
 interface Election {
   id: string;
@@ -23,11 +27,21 @@ interface Election {
   start_time: string;
   end_time: string;
   is_active: boolean;
+  status: ElectionStatus;
+  voting_method?: string;
+  min_selections?: number;
+  max_selections?: number;
   candidates?: Array<{
     id: string;
     name: string;
     party: string;
     symbol: string;
+    contest_id?: string | null;
+  }>;
+  contests?: Array<{
+    id: string;
+    name: string;
+    position: number;
   }>;
 }
 
@@ -35,14 +49,18 @@ const VotePage = () => {
   const { electionId } = useParams();
   const [election, setElection] = useState<Election | null>(null);
   const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null);
+  const [ranking, setRanking] = useState<string[]>([]);
+  const [selections, setSelections] = useState<string[]>([]);
+  const [contestBallots, setContestBallots] = useState<{ [contestId: string]: ContestBallotValue }>({});
   const [loading, setLoading] = useState(true);
   const [voting, setVoting] = useState(false);
   const [hasVoted, setHasVoted] = useState(false);
+  const [isEligible, setIsEligible] = useState(true);
   const [showConfirmationDialog, setShowConfirmationDialog] = useState(false);
   
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { user, organization, userRole, isAuthenticated } = useAuth();
+  const { user, organization, userRole, isAuthenticated, hasPermission } = useAuth();
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -50,10 +68,10 @@ const VotePage = () => {
       return;
     }
 
-    if (userRole !== 'student') {
+    if (!hasPermission('cast_vote')) {
       toast({
         title: "Access Denied",
-        description: "Only students can vote in elections",
+        description: "Your role is not allowed to vote in elections",
         variant: "destructive"
       });
       navigate('/dashboard');
@@ -89,11 +107,13 @@ const VotePage = () => {
         }
       }
 
+      electionData.contests = (electionData.contests || []).sort((a, b) => a.position - b.position);
       setElection(electionData);
       
       try {
-        const hasVotedStatus = await votingApi.hasVoted(user.id, electionId);
-        setHasVoted(hasVotedStatus);
+        const [votingStatus] = await votingApi.getBulkVotingStatus(user.id, [electionId]);
+        setHasVoted(!!votingStatus?.hasVoted);
+        setIsEligible(!!votingStatus?.eligible);
       } catch (voteCheckError) {
         console.error('Failed to check voting status:', voteCheckError);
         setHasVoted(false);
@@ -112,8 +132,40 @@ const VotePage = () => {
     }
   };
 
+  const isRankedChoice = election?.voting_method === 'ranked_choice';
+  const isApproval = election?.voting_method === 'approval';
+  const isReferendum = election?.voting_method === 'referendum';
+  const minSelections = election?.min_selections || 1;
+  const maxSelections = election?.max_selections || 1;
+  const contests = election?.contests || [];
+  const hasContests = contests.length > 0;
+
+  const isBallotComplete = (ballot: { candidateId?: string | null; ranking?: string[]; selections?: string[] }) => {
+    const ballotSelections = ballot.selections || [];
+    if (isRankedChoice) return (ballot.ranking || []).length > 0;
+    if (isApproval) return ballotSelections.length >= minSelections && ballotSelections.length <= maxSelections;
+    return !!ballot.candidateId;
+  };
+
+  const hasCompleteBallot = () => {
+    if (hasContests) {
+      return contests.every(contest => contestBallots[contest.id] && isBallotComplete(contestBallots[contest.id]));
+    }
+    return isBallotComplete({ candidateId: selectedCandidate, ranking, selections });
+  };
+
+  const contestCandidates = (contestId: string) =>
+    election?.candidates?.filter(candidate => candidate.contest_id === contestId) || [];
+
+  const describeBallot = (ballot: { candidateId?: string | null; ranking?: string[]; selections?: string[] }) => {
+    const candidateName = (id: string) => election?.candidates?.find(c => c.id === id)?.name;
+    if (isRankedChoice) return (ballot.ranking || []).map((id, index) => `${index + 1}. ${candidateName(id)}`).join(', ');
+    if (isApproval) return (ballot.selections || []).map(candidateName).join(', ');
+    return candidateName(ballot.candidateId || '');
+  };
+
   const handleVote = async () => {
-    if (!selectedCandidate || !election || !user) return;
+    if (!election || !user || !hasCompleteBallot()) return;
 
     if (hasVoted) {
       toast({
@@ -127,15 +179,22 @@ const VotePage = () => {
     try {
       setVoting(true);
       
-      const voteResult = await votingApi.castVote({
-        candidateId: selectedCandidate,
+      const voteResult = await votingApi.castVote(hasContests ? {
         electionId: election.id,
-        userId: user.id
+        userId: user.id,
+        ballots: contests.map(contest => contestBallots[contest.id])
+      } : {
+        candidateId: isRankedChoice ? ranking[0] : isApproval ? selections[0] : selectedCandidate,
+        electionId: election.id,
+        userId: user.id,
+        ...(isRankedChoice ? { ranking } : {}),
+        ...(isApproval ? { selections } : {})
       });
+      verificationApi.saveReceipt(election.id, voteResult.receipt);
 
       toast({
         title: "Vote Submitted",
-        description: "Your vote has been successfully submitted"
+        description: `Your encrypted ballot has been recorded. Receipt ${voteResult.receipt.slice(0, 16)}... is saved in this browser so you can verify your ballot from your profile once the election closes.`
       });
 
       setHasVoted(true);
@@ -160,23 +219,20 @@ const VotePage = () => {
   const getElectionStatus = () => {
     if (!election) return { status: 'loading', message: 'Loading...' };
 
-    const now = new Date();
-    const startTime = new Date(election.start_time);
-    const endTime = new Date(election.end_time);
-
-    if (now < startTime) {
-      return { status: 'upcoming', message: 'Voting has not started yet' };
-    } else if (now >= startTime && now <= endTime) {
+    // The server opens and closes elections at their times, so the status
+    // is authoritative rather than this browser's clock.
+    if (election.status === 'open') {
       return { status: 'active', message: 'Voting is currently active' };
-    } else {
+    } else if (election.status === 'closed' || election.status === 'certified') {
       return { status: 'ended', message: 'Voting has ended' };
+    } else {
+      return { status: 'upcoming', message: 'Voting has not started yet' };
     }
   };
 
   const canVote = () => {
-    if (!election || hasVoted) return false;
-    const status = getElectionStatus();
-    return status.status === 'active' && election.is_active;
+    if (!election || hasVoted || !isEligible) return false;
+    return getElectionStatus().status === 'active';
   };
 
   if (loading) {
@@ -252,7 +308,7 @@ const VotePage = () => {
                 <p className="text-gray-900">{new Date(election.end_time).toLocaleDateString()}</p>
               </div>
               <div>
-                <p className="font-medium text-gray-600 mb-1">Candidates</p>
+                <p className="font-medium text-gray-600 mb-1">{isReferendum ? 'Options' : 'Candidates'}</p>
                 <p className="text-gray-900">{election.candidates?.length || 0}</p>
               </div>
               <div>
@@ -288,7 +344,7 @@ const VotePage = () => {
               </div>
               <h3 className="text-2xl font-semibold text-yellow-800 mb-3">Voting Not Available</h3>
               <p className="text-lg text-yellow-700 mb-6">
-                {electionStatus.message}
+                {isEligible ? electionStatus.message : 'You are not on the voter roll for this election'}
               </p>
               <Button onClick={() => navigate('/dashboard')} className="bg-yellow-600 hover:bg-yellow-700 h-12 px-6">
                 Back to Dashboard
@@ -300,14 +356,86 @@ const VotePage = () => {
             <Card className="mb-6 bg-white border-2 border-purple-200 shadow-lg">
               <CardHeader className="pb-4 bg-purple-50 border-b border-purple-100">
                 <CardTitle className="text-2xl text-purple-900">
-                  Select Your Candidate
+                  {hasContests ? 'Complete Your Ballot' : isReferendum ? 'Vote on the Motion' : isRankedChoice ? 'Rank the Candidates' : isApproval ? 'Select Your Candidates' : 'Select Your Candidate'}
                 </CardTitle>
                 <CardDescription className="text-lg text-purple-700">
-                  Choose your preferred candidate. You can only vote once.
+                  {hasContests
+                    ? 'This ballot has several positions. Make a choice for each one, then submit them together. You can only vote once.'
+                    : isReferendum
+                    ? 'Vote For or Against the motion, or Abstain. Abstentions count towards quorum but not towards the result. You can only vote once.'
+                    : isRankedChoice
+                    ? 'Order the candidates by preference. If your first choice is eliminated, your vote moves to your next choice.'
+                    : isApproval
+                    ? 'Choose every candidate you support, within the allowed number of choices. You can only vote once.'
+                    : 'Choose your preferred candidate. You can only vote once.'}
                 </CardDescription>
               </CardHeader>
               <CardContent className="pt-6">
-                {election.candidates && election.candidates.length > 0 ? (
+                {hasContests ? (
+                  <div className="space-y-6">
+                    {contests.map(contest => (
+                      <ContestBallot
+                        key={contest.id}
+                        name={contest.name}
+                        position={contest.position}
+                        votingMethod={election.voting_method || 'plurality'}
+                        candidates={contestCandidates(contest.id)}
+                        ballot={contestBallots[contest.id] || { contestId: contest.id }}
+                        minSelections={minSelections}
+                        maxSelections={maxSelections}
+                        onChange={ballot => setContestBallots({ ...contestBallots, [contest.id]: ballot })}
+                        disabled={voting}
+                      />
+                    ))}
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={() => setShowConfirmationDialog(true)}
+                        disabled={!hasCompleteBallot()}
+                        className="bg-purple-600 hover:bg-purple-700 h-12 px-6 text-lg font-semibold text-white"
+                      >
+                        Submit Ballot
+                      </Button>
+                    </div>
+                  </div>
+                ) : election.candidates && election.candidates.length > 0 && isRankedChoice ? (
+                  <div className="space-y-6">
+                    <RankedBallot
+                      candidates={election.candidates}
+                      ranking={ranking}
+                      onChange={setRanking}
+                      disabled={voting}
+                    />
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={() => setShowConfirmationDialog(true)}
+                        disabled={ranking.length === 0}
+                        className="bg-purple-600 hover:bg-purple-700 h-12 px-6 text-lg font-semibold text-white"
+                      >
+                        Submit Ranking
+                      </Button>
+                    </div>
+                  </div>
+                ) : election.candidates && election.candidates.length > 0 && isApproval ? (
+                  <div className="space-y-6">
+                    <ApprovalBallot
+                      candidates={election.candidates}
+                      selections={selections}
+                      minSelections={minSelections}
+                      maxSelections={maxSelections}
+                      onChange={setSelections}
+                      disabled={voting}
+                    />
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={() => setShowConfirmationDialog(true)}
+                        disabled={!hasCompleteBallot()}
+                        className="bg-purple-600 hover:bg-purple-700 h-12 px-6 text-lg font-semibold text-white"
+                      >
+                        Submit Selections
+                      </Button>
+                    </div>
+                  </div>
+                ) : election.candidates && election.candidates.length > 0 ? (
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     {election.candidates.map((candidate, index) => (
                       <Card 
@@ -397,7 +525,31 @@ const VotePage = () => {
                 Confirm Your Vote
               </DialogTitle>
               <DialogDescription className="text-lg text-green-700 pt-4">
-                You have selected: <strong className="text-xl">{election.candidates?.find(c => c.id === selectedCandidate)?.name}</strong>
+                {hasContests ? (
+                  <span className="block space-y-1">
+                    {contests.map(contest => (
+                      <span key={contest.id} className="block">
+                        {contest.name}: <strong>{describeBallot(contestBallots[contest.id] || {})}</strong>
+                      </span>
+                    ))}
+                  </span>
+                ) : isRankedChoice ? (
+                  <>
+                    Your ranking:{' '}
+                    <strong className="text-xl">
+                      {ranking.map((id, index) => `${index + 1}. ${election.candidates?.find(c => c.id === id)?.name}`).join(', ')}
+                    </strong>
+                  </>
+                ) : isApproval ? (
+                  <>
+                    You have selected:{' '}
+                    <strong className="text-xl">
+                      {selections.map(id => election.candidates?.find(c => c.id === id)?.name).join(', ')}
+                    </strong>
+                  </>
+                ) : (
+                  <>You have selected: <strong className="text-xl">{election.candidates?.find(c => c.id === selectedCandidate)?.name}</strong></>
+                )}
               </DialogDescription>
             </DialogHeader>
             <div className="py-4">
@@ -0,0 +1,11 @@
+ALTER TABLE auth_users DROP CONSTRAINT IF EXISTS auth_users_role_check;
+ALTER TABLE auth_users ADD CONSTRAINT auth_users_role_check
+    CHECK (role IN ('admin', 'election_officer', 'observer', 'candidate', 'student'));
+
+ALTER TABLE user_organizations DROP CONSTRAINT IF EXISTS user_organizations_role_check;
+ALTER TABLE user_organizations ADD CONSTRAINT user_organizations_role_check
+    CHECK (role IN ('admin', 'election_officer', 'observer', 'candidate', 'student'));
+
+ALTER TABLE access_tokens DROP CONSTRAINT IF EXISTS access_tokens_role_check;
+ALTER TABLE access_tokens ADD CONSTRAINT access_tokens_role_check
+    CHECK (role IN ('admin', 'election_officer', 'observer', 'candidate', 'student'));
@@ -0,0 +1,5 @@
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS voting_method TEXT NOT NULL DEFAULT 'plurality'
+    CHECK (voting_method IN ('plurality', 'ranked_choice'));
+
+-- Full preference order for ranked-choice ballots; candidate_id keeps the first preference.
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS ranking UUID[];
@@ -0,0 +1,12 @@
+ALTER TABLE elections DROP CONSTRAINT IF EXISTS elections_voting_method_check;
+ALTER TABLE elections ADD CONSTRAINT elections_voting_method_check
+    CHECK (voting_method IN ('plurality', 'ranked_choice', 'approval'));
+
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1 CHECK (seats >= 1);
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS min_selections INTEGER NOT NULL DEFAULT 1 CHECK (min_selections >= 1);
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS max_selections INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE elections ADD CONSTRAINT elections_selection_range_check
+    CHECK (max_selections >= min_selections);
+
+-- Every candidate an approval ballot selects; candidate_id keeps the first one.
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS selections UUID[];
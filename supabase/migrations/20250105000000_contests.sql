@@ -0,0 +1,32 @@
+CREATE TABLE IF NOT EXISTS contests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contests_election_id ON contests(election_id);
+
+ALTER TABLE contests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "contests_service_manage" ON contests
+    FOR ALL TO service_role
+    USING (true);
+
+CREATE POLICY "contests_read_org" ON contests
+    FOR SELECT TO authenticated
+    USING (election_id IN (
+        SELECT e.id FROM elections e
+        JOIN user_organizations uo ON e.organization_id = uo.organization_id
+        WHERE uo.user_id = current_setting('app.user_id')::uuid
+    ));
+
+-- Elections without contests keep a single flat candidate list (contest_id NULL).
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS contest_id UUID REFERENCES contests(id) ON DELETE CASCADE;
+ALTER TABLE votes ADD COLUMN IF NOT EXISTS contest_id UUID REFERENCES contests(id) ON DELETE CASCADE;
+
+-- One vote row per contest instead of one per election.
+ALTER TABLE votes DROP CONSTRAINT IF EXISTS votes_user_id_election_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS votes_user_election_contest_key
+    ON votes (user_id, election_id, COALESCE(contest_id, '00000000-0000-0000-0000-000000000000'::UUID));
@@ -0,0 +1,13 @@
+ALTER TABLE elections DROP CONSTRAINT IF EXISTS elections_voting_method_check;
+ALTER TABLE elections ADD CONSTRAINT elections_voting_method_check
+    CHECK (voting_method IN ('plurality', 'ranked_choice', 'approval', 'referendum'));
+
+-- Share of eligible voters who must cast a ballot (abstentions included); NULL means no quorum.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS quorum_percent INTEGER
+    CHECK (quorum_percent BETWEEN 1 AND 100);
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS pass_threshold TEXT NOT NULL DEFAULT 'simple'
+    CHECK (pass_threshold IN ('simple', 'three_fifths', 'two_thirds', 'three_quarters'));
+
+-- Marks the fixed For/Against/Abstain candidates of a referendum ballot.
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS ballot_option TEXT
+    CHECK (ballot_option IN ('for', 'against', 'abstain'));
@@ -0,0 +1,29 @@
+-- Per-election ballot key pair. The private key is wrapped with the server's
+-- BALLOT_KEY_SECRET and only the API (service role) may read this table.
+CREATE TABLE IF NOT EXISTS election_keys (
+    election_id UUID PRIMARY KEY REFERENCES elections(id) ON DELETE CASCADE,
+    public_key TEXT NOT NULL,
+    encrypted_private_key TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE election_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "election_keys_service_manage" ON election_keys;
+CREATE POLICY "election_keys_service_manage" ON election_keys
+    FOR ALL TO service_role
+    USING (true);
+
+-- Encrypted ballots carry no reference to the voter who cast them.
+DROP POLICY IF EXISTS "encrypted_votes_read_own" ON encrypted_votes;
+DROP POLICY IF EXISTS "encrypted_votes_insert_own" ON encrypted_votes;
+DROP POLICY IF EXISTS "zk_proofs_read_own" ON zk_proofs;
+DROP POLICY IF EXISTS "zk_proofs_insert_own" ON zk_proofs;
+ALTER TABLE encrypted_votes DROP COLUMN IF EXISTS voter_id;
+
+ALTER TABLE encrypted_votes ADD COLUMN IF NOT EXISTS ballot_hash TEXT;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_encrypted_votes_ballot_hash ON encrypted_votes(ballot_hash);
+
+-- votes now only records who has voted; choices live in encrypted_votes.
+-- Rows cast before this migration keep their plaintext candidate_id.
+ALTER TABLE votes ALTER COLUMN candidate_id DROP NOT NULL;
@@ -0,0 +1,11 @@
+-- Inclusion proofs are published per ballot receipt once an election closes,
+-- so they must not record which voter the ballot belongs to.
+DROP POLICY IF EXISTS "vote_verifications_read_own" ON vote_verifications;
+DROP POLICY IF EXISTS "vote_verifications_insert_own" ON vote_verifications;
+DROP INDEX IF EXISTS idx_vote_verifications_voter;
+ALTER TABLE vote_verifications DROP COLUMN IF EXISTS voter_id;
+
+-- One published proof per ballot.
+DROP INDEX IF EXISTS idx_vote_verifications_vote;
+CREATE UNIQUE INDEX idx_vote_verifications_vote ON vote_verifications(vote_id);
+CREATE INDEX IF NOT EXISTS idx_vote_verifications_receipt ON vote_verifications(election_id, verification_hash);
@@ -0,0 +1,31 @@
+-- Trustee elections lock their ballot key behind a k-of-n key ceremony.
+-- Elections without a threshold keep the single server-held key.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS trustee_threshold INTEGER
+    CHECK (trustee_threshold >= 2);
+
+-- One row per trustee. The share is held (wrapped with BALLOT_KEY_SECRET) only
+-- until the trustee collects it; afterwards only its hash remains so a later
+-- submission can be checked. Submitted shares are kept for the tally.
+CREATE TABLE IF NOT EXISTS election_trustees (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+    share_index INTEGER NOT NULL,
+    share_hash TEXT NOT NULL,
+    pending_share TEXT,
+    collected_at TIMESTAMPTZ,
+    submitted_share TEXT,
+    submitted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    UNIQUE(election_id, user_id),
+    UNIQUE(election_id, share_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_election_trustees_user ON election_trustees(user_id);
+
+ALTER TABLE election_trustees ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "election_trustees_service_manage" ON election_trustees;
+CREATE POLICY "election_trustees_service_manage" ON election_trustees
+    FOR ALL TO service_role
+    USING (true);
@@ -0,0 +1,8 @@
+-- Homomorphic elections encrypt each choice with exponential ElGamal and only
+-- decrypt per-candidate totals, so individual ballots are never opened.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS tally_mode TEXT NOT NULL DEFAULT 'decrypt'
+    CHECK (tally_mode IN ('decrypt', 'homomorphic'));
+
+ALTER TABLE elections DROP CONSTRAINT IF EXISTS elections_homomorphic_method_check;
+ALTER TABLE elections ADD CONSTRAINT elections_homomorphic_method_check
+    CHECK (tally_mode <> 'homomorphic' OR voting_method <> 'ranked_choice');
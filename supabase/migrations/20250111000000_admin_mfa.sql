@@ -0,0 +1,24 @@
+-- TOTP enrollment per user. The secret is sealed with BALLOT_KEY_SECRET and
+-- recovery codes are stored as SHA-256 hashes. Kept out of auth_users, which
+-- anon can read, and only reachable through the service role.
+CREATE TABLE IF NOT EXISTS user_mfa (
+    user_id UUID PRIMARY KEY REFERENCES auth_users(id) ON DELETE CASCADE,
+    secret TEXT NOT NULL,
+    enabled_at TIMESTAMPTZ,
+    recovery_codes TEXT[] NOT NULL DEFAULT '{}',
+    last_used_step BIGINT,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_mfa ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "user_mfa_service_manage" ON user_mfa;
+CREATE POLICY "user_mfa_service_manage" ON user_mfa
+    FOR ALL TO service_role
+    USING (true);
+
+-- mfa_tokens holds short-lived, single-use challenges: 'login' after a correct
+-- password, or a step-up action such as 'delete_election' after a fresh code.
+-- Only the SHA-256 hash of each token is stored.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mfa_tokens_token ON mfa_tokens(token);
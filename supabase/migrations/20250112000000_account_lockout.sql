@@ -0,0 +1,23 @@
+-- Failed logins lock an account for progressively longer (locked_until) and,
+-- past a hard limit, until an admin unlocks it (is_locked).
+ALTER TABLE auth_users ADD COLUMN IF NOT EXISTS locked_until TIMESTAMPTZ;
+
+-- Counts a failed login atomically so parallel guesses cannot share a count.
+CREATE OR REPLACE FUNCTION record_failed_login(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    attempts INTEGER;
+BEGIN
+    UPDATE auth_users
+    SET login_attempts = COALESCE(login_attempts, 0) + 1,
+        updated_at = NOW()
+    WHERE id = p_user_id
+    RETURNING login_attempts INTO attempts;
+
+    RETURN attempts;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Anyone able to call this could lock other people out.
+REVOKE EXECUTE ON FUNCTION record_failed_login(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_failed_login(UUID) TO service_role;
@@ -0,0 +1,5 @@
+-- Sessions slide forward while in use (POST /api/sessions/refresh), so record
+-- when each was last seen for the devices list.
+ALTER TABLE user_sessions ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_active ON user_sessions(user_id, is_active);
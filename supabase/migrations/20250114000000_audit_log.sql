@@ -0,0 +1,50 @@
+-- Routers record audit events through the service role with the caller's IP
+-- and user agent. The original four-argument log_audit_event reads them from
+-- the database connection, which is the API server rather than the client.
+CREATE OR REPLACE FUNCTION log_audit_event(
+    p_organization_id UUID,
+    p_user_id UUID,
+    p_action TEXT,
+    p_details JSONB,
+    p_ip_address INET,
+    p_user_agent TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    entry_id UUID;
+BEGIN
+    INSERT INTO audit_logs (
+        organization_id,
+        user_id,
+        action,
+        details,
+        ip_address,
+        user_agent
+    ) VALUES (
+        p_organization_id,
+        p_user_id,
+        p_action,
+        COALESCE(p_details, '{}'::jsonb),
+        p_ip_address,
+        p_user_agent
+    )
+    RETURNING id INTO entry_id;
+
+    RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION log_audit_event(UUID, UUID, TEXT, JSONB, INET, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION log_audit_event(UUID, UUID, TEXT, JSONB, INET, TEXT) TO service_role;
+
+-- Entries are written only by the server; clients could otherwise forge them.
+DROP POLICY IF EXISTS "audit_logs_insert" ON audit_logs;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_org_created ON audit_logs(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(organization_id, action);
+
+-- Removing a user must not remove the record of what they did.
+ALTER TABLE audit_logs DROP CONSTRAINT IF EXISTS audit_logs_user_id_fkey;
+ALTER TABLE audit_logs
+    ADD CONSTRAINT audit_logs_user_id_fkey
+    FOREIGN KEY (user_id) REFERENCES auth_users(id) ON DELETE SET NULL;
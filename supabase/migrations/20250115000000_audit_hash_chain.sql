@@ -0,0 +1,213 @@
+-- Audit entries form one hash chain per organization: each entry stores its
+-- position (sequence), the hash of the entry before it (prev_hash) and its own
+-- hash (entry_hash), so editing, deleting or reordering entries breaks the
+-- chain. actor_id keeps the user id that was hashed, because user_id is
+-- cleared when the user is removed.
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS actor_id UUID;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS sequence BIGINT;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS prev_hash TEXT;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS entry_hash TEXT;
+
+-- Fields are length-prefixed so no value can run into the next one.
+CREATE OR REPLACE FUNCTION audit_hash_field(p_value TEXT)
+RETURNS TEXT AS $$
+    SELECT octet_length(COALESCE(p_value, ''))::TEXT || ':' || COALESCE(p_value, '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- The server repeats this when it verifies a chain (server/lib/auditChain.ts),
+-- so any change here must be mirrored there. Timestamps are hashed as epoch
+-- milliseconds, which is why entries are stored at millisecond precision, and
+-- addresses without their netmask, which is how the API returns them.
+CREATE OR REPLACE FUNCTION audit_entry_hash(
+    p_prev_hash TEXT,
+    p_sequence BIGINT,
+    p_organization_id UUID,
+    p_actor_id UUID,
+    p_action TEXT,
+    p_details JSONB,
+    p_ip_address INET,
+    p_user_agent TEXT,
+    p_created_at TIMESTAMPTZ
+)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(
+        audit_hash_field(p_prev_hash) ||
+        audit_hash_field(p_sequence::TEXT) ||
+        audit_hash_field(p_organization_id::TEXT) ||
+        audit_hash_field(p_actor_id::TEXT) ||
+        audit_hash_field(p_action) ||
+        audit_hash_field(p_details::TEXT) ||
+        audit_hash_field(host(p_ip_address)) ||
+        audit_hash_field(p_user_agent) ||
+        audit_hash_field((EXTRACT(EPOCH FROM p_created_at) * 1000)::BIGINT::TEXT),
+        'UTF8'
+    )), 'hex');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Chain the entries written before this migration, oldest first.
+DO $$
+DECLARE
+    entry RECORD;
+    current_org UUID;
+    started BOOLEAN := FALSE;
+    next_sequence BIGINT;
+    previous_hash TEXT;
+    entry_time TIMESTAMPTZ;
+BEGIN
+    FOR entry IN
+        SELECT * FROM audit_logs
+        ORDER BY organization_id NULLS FIRST, created_at, id
+    LOOP
+        IF NOT started OR entry.organization_id IS DISTINCT FROM current_org THEN
+            current_org := entry.organization_id;
+            started := TRUE;
+            next_sequence := 0;
+            previous_hash := repeat('0', 64);
+        END IF;
+
+        next_sequence := next_sequence + 1;
+        entry_time := date_trunc('milliseconds', COALESCE(entry.created_at, NOW()));
+
+        UPDATE audit_logs
+        SET actor_id = entry.user_id,
+            details = COALESCE(entry.details, '{}'::jsonb),
+            created_at = entry_time,
+            sequence = next_sequence,
+            prev_hash = previous_hash,
+            entry_hash = audit_entry_hash(
+                previous_hash,
+                next_sequence,
+                entry.organization_id,
+                entry.user_id,
+                entry.action,
+                COALESCE(entry.details, '{}'::jsonb),
+                entry.ip_address,
+                entry.user_agent,
+                entry_time
+            )
+        WHERE id = entry.id
+        RETURNING entry_hash INTO previous_hash;
+    END LOOP;
+END $$;
+
+ALTER TABLE audit_logs ALTER COLUMN details SET NOT NULL;
+ALTER TABLE audit_logs ALTER COLUMN created_at SET NOT NULL;
+ALTER TABLE audit_logs ALTER COLUMN sequence SET NOT NULL;
+ALTER TABLE audit_logs ALTER COLUMN prev_hash SET NOT NULL;
+ALTER TABLE audit_logs ALTER COLUMN entry_hash SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_org_sequence ON audit_logs(organization_id, sequence);
+
+-- Appends to the organization's chain. The advisory lock serialises writers
+-- per organization so two entries can never claim the same predecessor.
+CREATE OR REPLACE FUNCTION log_audit_event(
+    p_organization_id UUID,
+    p_user_id UUID,
+    p_action TEXT,
+    p_details JSONB,
+    p_ip_address INET,
+    p_user_agent TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+    entry_id UUID;
+    head_sequence BIGINT;
+    head_hash TEXT;
+    entry_details JSONB := COALESCE(p_details, '{}'::jsonb);
+    entry_time TIMESTAMPTZ := date_trunc('milliseconds', clock_timestamp());
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtextextended('audit_logs:' || COALESCE(p_organization_id::TEXT, ''), 0));
+
+    SELECT sequence, entry_hash INTO head_sequence, head_hash
+    FROM audit_logs
+    WHERE organization_id IS NOT DISTINCT FROM p_organization_id
+    ORDER BY sequence DESC
+    LIMIT 1;
+
+    head_sequence := COALESCE(head_sequence, 0) + 1;
+    head_hash := COALESCE(head_hash, repeat('0', 64));
+
+    INSERT INTO audit_logs (
+        organization_id,
+        user_id,
+        actor_id,
+        action,
+        details,
+        ip_address,
+        user_agent,
+        created_at,
+        sequence,
+        prev_hash,
+        entry_hash
+    ) VALUES (
+        p_organization_id,
+        p_user_id,
+        p_user_id,
+        p_action,
+        entry_details,
+        p_ip_address,
+        p_user_agent,
+        entry_time,
+        head_sequence,
+        head_hash,
+        audit_entry_hash(
+            head_hash,
+            head_sequence,
+            p_organization_id,
+            p_user_id,
+            p_action,
+            entry_details,
+            p_ip_address,
+            p_user_agent,
+            entry_time
+        )
+    )
+    RETURNING id INTO entry_id;
+
+    RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION log_audit_event(UUID, UUID, TEXT, JSONB, INET, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION log_audit_event(UUID, UUID, TEXT, JSONB, INET, TEXT) TO service_role;
+
+-- The session functions still log through the original four-argument helper,
+-- which must append to the chain like every other writer.
+CREATE OR REPLACE FUNCTION log_audit_event(
+    p_organization_id UUID,
+    p_user_id UUID,
+    p_action TEXT,
+    p_details JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM log_audit_event(
+        p_organization_id,
+        p_user_id,
+        p_action,
+        p_details,
+        inet_client_addr(),
+        current_setting('request.headers', true)::jsonb->>'user-agent'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Signed snapshots of each chain head. Once exported, a checkpoint proves what
+-- the chain looked like at that point even if the whole chain is later
+-- rewritten, because only the server holds AUDIT_SIGNING_KEY.
+CREATE TABLE IF NOT EXISTS audit_checkpoints (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    sequence BIGINT NOT NULL,
+    head_hash TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(organization_id, sequence)
+);
+
+ALTER TABLE audit_checkpoints ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "audit_checkpoints_service_manage" ON audit_checkpoints;
+CREATE POLICY "audit_checkpoints_service_manage" ON audit_checkpoints
+    FOR ALL TO service_role
+    USING (true);
@@ -0,0 +1,88 @@
+-- Elections follow an explicit lifecycle instead of an is_active flag that
+-- could be toggled mid-vote: draft → scheduled → open → closed → certified.
+-- Transitions are enforced by the API (server/lib/lifecycle.ts); is_active is
+-- kept in step with the status for existing queries.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'open', 'closed', 'certified'));
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS certified_at TIMESTAMPTZ;
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS certified_by UUID REFERENCES auth_users(id) ON DELETE SET NULL;
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS certified_results JSONB;
+
+-- Existing elections take the state their flag and voting window imply.
+UPDATE elections
+SET status = CASE
+    WHEN end_time <= NOW() THEN 'closed'
+    WHEN NOT COALESCE(is_active, FALSE) THEN 'draft'
+    WHEN start_time <= NOW() THEN 'open'
+    ELSE 'scheduled'
+END;
+
+UPDATE elections SET is_active = (status <> 'draft');
+
+CREATE INDEX IF NOT EXISTS idx_elections_org_status ON elections(organization_id, status);
+
+-- A certified election and everything its results are computed from can no
+-- longer change. The one exception is the results snapshot, which is stored
+-- once on the first read after certification. Cascading deletes (removing the
+-- whole organization) are still allowed.
+CREATE OR REPLACE FUNCTION prevent_certified_election_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 OR OLD.status <> 'certified' THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND OLD.certified_results IS NULL
+       AND NEW.certified_results IS NOT NULL
+       AND to_jsonb(NEW) - 'certified_results' - 'updated_at' = to_jsonb(OLD) - 'certified_results' - 'updated_at' THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Election % is certified and cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS elections_certified_freeze ON elections;
+CREATE TRIGGER elections_certified_freeze
+    BEFORE UPDATE OR DELETE ON elections
+    FOR EACH ROW EXECUTE FUNCTION prevent_certified_election_changes();
+
+CREATE OR REPLACE FUNCTION prevent_certified_ballot_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    affected UUID[] := ARRAY[]::UUID[];
+BEGIN
+    IF pg_trigger_depth() > 1 THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        affected := affected || OLD.election_id;
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        affected := affected || NEW.election_id;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM elections WHERE id = ANY(affected) AND status = 'certified') THEN
+        RAISE EXCEPTION '% belong to a certified election and cannot be changed', TG_TABLE_NAME;
+    END IF;
+
+    RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+DECLARE
+    frozen_table TEXT;
+BEGIN
+    FOREACH frozen_table IN ARRAY ARRAY['candidates', 'contests', 'votes', 'encrypted_votes', 'zk_proofs', 'election_keys']
+    LOOP
+        EXECUTE format('DROP TRIGGER IF EXISTS %I ON %I', frozen_table || '_certified_freeze', frozen_table);
+        EXECUTE format(
+            'CREATE TRIGGER %I BEFORE INSERT OR UPDATE OR DELETE ON %I FOR EACH ROW EXECUTE FUNCTION prevent_certified_ballot_changes()',
+            frozen_table || '_certified_freeze',
+            frozen_table
+        );
+    END LOOP;
+END $$;
@@ -0,0 +1,38 @@
+-- The server's job runner (server/lib/electionJobs.ts) opens and closes
+-- elections at their times and emails voters along the way. Each notice is
+-- claimed by stamping its column first, so it goes out at most once even with
+-- several server instances running.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS opening_notified_at TIMESTAMPTZ;
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS closing_reminder_sent_at TIMESTAMPTZ;
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS results_published_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_elections_status_start ON elections(status, start_time);
+CREATE INDEX IF NOT EXISTS idx_elections_status_end ON elections(status, end_time);
+
+-- Results of a trustee election may only become available after it has been
+-- certified, so results_published_at joins certified_results as a column that
+-- can be filled in once on a frozen election.
+CREATE OR REPLACE FUNCTION prevent_certified_election_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 OR OLD.status <> 'certified' THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND (OLD.certified_results IS NULL OR NEW.certified_results IS NOT DISTINCT FROM OLD.certified_results)
+       AND (OLD.results_published_at IS NULL OR NEW.results_published_at IS NOT DISTINCT FROM OLD.results_published_at)
+       AND to_jsonb(NEW) - 'certified_results' - 'results_published_at' - 'updated_at'
+           = to_jsonb(OLD) - 'certified_results' - 'results_published_at' - 'updated_at' THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Election % is certified and cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Elections that were already running or finished should not trigger a burst
+-- of notices when the job runner first starts.
+UPDATE elections SET opening_notified_at = NOW() WHERE status IN ('open', 'closed');
+UPDATE elections SET closing_reminder_sent_at = NOW() WHERE status = 'closed';
+UPDATE elections SET results_published_at = NOW() WHERE status IN ('closed', 'certified');
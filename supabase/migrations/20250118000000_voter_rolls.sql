@@ -0,0 +1,30 @@
+-- Each election has a voter roll. 'all' admits every active member with a
+-- voting role; 'list' admits only the members included on the roll. Excluded
+-- members are never eligible, whatever the mode. Rules live in
+-- server/lib/voterRoll.ts.
+ALTER TABLE elections ADD COLUMN IF NOT EXISTS voter_roll TEXT NOT NULL DEFAULT 'all'
+    CHECK (voter_roll IN ('all', 'list'));
+
+CREATE TABLE IF NOT EXISTS election_roll_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('include', 'exclude')),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE(election_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_election_roll_entries_user ON election_roll_entries(user_id);
+
+ALTER TABLE election_roll_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "election_roll_entries_service_manage" ON election_roll_entries;
+CREATE POLICY "election_roll_entries_service_manage" ON election_roll_entries
+    FOR ALL TO service_role
+    USING (true);
+
+-- The roll is part of what a certified result was computed from.
+DROP TRIGGER IF EXISTS election_roll_entries_certified_freeze ON election_roll_entries;
+CREATE TRIGGER election_roll_entries_certified_freeze
+    BEFORE INSERT OR UPDATE OR DELETE ON election_roll_entries
+    FOR EACH ROW EXECUTE FUNCTION prevent_certified_ballot_changes();
@@ -0,0 +1,60 @@
+-- Member groups tag members with attributes such as department, year or
+-- section. Each group belongs to a category, and a member can be in any number
+-- of groups. Invitations carry the groups their member joins on registration.
+CREATE TABLE IF NOT EXISTS member_groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+    category TEXT NOT NULL CHECK (char_length(category) BETWEEN 1 AND 50),
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_member_groups_org_category_name
+    ON member_groups(organization_id, lower(category), lower(name));
+
+CREATE TABLE IF NOT EXISTS member_group_memberships (
+    group_id UUID NOT NULL REFERENCES member_groups(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth_users(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (group_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_member_group_memberships_user ON member_group_memberships(user_id);
+
+ALTER TABLE student_invitations ADD COLUMN IF NOT EXISTS group_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Voter rolls can admit members by group: a member must be in one of the
+-- selected groups of every category the roll selects from.
+ALTER TABLE elections DROP CONSTRAINT IF EXISTS elections_voter_roll_check;
+ALTER TABLE elections ADD CONSTRAINT elections_voter_roll_check
+    CHECK (voter_roll IN ('all', 'list', 'groups'));
+
+CREATE TABLE IF NOT EXISTS election_roll_groups (
+    election_id UUID NOT NULL REFERENCES elections(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES member_groups(id) ON DELETE CASCADE,
+    PRIMARY KEY (election_id, group_id)
+);
+
+ALTER TABLE member_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE member_group_memberships ENABLE ROW LEVEL SECURITY;
+ALTER TABLE election_roll_groups ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "member_groups_service_manage" ON member_groups;
+CREATE POLICY "member_groups_service_manage" ON member_groups
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "member_group_memberships_service_manage" ON member_group_memberships;
+CREATE POLICY "member_group_memberships_service_manage" ON member_group_memberships
+    FOR ALL TO service_role
+    USING (true);
+
+DROP POLICY IF EXISTS "election_roll_groups_service_manage" ON election_roll_groups;
+CREATE POLICY "election_roll_groups_service_manage" ON election_roll_groups
+    FOR ALL TO service_role
+    USING (true);
+
+DROP TRIGGER IF EXISTS election_roll_groups_certified_freeze ON election_roll_groups;
+CREATE TRIGGER election_roll_groups_certified_freeze
+    BEFORE INSERT OR UPDATE OR DELETE ON election_roll_groups
+    FOR EACH ROW EXECUTE FUNCTION prevent_certified_ballot_changes();
@@ -0,0 +1,52 @@
+-- Access tokens become join codes: short codes that anyone holding them can
+-- use to register, up to usage_limit times until expires_at. A code issued
+-- for an election also puts each new member on that election's voter list.
+ALTER TABLE access_tokens DROP CONSTRAINT IF EXISTS access_tokens_election_id_fkey;
+ALTER TABLE access_tokens ADD CONSTRAINT access_tokens_election_id_fkey
+    FOREIGN KEY (election_id) REFERENCES elections(id) ON DELETE CASCADE;
+
+ALTER TABLE access_tokens DROP CONSTRAINT IF EXISTS access_tokens_usage_limit_check;
+ALTER TABLE access_tokens ADD CONSTRAINT access_tokens_usage_limit_check
+    CHECK (usage_limit >= 1 AND used_count >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_access_tokens_election ON access_tokens(election_id);
+
+-- Codes are checked by the server; anonymous clients must not be able to
+-- list them.
+DROP POLICY IF EXISTS "access_tokens_validate" ON access_tokens;
+
+-- Takes one use of a code if it is still active, unexpired and under its
+-- limit. Concurrent registrations cannot overshoot the limit.
+CREATE OR REPLACE FUNCTION claim_access_token(p_token TEXT)
+RETURNS TABLE(
+    token_id UUID,
+    organization_id UUID,
+    role TEXT,
+    election_id UUID
+) AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE access_tokens at
+    SET used_count = at.used_count + 1
+    WHERE at.token = p_token
+      AND at.is_active = true
+      AND at.expires_at > NOW()
+      AND at.used_count < at.usage_limit
+    RETURNING at.id, at.organization_id, at.role, at.election_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives back a use taken by a registration that did not complete.
+CREATE OR REPLACE FUNCTION release_access_token(p_token_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    UPDATE access_tokens
+    SET used_count = GREATEST(used_count - 1, 0)
+    WHERE id = p_token_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION claim_access_token(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_access_token(TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION release_access_token(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_access_token(UUID) TO service_role;
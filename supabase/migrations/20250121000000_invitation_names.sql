@@ -0,0 +1,4 @@
+-- Names imported with a roster are kept on the invitation and offered when
+-- the member registers.
+ALTER TABLE student_invitations ADD COLUMN IF NOT EXISTS name TEXT
+    CHECK (name IS NULL OR char_length(name) <= 100);
@@ -0,0 +1,8 @@
+-- Revoked invitations are kept, rather than deleted, so the list shows what
+-- happened to them. Revoking also expires the invitation, so every check on
+-- expiry already refuses it; resending clears the revocation.
+ALTER TABLE student_invitations ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;
+
+-- The invitation list is filtered by status within an organization.
+CREATE INDEX IF NOT EXISTS idx_student_invitations_org_status
+    ON student_invitations(organization_id, is_used, expires_at);
@@ -0,0 +1,6 @@
+-- Ballots were signed with a key pair generated alongside them, which anyone
+-- altering a ballot could have done too. They are no longer signed; a voter
+-- checks their ballot by its hash on the bulletin board instead.
+ALTER TABLE encrypted_votes ALTER COLUMN signature DROP NOT NULL;
+ALTER TABLE encrypted_votes ALTER COLUMN public_key DROP NOT NULL;
+ALTER TABLE vote_verifications ALTER COLUMN signature DROP NOT NULL;
@@ -0,0 +1,20 @@
+-- The results snapshot is now written by the same update that certifies an
+-- election, so a certified election no longer accepts one later on. Only
+-- results_published_at may still be filled in once.
+CREATE OR REPLACE FUNCTION prevent_certified_election_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF pg_trigger_depth() > 1 OR OLD.status <> 'certified' THEN
+        RETURN COALESCE(NEW, OLD);
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND (OLD.results_published_at IS NULL OR NEW.results_published_at IS NOT DISTINCT FROM OLD.results_published_at)
+       AND to_jsonb(NEW) - 'results_published_at' - 'updated_at'
+           = to_jsonb(OLD) - 'results_published_at' - 'updated_at' THEN
+        RETURN NEW;
+    END IF;
+
+    RAISE EXCEPTION 'Election % is certified and cannot be changed', OLD.id;
+END;
+$$ LANGUAGE plpgsql;
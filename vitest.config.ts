@@ -9,7 +9,7 @@ export default defineConfig({
     globals: true,
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
-    include: ['./src/**/*.{test,spec}.{ts,tsx}'],
+    include: ['./src/**/*.{test,spec}.{ts,tsx}', './server/**/*.test.ts'],
     coverage: {
       reporter: ['text', 'json', 'html'],
       exclude: [